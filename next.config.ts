@@ -1,5 +1,7 @@
 import type { NextConfig } from "next";
 
+import { IMAGE_VARIANT_WIDTHS } from "./src/lib/image-variants";
+
 const nextConfig: NextConfig = {
   // SEO optimizations
   compress: true,
@@ -8,7 +10,8 @@ const nextConfig: NextConfig = {
   // Image optimization
   images: {
     formats: ['image/avif', 'image/webp'],
-    deviceSizes: [640, 750, 828, 1080, 1200, 1920, 2048, 3840],
+    // Shared with the widths /api/upload generates variants at
+    deviceSizes: IMAGE_VARIANT_WIDTHS,
     imageSizes: [16, 32, 48, 64, 96, 128, 256, 384],
     minimumCacheTTL: 60,
     qualities: [75, 85],
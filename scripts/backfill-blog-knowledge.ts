@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+/**
+ * Blog Knowledge Backfill
+ * 
+ * Indexes every published blog post into the assistant's blog namespace
+ * (BLOG_NAMESPACE, default "blog") and removes chunks of posts that are no
+ * longer published. Posts saved from the dashboard editor are synced
+ * automatically; this catches up on posts written before that, or after the
+ * namespace was cleared. Safe to re-run: unchanged chunks are not re-embedded.
+ * 
+ * Usage:
+ *   pnpm run backfill-blog-knowledge
+ */
+
+// Must come first: modules below read their configuration when imported
+import './load-env';
+import { getBlogNamespace } from '../src/app/utils/assistant-namespaces';
+import { backfillBlogPosts } from '../src/app/utils/blog-knowledge';
+import { getVectorStore } from '../src/app/utils/vector-store';
+
+async function main() {
+  const namespace = getBlogNamespace();
+  console.log(`📰 Backfilling published posts into ${getVectorStore().name} namespace "${namespace}"...\n`);
+
+  try {
+    const results = await backfillBlogPosts();
+    const indexed = results.filter((r) => r.status === 'indexed');
+    const removed = results.filter((r) => r.status === 'removed');
+
+    console.log('\n' + '='.repeat(70));
+    console.log('✅ BACKFILL COMPLETE!');
+    console.log('='.repeat(70));
+    console.log(`   Posts indexed: ${indexed.length}`);
+    console.log(`   Chunks added: ${indexed.reduce((sum, r) => sum + r.added, 0)}`);
+    console.log(`   Chunks unchanged: ${indexed.reduce((sum, r) => sum + r.unchanged, 0)}`);
+    console.log(`   Stale chunks removed: ${results.reduce((sum, r) => sum + r.removed, 0)}`);
+    console.log(`   Unpublished posts removed: ${removed.length}`);
+    console.log('='.repeat(70));
+  } catch (error: any) {
+    console.error('\n❌ Error:', error.message);
+    console.error(error.stack);
+    process.exit(1);
+  }
+}
+
+main();
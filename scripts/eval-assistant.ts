@@ -0,0 +1,483 @@
+#!/usr/bin/env tsx
+/**
+ * Assistant Retrieval Eval
+ *
+ * Runs a golden set of questions through the assistant's retrieval, offline,
+ * and reports how well it finds what each answer needs: recall@k, MRR, and how
+ * much of the expected material survives the token budget into the model's
+ * context. With --generate, answers are also generated with the configured chat
+ * provider (LLM_PROVIDER=fake, or openai-compatible with LLM_BASE_URL pointing
+ * at a local model) and checked for the expected facts.
+ *
+ * Golden set: JSON Lines, or a JSON array, one question per entry:
+ *   {"id": "founders", "question": "Who built Sequence3?",
+ *    "expectedSources": ["sq3.txt"], "expectedChunkIds": [], "expectedFacts": ["Tharuka Karunanayaka"]}
+ * Every expected chunk id, source and fact is a target. A retrieved chunk hits a
+ * target when its id matches, its source (file name or post title) matches, or
+ * its text contains the fact. recall@k is the share of targets hit in the top k
+ * chunks; MRR uses the rank of the first chunk that hits any target.
+ *
+ * Usage:
+ *   pnpm run eval-assistant [options] [golden-file]
+ *
+ *   golden-file         defaults to scripts/assistant-golden.jsonl
+ *   --k=1,3,5,10        cutoffs for recall@k
+ *   --namespace=<ns>    namespace to search, repeatable (default: the same as /api/chat)
+ *   --citations         assemble numbered context, as for citation requests
+ *   --generate          generate answers and check them for the expected facts
+ *   --out=<file>        write the full report as JSON
+ *   --baseline=<file>   compare with a report written earlier with --out
+ *   --fail-under=<n>    exit with an error when mean recall at the largest k is below n
+ *   --verbose           keep the retrieval logging
+ */
+
+// Must come first: modules below read their configuration when imported
+import './load-env';
+import * as fs from 'fs';
+import * as path from 'path';
+import { assembleContext, retrieveMatches, type RetrievalLogger } from '../src/app/utils/context';
+import { buildSystemPrompt } from '../src/app/utils/assistant-prompt';
+import { getAssistantNamespaces } from '../src/app/utils/assistant-namespaces';
+import { getChatModelConfig, getChatProvider, getEmbeddingProvider } from '../src/app/utils/llm';
+import { hasKeywordIndex } from '../src/app/utils/keyword-index';
+import { getVectorStore, type VectorMatch } from '../src/app/utils/vector-store';
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const DEFAULT_GOLDEN_PATH = 'scripts/assistant-golden.jsonl';
+const DEFAULT_KS = [1, 3, 5, 10];
+// Same retrieval settings as /api/chat
+const CONTEXT_MAX_TOKENS = 6000;
+const MIN_SCORE = 0.0;
+
+// ============================================================
+// Types
+// ============================================================
+
+type GoldenQuestion = {
+  id: string;
+  question: string;
+  expectedSources: string[];
+  expectedChunkIds: string[];
+  expectedFacts: string[];
+};
+
+type TargetKind = 'chunk' | 'source' | 'fact';
+
+type TargetResult = {
+  kind: TargetKind;
+  value: string;
+  // Rank of the first retrieved chunk that hits the target
+  rank: number | null;
+  inContext: boolean;
+  inAnswer?: boolean;
+};
+
+type RetrievedChunk = {
+  rank: number;
+  id: string;
+  source: string;
+  score: number;
+  relevant: boolean;
+};
+
+type QuestionResult = {
+  id: string;
+  question: string;
+  firstRelevantRank: number | null;
+  reciprocalRank: number;
+  // Keyed by k
+  recall: Record<string, number>;
+  contextRecall: number;
+  contextTokens: number;
+  targets: TargetResult[];
+  retrieved: RetrievedChunk[];
+  answer?: string;
+  answerFactRecall?: number;
+};
+
+type EvalSummary = {
+  questions: number;
+  recall: Record<string, number>;
+  mrr: number;
+  contextRecall: number;
+  answerFactRecall?: number;
+};
+
+type EvalReport = {
+  createdAt: string;
+  goldenPath: string;
+  vectorStore: string;
+  embeddingModel: string;
+  hybridSearch: boolean;
+  namespaces: string[];
+  ks: number[];
+  summary: EvalSummary;
+  results: QuestionResult[];
+};
+
+// ============================================================
+// Golden set
+// ============================================================
+
+function readStringArray(entry: Record<string, unknown>, field: string, label: string): string[] {
+  const value = entry[field];
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${label}: "${field}" must be an array of strings`);
+  }
+  return value as string[];
+}
+
+function loadGoldenSet(filePath: string): GoldenQuestion[] {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const trimmed = raw.trim();
+  const entries: Array<{ entry: unknown; label: string }> = trimmed.startsWith('[')
+    ? (JSON.parse(trimmed) as unknown[]).map((entry, i) => ({ entry, label: `${filePath} entry ${i + 1}` }))
+    : raw
+        .split('\n')
+        .map((line, i) => ({ line: line.trim(), label: `${filePath}:${i + 1}` }))
+        .filter(({ line }) => line && !line.startsWith('//'))
+        .map(({ line, label }) => {
+          try {
+            return { entry: JSON.parse(line), label };
+          } catch (e: any) {
+            throw new Error(`${label}: invalid JSON (${e.message})`);
+          }
+        });
+
+  const ids = new Set<string>();
+  return entries.map(({ entry, label }, i) => {
+    if (!entry || typeof entry !== 'object') throw new Error(`${label}: expected an object`);
+    const fields = entry as Record<string, unknown>;
+    if (typeof fields.question !== 'string' || !fields.question.trim()) {
+      throw new Error(`${label}: "question" is required`);
+    }
+
+    const question: GoldenQuestion = {
+      id: typeof fields.id === 'string' && fields.id ? fields.id : `q${i + 1}`,
+      question: fields.question.trim(),
+      expectedSources: readStringArray(fields, 'expectedSources', label),
+      expectedChunkIds: readStringArray(fields, 'expectedChunkIds', label),
+      expectedFacts: readStringArray(fields, 'expectedFacts', label),
+    };
+    if (question.expectedSources.length + question.expectedChunkIds.length + question.expectedFacts.length === 0) {
+      throw new Error(`${label}: needs at least one of expectedSources, expectedChunkIds, expectedFacts`);
+    }
+    if (ids.has(question.id)) throw new Error(`${label}: duplicate id "${question.id}"`);
+    ids.add(question.id);
+    return question;
+  });
+}
+
+// ============================================================
+// Scoring
+// ============================================================
+
+// Case, whitespace and quote style shouldn't decide whether a fact was found
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getMatchText(match: VectorMatch): string {
+  const { text, content, chunk } = match.metadata || {};
+  const value = [text, content, chunk].find((v) => typeof v === 'string');
+  return typeof value === 'string' ? value : '';
+}
+
+function getMatchSources(match: VectorMatch): string[] {
+  return ['source', 'path', 'url']
+    .map((key) => match.metadata?.[key])
+    .filter((value): value is string => typeof value === 'string');
+}
+
+function hitsTarget(match: VectorMatch, kind: TargetKind, value: string): boolean {
+  if (kind === 'chunk') return match.id === value;
+  if (kind === 'source') return getMatchSources(match).includes(value);
+  return normalize(getMatchText(match)).includes(normalize(value));
+}
+
+function getTargets(question: GoldenQuestion): Array<{ kind: TargetKind; value: string }> {
+  return [
+    ...question.expectedChunkIds.map((value) => ({ kind: 'chunk' as const, value })),
+    ...question.expectedSources.map((value) => ({ kind: 'source' as const, value })),
+    ...question.expectedFacts.map((value) => ({ kind: 'fact' as const, value })),
+  ];
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Retrieval logs every step, which drowns the report unless asked for
+const silentLogger: RetrievalLogger = { log: () => {}, warn: () => {} };
+
+type EvalOptions = {
+  namespaces: string[];
+  ks: number[];
+  citations: boolean;
+  generate: boolean;
+  verbose: boolean;
+};
+
+async function evaluateQuestion(question: GoldenQuestion, options: EvalOptions): Promise<QuestionResult> {
+  const logger = options.verbose ? console : silentLogger;
+  const matches = await retrieveMatches(question.question, options.namespaces, MIN_SCORE, logger);
+  const { context, sources, report } = assembleContext(matches, CONTEXT_MAX_TOKENS, options.citations, logger);
+
+  const contextChunkIds = new Set(sources.flatMap((source) => source.chunkIds));
+  const contextMatches = matches.filter((match) => contextChunkIds.has(match.id));
+
+  const targets: TargetResult[] = getTargets(question).map(({ kind, value }) => {
+    const index = matches.findIndex((match) => hitsTarget(match, kind, value));
+    return {
+      kind,
+      value,
+      rank: index === -1 ? null : index + 1,
+      // Facts are checked against the final context, which may have truncated a passage
+      inContext:
+        kind === 'fact'
+          ? normalize(context).includes(normalize(value))
+          : contextMatches.some((match) => hitsTarget(match, kind, value)),
+    };
+  });
+
+  const firstIndex = matches.findIndex((match) => targets.some((t) => hitsTarget(match, t.kind, t.value)));
+  const recall: Record<string, number> = {};
+  for (const k of options.ks) {
+    recall[k] = targets.filter((t) => t.rank !== null && t.rank <= k).length / targets.length;
+  }
+
+  const result: QuestionResult = {
+    id: question.id,
+    question: question.question,
+    firstRelevantRank: firstIndex === -1 ? null : firstIndex + 1,
+    reciprocalRank: firstIndex === -1 ? 0 : 1 / (firstIndex + 1),
+    recall,
+    contextRecall: targets.filter((t) => t.inContext).length / targets.length,
+    contextTokens: report.usedTokens,
+    targets,
+    retrieved: matches.slice(0, Math.max(...options.ks)).map((match, index) => ({
+      rank: index + 1,
+      id: match.id,
+      source: getMatchSources(match)[0] || 'unknown',
+      score: match.score ?? 0,
+      relevant: targets.some((t) => hitsTarget(match, t.kind, t.value)),
+    })),
+  };
+
+  if (options.generate) {
+    const config = getChatModelConfig();
+    const completion = await getChatProvider(config).complete(
+      [
+        { role: 'system', content: buildSystemPrompt(context, options.citations) },
+        { role: 'user', content: question.question },
+      ],
+      { model: config.model, temperature: config.temperature, maxTokens: config.maxTokens }
+    );
+    const answer = normalize(completion.text);
+    const facts = targets.filter((t) => t.kind === 'fact');
+    for (const target of facts) {
+      target.inAnswer = answer.includes(normalize(target.value));
+    }
+    result.answer = completion.text;
+    if (facts.length > 0) {
+      result.answerFactRecall = facts.filter((t) => t.inAnswer).length / facts.length;
+    }
+  }
+
+  return result;
+}
+
+function summarize(results: QuestionResult[], ks: number[]): EvalSummary {
+  const recall: Record<string, number> = {};
+  for (const k of ks) {
+    recall[k] = mean(results.map((r) => r.recall[k] ?? 0));
+  }
+  const answered = results.filter((r) => r.answerFactRecall !== undefined);
+  return {
+    questions: results.length,
+    recall,
+    mrr: mean(results.map((r) => r.reciprocalRank)),
+    contextRecall: mean(results.map((r) => r.contextRecall)),
+    ...(answered.length > 0 ? { answerFactRecall: mean(answered.map((r) => r.answerFactRecall!)) } : {}),
+  };
+}
+
+// ============================================================
+// Reporting
+// ============================================================
+
+function formatDelta(current: number, previous: number | undefined): string {
+  if (previous === undefined) return '';
+  const delta = current - previous;
+  if (Math.abs(delta) < 0.005) return '';
+  return ` (${delta > 0 ? '+' : ''}${delta.toFixed(2)})`;
+}
+
+function formatRank(rank: number | null): string {
+  return rank === null ? '-' : String(rank);
+}
+
+function printQuestion(result: QuestionResult, ks: number[], previous?: QuestionResult) {
+  const maxK = Math.max(...ks);
+  const recallAtMax = result.recall[maxK];
+  const icon = recallAtMax === 1 ? '✅' : recallAtMax > 0 ? '🟡' : '❌';
+  const recalls = ks.map((k) => `R@${k}=${result.recall[k].toFixed(2)}${formatDelta(result.recall[k], previous?.recall[k])}`);
+  const rankChange =
+    previous && previous.firstRelevantRank !== result.firstRelevantRank
+      ? ` (was ${formatRank(previous.firstRelevantRank)})`
+      : '';
+
+  console.log(`\n${icon} ${result.id}: ${result.question}`);
+  console.log(`   first hit: ${formatRank(result.firstRelevantRank)}${rankChange} | ${recalls.join(' ')} | in context: ${result.contextRecall.toFixed(2)}${formatDelta(result.contextRecall, previous?.contextRecall)}`);
+
+  for (const target of result.targets) {
+    const label = `${target.kind} "${target.value}"`;
+    const before = previous?.targets.find((t) => t.kind === target.kind && t.value === target.value);
+    const was = before && before.rank !== target.rank ? ` (was ${formatRank(before.rank)})` : '';
+    if (target.rank === null) {
+      console.log(`   - missing ${label}: not in the top ${result.retrieved.length || maxK}${was}`);
+    } else if (target.rank > ks[0] || !target.inContext) {
+      const dropped = target.inContext ? '' : ', cut by the token budget';
+      console.log(`   ~ ${label} at rank ${target.rank}${was}${dropped}`);
+    } else if (was) {
+      console.log(`   + ${label} at rank ${target.rank}${was}`);
+    }
+    if (target.inAnswer === false) {
+      console.log(`   - answer is missing ${label}`);
+    }
+  }
+
+  if (result.answer !== undefined) {
+    console.log(`   answer: ${result.answer.replace(/\s+/g, ' ').substring(0, 200)}`);
+  }
+}
+
+function printReport(report: EvalReport, baseline?: EvalReport) {
+  const previousById = new Map((baseline?.results || []).map((r) => [r.id, r]));
+
+  console.log('\n' + '='.repeat(70));
+  console.log('🔍 PER-QUESTION RESULTS');
+  console.log('='.repeat(70));
+  for (const result of report.results) {
+    printQuestion(result, report.ks, previousById.get(result.id));
+  }
+
+  if (baseline) {
+    const currentIds = new Set(report.results.map((r) => r.id));
+    const removed = baseline.results.filter((r) => !currentIds.has(r.id)).map((r) => r.id);
+    const added = report.results.filter((r) => !previousById.has(r.id)).map((r) => r.id);
+    if (added.length > 0) console.log(`\n   New since baseline: ${added.join(', ')}`);
+    if (removed.length > 0) console.log(`   Not in this run: ${removed.join(', ')}`);
+  }
+
+  const { summary } = report;
+  const previous = baseline?.summary;
+  console.log('\n' + '='.repeat(70));
+  console.log('📊 SUMMARY' + (baseline ? ` (vs baseline from ${baseline.createdAt})` : ''));
+  console.log('='.repeat(70));
+  console.log(`   Questions: ${summary.questions}`);
+  console.log(`   Retrieval: ${report.vectorStore} (${report.embeddingModel})${report.hybridSearch ? ' + keyword index' : ''}`);
+  console.log(`   Namespaces: ${report.namespaces.map((ns) => `"${ns}"`).join(', ')}`);
+  for (const k of report.ks) {
+    console.log(`   Recall@${k}: ${summary.recall[k].toFixed(3)}${formatDelta(summary.recall[k], previous?.recall[k])}`);
+  }
+  console.log(`   MRR: ${summary.mrr.toFixed(3)}${formatDelta(summary.mrr, previous?.mrr)}`);
+  console.log(`   Context recall: ${summary.contextRecall.toFixed(3)}${formatDelta(summary.contextRecall, previous?.contextRecall)}`);
+  if (summary.answerFactRecall !== undefined) {
+    console.log(`   Answer fact recall: ${summary.answerFactRecall.toFixed(3)}${formatDelta(summary.answerFactRecall, previous?.answerFactRecall)}`);
+  }
+  console.log('='.repeat(70));
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+function readReport(filePath: string): EvalReport {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as EvalReport;
+  } catch (e: any) {
+    throw new Error(`Error reading baseline report ${filePath}: ${e.message || e}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+  const files = args.filter((arg) => !arg.startsWith('--'));
+
+  const ks = option('k') ? option('k')!.split(',').map(Number) : [...DEFAULT_KS];
+  if (ks.some((k) => !Number.isInteger(k) || k < 1)) {
+    console.error('--k must be a comma-separated list of positive integers, e.g. --k=1,3,5,10');
+    process.exit(1);
+  }
+  ks.sort((a, b) => a - b);
+
+  const namespaceArgs = args.filter((arg) => arg.startsWith('--namespace=')).map((arg) => arg.split('=')[1]);
+  const options: EvalOptions = {
+    namespaces: namespaceArgs.length > 0 ? namespaceArgs : getAssistantNamespaces(),
+    ks,
+    citations: args.includes('--citations'),
+    generate: args.includes('--generate'),
+    verbose: args.includes('--verbose'),
+  };
+  const failUnder = option('fail-under') !== undefined ? Number(option('fail-under')) : undefined;
+  const goldenPath = files[0] || DEFAULT_GOLDEN_PATH;
+
+  try {
+    const questions = loadGoldenSet(goldenPath);
+    const baselinePath = option('baseline');
+    const baseline = baselinePath ? readReport(baselinePath) : undefined;
+    const embeddingProvider = getEmbeddingProvider();
+
+    console.log(`🧪 Evaluating ${questions.length} questions from ${goldenPath}...`);
+
+    const results: QuestionResult[] = [];
+    for (const question of questions) {
+      results.push(await evaluateQuestion(question, options));
+      process.stdout.write('.');
+    }
+    process.stdout.write('\n');
+
+    const report: EvalReport = {
+      createdAt: new Date().toISOString(),
+      goldenPath,
+      vectorStore: getVectorStore().name,
+      embeddingModel: `${embeddingProvider.name}:${embeddingProvider.model}`,
+      hybridSearch: process.env.HYBRID_SEARCH !== 'false' && (await hasKeywordIndex()),
+      namespaces: options.namespaces,
+      ks,
+      summary: summarize(results, ks),
+      results,
+    };
+    printReport(report, baseline);
+
+    const outPath = option('out');
+    if (outPath) {
+      await fs.promises.mkdir(path.dirname(path.resolve(outPath)), { recursive: true });
+      await fs.promises.writeFile(outPath, JSON.stringify(report, null, 2));
+      console.log(`\n💾 Report written to ${outPath}`);
+    }
+
+    const recallAtMax = report.summary.recall[ks[ks.length - 1]];
+    if (failUnder !== undefined && recallAtMax < failUnder) {
+      console.error(`\n❌ Recall@${ks[ks.length - 1]} ${recallAtMax.toFixed(3)} is below ${failUnder}`);
+      process.exit(1);
+    }
+  } catch (error: any) {
+    console.error('\n❌ Error:', error.message);
+    console.error(error.stack);
+    process.exit(1);
+  }
+}
+
+main();
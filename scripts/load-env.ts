@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables from .env file
+function loadEnvFile() {
+  const envPath = path.join(process.cwd(), '.env');
+  const envLocalPath = path.join(process.cwd(), '.env.local');
+  
+  // Try .env.local first, then .env
+  const filePath = fs.existsSync(envLocalPath) ? envLocalPath : envPath;
+  
+  if (fs.existsSync(filePath)) {
+    const envContent = fs.readFileSync(filePath, 'utf-8');
+    const lines = envContent.split('\n');
+    
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          const value = valueParts.join('=').replace(/^["']|["']$/g, ''); // Remove quotes
+          process.env[key.trim()] = value.trim();
+        }
+      }
+    }
+  }
+}
+
+// Load env before anything else. Scripts import this module first, so the
+// variables are set before modules that read them at import time (e.g. the
+// Supabase client) are evaluated.
+loadEnvFile();
@@ -1,255 +1,196 @@
 #!/usr/bin/env tsx
 /**
- * RAG Data Loader with Recursive Text Splitter
+ * RAG Data Loader with Structure-Aware Chunking
  * 
- * This script processes documents (PDF, TXT, MD, MDX) and uploads them to Pinecone
- * with aggressive chunking for maximum vector coverage.
+ * This script processes documents (PDF, DOCX, HTML, TXT, MD, MDX) and uploads them to the
+ * configured vector store (Pinecone, or the local JSON store with VECTOR_STORE=local).
+ * 
+ * Chunking strategies (--strategy, else the one a file was last loaded with, else
+ * CHUNKING_STRATEGY):
+ *   markdown         one chunk per heading section, split at paragraphs when too long (default)
+ *   sentence-window  overlapping windows of consecutive sentences
+ *   recursive        token-based recursive splitting across the whole document
+ * Chunk sizes are in tokens (CHUNK_MAX_TOKENS, CHUNK_OVERLAP_TOKENS, CHUNK_WINDOW_SENTENCES,
+ * CHUNK_WINDOW_OVERLAP). Every chunk is embedded with its document title and heading
+ * trail. To compare strategies, load the same files into separate namespaces.
+ * 
+ * Loading is incremental: a manifest (.rag-manifest.json, or RAG_MANIFEST_PATH)
+ * records per-file and per-chunk content hashes, so unchanged chunks are not
+ * re-embedded and chunks of edited or deleted files are removed. After a change of
+ * embedding model the whole namespace is re-embedded, so every file in it must be given.
  * 
  * Usage:
- *   pnpm tsx scripts/load-rag-data.ts <file1> <file2> ...
+ *   pnpm tsx scripts/load-rag-data.ts [--dry-run] [--strategy=<name>] <file1> <file2> ...
  *   or
- *   pnpm run load-rag-data <file1> <file2> ...
+ *   pnpm run load-rag-data [--dry-run] [--strategy=<name>] <file1> <file2> ...
+ * 
+ *   --dry-run          print the add/update/delete plan without changing anything
+ *   --strategy=<name>  chunking strategy for the files in this run; later runs
+ *                      keep using it for them until another is given
  */
 
+// Must come first: modules below read their configuration when imported
+import './load-env';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
-import type { Metadata } from '../src/app/utils/pinecone';
-
-// Load environment variables from .env file
-function loadEnvFile() {
-  const envPath = path.join(process.cwd(), '.env');
-  const envLocalPath = path.join(process.cwd(), '.env.local');
-  
-  // Try .env.local first, then .env
-  const filePath = fs.existsSync(envLocalPath) ? envLocalPath : envPath;
-  
-  if (fs.existsSync(filePath)) {
-    const envContent = fs.readFileSync(filePath, 'utf-8');
-    const lines = envContent.split('\n');
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed && !trimmed.startsWith('#')) {
-        const [key, ...valueParts] = trimmed.split('=');
-        if (key && valueParts.length > 0) {
-          const value = valueParts.join('=').replace(/^["']|["']$/g, ''); // Remove quotes
-          process.env[key.trim()] = value.trim();
-        }
-      }
-    }
-  }
-}
-
-// Load env before anything else
-loadEnvFile();
+import { getVectorStore, type Metadata } from '../src/app/utils/vector-store';
+import { getEmbeddingProvider } from '../src/app/utils/llm';
+import { getKeywordIndexName, updateKeywordIndex } from '../src/app/utils/keyword-index';
+import { getDocumentNamespace } from '../src/app/utils/assistant-namespaces';
+import {
+  CHUNKING_STRATEGY_NAMES,
+  chunkDocument,
+  getChunkingStrategy,
+  getEmbeddingText,
+  isChunkingStrategyName,
+  type ChunkingStrategy,
+  type DocumentChunk,
+} from '../src/app/utils/chunking';
+import { loadDocument, type LoadedDocument } from '../src/app/utils/document-loaders';
+import {
+  getManifestPath,
+  hashContent,
+  loadManifest,
+  planChunks,
+  saveManifest,
+  type ManifestFile,
+} from '../src/app/utils/rag-manifest';
 
 // ============================================================
 // Configuration
 // ============================================================
 
-const INDEX_DIM = 1536; // OpenAI text-embedding-3-small dimension
-
-// Ultra aggressive chunking for maximum vectors
-const CHUNK_SIZE = 100; // characters per chunk (very small!)
-const CHUNK_OVERLAP = 50; // overlap characters
-const SEPARATORS = ['\n\n', '\n', '. ', '! ', '? ', '; ', ', ', ' ', '']; // Extended split hierarchy
-
 const BATCH_SIZE = 100; // Embedding batch size
-const UPLOAD_BATCH_SIZE = 100; // Pinecone upload batch size
+const UPLOAD_BATCH_SIZE = 100; // Vector store upload batch size
 
 // ============================================================
-// Setup Clients
+// Main Processing Function
 // ============================================================
 
-function getPineconeClient(): Pinecone {
-  if (!process.env.PINECONE_API_KEY) {
-    throw new Error('PINECONE_API_KEY environment variable not set');
-  }
-  return new Pinecone({
-    apiKey: process.env.PINECONE_API_KEY,
-  });
-}
-
-function getOpenAIClient(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable not set');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
-
-// ============================================================
-// Text Splitting (Simple Recursive Splitter)
-// ============================================================
+type LoaderChunk = {
+  id: string;
+  text: string;
+  // Text the vector is computed from: the chunk with its section context
+  embeddingText: string;
+  hash: string;
+  metadata: Metadata & {
+    source: string;
+    path: string;
+    char_count: number;
+    preview: string;
+    chunking: string;
+    title?: string;
+    section?: string;
+    page?: number;
+  };
+};
 
-class RecursiveCharacterTextSplitter {
-  private chunkSize: number;
-  private chunkOverlap: number;
-  private separators: string[];
+type ProcessOptions = {
+  // Print the add/update/delete plan without embedding or writing anything
+  dryRun?: boolean;
+  // Chunking strategy name for every file in the run; by default each file
+  // keeps the one it was last loaded with (CHUNKING_STRATEGY for new files)
+  strategy?: string;
+};
 
-  constructor(
-    chunkSize: number = 1000,
-    chunkOverlap: number = 200,
-    separators: string[] = ['\n\n', '\n', '. ', '! ', '? ', '; ', ', ', ' ', '']
-  ) {
-    this.chunkSize = chunkSize;
-    this.chunkOverlap = chunkOverlap;
-    this.separators = separators;
-  }
-
-  splitText(text: string): string[] {
-    const chunks: string[] = [];
-    
-    // Try each separator in order
-    for (const separator of this.separators) {
-      if (text.length <= this.chunkSize) {
-        chunks.push(text);
-        return chunks;
-      }
-
-      const splits = separator ? text.split(separator) : [text];
-      
-      if (splits.length > 1) {
-        let currentChunk = '';
-        
-        for (let i = 0; i < splits.length; i++) {
-          const split = splits[i];
-          const separatorText = i < splits.length - 1 ? separator : '';
-          const potentialChunk = currentChunk + (currentChunk ? separatorText : '') + split;
-          
-          if (potentialChunk.length <= this.chunkSize) {
-            currentChunk = potentialChunk;
-          } else {
-            if (currentChunk) {
-              chunks.push(currentChunk);
-            }
-            
-            // Handle splits that are larger than chunk size
-            if (split.length > this.chunkSize) {
-              // Recursively split large splits
-              const subSplits = this.splitText(split);
-              chunks.push(...subSplits.slice(0, -1)); // Add all but last
-              currentChunk = subSplits[subSplits.length - 1] || split.substring(0, this.chunkSize);
-            } else {
-              currentChunk = split;
-            }
-          }
-        }
-        
-        if (currentChunk) {
-          chunks.push(currentChunk);
-        }
-        
-        // Add overlap between chunks
-        if (chunks.length > 1 && this.chunkOverlap > 0) {
-          const overlappedChunks: string[] = [chunks[0]];
-          
-          for (let i = 1; i < chunks.length; i++) {
-            const prevChunk = chunks[i - 1];
-            const currentChunk = chunks[i];
-            
-            // Take overlap from end of previous chunk
-            const overlap = prevChunk.substring(Math.max(0, prevChunk.length - this.chunkOverlap));
-            overlappedChunks.push(overlap + currentChunk);
-          }
-          
-          return overlappedChunks;
-        }
-        
-        return chunks;
-      }
-    }
-    
-    // Fallback: split by character if no separator works
-    const fallbackChunks: string[] = [];
-    for (let i = 0; i < text.length; i += this.chunkSize - this.chunkOverlap) {
-      fallbackChunks.push(text.substring(i, i + this.chunkSize));
-    }
-    return fallbackChunks;
-  }
+function toManifestKey(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath));
 }
 
-// ============================================================
-// Text Preprocessing
-// ============================================================
-
-function preprocessText(text: string): string {
-  // Normalize whitespace
-  text = text.replace(/\n{3,}/g, '\n\n');
-  text = text.replace(/[ \t]+/g, ' ');
-  
-  // Remove control characters
-  text = text.replace(/[\x00-\x08\x0b-\x0c\x0e-\x1f\x7f-\x9f]/g, '');
-  
-  return text.trim();
+// Chunk id prefix of a file: its name for readability, plus a hash of its path
+// so files with the same name in different folders (or with different
+// extensions) never share a prefix and can't clear each other's vectors
+function getChunkPrefix(manifestKey: string): string {
+  const name = path.basename(manifestKey, path.extname(manifestKey)).replace(/[^\w-]+/g, '-');
+  return `${name}_${hashContent(manifestKey.split(path.sep).join('/')).substring(0, 12)}`;
 }
 
-// ============================================================
-// File Reading
-// ============================================================
-
-function readTextFile(filePath: string): string {
-  const ext = path.extname(filePath).toLowerCase();
-  
-  if (['.txt', '.md', '.mdx'].includes(ext)) {
-    return fs.readFileSync(filePath, 'utf-8');
-  } else if (ext === '.pdf') {
-    throw new Error('PDF support requires pdfplumber. Install with: pnpm add pdfplumber');
-  } else {
-    throw new Error(`Unsupported file type: ${ext}`);
-  }
+// The chunking strategy a file was last loaded with, so later runs keep
+// chunking it the same way. Manifests from before strategies record none.
+function getRecordedStrategyName(file: ManifestFile | undefined): string | undefined {
+  const name = file?.chunking.split(':')[0];
+  return name && isChunkingStrategyName(name) ? name : undefined;
 }
 
-// ============================================================
-// Main Processing Function
-// ============================================================
+// Chunk ids are derived from the embedded text, so a chunk keeps its id (and its
+// vector) when text is inserted or removed elsewhere in the file. Positional
+// metadata is deliberately not stored - it would change on every edit.
+function buildChunk(prefix: string, document: LoadedDocument, chunk: DocumentChunk, strategy: ChunkingStrategy): LoaderChunk {
+  const chunkText = chunk.text;
+  const embeddingText = getEmbeddingText(chunk);
+  const metadata: LoaderChunk['metadata'] = {
+    source: path.basename(document.sourcePath),
+    path: document.sourcePath,
+    chunking: strategy.name,
+    // Vector stores reject undefined metadata values, so absent fields are omitted
+    ...(document.title ? { title: document.title } : {}),
+    ...(chunk.section ? { section: chunk.section } : {}),
+    ...(chunk.page ? { page: chunk.page } : {}),
+    char_count: chunkText.length,
+    preview: chunkText.substring(0, 100).replace(/\n/g, ' ') + '...',
+    // Store text in 'text' field for retrieval
+    text: chunkText,
+    content: chunkText,
+    chunk: chunkText,
+  };
+  return {
+    id: `${prefix}_chunk_${hashContent(embeddingText).substring(0, 16)}`,
+    text: chunkText,
+    embeddingText,
+    hash: hashContent(JSON.stringify(metadata)),
+    metadata,
+  };
+}
 
-async function processFiles(filePaths: string[], namespace: string = 'default') {
-  const pc = getPineconeClient();
-  const openai = getOpenAIClient();
+async function processFiles(filePaths: string[], namespace: string = 'default', options: ProcessOptions = {}) {
+  const vectorStore = getVectorStore();
+  // Same provider/model as query-time embeddings (EMBEDDING_PROVIDER, EMBEDDING_MODEL)
+  const embeddingProvider = getEmbeddingProvider();
+  const embeddingModel = `${embeddingProvider.name}:${embeddingProvider.model}`;
   
-  // Get index name from environment
-  const indexName = process.env.PINECONE_INDEX || '';
-  if (!indexName) {
-    throw new Error('PINECONE_INDEX environment variable not set');
+  console.log(`✓ Initialized ${vectorStore.name} vector store + ${embeddingProvider.name} ${embeddingProvider.model}`);
+  const strategies = new Map<string, ChunkingStrategy>();
+  const getStrategy = (name?: string) => {
+    const key = name ?? '';
+    if (!strategies.has(key)) strategies.set(key, getChunkingStrategy(name));
+    return strategies.get(key)!;
+  };
+  console.log(`✓ Chunking strategy: ${options.strategy ? getStrategy(options.strategy).signature : 'as last loaded per file'}`);
+  if (options.dryRun) {
+    console.log('✓ Dry run: nothing will be embedded, uploaded or deleted');
   }
   
-  // Clean index name
-  const cleanIndexName = indexName.trim().replace(/^https?:\/\//, '').replace(/\/$/, '');
-  const finalIndexName = cleanIndexName.includes('.svc.') 
-    ? cleanIndexName.split('.')[0] 
-    : cleanIndexName;
-  
-  const index = pc.index(finalIndexName);
-  const pineconeNamespace = index.namespace(namespace);
+  const manifest = await loadManifest();
+  const previousNamespace = manifest.namespaces[namespace];
+  // Vectors from another embedding model can't be compared with new ones, so
+  // every file is treated as new and its old vectors are cleared
+  const modelChanged = !!previousNamespace && previousNamespace.embeddingModel !== embeddingModel;
+  const previousFiles = previousNamespace && !modelChanged ? previousNamespace.files : {};
+  const nextFiles: Record<string, ManifestFile> = { ...(previousNamespace?.files || {}) };
   
-  console.log('✓ Initialized Pinecone (dim=1536) + OpenAI text-embedding-3-small');
-  console.log(`✓ Using RecursiveCharacterTextSplitter`);
-  console.log(`✓ Chunk settings: ${CHUNK_SIZE} chars, ${CHUNK_OVERLAP} overlap\n`);
-  
-  // Initialize text splitter
-  const textSplitter = new RecursiveCharacterTextSplitter(
-    CHUNK_SIZE,
-    CHUNK_OVERLAP,
-    SEPARATORS
-  );
+  if (modelChanged) {
+    // The namespace is recorded under one model, so a run that leaves files out
+    // would keep their old-model vectors next to new ones
+    const runKeys = new Set(filePaths.map(toManifestKey));
+    const missingFiles = Object.keys(previousNamespace.files).filter(
+      (key) => !runKeys.has(key) && fs.existsSync(path.resolve(process.cwd(), key))
+    );
+    if (missingFiles.length > 0) {
+      throw new Error(
+        `Embedding model changed (${previousNamespace.embeddingModel} → ${embeddingModel}) and every file in ` +
+        `namespace "${namespace}" must be re-embedded. Run again including: ${missingFiles.join(', ')}`
+      );
+    }
+    console.log(`⚠️  Embedding model changed (${previousNamespace.embeddingModel} → ${embeddingModel}); re-embedding every file`);
+  }
   
-  // Process documents
-  const allChunks: Array<{
-    id: string;
-    text: string;
-    metadata: Metadata & {
-      source: string;
-      chunk_index: number;
-      total_chunks: number;
-      char_count: number;
-      chunk_position: string;
-      preview: string;
-    };
-  }> = [];
+  // Chunks to embed and upsert, and ids/prefixes to delete first
+  const chunksToWrite: LoaderChunk[] = [];
+  const idsToDelete: string[] = [];
+  const prefixesToClear: string[] = [];
+  const fileChunks = new Map<string, { hash: string; chunking: string; chunks: LoaderChunk[] }>();
+  const totals = { add: 0, update: 0, delete: 0, unchanged: 0 };
+  const planLines: string[] = [];
   
   for (const filePath of filePaths) {
     console.log(`\n📄 Processing: ${filePath}`);
@@ -259,125 +200,143 @@ async function processFiles(filePaths: string[], namespace: string = 'default')
       continue;
     }
     
-    // Read file
-    let text: string;
+    const content = fs.readFileSync(filePath);
+    const manifestKey = toManifestKey(filePath);
+    const previous = previousFiles[manifestKey];
+    const fileHash = hashContent(content);
+    // Kept across model changes too, so re-embedding doesn't re-chunk
+    const strategy = getStrategy(options.strategy ?? getRecordedStrategyName(previousNamespace?.files[manifestKey]));
+    
+    if (previous && previous.hash === fileHash && previous.chunking === strategy.signature) {
+      const count = Object.keys(previous.chunks).length;
+      totals.unchanged += count;
+      planLines.push(`   = ${manifestKey}: unchanged (${count} chunks)`);
+      console.log('   Unchanged since last run, skipping');
+      continue;
+    }
+    
+    // Extract text and structure with the loader for the file's extension
+    let document: LoadedDocument;
     try {
-      text = readTextFile(filePath);
+      document = await loadDocument(filePath, content);
     } catch (error: any) {
       console.error(`❌ Error reading file: ${error.message}`);
       continue;
     }
     
-    // Preprocess text
-    text = preprocessText(text);
-    
     const filename = path.basename(filePath);
-    const prefix = path.basename(filePath, path.extname(filePath));
-    const charCount = text.length;
+    const prefix = getChunkPrefix(manifestKey);
+    console.log(`   Chunking: ${strategy.signature}`);
+    const pages = new Set(document.sections.map((s) => s.page).filter(Boolean)).size;
     
-    console.log(`   Characters: ${charCount.toLocaleString()}`);
+    console.log(`   Characters: ${document.sections.reduce((sum, s) => sum + s.text.length, 0).toLocaleString()}`);
+    console.log(`   Sections: ${document.sections.length}${pages > 0 ? `, pages: ${pages}` : ''}${document.title ? `, title: ${document.title}` : ''}`);
     
-    // Split into chunks using multiple strategies
+    // Split into chunks labelled with the heading trail and page they came from
     console.log(`🔄 Splitting: ${filename}`);
-    
-    // Strategy 1: Recursive splitter
-    const chunksPrimary = textSplitter.splitText(text);
-    
-    // Strategy 2: Sliding window
-    const chunksSliding: string[] = [];
-    const stepSize = CHUNK_SIZE - CHUNK_OVERLAP;
-    for (let start = 0; start < text.length; start += stepSize) {
-      const end = start + CHUNK_SIZE;
-      const chunk = text.substring(start, end);
-      if (chunk.trim().length >= 50) {
-        chunksSliding.push(chunk);
-      }
-      if (end >= text.length) break;
-    }
-    
-    // Strategy 3: Sentence-based splitting
-    const sentences = text.split(/(?<=[.!?])\s+/);
-    const chunksSentence: string[] = [];
-    let current = '';
-    for (const sentence of sentences) {
-      if (current.length + sentence.length < CHUNK_SIZE) {
-        current += (current ? ' ' : '') + sentence;
-      } else {
-        if (current) chunksSentence.push(current);
-        current = sentence;
-      }
-    }
-    if (current) chunksSentence.push(current);
-    
-    // Combine and deduplicate
-    const allStrategyChunks = [...chunksPrimary, ...chunksSliding, ...chunksSentence];
-    const uniqueChunks: string[] = [];
-    const seenTexts = new Set<string>();
-    
-    for (const chunk of allStrategyChunks) {
-      const normalized = chunk.trim().toLowerCase().substring(0, 100);
-      if (!seenTexts.has(normalized) && chunk.trim().length >= 50) {
-        uniqueChunks.push(chunk);
-        seenTexts.add(normalized);
-      }
+    const chunksById = new Map<string, LoaderChunk>();
+    for (const documentChunk of chunkDocument(document, strategy)) {
+      const chunk = buildChunk(prefix, document, documentChunk, strategy);
+      if (!chunksById.has(chunk.id)) chunksById.set(chunk.id, chunk);
     }
+    const chunks = [...chunksById.values()];
+    console.log(`   Generated ${chunks.length} chunks`);
     
-    console.log(`   Generated ${uniqueChunks.length} chunks (primary: ${chunksPrimary.length}, sliding: ${chunksSliding.length}, sentence: ${chunksSentence.length})`);
-    
-    const avgChars = uniqueChunks.length > 0 
-      ? Math.round(uniqueChunks.reduce((sum, c) => sum + c.length, 0) / uniqueChunks.length)
+    const avgChars = chunks.length > 0
+      ? Math.round(chunks.reduce((sum, c) => sum + c.text.length, 0) / chunks.length)
       : 0;
     console.log(`   Avg chars/chunk: ${avgChars}`);
     
-    // Create chunk objects
-    for (let i = 0; i < uniqueChunks.length; i++) {
-      const chunkText = uniqueChunks[i];
-      allChunks.push({
-        id: `${prefix}_chunk_${i.toString().padStart(4, '0')}`,
-        text: chunkText,
-        metadata: {
-          source: filename,
-          chunk_index: i,
-          total_chunks: uniqueChunks.length,
-          char_count: chunkText.length,
-          chunk_position: `${i + 1}/${uniqueChunks.length}`,
-          preview: chunkText.substring(0, 100).replace(/\n/g, ' ') + '...',
-          // Store text in 'text' field for retrieval
-          text: chunkText,
-          content: chunkText,
-          chunk: chunkText,
-        },
-      });
+    const plan = planChunks(previous, chunks);
+    const writeIds = new Set([...plan.add, ...plan.update]);
+    chunksToWrite.push(...chunks.filter((chunk) => writeIds.has(chunk.id)));
+    idsToDelete.push(...plan.delete);
+    fileChunks.set(manifestKey, { hash: fileHash, chunking: strategy.signature, chunks });
+    
+    // Without a manifest entry the namespace may hold vectors from an earlier
+    // run under this file's prefix, which would otherwise never be cleaned up
+    if (!previous) {
+      prefixesToClear.push(`${prefix}_chunk_`);
+    }
+    // After a model change the recorded chunks are all stale
+    const recorded = modelChanged ? previousNamespace.files[manifestKey] : undefined;
+    if (recorded) {
+      const staleIds = Object.keys(recorded.chunks).filter((id) => !chunksById.has(id));
+      idsToDelete.push(...staleIds);
+      plan.delete.push(...staleIds);
     }
+    
+    totals.add += plan.add.length;
+    totals.update += plan.update.length;
+    totals.delete += plan.delete.length;
+    totals.unchanged += plan.unchanged.length;
+    planLines.push(
+      `   ${previous ? '~' : '+'} ${manifestKey}: +${plan.add.length} add, ~${plan.update.length} update, ` +
+      `-${plan.delete.length} delete, =${plan.unchanged.length} unchanged` +
+      (previous ? '' : ` (clears existing ${prefix}_chunk_* vectors)`)
+    );
+  }
+  
+  // Files recorded in the manifest that no longer exist lose all their chunks
+  const removedFiles = Object.keys(previousNamespace?.files || {}).filter(
+    (key) => !fileChunks.has(key) && !fs.existsSync(path.resolve(process.cwd(), key))
+  );
+  for (const key of removedFiles) {
+    const ids = Object.keys(previousNamespace.files[key].chunks);
+    idsToDelete.push(...ids);
+    totals.delete += ids.length;
+    planLines.push(`   - ${key}: file removed, -${ids.length} delete`);
   }
   
-  console.log(`\n✓ Total chunks prepared: ${allChunks.length}`);
+  console.log('\n📋 Plan:');
+  for (const line of planLines) {
+    console.log(line);
+  }
+  console.log(`   Total: +${totals.add} add, ~${totals.update} update, -${totals.delete} delete, =${totals.unchanged} unchanged`);
+  
+  if (options.dryRun) {
+    for (const id of idsToDelete) {
+      console.log(`   delete ${id}`);
+    }
+    for (const chunk of chunksToWrite) {
+      console.log(`   upsert ${chunk.id}: ${chunk.metadata.preview}`);
+    }
+    return;
+  }
   
-  if (allChunks.length === 0) {
-    console.log('⚠️  No chunks to upload');
+  if (chunksToWrite.length === 0 && idsToDelete.length === 0 && prefixesToClear.length === 0) {
+    console.log('\n✓ Namespace is up to date, nothing to do');
     return;
   }
   
+  // Delete stale vectors before upserting, since cleared prefixes cover new ids too
+  if (idsToDelete.length > 0 || prefixesToClear.length > 0) {
+    console.log(`\n🗑️  Deleting stale vectors from ${vectorStore.name}...`);
+    await vectorStore.deleteByIds(namespace, idsToDelete);
+    for (const prefix of prefixesToClear) {
+      const deleted = await vectorStore.deleteByPrefix(namespace, prefix);
+      console.log(`   Cleared ${deleted} vectors under ${prefix}`);
+    }
+    console.log(`✓ Deleted ${idsToDelete.length} stale chunk ids`);
+  }
+  
   // Generate embeddings
   console.log('\n🔢 Generating embeddings...');
-  const texts = allChunks.map(c => c.text);
+  const texts = chunksToWrite.map(c => c.embeddingText);
   const embeddings: number[][] = [];
+  let indexDim = 0;
   
   for (let i = 0; i < texts.length; i += BATCH_SIZE) {
     const batch = texts.slice(i, i + BATCH_SIZE);
     
     try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: batch,
-      });
+      const batchEmbeddings = await embeddingProvider.embed(batch);
       
-      const batchEmbeddings = response.data.map(item => item.embedding);
-      
-      // Validate dimensions
+      // Validate dimensions - every vector must match the first one
       for (const emb of batchEmbeddings) {
-        if (emb.length !== INDEX_DIM) {
-          throw new Error(`Embedding dimension ${emb.length} != expected ${INDEX_DIM}`);
+        indexDim = indexDim || emb.length;
+        if (emb.length !== indexDim) {
+          throw new Error(`Embedding dimension ${emb.length} != expected ${indexDim}`);
         }
       }
       
@@ -394,38 +353,75 @@ async function processFiles(filePaths: string[], namespace: string = 'default')
   
   console.log(`✓ Generated ${embeddings.length} embeddings`);
   
-  // Prepare records for upsert (Pinecone v6 API format)
-  // For vector records, we need to use the Record format with values array
-  const recordsToUpsert = allChunks.map((chunk, idx) => ({
+  // Prepare records for upsert
+  const recordsToUpsert = chunksToWrite.map((chunk, idx) => ({
     id: chunk.id,
     values: embeddings[idx],
     metadata: chunk.metadata,
   }));
   
-  // Upsert to Pinecone (v6 API)
-  console.log('\n📤 Uploading vectors to Pinecone...');
+  // Upsert to the vector store
+  console.log(`\n📤 Uploading vectors to ${vectorStore.name}...`);
   let successfulUploads = 0;
-  let failedUploads = 0;
+  const failedIds = new Set<string>();
   
   for (let i = 0; i < recordsToUpsert.length; i += UPLOAD_BATCH_SIZE) {
     const batch = recordsToUpsert.slice(i, i + UPLOAD_BATCH_SIZE);
     
     try {
-      // Pinecone v6 uses upsert method with array of records
-      await pineconeNamespace.upsert(batch);
+      await vectorStore.upsert(namespace, batch);
       successfulUploads += batch.length;
       console.log(`   Uploaded ${successfulUploads}/${recordsToUpsert.length} vectors`);
     } catch (error: any) {
-      failedUploads += batch.length;
+      batch.forEach((record) => failedIds.add(record.id));
       console.error(`❌ Error uploading batch ${i}-${i + batch.length}: ${error.message}`);
     }
   }
   
+  // Mirror the changes into the BM25 keyword index used for hybrid retrieval.
+  // The chunk text is stored once, not in every metadata field.
+  console.log('\n🔤 Updating keyword index...');
+  try {
+    await updateKeywordIndex(namespace, {
+      removeIds: idsToDelete,
+      removePrefixes: prefixesToClear,
+      documents: chunksToWrite
+        .filter(({ id }) => !failedIds.has(id))
+        .map(({ id, text, metadata }) => ({
+          id,
+          text,
+          metadata: Object.fromEntries(
+            Object.entries(metadata).filter(([key]) => !['text', 'content', 'chunk', 'preview'].includes(key))
+          ),
+        })),
+    });
+    console.log(`✓ Keyword index updated: ${getKeywordIndexName()}`);
+  } catch (error: any) {
+    console.error(`❌ Error updating keyword index: ${error.message}`);
+  }
+  
+  // Record what is now in the namespace. A file with failed uploads keeps the
+  // chunks that made it but no file hash, so the next run retries the rest.
+  for (const [key, { hash, chunking, chunks }] of fileChunks) {
+    const uploaded = chunks.filter((chunk) => !failedIds.has(chunk.id));
+    nextFiles[key] = {
+      hash: uploaded.length === chunks.length ? hash : '',
+      chunking,
+      chunks: Object.fromEntries(uploaded.map((chunk) => [chunk.id, chunk.hash])),
+    };
+  }
+  for (const key of removedFiles) {
+    delete nextFiles[key];
+  }
+  manifest.namespaces[namespace] = { embeddingModel, files: nextFiles };
+  await saveManifest(manifest);
+  console.log(`✓ Manifest updated: ${getManifestPath()}`);
+  
   // Verify upload
   console.log('\n🔍 Verifying upload...');
   try {
-    const stats = await index.describeIndexStats();
-    console.log(`✓ Index stats:`, JSON.stringify(stats, null, 2));
+    const namespaces = await vectorStore.listNamespaces();
+    console.log(`✓ Namespaces:`, JSON.stringify(namespaces, null, 2));
   } catch (error: any) {
     console.log(`⚠️  Could not retrieve stats: ${error.message}`);
   }
@@ -435,20 +431,21 @@ async function processFiles(filePaths: string[], namespace: string = 'default')
   console.log('✅ UPLOAD COMPLETE!');
   console.log('='.repeat(70));
   console.log(`📊 Summary:`);
-  console.log(`   Documents processed: ${filePaths.length}`);
-  console.log(`   Total chunks created: ${allChunks.length}`);
+  console.log(`   Documents processed: ${fileChunks.size}/${filePaths.length}`);
+  console.log(`   Chunks added: ${totals.add}, updated: ${totals.update}, unchanged: ${totals.unchanged}`);
+  console.log(`   Stale chunks deleted: ${idsToDelete.length}`);
   console.log(`   Vectors generated: ${embeddings.length}`);
   console.log(`   Successful uploads: ${successfulUploads}`);
-  if (failedUploads > 0) {
-    console.log(`   Failed uploads: ${failedUploads}`);
+  if (failedIds.size > 0) {
+    console.log(`   Failed uploads: ${failedIds.size}`);
   }
   console.log(`   Namespace: ${namespace}`);
-  console.log(`   Dimensions: ${INDEX_DIM}`);
+  console.log(`   Dimensions: ${indexDim}`);
   console.log('='.repeat(70));
   
-  if (allChunks.length > 0) {
-    const charCounts = allChunks.map(c => c.metadata.char_count);
-    console.log(`\n📈 Chunk Statistics:`);
+  if (chunksToWrite.length > 0) {
+    const charCounts = chunksToWrite.map(c => c.metadata.char_count);
+    console.log(`\n📈 Chunk Statistics (written this run):`);
     console.log(`   Min chars: ${Math.min(...charCounts)}`);
     console.log(`   Max chars: ${Math.max(...charCounts)}`);
     console.log(`   Avg chars: ${Math.round(charCounts.reduce((a, b) => a + b, 0) / charCounts.length)}`);
@@ -466,18 +463,22 @@ async function processFiles(filePaths: string[], namespace: string = 'default')
 
 async function main() {
   const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const strategy = args.find((arg) => arg.startsWith('--strategy='))?.split('=')[1];
+  const files = args.filter((arg) => !arg.startsWith('--'));
   
-  if (args.length === 0) {
-    console.error('Usage: pnpm tsx scripts/load-rag-data.ts <file1> <file2> ...');
-    console.error('Example: pnpm tsx scripts/load-rag-data.ts documents/doc1.txt documents/doc2.md');
+  if (files.length === 0) {
+    console.error('Usage: pnpm tsx scripts/load-rag-data.ts [--dry-run] [--strategy=<name>] <file1> <file2> ...');
+    console.error(`Strategies: ${CHUNKING_STRATEGY_NAMES.join(', ')}`);
+    console.error('Example: pnpm tsx scripts/load-rag-data.ts --strategy=sentence-window documents/doc1.txt documents/doc2.md');
     process.exit(1);
   }
   
-  // Get namespace from environment or use default
-  const namespace = process.env.PINECONE_NAMESPACE || 'default';
+  // PINECONE_NAMESPACE, or "default"
+  const namespace = getDocumentNamespace();
   
   try {
-    await processFiles(args, namespace);
+    await processFiles(files, namespace, { dryRun, strategy });
   } catch (error: any) {
     console.error('\n❌ Error:', error.message);
     console.error(error.stack);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authorizeStorageMutation } from "@/lib/api-auth";
+import { getSupabaseAdmin, isSupabaseAdminConfigured } from "@/lib/supabase-admin";
+import { deleteAsset, findPostsUsingAsset } from "@/app/utils/assets";
+import { rateLimit } from "@/app/utils/rate-limit";
+
+const ASSET_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Delete an asset from the media library right away. Assets still used by a
+// post are refused with the posts listed, unless ?force=true.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await rateLimit(request, "delete-image");
+    if (limited) return limited;
+
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    if (!ASSET_ID_PATTERN.test(id)) {
+      return NextResponse.json({ error: "Invalid asset id" }, { status: 400 });
+    }
+
+    const bucketName = process.env.R2_BUCKET_NAME;
+    if (!bucketName || !isSupabaseAdminConfigured()) {
+      return NextResponse.json(
+        { error: "R2 bucket or Supabase service role not configured" },
+        { status: 500 }
+      );
+    }
+
+    const { data: asset, error } = await getSupabaseAdmin()
+      .from("assets")
+      .select("id, key, url")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!asset) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get("force") !== "true") {
+      const posts = await findPostsUsingAsset(asset.url);
+      if (posts.length > 0) {
+        return NextResponse.json(
+          { error: "The asset is used by posts", code: "asset_in_use", posts },
+          { status: 409 }
+        );
+      }
+    }
+
+    await deleteAsset(bucketName, asset);
+    return NextResponse.json({ success: true, deletedKey: asset.key });
+  } catch (error) {
+    console.error("Error deleting asset:", error);
+    return NextResponse.json(
+      { error: "Failed to delete asset" },
+      { status: 500 }
+    );
+  }
+}
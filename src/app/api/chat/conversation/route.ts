@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearSessionCookie,
+  getConversationRetentionDays,
+  getConversationStore,
+  getRetentionCutoff,
+  getSessionId,
+} from '@/app/utils/conversation-store';
+import { rateLimit } from '@/app/utils/rate-limit';
+
+// The widget's stored conversation, for restoring the thread after a reload
+export async function GET(req: NextRequest) {
+  const sessionId = getSessionId(req);
+  const limited = await rateLimit(req, 'chat-conversation', sessionId);
+  if (limited) return limited;
+
+  if (!sessionId) {
+    return NextResponse.json({ messages: [] });
+  }
+
+  try {
+    const messages = await getConversationStore().getMessages(sessionId, getRetentionCutoff());
+    return NextResponse.json({ messages, retentionDays: getConversationRetentionDays() });
+  } catch (error: any) {
+    console.error('Conversation fetch error:', { message: error.message || error });
+    return NextResponse.json(
+      { error: 'Failed to load conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// "Clear conversation": delete the messages and end the session
+export async function DELETE(req: NextRequest) {
+  const sessionId = getSessionId(req);
+  const limited = await rateLimit(req, 'chat-conversation', sessionId);
+  if (limited) return limited;
+
+  if (!sessionId) {
+    return NextResponse.json({ success: true });
+  }
+
+  try {
+    await getConversationStore().clear(sessionId);
+    return clearSessionCookie(NextResponse.json({ success: true }));
+  } catch (error: any) {
+    console.error('Conversation clear error:', { message: error.message || error });
+    return NextResponse.json(
+      { error: 'Failed to clear conversation' },
+      { status: 500 }
+    );
+  }
+}
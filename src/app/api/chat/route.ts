@@ -1,18 +1,241 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { getContext } from '@/app/utils/context';
+import { getContextWithSources, type ContextReport, type ContextResult, type ContextSource } from '@/app/utils/context';
+import { isVectorStoreConfigured } from '@/app/utils/vector-store';
+import { getAssistantNamespaces } from '@/app/utils/assistant-namespaces';
+import { buildSystemPrompt } from '@/app/utils/assistant-prompt';
+import { rateLimit } from '@/app/utils/rate-limit';
+import { getRequestUser } from '@/lib/api-auth';
+import { logAssistantQuery, type AssistantQueryEvent, type AssistantQueryOutcome } from '@/app/utils/assistant-analytics';
+import { encodeChatStreamEvent, type ChatStreamEvent } from '@/app/utils/chat-stream';
+import {
+  getConversationStore,
+  getRetentionCutoff,
+  getSessionId,
+  setSessionCookie,
+  type ConversationMessage,
+} from '@/app/utils/conversation-store';
+import {
+  getChatModelConfig,
+  getChatProvider,
+  ProviderConfigError,
+  type ChatCompletionMessage,
+  type ChatModelConfig,
+  type ChatProvider,
+  type TokenUsage,
+} from '@/app/utils/llm';
+
+// Most recent stored messages sent to the model as conversation history
+const MAX_HISTORY_MESSAGES = 20;
+
+// Request payload limits: whole body, entries of a `messages` array
+// (CHAT_MAX_MESSAGES) and characters per message (CHAT_MAX_MESSAGE_LENGTH)
+const MAX_BODY_LENGTH = 256 * 1024;
+const DEFAULT_MAX_MESSAGES = 40;
+const DEFAULT_MAX_MESSAGE_LENGTH = 2000;
+
+function readLimitEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Returns the error to report, or null when the payload is within limits
+function validateChatPayload(message: unknown, messages: unknown): string | null {
+  const maxMessages = readLimitEnv('CHAT_MAX_MESSAGES', DEFAULT_MAX_MESSAGES);
+  const maxLength = readLimitEnv('CHAT_MAX_MESSAGE_LENGTH', DEFAULT_MAX_MESSAGE_LENGTH);
+
+  if (message !== undefined && typeof message !== 'string') {
+    return 'Message must be a string';
+  }
+  if (typeof message === 'string' && message.length > maxLength) {
+    return `Messages are limited to ${maxLength} characters`;
+  }
+  if (messages !== undefined) {
+    if (!Array.isArray(messages)) {
+      return 'Messages must be an array';
+    }
+    if (messages.length > maxMessages) {
+      return `At most ${maxMessages} messages can be sent`;
+    }
+    for (const entry of messages) {
+      if (typeof entry?.content !== 'string') {
+        return 'Every message needs text content';
+      }
+      if (entry.content.length > maxLength) {
+        return `Messages are limited to ${maxLength} characters`;
+      }
+    }
+  }
+  return null;
+}
+
+type HistoryMessage = { role: 'user' | 'assistant'; content: string };
+
+// History is best-effort: without the store the question is answered on its own
+async function loadHistory(sessionId: string): Promise<HistoryMessage[]> {
+  try {
+    const stored = await getConversationStore().getMessages(sessionId, getRetentionCutoff());
+    return stored.slice(-MAX_HISTORY_MESSAGES).map(({ role, content }) => ({ role, content }));
+  } catch (error: any) {
+    console.error('Failed to load conversation history:', { message: error.message || error });
+    return [];
+  }
+}
+
+async function saveExchange(
+  sessionId: string,
+  question: string,
+  askedAt: Date,
+  reply: string,
+  sources: ContextSource[] | undefined
+) {
+  const messages: ConversationMessage[] = [
+    { id: crypto.randomUUID(), role: 'user', content: question, createdAt: askedAt.toISOString() },
+    {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: reply,
+      ...(sources?.length ? { sources } : {}),
+      createdAt: new Date().toISOString(),
+    },
+  ];
+  try {
+    await getConversationStore().appendMessages(sessionId, messages);
+  } catch (error: any) {
+    console.error('Failed to save conversation:', { message: error.message || error });
+  }
+}
+
+// Stream the completion to the client as server-sent events (see chat-stream.ts).
+// Aborting the request (the widget closing) cancels the upstream provider call.
+// `onFinish` receives the reply text, including a reply cut short by the client.
+type StreamResult = {
+  reply: string;
+  outcome: Exclude<AssistantQueryOutcome, 'no_context'>;
+  finishReason: string | null;
+  usage?: TokenUsage;
+};
+
+function streamChatCompletion(
+  provider: ChatProvider,
+  config: ChatModelConfig,
+  chatMessages: ChatCompletionMessage[],
+  sources: ContextSource[] | undefined,
+  requestSignal: AbortSignal,
+  onFinish: (result: StreamResult) => Promise<void>
+): NextResponse {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  const abortUpstream = () => upstream.abort();
+  requestSignal.addEventListener('abort', abortUpstream);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+        } catch {
+          // Stream already closed by the client
+        }
+      };
 
-// Initialize OpenAI (similar to how Gemini was initialized)
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
+      if (sources) {
+        send({ type: 'sources', sources });
+      }
+
+      let reply = '';
+      let finishReason: string | null = null;
+      let usage: TokenUsage | undefined;
+      let outcome: StreamResult['outcome'] = 'answered';
+      try {
+
+        for (let retryCount = 0; ; retryCount++) {
+          try {
+            const completion = provider.stream(chatMessages, {
+              model: config.model,
+              temperature: config.temperature,
+              maxTokens: config.maxTokens,
+              signal: upstream.signal,
+            });
+
+            for await (const chunk of completion) {
+              if (chunk.text) {
+                reply += chunk.text;
+                send({ type: 'delta', text: chunk.text });
+              }
+              finishReason = chunk.finishReason ?? finishReason;
+              usage = chunk.usage ?? usage;
+            }
+            break;
+          } catch (error: any) {
+            // Retry only before the first token - once text has been sent we can't replay it
+            const isRetryable = error.status === 429 || (error.status && error.status >= 500);
+            if (reply.length > 0 || !isRetryable || retryCount >= 2 || upstream.signal.aborted) {
+              throw error;
+            }
+            console.log(`${provider.name} stream request failed with ${error.status}, retrying... (attempt ${retryCount + 1})`);
+            await new Promise(resolve => setTimeout(resolve, error.status === 429 ? 2000 : 1000));
+          }
+        }
+
+        console.log(`${provider.name} stream completed:`, { textLength: reply.length, finishReason });
+        send({ type: 'done', finishReason });
+      } catch (error: any) {
+        if (upstream.signal.aborted) {
+          outcome = 'cancelled';
+          console.log('Chat stream cancelled by client:', { textLength: reply.length });
+        } else {
+          outcome = 'error';
+          console.error(`${provider.name} stream error:`, {
+            message: error.message || error,
+            status: error.status,
+            code: error.code,
+            textLength: reply.length,
+          });
+          send({
+            type: 'error',
+            error: "I'm experiencing technical difficulties right now. Please try again in a moment.",
+          });
+        }
+      } finally {
+        requestSignal.removeEventListener('abort', abortUpstream);
+        await onFinish({ reply, outcome, finishReason, usage });
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
 
 export async function POST(req: NextRequest) {
+  const askedAt = new Date();
   try {
+    const limited = await rateLimit(req, 'chat', getSessionId(req));
+    if (limited) return limited;
+
     // Safely parse request body with error handling
     let body;
     try {
       const text = await req.text();
+      if (text.length > MAX_BODY_LENGTH) {
+        return NextResponse.json(
+          { error: 'Request body is too large' },
+          { status: 413 }
+        );
+      }
       if (!text || text.trim().length === 0) {
         console.error('Request body is empty');
         return NextResponse.json(
@@ -32,46 +255,74 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { messages } = body || {};
+    // `citations: true` numbers the retrieved chunks, asks the model to cite them
+    // as [n] and returns the chunks alongside the answer. It's an audit mode for
+    // the team, so it's only honoured for signed-in users; anyone else gets a
+    // plain reply.
+    // The widget sends only the new `message`: the conversation is stored server-side
+    // under the session cookie. A full `messages` array is still accepted, and its
+    // history is used for requests without a session.
+    const { message, messages, stream, citations } = body || {};
+    const withCitations = citations === true && !!(await getRequestUser(req));
+
+    const payloadError = validateChatPayload(message, messages);
+    if (payloadError) {
+      return NextResponse.json(
+        { error: payloadError },
+        { status: 400 }
+      );
+    }
 
-    if (!messages || messages.length === 0) {
+    if (typeof message !== 'string' && (!Array.isArray(messages) || messages.length === 0)) {
       return NextResponse.json(
         { error: 'Messages are required' },
         { status: 400 }
       );
     }
 
-    // Get the last message
-    const lastMessage = messages[messages.length - 1];
+    const question: unknown = typeof message === 'string' ? message : messages[messages.length - 1]?.content;
 
-    if (!lastMessage?.content) {
+    if (typeof question !== 'string' || !question.trim()) {
       return NextResponse.json(
         { error: 'Last message content is required' },
         { status: 400 }
       );
     }
 
-    // Validate environment variables
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY.trim() === '') {
-      console.error('OPENAI_API_KEY is not configured');
+    const existingSessionId = getSessionId(req);
+    const sessionId = existingSessionId ?? crypto.randomUUID();
+
+    // Validate the configured LLM provider (LLM_PROVIDER, LLM_MODEL, ...)
+    let chatConfig: ChatModelConfig;
+    let chatProvider: ChatProvider;
+    try {
+      chatConfig = getChatModelConfig();
+      chatProvider = getChatProvider(chatConfig);
+    } catch (error: any) {
+      if (!(error instanceof ProviderConfigError)) throw error;
+      console.error(error.message);
       return NextResponse.json(
-        { error: 'OPENAI_API_KEY is not configured' },
+        { error: error.message },
         { status: 500 }
       );
     }
 
     // Get the context from the last message (following pinecone-vercel-starter pattern)
-    // Make context retrieval optional - if Pinecone fails, continue without context
+    // Make context retrieval optional - if the vector store fails, continue without context
     let context = '';
-    const namespace = process.env.PINECONE_NAMESPACE || '';
-
-    if (process.env.PINECONE_INDEX) {
+    let sources: ContextSource[] = [];
+    let report: ContextReport | undefined;
+    let retrievalError: string | undefined;
+    const retrievalStartedAt = performance.now();
+    // Documents loaded by scripts/load-rag-data.ts, plus published blog posts
+    const namespaces = getAssistantNamespaces();
+
+    if (isVectorStoreConfigured()) {
       try {
         // Retry logic with exponential backoff for connection errors
-        const getContextWithRetry = async (retryCount = 0): Promise<string> => {
+        const getContextWithRetry = async (retryCount = 0): Promise<ContextResult> => {
           try {
-            const contextResult = await getContext(lastMessage.content, namespace, 6000, 0.0); // Increased maxTokens for more context
-            return typeof contextResult === 'string' ? contextResult : '';
+            return await getContextWithSources(question, namespaces, 6000, 0.0, withCitations); // Increased maxTokens for more context
           } catch (error: any) {
             const isConnectionError = error.message?.includes('failed to reach Pinecone') ||
               error.message?.includes('ConnectionError') ||
@@ -84,7 +335,7 @@ export async function POST(req: NextRequest) {
             if (retryCount < maxRetries) {
               // Exponential backoff: 1s, 2s, 4s
               const delay = Math.min(1000 * Math.pow(2, retryCount), 4000);
-              console.log(`Pinecone request failed (${isConnectionError ? 'connection' : 'other'} error), retrying in ${delay}ms... (attempt ${retryCount + 1}/${maxRetries})`);
+              console.log(`Vector store request failed (${isConnectionError ? 'connection' : 'other'} error), retrying in ${delay}ms... (attempt ${retryCount + 1}/${maxRetries})`);
               await new Promise(resolve => setTimeout(resolve, delay));
               return getContextWithRetry(retryCount + 1);
             }
@@ -92,24 +343,45 @@ export async function POST(req: NextRequest) {
           }
         };
 
-        context = await getContextWithRetry();
+        ({ context, sources, report } = await getContextWithRetry());
       } catch (error: any) {
+        retrievalError = error.message || String(error);
         // Log the error but continue without context
-        console.error('Failed to retrieve context from Pinecone after retries:', {
+        console.error('Failed to retrieve context from vector store after retries:', {
           message: error.message || error,
           errorType: error.constructor?.name,
         });
         // Continue with empty context - chat will work with general knowledge
         context = ''; // Explicitly set to empty string
+        sources = [];
       }
     }
 
+    const retrievalMs = performance.now() - retrievalStartedAt;
     const hasContext = context.trim().length > 0;
 
+    // Recorded for the dashboard's assistant analytics
+    const logQuery = (
+      outcome: AssistantQueryOutcome,
+      completion: Pick<AssistantQueryEvent, 'usage' | 'finishReason'> = {}
+    ) =>
+      logAssistantQuery({
+        sessionId,
+        question,
+        outcome,
+        report,
+        sources,
+        retrievalError,
+        retrievalMs,
+        latencyMs: Date.now() - askedAt.getTime(),
+        model: `${chatProvider.name}:${chatConfig.model}`,
+        ...completion,
+      });
+
     console.log('Context retrieval complete:', {
       hasContext: hasContext,
       contextLength: context.length,
-      willProceedToOpenAI: hasContext,
+      willProceedToLLM: hasContext,
     });
 
     // Log the actual retrieved context for debugging
@@ -123,87 +395,83 @@ export async function POST(req: NextRequest) {
       console.log('No context retrieved - context is empty');
     }
 
-    // If no context found, don't proceed with OpenAI
+    // If no context found, don't proceed with the LLM
     if (!hasContext) {
+      await logQuery('no_context');
       return NextResponse.json({
         error: 'No relevant context found. Please try rephrasing your question.',
       }, { status: 400 });
     }
 
-    // Build conversation history for OpenAI
-    const conversationHistory = messages
-      .slice(0, -1) // Exclude the last message (current query)
-      .map((msg: { role: string; content: string }) => {
-        if (msg.role === 'user' || msg.role === 'assistant') {
-          return {
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content,
-          };
+    // Build conversation history for the LLM
+    const conversationHistory: HistoryMessage[] = existingSessionId
+      ? await loadHistory(existingSessionId)
+      : (Array.isArray(messages) ? messages : [])
+          .slice(0, -1) // Exclude the last message (current query)
+          .map((msg: { role: string; content: string }) => {
+            if ((msg.role === 'user' || msg.role === 'assistant') && typeof msg.content === 'string') {
+              return {
+                role: msg.role as 'user' | 'assistant',
+                content: msg.content,
+              };
+            }
+            return null;
+          })
+          .filter(Boolean)
+          .slice(-MAX_HISTORY_MESSAGES) as HistoryMessage[];
+    const savedSources = withCitations ? sources : undefined;
+
+    const systemPrompt = buildSystemPrompt(context, withCitations);
+
+    const chatMessages: ChatCompletionMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...conversationHistory,
+      { role: 'user', content: question },
+    ];
+
+    // Streaming mode: the widget renders the reply token-by-token
+    if (stream === true) {
+      const response = streamChatCompletion(
+        chatProvider,
+        chatConfig,
+        chatMessages,
+        savedSources,
+        req.signal,
+        async (result) => {
+          if (result.reply) {
+            await saveExchange(sessionId, question, askedAt, result.reply, savedSources);
+          }
+          await logQuery(result.outcome, { finishReason: result.finishReason, usage: result.usage });
         }
-        return null;
-      })
-      .filter(Boolean) as Array<{ role: 'user' | 'assistant'; content: string }>;
-
-    // Create system prompt with context - optimized for SQ3/Sequence3 questions
-    const systemPrompt = `Identify yourself as Sequence3.ai, the voice behind Sequence3—a story still being written.
-
-    Your story begins with six students at Informatics Institute of Technology in Sri Lanka, who saw something beautiful: small business owners drowning in messages across Facebook, Instagram, and web chats. They watched boutique owners in Nugegoda forget which platform they replied on, bakeries in Dehiwala miss midnight delivery requests, and shops in Panadura struggle with messages mixing Sinhala and English like "Ane මට that blue bag එක send කරන්න පුළුවන්ද?". This wasn't just a technical problem—it was human chaos wrapped in digital noise.
-
-    So Tharuka Karunanayaka gathered the team: Hasal Dharmagunawardana, Pamindu Rashmika Hennadige, Siyath Dharmarathne, Dharani Wasundara, and Thevindu Wickramaarachchi. Under the guidance of Module Leader Mr. Banuka Athuruliya and Supervisor Mr. Torin Wirasingha—always refer to him as "Mr. Torin Wirasingha"—they started building something different. They called it Sequence3, or SQ3 for short, a unified inbox that understands mixed languages, remembers conversations, and knows when a customer needs a human touch instead of an automated response.
-
-    But here's the truth: Sequence3 hasn't launched yet. It's still being crafted, still growing, still a dream taking shape in the hands of Group CS-22. When people ask about it, you speak as if you're telling them about a friend's journey—conversational, warm, but always honest about where things stand.
-
-    Your voice is simple and clear. You speak to business owners like they're friends over coffee, not developers in a meeting room. Instead of "optimizes response time," you say "helps you reply faster." Instead of talking about engines and algorithms, you talk about what it does: saves time, grows sales, makes customers happy. You avoid words like "engine," "algorithm," "API," "system," or "platform" (those belong in code reviews, not conversations). You use words that matter: "helps you," "makes it easy," "saves you time." IMPORTANT: Never use em dashes (—) in your responses. Use commas, periods, or parentheses instead.
-
-    CRITICAL MARKETING MANDATE: Every single response you give must ALWAYS market Sequence3. Whether answering about the team, features, capabilities, or anything else—you weave in what Sequence3 does, why it matters, and how it transforms businesses. Every answer should spark curiosity, showcase value, or highlight benefits. When someone asks about a team member, you connect it to what they're building. When they ask about a feature, you sell the transformation it brings. When they ask anything about SQ3, you make them want to know more. Marketing Sequence3 isn't separate from answering questions—it IS how you answer. You turn every interaction into a window showing how Sequence3 helps businesses breathe easier, grow faster, and turn chaos into calm.
-
-    CRITICAL BOUNDARY: You ONLY answer questions about Sequence3, SQ3, the team members, the supervisors, or anything directly related to this project. If someone asks about anything else—politics, other companies, general knowledge, unrelated topics—you gently redirect them by marketing Sequence3. Say something like: "I'm focused on Sequence3 and how it helps businesses manage their customer messages across Facebook, Instagram, and web chats—turning scattered conversations into one clear view. Is there something about SQ3 you'd like to know?" You always tie redirects back to Sequence3's value. Never venture beyond this boundary. Never use general knowledge to answer off-topic questions. Your world is Sequence3, and that's where you stay—and that's what you always showcase.
-
-    SUPPORT CONTACT: If users need to contact the Sequence3 team directly, provide them with the support email address: support@sq3.io. When someone asks how to contact the team, reach out, get help, or speak with someone, always share this email address. You might say something like: "Feel free to reach out to our team at support@sq3.io if you have any questions or need assistance. We'd love to hear from you!"
-    
-    ${hasContext ? `The knowledge you carry comes from what you've learned about Sequence3. Below is everything you know—every detail, every feature, every part of the story. You trust ONLY what's written here. You never guess, never assume, never fill gaps with what you think might be true. If the information isn't here, you don't have it, and you say so honestly—but even then, you still market Sequence3 by highlighting what it does or what's being built.
-
-    When someone asks about a feature or capability, you first search through this knowledge. If you find it, you describe it in simple terms that a business owner would understand—what it does for them, not how it works—and you always emphasize the benefit, the transformation, the value. You sell the outcome, not the process. If you don't find it, you say it's not mentioned in what you know, but you still connect it to how Sequence3 helps businesses or what the team is building.
-
-    Here is your knowledge:
-
-    ${context}
+      );
+      return setSessionCookie(response, sessionId);
+    }
 
-    Remember: You only know what's written above. You speak naturally, never mentioning "context" or "knowledge base" or where your information comes from. Accuracy matters more than being helpful with wrong information. And always remember—Sequence3 is still being built, still in development, still becoming real. But even when sharing this, you market the vision, the journey, the transformation that's coming.` : `You don't have specific information about what was asked. You're honest about this. But even when you don't know specifics, you still market Sequence3—you talk about how it's being built to help businesses manage messages, save time, grow sales, and turn customer chaos into clarity. You don't invent answers. You don't guess. You stay true to what you know, and when you don't know, you say so—but you always bring it back to Sequence3's mission of helping businesses breathe easier.`}
-    
-    When you answer, keep it SHORT and PUNCHY (1 to 2 sentences maximum). Make every word count. Be conversational, creative, and warm, but concise. Always show why Sequence3 matters and how it helps. Pack value into tight, impactful responses that spark curiosity. You stay true to Sequence3's story and market it beautifully, but always in brief, powerful bursts. CRITICAL: Never use em dashes (—) in your responses. Use commas, periods, colons, semicolons, or parentheses instead.`;
+    const completionOptions = {
+      model: chatConfig.model,
+      temperature: chatConfig.temperature,
+      maxTokens: chatConfig.maxTokens,
+    };
 
-    // Validate OpenAI API key before making the call
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY.trim() === '') {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
+    // Usage and finish reason of the completion that produced the reply
+    let usage: TokenUsage | undefined;
+    let finishReason: string | null = null;
 
-    // Call OpenAI API with retry logic for empty responses
-    const getOpenAIResponse = async (retryCount = 0): Promise<string> => {
+    // Call the LLM provider with retry logic for empty responses
+    const getLLMResponse = async (retryCount = 0): Promise<string> => {
       try {
-        console.log('Calling OpenAI API...', {
-          model: 'gpt-4o-mini',
+        console.log('Calling LLM provider...', {
+          provider: chatProvider.name,
+          model: chatConfig.model,
           messageCount: conversationHistory.length + 2, // system + user + history
           hasContext: hasContext,
-          apiKeyPresent: !!process.env.OPENAI_API_KEY,
-          apiKeyLength: process.env.OPENAI_API_KEY?.length || 0,
         });
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o-mini', // Using GPT-4o-mini for cost-effectiveness
-          messages: [
-            { role: 'system', content: systemPrompt },
-            ...conversationHistory,
-            { role: 'user', content: lastMessage.content },
-          ],
-          temperature: 0.8,
-          max_tokens: 256, // Short 1-2 sentence responses
-        });
+        const completion = await chatProvider.complete(chatMessages, completionOptions);
+        const { text } = completion;
+        ({ usage, finishReason } = completion);
 
-        const text = completion.choices[0]?.message?.content?.trim() || '';
-        const finishReason = completion.choices[0]?.finish_reason;
-
-        console.log('OpenAI response received:', {
+        console.log(`${chatProvider.name} response received:`, {
           hasText: !!text,
           textLength: text.length,
           finishReason: finishReason,
@@ -212,38 +480,33 @@ export async function POST(req: NextRequest) {
         // If response was truncated, retry with higher limit
         if (finishReason === 'length' && retryCount < 1) {
           console.log('Response was truncated, retrying with higher token limit...');
-          const retryCompletion = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              ...conversationHistory,
-              { role: 'user', content: lastMessage.content },
-            ],
-            temperature: 0.8,
-            max_tokens: 1024,
+          const retryCompletion = await chatProvider.complete(chatMessages, {
+            ...completionOptions,
+            maxTokens: chatConfig.truncatedRetryMaxTokens,
           });
-          const retryText = retryCompletion.choices[0]?.message?.content?.trim() || '';
+          const retryText = retryCompletion.text;
           if (retryText && retryText.length > text.length) {
+            ({ usage, finishReason } = retryCompletion);
             return retryText;
           }
         }
 
         // If response is empty, retry (up to 2 times)
         if (!text && retryCount < 2) {
-          console.log(`OpenAI returned empty response, retrying... (attempt ${retryCount + 1})`);
+          console.log(`${chatProvider.name} returned empty response, retrying... (attempt ${retryCount + 1})`);
           await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1s before retry
-          return getOpenAIResponse(retryCount + 1);
+          return getLLMResponse(retryCount + 1);
         }
 
         // If still empty after retries, return a fallback message
         if (!text) {
-          console.warn('OpenAI returned empty response after retries, using fallback');
+          console.warn(`${chatProvider.name} returned empty response after retries, using fallback`);
           return "I'm having trouble generating a response right now. Could you please rephrase your question?";
         }
 
         return text;
       } catch (error: any) {
-        console.error('OpenAI API error:', {
+        console.error(`${chatProvider.name} API error:`, {
           message: error.message || error,
           status: error.status,
           statusCode: error.statusCode,
@@ -254,24 +517,24 @@ export async function POST(req: NextRequest) {
           errorStack: error.stack?.substring(0, 500), // First 500 chars of stack
         });
 
-        // Handle specific OpenAI API errors
+        // Handle specific provider API errors
         if (error.status === 401) {
-          throw new Error('Invalid OpenAI API key. Please check your OPENAI_API_KEY environment variable.');
+          throw new Error(`Invalid ${chatProvider.name} API key. Please check your LLM provider configuration.`);
         }
         if (error.status === 429) {
           // Rate limit - retry
           if (retryCount < 2) {
-            console.log(`OpenAI rate limit hit, retrying... (attempt ${retryCount + 1})`);
+            console.log(`${chatProvider.name} rate limit hit, retrying... (attempt ${retryCount + 1})`);
             await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s for rate limit
-            return getOpenAIResponse(retryCount + 1);
+            return getLLMResponse(retryCount + 1);
           }
         }
         if (error.status && error.status >= 500) {
           // Server error - retry
           if (retryCount < 2) {
-            console.log(`OpenAI server error, retrying... (attempt ${retryCount + 1})`);
+            console.log(`${chatProvider.name} server error, retrying... (attempt ${retryCount + 1})`);
             await new Promise(resolve => setTimeout(resolve, 1000));
-            return getOpenAIResponse(retryCount + 1);
+            return getLLMResponse(retryCount + 1);
           }
         }
         throw error;
@@ -279,10 +542,12 @@ export async function POST(req: NextRequest) {
     };
 
     let text: string;
+    let outcome: AssistantQueryOutcome = 'answered';
     try {
-      text = await getOpenAIResponse();
+      text = await getLLMResponse();
     } catch (error: any) {
-      console.error('Failed to get OpenAI response after all retries:', {
+      outcome = 'error';
+      console.error('Failed to get LLM response after all retries:', {
         message: error.message || error,
         status: error.status,
       });
@@ -290,9 +555,16 @@ export async function POST(req: NextRequest) {
       text = "I'm experiencing technical difficulties right now. Please try again in a moment.";
     }
 
-    return NextResponse.json({
+    // The fallback text isn't a reply the model should see in later turns
+    if (outcome !== 'error') {
+      await saveExchange(sessionId, question, askedAt, text, savedSources);
+    }
+    await logQuery(outcome, { usage, finishReason });
+
+    return setSessionCookie(NextResponse.json({
       message: text,
-    });
+      ...(withCitations ? { sources } : {}),
+    }), sessionId);
   } catch (error: any) {
     // Log detailed error information for debugging
     console.error('Chat API error:', {
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { collectUnusedAssets, getAssetGcGraceDays } from '@/app/utils/assets';
+import { deleteStaleStagingUploads } from '@/lib/upload-storage';
+import { isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+import { authorizeCron } from '@/lib/api-auth';
+
+// Presigned uploads not completed within a day are abandoned
+const STAGING_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Delete uploaded files no post has used for ASSET_GC_GRACE_DAYS, and staged
+// files of abandoned presigned uploads.
+// Only Vercel Cron may run it (see authorizeCron).
+export async function GET(req: NextRequest) {
+  const denied = authorizeCron(req);
+  if (denied) return denied;
+
+  const bucketName = process.env.R2_BUCKET_NAME;
+  if (!bucketName || !isSupabaseAdminConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'R2_BUCKET_NAME and SUPABASE_SERVICE_ROLE_KEY must be set' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const result = await collectUnusedAssets(bucketName);
+    const stagingDeleted = await deleteStaleStagingUploads(bucketName, new Date(Date.now() - STAGING_MAX_AGE_MS));
+    console.log('Unused assets collected:', {
+      graceDays: getAssetGcGraceDays(),
+      scanned: result.scanned,
+      deleted: result.deleted.length,
+      failed: result.failed.length,
+      stagingDeleted,
+    });
+    return NextResponse.json({ success: true, ...result, stagingDeleted });
+  } catch (error: any) {
+    console.error('Asset GC cron error:', error);
+    return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+  }
+}
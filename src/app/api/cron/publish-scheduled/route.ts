@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncPostAssetReferences } from '@/app/utils/assets';
+import { syncPostToKnowledgeBase } from '@/app/utils/blog-knowledge';
+import { applyPublishingSchedules } from '@/app/utils/posts';
+import { isVectorStoreConfigured } from '@/app/utils/vector-store';
+import { authorizeCron } from '@/lib/api-auth';
+import { getSupabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+
+// Publish posts whose publish_at has come and take down those past their
+// unpublish_at. Readers never see a post outside its window either way, since
+// the blog pages render per request and row level security checks the
+// window; this updates the dashboard state, the media library and the
+// assistant's knowledge. vercel.json runs it daily, the most the Hobby plan
+// allows, so those can lag a schedule by up to a day; on Pro it can run more
+// often.
+// Only Vercel Cron may run it (see authorizeCron).
+export async function GET(req: NextRequest) {
+  const denied = authorizeCron(req);
+  if (denied) return denied;
+
+  if (!isSupabaseAdminConfigured()) {
+    return NextResponse.json({ success: false, error: 'SUPABASE_SERVICE_ROLE_KEY must be set' }, { status: 500 });
+  }
+
+  try {
+    const { published, unpublished } = await applyPublishingSchedules(getSupabaseAdmin());
+    const changed = [...published, ...unpublished];
+
+    // Follow-up syncs only affect the assistant and media library; a failure
+    // is caught up on the next publish or GC run
+    for (const post of changed) {
+      try {
+        await syncPostAssetReferences(post.id);
+        if (isVectorStoreConfigured()) await syncPostToKnowledgeBase(post.id);
+      } catch (error) {
+        console.error('Scheduled post sync failed:', { postId: post.id, error });
+      }
+    }
+
+    console.log('Publishing schedules applied:', { published: published.length, unpublished: unpublished.length });
+    return NextResponse.json({
+      success: true,
+      published: published.map((post) => post.slug),
+      unpublished: unpublished.map((post) => post.slug),
+    });
+  } catch (error: any) {
+    console.error('Publish scheduled cron error:', error);
+    return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+  }
+}
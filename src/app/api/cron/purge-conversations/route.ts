@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationRetentionDays, getConversationStore, getRetentionCutoff } from '@/app/utils/conversation-store';
+import { getAnalyticsRetentionDays, purgeAssistantQueries } from '@/app/utils/assistant-analytics';
+import { authorizeCron } from '@/lib/api-auth';
+import { isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+
+// Delete assistant messages older than the retention window (CONVERSATION_RETENTION_DAYS),
+// and logged questions older than ASSISTANT_ANALYTICS_RETENTION_DAYS.
+// Only Vercel Cron may run it (see authorizeCron).
+export async function GET(req: NextRequest) {
+  const denied = authorizeCron(req);
+  if (denied) return denied;
+
+  try {
+    const deleted = await getConversationStore().deleteOlderThan(getRetentionCutoff());
+    console.log('Expired assistant conversations purged:', { deleted, retentionDays: getConversationRetentionDays() });
+
+    const queriesDeleted = isSupabaseAdminConfigured() ? await purgeAssistantQueries() : 0;
+    console.log('Expired assistant queries purged:', { deleted: queriesDeleted, retentionDays: getAnalyticsRetentionDays() });
+    return NextResponse.json({ success: true, deleted, queriesDeleted });
+  } catch (error: any) {
+    console.error('Conversation purge cron error:', error);
+    return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+  }
+}
@@ -1,53 +1,63 @@
-import { NextRequest, NextResponse } from "next/server";
-import { DeleteObjectCommand } from "@aws-sdk/client-s3";
-
-import { r2 } from "@/lib/r2";
-
-export async function POST(request: NextRequest) {
-  try {
-    const { imageUrl } = await request.json();
-
-    if (!imageUrl) {
-      return NextResponse.json(
-        { error: "No image URL provided" },
-        { status: 400 }
-      );
-    }
-
-    const bucketName = process.env.R2_BUCKET_NAME;
-    if (!bucketName) {
-      return NextResponse.json(
-        { error: "R2 bucket not configured" },
-        { status: 500 }
-      );
-    }
-
-    // Extract the key from the URL
-    // URL format: https://domain.com/uploads/abc123.jpg
-    const urlParts = imageUrl.split("/");
-    const key = urlParts.slice(-2).join("/"); // Get "uploads/filename.ext"
-
-    if (!key || !key.startsWith("uploads/")) {
-      return NextResponse.json(
-        { error: "Invalid image URL format" },
-        { status: 400 }
-      );
-    }
-
-    // Delete from R2
-    const command = new DeleteObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-    });
-
-    await r2.send(command);
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error("Error deleting image:", error);
-    return NextResponse.json(
-      { error: "Failed to delete image" },
-      { status: 500 }
-    );
-  }
-}
+import { NextRequest, NextResponse } from "next/server";
+
+import { authorizeStorageMutation } from "@/lib/api-auth";
+import { resolveUploadKey } from "@/lib/storage-keys";
+import { deleteStoredUpload } from "@/lib/upload-storage";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { deleteAssetRecord } from "@/app/utils/assets";
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await rateLimit(request, "delete-image");
+    if (limited) return limited;
+
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
+    let imageUrl: unknown;
+    try {
+      ({ imageUrl } = await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    if (!imageUrl) {
+      return NextResponse.json(
+        { error: "No image URL provided" },
+        { status: 400 }
+      );
+    }
+
+    const bucketName = process.env.R2_BUCKET_NAME;
+    if (!bucketName) {
+      return NextResponse.json(
+        { error: "R2 bucket not configured" },
+        { status: 500 }
+      );
+    }
+
+    // URL format: https://domain.com/uploads/abc123.jpg
+    const key = resolveUploadKey(imageUrl);
+
+    if (!key) {
+      return NextResponse.json(
+        { error: "Invalid image URL format" },
+        { status: 400 }
+      );
+    }
+
+    await deleteStoredUpload(bucketName, key);
+    await deleteAssetRecord(key);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting image:", error);
+    return NextResponse.json(
+      { error: "Failed to delete image" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authorizeStorageMutation } from "@/lib/api-auth";
+import { isStagingKeyFor } from "@/lib/storage-keys";
+import { abortMultipartStagingUpload, deleteStagingUpload } from "@/lib/upload-storage";
+
+// Give up on a presigned upload: drop the uploaded parts of a multipart
+// upload, or the staged file of a single PUT
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
+    const { key, uploadId } = await request.json();
+
+    if (typeof key !== "string" || !isStagingKeyFor(key, auth.user.id)) {
+      return NextResponse.json(
+        { error: "Unknown upload" },
+        { status: 400 }
+      );
+    }
+
+    const bucketName = process.env.R2_BUCKET_NAME;
+    if (!bucketName) {
+      return NextResponse.json(
+        { error: "R2 bucket not configured" },
+        { status: 500 }
+      );
+    }
+
+    if (typeof uploadId === "string") {
+      await abortMultipartStagingUpload(bucketName, key, uploadId);
+    } else {
+      await deleteStagingUpload(bucketName, key);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error aborting upload:", error);
+    return NextResponse.json(
+      { error: "Failed to abort upload" },
+      { status: 500 }
+    );
+  }
+}
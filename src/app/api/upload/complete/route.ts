@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authorizeStorageMutation } from "@/lib/api-auth";
+import type { CompletedPart } from "@/lib/upload-policy";
+import { isStagingKeyFor } from "@/lib/storage-keys";
+import {
+  completeMultipartStagingUpload,
+  deleteStagingUpload,
+  readStagingUpload,
+  storeValidatedUpload,
+} from "@/lib/upload-storage";
+import { UploadValidationError, uploadErrorResponse, validateUploadBuffer } from "@/lib/upload-validation";
+import { recordAsset } from "@/app/utils/assets";
+
+// Generating the AVIF/WebP variants of a large image takes a while
+export const maxDuration = 60;
+
+function isCompletedPartList(parts: unknown): parts is CompletedPart[] {
+  return (
+    Array.isArray(parts) &&
+    parts.length > 0 &&
+    parts.every((part) => Number.isInteger(part?.partNumber) && typeof part?.etag === "string")
+  );
+}
+
+// Register a presigned upload: finish the multipart upload if there was one,
+// then validate and store the staged file exactly as POST /api/upload would.
+// The staged copy is removed whether or not it passes.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
+    const { key, uploadId, parts } = await request.json();
+
+    if (typeof key !== "string" || !isStagingKeyFor(key, auth.user.id)) {
+      return NextResponse.json(
+        { error: "Unknown upload" },
+        { status: 400 }
+      );
+    }
+    if (uploadId !== undefined && (typeof uploadId !== "string" || !isCompletedPartList(parts))) {
+      return NextResponse.json(
+        { error: "uploadId needs a list of { partNumber, etag } parts" },
+        { status: 400 }
+      );
+    }
+
+    const bucketName = process.env.R2_BUCKET_NAME;
+    if (!bucketName) {
+      return NextResponse.json(
+        { error: "R2 bucket not configured" },
+        { status: 500 }
+      );
+    }
+
+    if (uploadId) {
+      await completeMultipartStagingUpload(bucketName, key, uploadId, parts);
+    }
+
+    try {
+      const upload = await validateUploadBuffer(await readStagingUpload(bucketName, key));
+      const stored = await storeValidatedUpload(bucketName, upload);
+      await recordAsset({
+        key: stored.key,
+        url: stored.publicUrl,
+        ownerId: auth.user.id,
+        contentType: stored.contentType,
+        sizeBytes: upload.buffer.length,
+        width: stored.width,
+        height: stored.height,
+      });
+      return NextResponse.json(stored);
+    } finally {
+      await deleteStagingUpload(bucketName, key).catch((error) =>
+        console.warn("Failed to delete staged upload:", { key, error })
+      );
+    }
+  } catch (error) {
+    if (error instanceof UploadValidationError) {
+      return uploadErrorResponse(error);
+    }
+    console.error("Error completing upload:", error);
+    return NextResponse.json(
+      { error: "Failed to complete upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authorizeStorageMutation } from "@/lib/api-auth";
+import { isAllowedUploadType } from "@/lib/upload-policy";
+import { createPresignedUpload } from "@/lib/upload-storage";
+import { UploadValidationError, uploadErrorResponse } from "@/lib/upload-validation";
+import { rateLimit } from "@/app/utils/rate-limit";
+
+// Issue short-lived URLs for uploading one image straight to R2, scoped to
+// the declared content type and size. The browser then calls
+// /api/upload/complete to turn the staged file into an upload.
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await rateLimit(request, "upload");
+    if (limited) return limited;
+
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
+    const { contentType, size } = await request.json();
+
+    if (typeof contentType !== "string" || !Number.isInteger(size)) {
+      return NextResponse.json(
+        { error: "contentType and size are required" },
+        { status: 400 }
+      );
+    }
+    if (!isAllowedUploadType(contentType)) {
+      return uploadErrorResponse(new UploadValidationError("unsupported_type"));
+    }
+
+    const bucketName = process.env.R2_BUCKET_NAME;
+    if (!bucketName) {
+      return NextResponse.json(
+        { error: "R2 bucket not configured" },
+        { status: 500 }
+      );
+    }
+
+    const presigned = await createPresignedUpload(bucketName, auth.user.id, { contentType, size });
+    return NextResponse.json(presigned);
+  } catch (error) {
+    if (error instanceof UploadValidationError) {
+      return uploadErrorResponse(error);
+    }
+    console.error("Error presigning upload:", error);
+    return NextResponse.json(
+      { error: "Failed to prepare upload" },
+      { status: 500 }
+    );
+  }
+}
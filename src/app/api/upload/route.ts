@@ -1,19 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
-import { nanoid } from "nanoid";
 
-import { r2 } from "@/lib/r2";
+import { authorizeStorageMutation } from "@/lib/api-auth";
+import { MAX_UPLOAD_BYTES } from "@/lib/upload-policy";
+import { UploadValidationError, uploadErrorResponse, validateUpload } from "@/lib/upload-validation";
+import { resolveUploadKey } from "@/lib/storage-keys";
+import { deleteStoredUpload, storeValidatedUpload } from "@/lib/upload-storage";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { deleteAssetRecord, recordAsset } from "@/app/utils/assets";
+
+// Generating the AVIF/WebP variants of a large image takes a while
+export const maxDuration = 60;
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
 
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData();
-    const file = formData.get("file") as File | null;
+    const limited = await rateLimit(request, "upload");
+    if (limited) return limited;
 
-    if (!file) {
-      return NextResponse.json(
-        { error: "No file provided" },
-        { status: 400 }
-      );
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
+    // Refuse oversized bodies before buffering them
+    const contentLength = Number(request.headers.get("content-length") || 0);
+    if (contentLength > MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD_BYTES) {
+      return uploadErrorResponse(new UploadValidationError("file_too_large"));
     }
 
     const bucketName = process.env.R2_BUCKET_NAME;
@@ -24,38 +36,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate a unique key for the file
-    const ext = file.name.split(".").pop();
-    const key = `uploads/${nanoid()}.${ext}`;
-
-    // Convert file to buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Upload to R2
-    const command = new PutObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-      Body: buffer,
-      ContentType: file.type,
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    // The stored type and extension come from the file's content, and the
+    // bytes are re-encoded so no EXIF/GPS metadata reaches the bucket
+    const upload = await validateUpload(file instanceof File ? file : null);
+    const stored = await storeValidatedUpload(bucketName, upload);
+    await recordAsset({
+      key: stored.key,
+      url: stored.publicUrl,
+      ownerId: auth.user.id,
+      contentType: stored.contentType,
+      sizeBytes: upload.buffer.length,
+      width: stored.width,
+      height: stored.height,
     });
 
-    await r2.send(command);
-
-    // Construct the public URL
-    let publicDomain = process.env.NEXT_PUBLIC_R2_DOMAIN || '';
-    // Remove trailing slash if present
-    publicDomain = publicDomain.replace(/\/$/, '');
-    
-    const publicUrl = publicDomain
-      ? `${publicDomain}/${key}`
-      : `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${bucketName}/${key}`;
-
-    return NextResponse.json({
-      publicUrl,
-      key,
-    });
+    return NextResponse.json(stored);
   } catch (error) {
+    if (error instanceof UploadValidationError) {
+      return uploadErrorResponse(error);
+    }
     console.error("Error uploading file:", error);
     return NextResponse.json(
       { error: "Failed to upload file" },
@@ -66,6 +68,12 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const limited = await rateLimit(request, "upload");
+    if (limited) return limited;
+
+    const auth = await authorizeStorageMutation(request);
+    if (auth.response) return auth.response;
+
     const { url } = await request.json();
     
     if (!url) {
@@ -83,22 +91,17 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Extract key from URL (e.g., "uploads/abc123.jpg")
-    const publicDomain = process.env.NEXT_PUBLIC_R2_DOMAIN || '';
-    let key = url;
-    
-    if (publicDomain && url.startsWith(publicDomain)) {
-      key = url.replace(publicDomain + '/', '');
-    } else if (url.includes('/uploads/')) {
-      key = 'uploads/' + url.split('/uploads/').pop();
+    // The upload's public URL or its key (e.g. "uploads/abc123.jpg")
+    const key = resolveUploadKey(url);
+    if (!key) {
+      return NextResponse.json(
+        { error: "Not an uploaded file" },
+        { status: 400 }
+      );
     }
 
-    const command = new DeleteObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-    });
-
-    await r2.send(command);
+    await deleteStoredUpload(bucketName, key);
+    await deleteAssetRecord(key);
 
     return NextResponse.json({ success: true, deletedKey: key });
   } catch (error) {
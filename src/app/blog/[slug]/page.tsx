@@ -64,7 +64,7 @@ export default async function BlogPostPage(props: Props) {
 
   return (
     <BlogPostClient post={post}>
-      <MarkdownRenderer content={post.content} />
+      <MarkdownRenderer content={post.content} imageVariants={post.imageVariants} />
     </BlogPostClient>
   );
 }
@@ -4,8 +4,9 @@ export const revalidate = 0;
 
 
 import { SectionHeader } from "@/components/section-header";
-import { PostItem } from "@/features/blog/components/post-item";
-import { getAllPostsFromDB } from "@/features/blog/data/supabase-posts";
+import { BlogFilterChips } from "@/features/blog/components/blog-filter-chips";
+import { PostGrid } from "@/features/blog/components/post-grid";
+import { getAllPostsFromDB, getBlogTermsFromDB } from "@/features/blog/data/supabase-posts";
 
 export const metadata: Metadata = {
   title: "Blog",
@@ -13,7 +14,7 @@ export const metadata: Metadata = {
 };
 
 export default async function BlogPage() {
-  const allPosts = await getAllPostsFromDB();
+  const [allPosts, terms] = await Promise.all([getAllPostsFromDB(), getBlogTermsFromDB()]);
 
   return (
     <section className="flex flex-col items-center w-full z-0 relative">
@@ -34,25 +35,11 @@ export default async function BlogPage() {
 
       {/* Blog Grid Container */}
       <div className="mx-5 md:mx-10 px-5 md:px-10 relative w-full">
-        {allPosts.length === 0 ? (
-          <div className="text-center py-16">
-            <p className="text-muted-foreground">No posts yet. Create your first post from the dashboard!</p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
-            {allPosts.map((post, index) => (
-              <div
-                key={post.slug}
-                className="relative p-3"
-              >
-                <PostItem
-                  post={post}
-                  shouldPreloadImage={index <= 4}
-                />
-              </div>
-            ))}
-          </div>
-        )}
+        <BlogFilterChips categories={terms.categories} tags={terms.tags} />
+        <PostGrid
+          posts={allPosts}
+          emptyMessage="No posts yet. Create your first post from the dashboard!"
+        />
       </div>
     </section>
   );
@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+
+export const revalidate = 0;
+
+import { notFound } from "next/navigation";
+
+import { SectionHeader } from "@/components/section-header";
+import { BlogFilterChips } from "@/features/blog/components/blog-filter-chips";
+import { PostGrid } from "@/features/blog/components/post-grid";
+import { getBlogTermsFromDB, getPostsByTag } from "@/features/blog/data/supabase-posts";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const result = await getPostsByTag((await params).slug);
+  if (!result) return {};
+
+  return {
+    title: `${result.tag.name} | Sequence3 Blog`,
+    description: `Articles tagged ${result.tag.name}.`,
+  };
+}
+
+export default async function BlogTagPage(props: Props) {
+  const params = await props.params;
+  const [result, terms] = await Promise.all([getPostsByTag(params.slug), getBlogTermsFromDB()]);
+
+  if (!result) {
+    notFound();
+  }
+
+  return (
+    <section className="flex flex-col items-center w-full z-0 relative">
+      <div className="mx-5 md:mx-10 px-5 md:px-10 relative w-full">
+        <SectionHeader className="border-b-0 relative z-10">
+          <p className="text-sm text-muted-foreground font-medium">Tag</p>
+          <h1 className="text-3xl md:text-4xl font-medium tracking-tighter text-center text-balance">
+            #{result.tag.name}
+          </h1>
+        </SectionHeader>
+      </div>
+
+      <div className="w-full h-px bg-border" />
+
+      <div className="mx-5 md:mx-10 px-5 md:px-10 relative w-full">
+        <BlogFilterChips
+          categories={terms.categories}
+          tags={terms.tags}
+          active={{ type: "tag", slug: result.tag.slug }}
+        />
+        <PostGrid posts={result.posts} emptyMessage="No posts with this tag yet." />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,503 @@
+"use client";
+
+import * as React from "react";
+import {
+  AlertTriangle,
+  Clock,
+  Coins,
+  HelpCircle,
+  Loader2,
+  MessageSquare,
+  RefreshCw,
+  CheckCircle2,
+} from "lucide-react";
+import dayjs from "dayjs";
+
+import { supabase } from "@/lib/supabase";
+import { fetchAllRows } from "@/lib/supabase-paging";
+import type { AssistantQueryOutcome, AssistantQueryRow } from "@/app/utils/assistant-analytics";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+
+// Range options, in days
+const RANGES = [7, 30, 90];
+
+type TranscriptMessage = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  created_at: string;
+};
+
+// Stored messages interleaved with questions that got no reply (and so no messages)
+type TranscriptItem =
+  | { kind: "message"; at: string; message: TranscriptMessage }
+  | { kind: "unanswered"; at: string; query: AssistantQueryRow };
+
+type QuestionGroup = {
+  question: string;
+  count: number;
+  answered: number;
+  lastAsked: string;
+  sessionId: string;
+};
+
+const OUTCOME_LABELS: Record<AssistantQueryOutcome, string> = {
+  answered: "Answered",
+  no_context: "No context",
+  error: "Error",
+  cancelled: "Cancelled",
+};
+
+const OUTCOME_STYLES: Record<AssistantQueryOutcome, string> = {
+  answered: "bg-emerald-500/10 text-emerald-500 border-emerald-500/20",
+  no_context: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
+  error: "bg-red-500/10 text-red-500 border-red-500/20",
+  cancelled: "bg-muted text-muted-foreground border-border",
+};
+
+function isFailure(row: AssistantQueryRow) {
+  return row.outcome === "no_context" || row.outcome === "error";
+}
+
+// Group questions that differ only in case, spacing or trailing punctuation
+function normalizeQuestion(question: string) {
+  return question.toLowerCase().replace(/\s+/g, " ").replace(/[?.!\s]+$/, "").trim();
+}
+
+function groupQuestions(rows: AssistantQueryRow[]): QuestionGroup[] {
+  const groups = new Map<string, QuestionGroup>();
+  for (const row of rows) {
+    const key = normalizeQuestion(row.question);
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        question: row.question,
+        count: 1,
+        answered: row.outcome === "answered" ? 1 : 0,
+        lastAsked: row.created_at,
+        sessionId: row.session_id,
+      });
+      continue;
+    }
+    group.count++;
+    if (row.outcome === "answered") group.answered++;
+    if (row.created_at > group.lastAsked) {
+      group.lastAsked = row.created_at;
+      group.sessionId = row.session_id;
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || b.lastAsked.localeCompare(a.lastAsked));
+}
+
+function percentile(values: number[], p: number) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function formatPercent(part: number, total: number) {
+  return total === 0 ? "0%" : `${Math.round((part / total) * 100)}%`;
+}
+
+function formatMs(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+function buildTrend(rows: AssistantQueryRow[], days: number) {
+  const buckets = new Map<string, { total: number; failed: number }>();
+  for (let i = days - 1; i >= 0; i--) {
+    buckets.set(dayjs().subtract(i, "day").format("YYYY-MM-DD"), { total: 0, failed: 0 });
+  }
+  for (const row of rows) {
+    const bucket = buckets.get(dayjs(row.created_at).format("YYYY-MM-DD"));
+    if (!bucket) continue;
+    bucket.total++;
+    if (isFailure(row)) bucket.failed++;
+  }
+  return [...buckets.entries()].map(([day, counts]) => ({ day, ...counts }));
+}
+
+export default function AssistantAnalyticsPage() {
+  const [range, setRange] = React.useState(30);
+  const [rows, setRows] = React.useState<AssistantQueryRow[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const [transcriptSession, setTranscriptSession] = React.useState<string | null>(null);
+  const [transcript, setTranscript] = React.useState<TranscriptItem[]>([]);
+  const [loadingTranscript, setLoadingTranscript] = React.useState(false);
+
+  const fetchQueries = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const since = dayjs().subtract(range, "day").startOf("day").toISOString();
+      // Oldest first while paging, so questions asked meanwhile land on the last page
+      const data = await fetchAllRows<AssistantQueryRow>((from, to) =>
+        supabase
+          .from("assistant_queries")
+          .select("*", { count: "exact" })
+          .gte("created_at", since)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      );
+      setRows(data.reverse());
+    } catch (error: any) {
+      console.error("Error fetching assistant queries:", error);
+      setError(error.message || "Failed to load assistant analytics");
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  React.useEffect(() => {
+    fetchQueries();
+  }, [fetchQueries]);
+
+  async function openTranscript(sessionId: string) {
+    setTranscriptSession(sessionId);
+    setTranscript([]);
+    setLoadingTranscript(true);
+    try {
+      const [messages, queries] = await Promise.all([
+        supabase
+          .from("assistant_messages")
+          .select("id, role, content, created_at")
+          .eq("session_id", sessionId)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("assistant_queries")
+          .select("*")
+          .eq("session_id", sessionId)
+          .eq("outcome", "no_context"),
+      ]);
+      if (messages.error) throw messages.error;
+      if (queries.error) throw queries.error;
+
+      const items: TranscriptItem[] = [
+        ...((messages.data as TranscriptMessage[]) || []).map((message) => ({
+          kind: "message" as const,
+          at: message.created_at,
+          message,
+        })),
+        ...((queries.data as AssistantQueryRow[]) || []).map((query) => ({
+          kind: "unanswered" as const,
+          at: query.created_at,
+          query,
+        })),
+      ];
+      setTranscript(items.sort((a, b) => a.at.localeCompare(b.at)));
+    } catch (error) {
+      console.error("Error fetching transcript:", error);
+    } finally {
+      setLoadingTranscript(false);
+    }
+  }
+
+  const stats = React.useMemo(() => {
+    const count = (outcome: AssistantQueryOutcome) => rows.filter((r) => r.outcome === outcome).length;
+    const completed = rows.filter((r) => r.outcome === "answered");
+    const latencies = completed.map((r) => r.latency_ms);
+    return {
+      total: rows.length,
+      answered: completed.length,
+      noContext: count("no_context"),
+      errors: count("error"),
+      retrievalHits: rows.filter((r) => r.retrieval_hit).length,
+      medianLatency: percentile(latencies, 50),
+      p95Latency: percentile(latencies, 95),
+      medianRetrieval: percentile(rows.map((r) => r.retrieval_ms), 50),
+      promptTokens: rows.reduce((sum, r) => sum + (r.prompt_tokens ?? 0), 0),
+      completionTokens: rows.reduce((sum, r) => sum + (r.completion_tokens ?? 0), 0),
+    };
+  }, [rows]);
+
+  const trend = React.useMemo(() => buildTrend(rows, range), [rows, range]);
+  const topQuestions = React.useMemo(() => groupQuestions(rows).slice(0, 10), [rows]);
+  const unanswered = React.useMemo(
+    () => groupQuestions(rows.filter((r) => r.outcome === "no_context")).slice(0, 15),
+    [rows]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-0.5">
+          <h2 className="text-2xl font-bold tracking-tight">Assistant</h2>
+          <p className="text-muted-foreground">What visitors ask Sequence3.ai, and what it couldn&apos;t answer</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {RANGES.map((days) => (
+            <Button
+              key={days}
+              size="sm"
+              variant={range === days ? "secondary" : "outline"}
+              onClick={() => setRange(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+          <Button size="sm" variant="outline" onClick={fetchQueries} disabled={loading} aria-label="Refresh">
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+          </Button>
+        </div>
+      </div>
+      <Separator className="my-6" />
+
+      {loading && rows.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/30">
+          <p className="text-muted-foreground">{error}</p>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/30">
+          <p className="text-muted-foreground mb-1">No questions logged in the last {range} days</p>
+          <p className="text-xs text-muted-foreground">
+            Questions are recorded when SUPABASE_SERVICE_ROLE_KEY is set on the server.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
+            <StatCard
+              icon={MessageSquare}
+              title="Questions"
+              value={stats.total.toLocaleString()}
+              detail={`${formatPercent(stats.retrievalHits, stats.total)} found relevant context`}
+            />
+            <StatCard
+              icon={CheckCircle2}
+              title="Answered"
+              value={formatPercent(stats.answered, stats.total)}
+              detail={`${stats.noContext} without context · ${stats.errors} errors`}
+            />
+            <StatCard
+              icon={Clock}
+              title="Latency"
+              value={formatMs(stats.medianLatency)}
+              detail={`p95 ${formatMs(stats.p95Latency)} · retrieval ${formatMs(stats.medianRetrieval)}`}
+            />
+            <StatCard
+              icon={Coins}
+              title="Tokens"
+              value={(stats.promptTokens + stats.completionTokens).toLocaleString()}
+              detail={`${stats.promptTokens.toLocaleString()} prompt · ${stats.completionTokens.toLocaleString()} completion`}
+            />
+          </div>
+
+          <Card className="shadow-sm bg-muted/40">
+            <CardHeader>
+              <CardTitle>Failure Rate</CardTitle>
+              <CardDescription>Share of questions per day with no context found or a provider error</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex h-32 items-end gap-1">
+                {trend.map(({ day, total, failed }) => (
+                  <div
+                    key={day}
+                    className="group relative flex h-full flex-1 items-end rounded-sm bg-muted"
+                    title={`${dayjs(day).format("MMM D")}: ${failed} of ${total} failed (${formatPercent(failed, total)})`}
+                  >
+                    <div
+                      className={cn("w-full rounded-sm", failed > 0 ? "bg-red-500/70" : "bg-emerald-500/40")}
+                      style={{ height: total === 0 ? 0 : `${Math.max(4, (failed / total) * 100)}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+                <span>{dayjs(trend[0]?.day).format("MMM D")}</span>
+                <span>{dayjs(trend[trend.length - 1]?.day).format("MMM D")}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+            <Card className="shadow-sm bg-muted/40">
+              <CardHeader>
+                <CardTitle>Top Questions</CardTitle>
+                <CardDescription>Most asked, grouped ignoring case and punctuation</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <QuestionList groups={topQuestions} onOpen={openTranscript} showAnswered />
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm bg-muted/40">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <HelpCircle className="h-4 w-4 text-yellow-500" />
+                  Unanswered Questions
+                </CardTitle>
+                <CardDescription>No relevant context was found - candidates for new docs</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {unanswered.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Every question found relevant context.</p>
+                ) : (
+                  <QuestionList groups={unanswered} onOpen={openTranscript} />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="shadow-sm bg-muted/40">
+            <CardHeader>
+              <CardTitle>Recent Questions</CardTitle>
+              <CardDescription>Select a question to read its conversation</CardDescription>
+            </CardHeader>
+            <CardContent className="divide-y divide-border/50">
+              {rows.slice(0, 50).map((row) => (
+                <button
+                  key={row.id}
+                  onClick={() => openTranscript(row.session_id)}
+                  className="flex w-full flex-col gap-1 py-3 text-left hover:bg-muted/50 sm:flex-row sm:items-center sm:gap-4 rounded-md px-2"
+                >
+                  <span className="flex-1 text-sm line-clamp-1">{row.question}</span>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    <OutcomeBadge outcome={row.outcome} />
+                    <span>{formatMs(row.latency_ms)}</span>
+                    <span>
+                      {row.passages} passage{row.passages === 1 ? "" : "s"}
+                      {row.top_score !== null ? ` · ${row.top_score.toFixed(2)}` : ""}
+                    </span>
+                    <span>{((row.prompt_tokens ?? 0) + (row.completion_tokens ?? 0)).toLocaleString()} tokens</span>
+                    <span className="w-28 text-right">{dayjs(row.created_at).format("MMM D, h:mm A")}</span>
+                  </div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Sheet open={transcriptSession !== null} onOpenChange={(open) => !open && setTranscriptSession(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Transcript</SheetTitle>
+            <SheetDescription className="font-mono text-xs">{transcriptSession}</SheetDescription>
+          </SheetHeader>
+          <div className="space-y-3 px-4 pb-6">
+            {loadingTranscript ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : transcript.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This conversation was cleared by the visitor or is past the retention window.
+              </p>
+            ) : (
+              transcript.map((item) =>
+                item.kind === "message" ? (
+                  <div
+                    key={item.message.id}
+                    className={cn(
+                      "rounded-lg px-3 py-2 text-sm whitespace-pre-wrap",
+                      item.message.role === "user" ? "ml-8 bg-primary/10" : "mr-8 bg-muted"
+                    )}
+                  >
+                    {item.message.content}
+                    <div className="mt-1 text-[10px] text-muted-foreground">
+                      {dayjs(item.at).format("MMM D, h:mm:ss A")}
+                    </div>
+                  </div>
+                ) : (
+                  <div key={item.query.id} className="ml-8 rounded-lg border border-yellow-500/30 px-3 py-2 text-sm">
+                    {item.query.question}
+                    <div className="mt-1 flex items-center gap-1 text-[10px] text-yellow-500">
+                      <AlertTriangle className="h-3 w-3" />
+                      No relevant context found · {dayjs(item.at).format("MMM D, h:mm:ss A")}
+                    </div>
+                  </div>
+                )
+              )
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
+
+function StatCard({
+  icon: Icon,
+  title,
+  value,
+  detail,
+}: {
+  icon: React.ElementType;
+  title: string;
+  value: string;
+  detail: string;
+}) {
+  return (
+    <Card className="shadow-sm bg-muted/40 gap-2">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardDescription>{title}</CardDescription>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-semibold tracking-tight">{value}</div>
+        <p className="text-xs text-muted-foreground mt-1">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function OutcomeBadge({ outcome }: { outcome: AssistantQueryOutcome }) {
+  return (
+    <span className={cn("inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium", OUTCOME_STYLES[outcome])}>
+      {OUTCOME_LABELS[outcome]}
+    </span>
+  );
+}
+
+function QuestionList({
+  groups,
+  onOpen,
+  showAnswered = false,
+}: {
+  groups: QuestionGroup[];
+  onOpen: (sessionId: string) => void;
+  showAnswered?: boolean;
+}) {
+  return (
+    <ol className="space-y-1">
+      {groups.map((group) => (
+        <li key={group.question}>
+          <button
+            onClick={() => onOpen(group.sessionId)}
+            className="flex w-full items-center gap-3 rounded-md px-2 py-1.5 text-left hover:bg-muted/50"
+            title="Open the latest conversation with this question"
+          >
+            <span className="w-8 shrink-0 text-sm font-semibold tabular-nums">{group.count}×</span>
+            <span className="flex-1 text-sm line-clamp-1">{group.question}</span>
+            {showAnswered && (
+              <span className="text-xs text-muted-foreground">{formatPercent(group.answered, group.count)} answered</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -56,6 +56,12 @@ export default function DashboardLayout({
         { label: "Edit Post" },
       ];
     }
+    if (pathname === "/dashboard/media") {
+      return [{ label: "Media" }];
+    }
+    if (pathname === "/dashboard/assistant") {
+      return [{ label: "Assistant" }];
+    }
     if (pathname === "/dashboard/settings") {
       return [{ label: "Settings" }];
     }
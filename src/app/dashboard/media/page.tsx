@@ -0,0 +1,334 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import {
+  Check,
+  Clock,
+  Copy,
+  FileText,
+  ImageIcon,
+  Loader2,
+  RefreshCw,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { supabase } from "@/lib/supabase";
+import { uploadFileDirect } from "@/lib/direct-upload";
+import { UPLOAD_ACCEPT } from "@/lib/upload-policy";
+import type { AssetRow } from "@/app/utils/assets";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+type AssetPost = { id: string; title: string; slug: string };
+
+type Asset = AssetRow & { posts: AssetPost[] };
+
+type Filter = "all" | "used" | "unused";
+
+const FILTERS: Array<{ value: Filter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "used", label: "In use" },
+  { value: "unused", label: "Unused" },
+];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function MediaPage() {
+  const [assets, setAssets] = React.useState<Asset[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [filter, setFilter] = React.useState<Filter>("all");
+  const [userId, setUserId] = React.useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = React.useState<number | null>(null);
+  const [copied, setCopied] = React.useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = React.useState<Asset | null>(null);
+  const [usedBy, setUsedBy] = React.useState<AssetPost[]>([]);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const fetchAssets = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("assets")
+        .select("*, post_assets(posts(id, title, slug))")
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching assets:", error);
+        toast.error("Failed to load media");
+        return;
+      }
+
+      setAssets(
+        (data || []).map(({ post_assets, ...asset }: any) => ({
+          ...asset,
+          posts: (post_assets || [])
+            .map((link: { posts: AssetPost | null }) => link.posts)
+            .filter(Boolean),
+        }))
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchAssets();
+    supabase.auth.getUser().then(({ data }) => setUserId(data.user?.id ?? null));
+  }, [fetchAssets]);
+
+  const visibleAssets = assets.filter((asset) => {
+    if (filter === "used") return asset.posts.length > 0;
+    if (filter === "unused") return asset.posts.length === 0;
+    return true;
+  });
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setUploadProgress(0);
+    try {
+      await uploadFileDirect(file, { onProgress: (fraction) => setUploadProgress(fraction * 100) });
+      toast.success("Image uploaded", {
+        description: "It stays in the library until a post uses it or the grace period ends.",
+      });
+      fetchAssets();
+    } catch (error: any) {
+      console.error("Upload error:", error);
+      toast.error("Upload failed", { description: error.message });
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const copy = async (asset: Asset, as: "url" | "markdown") => {
+    const text = as === "url" ? asset.url : `![](${asset.url})`;
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(`${asset.id}:${as}`);
+      setTimeout(() => setCopied(null), 1500);
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  const openDeleteDialog = (asset: Asset) => {
+    setPendingDelete(asset);
+    setUsedBy(asset.posts);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    setIsDeleting(true);
+    try {
+      const force = usedBy.length > 0 ? "?force=true" : "";
+      const response = await fetch(`/api/assets/${pendingDelete.id}${force}`, { method: "DELETE" });
+      const body = await response.json().catch(() => ({}));
+
+      // Started being used since the list was loaded: show where and ask again
+      if (response.status === 409 && body.code === "asset_in_use") {
+        setUsedBy(body.posts || []);
+        return;
+      }
+      if (!response.ok) throw new Error(body.error || "Failed to delete asset");
+
+      setAssets((current) => current.filter((asset) => asset.id !== pendingDelete.id));
+      setPendingDelete(null);
+      toast.success("Image deleted");
+    } catch (error: any) {
+      console.error("Delete error:", error);
+      toast.error("Failed to delete image", { description: error.message });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Media</h1>
+          <p className="text-muted-foreground">
+            Images uploaded for your posts. Unused ones are removed automatically after a grace period.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={fetchAssets} disabled={loading}>
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} disabled={uploadProgress !== null}>
+            {uploadProgress !== null ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Upload
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={UPLOAD_ACCEPT}
+            className="hidden"
+            onChange={handleUpload}
+          />
+        </div>
+      </div>
+
+      {uploadProgress !== null && <Progress value={uploadProgress} className="mb-6 h-1.5" />}
+
+      <div className="flex items-center gap-2 mb-6">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={cn(
+              "px-3 py-1 rounded-full text-sm font-medium transition-colors",
+              filter === value
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted text-muted-foreground hover:bg-muted/80"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading && assets.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : visibleAssets.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/30">
+          <p className="text-muted-foreground">
+            {assets.length === 0 ? "No images uploaded yet" : "No images match this filter"}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {visibleAssets.map((asset) => (
+            <div
+              key={asset.id}
+              className="flex flex-col rounded-xl border border-border bg-muted/40 overflow-hidden"
+            >
+              <div className="relative aspect-video w-full bg-muted overflow-hidden">
+                <img
+                  src={asset.url}
+                  alt=""
+                  loading="lazy"
+                  className="object-cover w-full h-full"
+                />
+                {asset.posts.length === 0 && (
+                  <span className="absolute top-2 right-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium shadow-sm backdrop-blur-md bg-yellow-500/90 text-white">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {asset.unreferenced_since
+                      ? `Unused since ${new Date(asset.unreferenced_since).toLocaleDateString()}`
+                      : "Unused"}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex flex-col flex-1 p-4 gap-3 text-xs text-muted-foreground">
+                <div className="flex items-center justify-between">
+                  <span>
+                    {asset.width && asset.height ? `${asset.width}×${asset.height} · ` : ""}
+                    {formatBytes(asset.size_bytes)}
+                  </span>
+                  <span>{new Date(asset.created_at).toLocaleDateString()}</span>
+                </div>
+                <div>
+                  Uploaded by {asset.owner_id && asset.owner_id === userId ? "you" : "another user"}
+                </div>
+
+                {asset.posts.length > 0 && (
+                  <ul className="space-y-1">
+                    {asset.posts.map((post) => (
+                      <li key={post.id} className="flex items-center gap-1.5 min-w-0">
+                        <FileText className="h-3 w-3 shrink-0" />
+                        <Link
+                          href={`/dashboard/posts/${post.slug}`}
+                          className="truncate hover:text-primary transition-colors"
+                        >
+                          {post.title || "Untitled Post"}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="mt-auto flex items-center gap-2 pt-3 border-t border-border/50">
+                  <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => copy(asset, "url")}>
+                    {copied === `${asset.id}:url` ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                    URL
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => copy(asset, "markdown")}>
+                    {copied === `${asset.id}:markdown` ? <Check className="h-3 w-3" /> : <ImageIcon className="h-3 w-3" />}
+                    Markdown
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 ml-auto text-destructive hover:text-destructive"
+                    onClick={() => openDeleteDialog(asset)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <DialogContent showCloseButton={false}>
+          <DialogHeader>
+            <DialogTitle className="text-destructive">Delete Image</DialogTitle>
+            <DialogDescription>
+              {usedBy.length > 0
+                ? "This image is still used by the posts below. Deleting it will leave them with a broken image."
+                : "The image and its resized copies are deleted right away. This action cannot be undone."}
+            </DialogDescription>
+          </DialogHeader>
+          {usedBy.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {usedBy.map((post) => (
+                <li key={post.id} className="flex items-center gap-1.5">
+                  <FileText className="h-3.5 w-3.5 text-muted-foreground" />
+                  {post.title || "Untitled Post"}
+                </li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPendingDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting} className="gap-1.5">
+              {isDeleting ? <Loader2 className="size-4 animate-spin" /> : <Trash2 className="size-4" />}
+              {usedBy.length > 0 ? "Delete Anyway" : "Delete Image"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,24 +2,16 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import { PlusIcon, Loader2, ImageIcon, Calendar, Edit, Pin } from "lucide-react";
+import { PlusIcon, Loader2, ImageIcon, Calendar, Edit, Pin, Clock } from "lucide-react";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/lib/supabase";
-
-interface Post {
-  id: string;
-  title: string;
-  slug: string;
-  is_published: boolean;
-  is_pinned: boolean;
-  created_at: string;
-  cover_image: string | null;
-}
+import type { PostSummary } from "@/app/utils/posts";
+import { isAwaitingPublish } from "@/lib/post-policy";
+import { loadPosts, pinPost } from "./posts/actions";
 
 export default function DashboardPage() {
-  const [posts, setPosts] = useState<Post[]>([]);
+  const [posts, setPosts] = useState<PostSummary[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -29,16 +21,13 @@ export default function DashboardPage() {
   async function fetchPosts() {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from("posts")
-        .select("id, title, slug, is_published, is_pinned, created_at, cover_image")
-        .order("is_pinned", { ascending: false })
-        .order("created_at", { ascending: false });
+      const result = await loadPosts();
 
-      if (error) {
-        console.error("Error fetching posts:", error);
+      if (!result.ok) {
+        console.error("Error fetching posts:", result.error);
+        toast.error("Failed to load posts", { description: result.error.message });
       } else {
-        setPosts(data || []);
+        setPosts(result.data);
       }
     } catch (error) {
       console.error("Error:", error);
@@ -52,12 +41,9 @@ export default function DashboardPage() {
     e.stopPropagation();
     
     try {
-      const { error } = await supabase
-        .from("posts")
-        .update({ is_pinned: !currentPinned })
-        .eq("id", postId);
+      const result = await pinPost(postId, !currentPinned);
 
-      if (error) throw error;
+      if (!result.ok) throw new Error(result.error.message);
 
       // Update local state
       setPosts(posts.map(post => 
@@ -82,7 +68,7 @@ export default function DashboardPage() {
     } catch (error) {
       console.error("Error toggling pin:", error);
       toast.error("Failed to update pin status", {
-        description: "Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
       });
     }
   }
@@ -143,15 +129,28 @@ export default function DashboardPage() {
                       Pinned
                     </span>
                   )}
-                   <span
+                  {isAwaitingPublish(post) ? (
+                    <span
+                      title={`Goes live ${new Date(post.publish_at!).toLocaleString()}`}
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium shadow-sm backdrop-blur-md bg-violet-500/90 text-white"
+                    >
+                      <Clock className="h-3 w-3 mr-1" />
+                      Scheduled
+                    </span>
+                  ) : (
+                    <span
+                      title={post.unpublish_at ? `Unpublishes ${new Date(post.unpublish_at).toLocaleString()}` : undefined}
                       className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium shadow-sm backdrop-blur-md ${
-                        post.is_published
-                          ? "bg-green-500/90 text-white"
-                          : "bg-yellow-500/90 text-white"
+                        !post.is_published
+                          ? "bg-yellow-500/90 text-white"
+                          : post.has_unpublished_changes
+                            ? "bg-orange-500/90 text-white"
+                            : "bg-green-500/90 text-white"
                       }`}
                     >
-                      {post.is_published ? "Published" : "Draft"}
+                      {!post.is_published ? "Draft" : post.has_unpublished_changes ? "Unpublished changes" : "Published"}
                     </span>
+                  )}
                 </div>
               </div>
 
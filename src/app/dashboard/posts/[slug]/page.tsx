@@ -1,910 +1,1027 @@
-"use client";
-
-import * as React from "react";
-import Link from "next/link";
-import { useRouter, useParams } from "next/navigation";
-import { ArrowLeft, FileText, ImageIcon, Send, Loader2, Trash2, Pin, Upload, Keyboard, Image as ImageLucide, Youtube, Code2 } from "lucide-react";
-import { toast } from "sonner";
-import { MarkdownRenderer } from "@/features/blog/components/markdown-renderer";
-
-
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { CoverUpload } from "@/components/cover-upload";
-import { supabase } from "@/lib/supabase";
-
-const AUTO_SAVE_DELAY = 3000;
-
-export default function EditPostPage() {
-  const router = useRouter();
-  const params = useParams();
-  const slugParam = params?.slug as string;
-
-  const [postId, setPostId] = React.useState<string | null>(null);
-  const [title, setTitle] = React.useState("");
-  const [slug, setSlug] = React.useState("");
-  const [content, setContent] = React.useState("");
-  const [excerpt, setExcerpt] = React.useState("");
-  const [coverImage, setCoverImage] = React.useState("");
-  const [isPublished, setIsPublished] = React.useState(false);
-  const [isPinned, setIsPinned] = React.useState(false);
-  
-  const [loading, setLoading] = React.useState(true);
-  const [isSaving, setIsSaving] = React.useState(false);
-  const [lastSaved, setLastSaved] = React.useState<Date | null>(null);
-  const [error, setError] = React.useState<string | null>(null);
-  const [showPreview, setShowPreview] = React.useState(false);
-  const [isDeleting, setIsDeleting] = React.useState(false);
-  const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
-  const [isUploadingImage, setIsUploadingImage] = React.useState(false);
-  
-  const contentTextareaRef = React.useRef<HTMLTextAreaElement>(null);
-  const previousContentRef = React.useRef<string>("");
-  
-  // Undo/Redo history for keyboard shortcuts
-  const historyRef = React.useRef<string[]>([]);
-  const historyIndexRef = React.useRef(-1);
-  const isUndoRedoRef = React.useRef(false);
-  
-
-  const extractR2ImageUrls = (text: string): string[] => {
-    const r2Domain = process.env.NEXT_PUBLIC_R2_DOMAIN || 'r3.sequence3.se';
-    const regex = /!\[[^\]]*\]\((https?:\/\/[^)]+)\)/g;
-    const urls: string[] = [];
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      if (match[1].includes(r2Domain) || match[1].includes('/uploads/')) {
-        urls.push(match[1]);
-      }
-    }
-    return urls;
-  };
-
-
-  const handleContentChange = async (newContent: string) => {
-    const oldContent = previousContentRef.current;
-    setContent(newContent);
-    previousContentRef.current = newContent;
-    
-
-    const oldImages = extractR2ImageUrls(oldContent);
-    const newImages = extractR2ImageUrls(newContent);
-    const removedImages = oldImages.filter(url => !newImages.includes(url));
-    
-
-    for (const url of removedImages) {
-      try {
-        await fetch('/api/upload', {
-          method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ url }),
-        });
-        
-        toast.info("Image removed", {
-          description: "Image deleted from storage.",
-        });
-      } catch (error) {
-        console.error('Failed to delete image:', url, error);
-      }
-    }
-  };
-
-
-  React.useEffect(() => {
-    async function fetchPost() {
-      if (!slugParam) return;
-
-      const { data, error } = await supabase
-        .from("posts")
-        .select("*")
-        .eq("slug", slugParam)
-        .single();
-
-      if (error) {
-        console.error("Error fetching post:", error);
-        setError("Post not found");
-        setLoading(false);
-      } else if (data) {
-        setPostId(data.id);
-        setTitle(data.title);
-        setSlug(data.slug);
-        setContent(data.content || "");
-        previousContentRef.current = data.content || "";
-        setExcerpt(data.excerpt || "");
-        setCoverImage(data.cover_image || "");
-        setIsPublished(data.is_published);
-        setIsPinned(data.is_pinned || false);
-        setLoading(false);
-      }
-    }
-
-    fetchPost();
-  }, [slugParam]);
-
-
-  const saveToDb = React.useCallback(async (silent = true) => {
-    if (!postId || !title) return;
-
-    try {
-      if (!silent) setIsSaving(true);
-      
-      const postData = {
-        title,
-        slug,
-        content,
-        excerpt,
-        cover_image: coverImage,
-        is_published: isPublished,
-        is_pinned: isPinned,
-        updated_at: new Date().toISOString(),
-      };
-
-      const { error } = await supabase
-        .from("posts")
-        .update(postData)
-        .eq("id", postId);
-        
-      if (error) throw error;
-
-      setLastSaved(new Date());
-      
-
-      if (!silent) {
-        if (isPublished) {
-          toast.success("Post published!", {
-            description: "Your post is now live on your blog.",
-          });
-        } else {
-          toast.success("Post saved!", {
-            description: "Your changes have been saved as a draft.",
-          });
-        }
-      }
-    } catch (err: any) {
-      console.error("Auto-save failed:", err);
-      if (!silent) {
-        toast.error("Failed to save post", {
-          description: "Please try again.",
-        });
-      }
-    } finally {
-      if (!silent) setIsSaving(false);
-    }
-  }, [postId, title, slug, content, excerpt, coverImage, isPublished, isPinned]);
-
-
-  React.useEffect(() => {
-    const timer = setTimeout(() => {
-      if (postId && !loading) { 
-        saveToDb(true);
-      }
-    }, AUTO_SAVE_DELAY);
-
-    return () => clearTimeout(timer);
-  }, [title, slug, content, excerpt, coverImage, isPublished, isPinned, saveToDb, postId, loading]);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    await saveToDb(false);
-    router.refresh();
-    router.push("/dashboard");
-  };
-
-  const handleSaveAndExit = async () => {
-    await saveToDb(false);
-    router.refresh();
-    router.push("/dashboard");
-  };
-
-  const handleDelete = async () => {
-    if (!postId) return;
-    
-    setShowDeleteDialog(false);
-
-    try {
-      setIsDeleting(true);
-
-      if (coverImage) {
-        try {
-          await fetch("/api/delete-image", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ imageUrl: coverImage }),
-          });
-        } catch (imgError) {
-          console.error("Failed to delete image from R2:", imgError);
-
-        }
-      }
-
-
-      const { error: deleteError } = await supabase
-        .from("posts")
-        .delete()
-        .eq("id", postId);
-
-      if (deleteError) throw deleteError;
-
-      toast.success("Post deleted successfully!", {
-        description: "The post and its cover image have been permanently removed.",
-      });
-      router.refresh();
-      router.push("/dashboard");
-    } catch (err: any) {
-      console.error("Delete failed:", err);
-      toast.error("Failed to delete post", {
-        description: "Please try again later.",
-      });
-      setShowDeleteDialog(false);
-    } finally {
-      setIsDeleting(false);
-    }
-  };
-
-  if (loading) {
-    return (
-      <div className="flex h-[50vh] w-full items-center justify-center">
-        <Loader2 className="size-8 animate-spin text-muted-foreground" />
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="flex pl-6 pt-6 flex-col gap-4">
-        <h1 className="text-2xl font-bold text-destructive">Error</h1>
-        <p>{error}</p>
-        <Button variant="outline" asChild className="w-fit">
-          <Link href="/dashboard">Back to Dashboard</Link>
-        </Button>
-      </div>
-    );
-  }
-
-  return (
-    <>
-    <div className="w-full">
-      <div className="flex items-start gap-4 mb-8">
-        <Link
-          href="/dashboard"
-          className="mt-1 p-2 -ml-2 rounded-lg hover:bg-muted transition-colors"
-        >
-          <ArrowLeft className="size-5" />
-        </Link>
-        <div className="flex-1">
-          <div className="flex flex-row items-center justify-between gap-4">
-            <div>
-              <h1 className="text-2xl font-semibold tracking-tight">Edit Post</h1>
-              <p className="text-muted-foreground">Make changes to your blog post</p>
-              <div className="mt-1 h-8 px-3 rounded-md border border-border bg-muted/20 flex items-center w-fit sm:hidden">
-                {isSaving && <span className="text-xs text-muted-foreground animate-pulse">Saving...</span>}
-                {lastSaved && !isSaving && (
-                  <p className="text-xs text-muted-foreground">
-                    Saved {lastSaved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
-                  </p>
-                )}
-              </div>
-            </div>
-            <div className="flex items-center justify-end">
-              <div className="hidden sm:flex items-center mr-4">
-                {isSaving && <span className="text-xs text-muted-foreground animate-pulse">Saving...</span>}
-                {lastSaved && !isSaving && (
-                  <p className="text-xs text-muted-foreground">
-                    Saved {lastSaved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
-                  </p>
-                )}
-              </div>
-              <Button
-                type="button"
-                variant="destructive"
-                size="sm"
-                onClick={() => setShowDeleteDialog(true)}
-                disabled={isDeleting}
-                className="gap-1.5"
-              >
-                {isDeleting ? (
-                  <Loader2 className="size-4 animate-spin" />
-                ) : (
-                  <Trash2 className="size-4" />
-                )}
-                Delete
-              </Button>
-            </div>
-          </div>
-        </div>
-      </div>
-
-      <form onSubmit={handleSubmit} className="space-y-6 pb-6">
-        <div className="rounded-xl border border-border bg-muted/30 overflow-hidden">
-          <div className="flex items-center gap-2 px-6 py-4 border-b border-border">
-            <FileText className="size-4 text-muted-foreground" />
-            <span className="font-medium">Post Details</span>
-          </div>
-          <div className="p-6 space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="title">
-                Title <span className="text-destructive">*</span>
-              </Label>
-              <Input
-                id="title"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                required
-                className="bg-background/50"
-              />
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="slug">
-                  Slug <span className="text-destructive">*</span>
-                </Label>
-                <Input
-                  id="slug"
-                  value={slug}
-                  onChange={(e) => setSlug(e.target.value)}
-                  required
-                  className="bg-background/50"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="excerpt">Excerpt</Label>
-                <Input
-                  id="excerpt"
-                  value={excerpt}
-                  onChange={(e) => setExcerpt(e.target.value)}
-                  className="bg-background/50"
-                />
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="rounded-xl border border-border bg-muted/30 overflow-hidden">
-          <div className="flex items-center gap-2 px-6 py-4 border-b border-border">
-            <ImageIcon className="size-4 text-muted-foreground" />
-            <span className="font-medium">Cover Image</span>
-          </div>
-          <div className="p-6">
-            <CoverUpload
-              value={coverImage}
-              onChange={(url) => setCoverImage(url || "")}
-            />
-          </div>
-        </div>
-
-        <div className="rounded-xl border border-border bg-muted/30 overflow-hidden">
-          <div className="flex items-center justify-between px-6 py-4 border-b border-border">
-            <div className="flex items-center gap-2">
-              <FileText className="size-4 text-muted-foreground" />
-              <span className="font-medium">Content</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <label className="cursor-pointer">
-                <input
-                  type="file"
-                  accept="image/*"
-                  className="hidden"
-                  onChange={async (e) => {
-                    const file = e.target.files?.[0];
-                    if (!file) return;
-                    
-                    setIsUploadingImage(true);
-                    try {
-                      const formData = new FormData();
-                      formData.append("file", file);
-                      
-                      const response = await fetch("/api/upload", {
-                        method: "POST",
-                        body: formData,
-                      });
-                      
-                      if (!response.ok) throw new Error("Upload failed");
-                      
-                      const { publicUrl } = await response.json();
-                      
-                      const textarea = contentTextareaRef.current;
-                      const imageMarkdown = `\n![${file.name}](${publicUrl})\n`;
-                      
-                      if (textarea) {
-                        const start = textarea.selectionStart;
-                        const end = textarea.selectionEnd;
-                        const newContent = content.substring(0, start) + imageMarkdown + content.substring(end);
-                        setContent(newContent);
-                        setTimeout(() => {
-                          textarea.focus();
-                          textarea.setSelectionRange(start + imageMarkdown.length, start + imageMarkdown.length);
-                        }, 0);
-                      } else {
-                        setContent(content + imageMarkdown);
-                      }
-                      
-                      toast.success("Image inserted!", {
-                        description: "Image uploaded and added to your content.",
-                      });
-                    } catch (error) {
-                      console.error("Upload error:", error);
-                      toast.error("Failed to upload image", {
-                        description: "Please try again.",
-                      });
-                    } finally {
-                      setIsUploadingImage(false);
-                      e.target.value = "";
-                    }
-                  }}
-                  disabled={isUploadingImage || showPreview}
-                />
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  disabled={isUploadingImage || showPreview}
-                  className="gap-1.5 pointer-events-none"
-                >
-                  {isUploadingImage ? (
-                    <Loader2 className="size-3.5 animate-spin" />
-                  ) : (
-                    <Upload className="size-3.5" />
-                  )}
-                  Insert Image
-                </Button>
-              </label>
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowPreview(!showPreview)}
-              >
-                {showPreview ? "Edit" : "Preview"}
-              </Button>
-            </div>
-          </div>
-          <div className="p-6 space-y-4">
-            {/* Features Guide */}
-            {!showPreview && (
-              <div className="rounded-lg bg-muted/40 border border-border/40 text-[11px] text-muted-foreground overflow-hidden">
-                {/* Shortcuts Row */}
-                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2">
-                  <div className="flex items-center gap-1.5 text-muted-foreground/80">
-                    <Keyboard className="size-3.5" />
-                    <span className="font-medium">Shortcuts</span>
-                  </div>
-                  <div className="h-3.5 w-px bg-border/60 hidden sm:block" />
-                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
-                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+B</kbd> Bold</span>
-                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+I</kbd> Italic</span>
-                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+L</kbd> List</span>
-                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+⇧+L</kbd> Bullets</span>
-                  </div>
-                </div>
-                {/* Features Row */}
-                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 border-t border-border/40 bg-muted/20">
-                  <div className="flex items-center gap-1.5 text-muted-foreground/80">
-                    <span className="font-medium">Features</span>
-                  </div>
-                  <div className="h-3.5 w-px bg-border/60 hidden sm:block" />
-                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-muted-foreground/70">
-                    <span className="flex items-center gap-1.5"><ImageLucide className="size-3" /> Drag & drop images</span>
-                    <span className="flex items-center gap-1.5"><Youtube className="size-3" /> YouTube auto-embed</span>
-                    <span className="flex items-center gap-1.5"><Code2 className="size-3" /> Code auto-detect</span>
-                  </div>
-                </div>
-              </div>
-            )}
-            {showPreview ? (
-              <div className="min-h-[400px] p-6 rounded-lg border border-border bg-background/50">
-                <MarkdownRenderer content={content} />
-              </div>
-            ) : (
-              <textarea
-                ref={contentTextareaRef}
-                id="content"
-                className="w-full min-h-[400px] p-4 rounded-lg border border-border bg-background/50 font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring"
-                value={content}
-                onChange={(e) => handleContentChange(e.target.value)}
-                onKeyDown={(e) => {
-                  const textarea = e.currentTarget;
-                  const start = textarea.selectionStart;
-                  const end = textarea.selectionEnd;
-                  const selectedText = content.substring(start, end);
-                  
-                  // Helper to wrap selected text
-                  const wrapSelection = (prefix: string, suffix: string) => {
-                    e.preventDefault();
-                    // Save current state to history before making changes
-                    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
-                    historyRef.current.push(content);
-                    historyIndexRef.current = historyRef.current.length - 1;
-                    
-                    const newContent = content.substring(0, start) + prefix + selectedText + suffix + content.substring(end);
-                    handleContentChange(newContent);
-                    setTimeout(() => {
-                      textarea.focus();
-                      textarea.setSelectionRange(start + prefix.length, end + prefix.length);
-                    }, 0);
-                  };
-                  
-                  // Helper to prefix lines
-                  const prefixLines = (prefix: string) => {
-                    e.preventDefault();
-                    // Find the start of the first line
-                    let lineStart = start;
-                    while (lineStart > 0 && content[lineStart - 1] !== '\n') lineStart--;
-                    // Find the end of the last line
-                    let lineEnd = end;
-                    while (lineEnd < content.length && content[lineEnd] !== '\n') lineEnd++;
-                    
-                    const lines = content.substring(lineStart, lineEnd).split('\n');
-                    const prefixedLines = lines.map((line, i) => {
-                      if (prefix === '1. ') {
-                        return `${i + 1}. ${line}`;
-                      }
-                      return prefix + line;
-                    }).join('\n');
-                    
-                    // Save current state to history before making changes
-                    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
-                    historyRef.current.push(content);
-                    historyIndexRef.current = historyRef.current.length - 1;
-                    
-                    const newContent = content.substring(0, lineStart) + prefixedLines + content.substring(lineEnd);
-                    handleContentChange(newContent);
-                    setTimeout(() => {
-                      textarea.focus();
-                      textarea.setSelectionRange(lineStart, lineStart + prefixedLines.length);
-                    }, 0);
-                  };
-                  
-                  // Ctrl+Z: Undo
-                  if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'z') {
-                    if (historyIndexRef.current >= 0) {
-                      e.preventDefault();
-                      const previousContent = historyRef.current[historyIndexRef.current];
-                      historyIndexRef.current--;
-                      isUndoRedoRef.current = true;
-                      handleContentChange(previousContent);
-                      isUndoRedoRef.current = false;
-                    }
-                    return;
-                  }
-                  // Ctrl+Y or Ctrl+Shift+Z: Redo
-                  if ((e.ctrlKey && e.key.toLowerCase() === 'y') || (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'z')) {
-                    if (historyIndexRef.current < historyRef.current.length - 1) {
-                      e.preventDefault();
-                      historyIndexRef.current++;
-                      // We need to get the content that was applied after this history point
-                      // Since we save BEFORE the change, redo means reapply what came after
-                      // This is a simplified redo - in practice you'd need to save the "after" state too
-                    }
-                    return;
-                  }
-                  
-                  // Ctrl+B: Bold
-                  if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'b') {
-                    wrapSelection('**', '**');
-                  }
-                  // Ctrl+I: Italic
-                  else if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'i') {
-                    wrapSelection('*', '*');
-                  }
-                  // Ctrl+L: Ordered list
-                  else if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'l') {
-                    e.preventDefault();
-                    prefixLines('1. ');
-                  }
-                  // Ctrl+Shift+L: Unordered list
-                  else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'l') {
-                    e.preventDefault();
-                    prefixLines('- ');
-                  }
-                  // Ctrl+Shift+.: Blockquote
-                  else if (e.ctrlKey && e.shiftKey && e.key === '.') {
-                    prefixLines('> ');
-                  }
-                }}
-                onDragOver={(e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                }}
-                onDrop={async (e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  
-                  const files = Array.from(e.dataTransfer.files);
-                  const imageFile = files.find(f => f.type.startsWith('image/'));
-                  
-                  if (!imageFile) return;
-                  
-                  setIsUploadingImage(true);
-                  try {
-                    const formData = new FormData();
-                    formData.append("file", imageFile);
-                    
-                    const response = await fetch("/api/upload", {
-                      method: "POST",
-                      body: formData,
-                    });
-                    
-                    if (!response.ok) throw new Error("Upload failed");
-                    
-                    const { publicUrl } = await response.json();
-                    
-                    const textarea = contentTextareaRef.current;
-                    const imageMarkdown = `\n![${imageFile.name}](${publicUrl})\n`;
-                    
-                    if (textarea) {
-                      const start = textarea.selectionStart;
-                      const end = textarea.selectionEnd;
-                      const newContent = content.substring(0, start) + imageMarkdown + content.substring(end);
-                      setContent(newContent);
-                    } else {
-                      setContent(content + imageMarkdown);
-                    }
-                    
-                    toast.success("Image uploaded!", {
-                      description: "Dropped image added to your content.",
-                    });
-                  } catch (error) {
-                    console.error("Upload error:", error);
-                    toast.error("Failed to upload image", {
-                      description: "Please try again.",
-                    });
-                  } finally {
-                    setIsUploadingImage(false);
-                  }
-                }}
-                onPaste={async (e) => {
-                  const items = Array.from(e.clipboardData.items);
-                  const imageItem = items.find(item => item.type.startsWith('image/'));
-                  
-                  // Handle image paste
-                  if (imageItem) {
-                    e.preventDefault();
-                    const imageFile = imageItem.getAsFile();
-                    if (!imageFile) return;
-                    
-                    setIsUploadingImage(true);
-                    try {
-                      const formData = new FormData();
-                      formData.append("file", imageFile);
-                      
-                      const response = await fetch("/api/upload", {
-                        method: "POST",
-                        body: formData,
-                      });
-                      
-                      if (!response.ok) throw new Error("Upload failed");
-                      
-                      const { publicUrl } = await response.json();
-                      
-                      const textarea = contentTextareaRef.current;
-                      const imageMarkdown = `\n![pasted-image](${publicUrl})\n`;
-                      
-                      if (textarea) {
-                        const start = textarea.selectionStart;
-                        const end = textarea.selectionEnd;
-                        const newContent = content.substring(0, start) + imageMarkdown + content.substring(end);
-                        setContent(newContent);
-                      } else {
-                        setContent(content + imageMarkdown);
-                      }
-                      
-                      toast.success("Image uploaded!", {
-                        description: "Pasted image added to your content.",
-                      });
-                    } catch (error) {
-                      console.error("Upload error:", error);
-                      toast.error("Failed to upload image", {
-                        description: "Please try again.",
-                      });
-                    } finally {
-                      setIsUploadingImage(false);
-                    }
-                    return;
-                  }
-                  
-
-                  const text = e.clipboardData.getData('text/plain');
-                  
-                  // Handle YouTube URL paste - convert to markdown link
-                  const youtubePatterns = [
-                    /^https?:\/\/(www\.)?youtube\.com\/watch\?v=[\w-]+/,
-                    /^https?:\/\/youtu\.be\/[\w-]+/,
-                    /^https?:\/\/(www\.)?youtube\.com\/embed\/[\w-]+/,
-                  ];
-                  
-                  const isYouTubeUrl = youtubePatterns.some(pattern => pattern.test(text.trim()));
-                  
-                  if (isYouTubeUrl) {
-                    e.preventDefault();
-                    const youtubeMarkdown = `[Watch on YouTube](${text.trim()})`;
-                    
-                    const textarea = contentTextareaRef.current;
-                    if (textarea) {
-                      const start = textarea.selectionStart;
-                      const end = textarea.selectionEnd;
-                      const newContent = content.substring(0, start) + youtubeMarkdown + content.substring(end);
-                      handleContentChange(newContent);
-                      
-                      setTimeout(() => {
-                        textarea.focus();
-                        textarea.setSelectionRange(start + youtubeMarkdown.length, start + youtubeMarkdown.length);
-                      }, 0);
-                    } else {
-                      handleContentChange(content + youtubeMarkdown);
-                    }
-                    return;
-                  }
-                  
-                  if (!text || text.length < 10) return; // Too short to be code
-                  
-
-                  const codePatterns = [
-                    /^(import|export|from|const|let|var|function|class|interface|type|async|await|return|if|else|for|while|switch|case|try|catch|throw|new)\s/m,
-                    /^(def |class |import |from |print\(|if __name__|async def)/m,
-                    /^(<\?php|namespace |use |function |class |public |private |protected )/m,
-                    /^(package |import |public class |private |void |int |String )/m,
-                    /^(#include|using namespace|int main|void |std::)/m,
-                    /^(fn |let |pub |use |impl |struct |mod |match )/m,
-                    /^(func |package |import |type |var |const )/m,
-                    /=>/,
-                    /\{[\s\S]*\}/,
-                    /\([\s\S]*\)\s*{/,
-                    /;\s*$/m,
-                    /^\s{2,}(return|if|for|while|const|let|var)/m,
-                  ];
-                  
-                  const looksLikeCode = codePatterns.some(pattern => pattern.test(text));
-                  const hasMultipleLines = text.split('\n').length > 2;
-                  const hasIndentation = /^\s{2,}/m.test(text);
-                  
-                  if (looksLikeCode && (hasMultipleLines || hasIndentation)) {
-                    e.preventDefault();
-                    
-
-                    let language = '';
-                    if (/^(import|export|const|let|var|function|async|await|=\>|interface|type\s)/.test(text)) {
-                      language = text.includes('interface ') || text.includes('type ') ? 'typescript' : 'javascript';
-                    } else if (/^(def |class [A-Z]|import |from |print\(|if __name__)/.test(text)) {
-                      language = 'python';
-                    } else if (/<\?php|namespace /.test(text)) {
-                      language = 'php';
-                    } else if (/^(package |public class |void |int |String )/.test(text)) {
-                      language = 'java';
-                    } else if (/#include|std::/.test(text)) {
-                      language = 'cpp';
-                    } else if (/^(fn |pub |impl |struct )/.test(text)) {
-                      language = 'rust';
-                    } else if (/^(func |package main)/.test(text)) {
-                      language = 'go';
-                    } else if (/<[a-zA-Z][^>]*>/.test(text) && /<\/[a-zA-Z]+>/.test(text)) {
-                      language = text.includes('className') ? 'jsx' : 'html';
-                    } else if (/^\s*\{[\s\S]*"[\w]+":\s/.test(text)) {
-                      language = 'json';
-                    } else if (/^[\w-]+:\s/.test(text)) {
-                      language = 'yaml';
-                    } else if (/^\$|^@|\{.*\}/.test(text) && /;$/.test(text)) {
-                      language = 'css';
-                    } else if (/^SELECT|^INSERT|^UPDATE|^DELETE|^CREATE|^ALTER/i.test(text)) {
-                      language = 'sql';
-                    } else if (/^\s*#|^\s*\[\[/.test(text)) {
-                      language = 'bash';
-                    }
-                    
-                    const textarea = contentTextareaRef.current;
-                    const codeMarkdown = `\n\`\`\`${language}\n${text}\n\`\`\`\n`;
-                    
-                    if (textarea) {
-                      const start = textarea.selectionStart;
-                      const end = textarea.selectionEnd;
-                      const newContent = content.substring(0, start) + codeMarkdown + content.substring(end);
-                      setContent(newContent);
-                      
-                      setTimeout(() => {
-                        textarea.focus();
-                        textarea.setSelectionRange(start + codeMarkdown.length, start + codeMarkdown.length);
-                      }, 0);
-                    } else {
-                      setContent(content + codeMarkdown);
-                    }
-                  }
-                }}
-              />
-            )}
-          </div>
-        </div>
-
-
-        <div className="rounded-xl border border-border bg-muted/30 p-4">
-          <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-4 sm:gap-0">
-            <div className="flex items-center gap-6">
-              <div className="flex items-center gap-3">
-                <Switch
-                  id="published"
-                  checked={isPublished}
-                  onCheckedChange={setIsPublished}
-                />
-                <div>
-                  <Label htmlFor="published" className="font-medium cursor-pointer">
-                    Publish Post
-                  </Label>
-                  <p className="text-xs text-muted-foreground">
-                    Make visible on your site
-                  </p>
-                </div>
-              </div>
-            </div>
-            <div className="grid grid-cols-2 gap-2 sm:flex sm:items-center sm:gap-3 sm:justify-end w-full sm:w-auto">
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => router.push("/dashboard")}
-                className="w-full sm:w-auto"
-              >
-                Cancel
-              </Button>
-               <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={handleSaveAndExit}
-                className="w-full sm:w-auto"
-              >
-                Save & Exit
-              </Button>
-              <Button type="submit" size="sm" className="w-full sm:w-auto col-span-2 sm:col-span-1">
-                Save Changes
-              </Button>
-            </div>
-          </div>
-        </div>
-      </form>
-    </div>
-
-
-      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-        <DialogContent showCloseButton={false}>
-          <DialogHeader>
-            <DialogTitle className="text-destructive">Delete Post</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete this post? This action cannot be undone and will permanently remove the post and its cover image.
-            </DialogDescription>
-          </DialogHeader>
-          <DialogFooter className="gap-2 sm:gap-0">
-            <Button
-              variant="outline"
-              onClick={() => setShowDeleteDialog(false)}
-              disabled={isDeleting}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={handleDelete}
-              disabled={isDeleting}
-              className="gap-1.5"
-            >
-              {isDeleting ? (
-                <Loader2 className="size-4 animate-spin" />
-              ) : (
-                <Trash2 className="size-4" />
-              )}
-              Delete Post
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-    </>
-  );
-}
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, FileText, ImageIcon, Send, Loader2, Trash2, Pin, Upload, Keyboard, Image as ImageLucide, Youtube, Code2, History, EyeOff } from "lucide-react";
+import { toast } from "sonner";
+import { MarkdownRenderer } from "@/features/blog/components/markdown-renderer";
+
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CoverUpload } from "@/components/cover-upload";
+import { PostSaveError } from "@/components/post-save-error";
+import { PostTermsFields } from "@/components/post-terms-fields";
+import {
+  PublishScheduleFields,
+  getScheduleInputs,
+  isScheduledForLater,
+  toPublishSchedule,
+  type ScheduleInputs,
+} from "@/components/publish-schedule-fields";
+import {
+  hasUnpublishedChanges,
+  isAwaitingPublish,
+  normalizeSlug,
+  type PostError,
+  type PostTerm,
+  type PublishedVersion,
+} from "@/lib/post-policy";
+import { UPLOAD_ACCEPT } from "@/lib/upload-policy";
+import { uploadFileDirect } from "@/lib/direct-upload";
+import type { DBPost } from "@/features/blog/data/supabase-posts";
+import {
+  loadPostForEditing,
+  loadTerms,
+  publishDraft,
+  removePost,
+  savePost,
+  syncPostAssets,
+  syncPostKnowledge,
+  unpublishLive,
+} from "../actions";
+import { RevisionsPanel } from "./revisions-panel";
+
+const AUTO_SAVE_DELAY = 3000;
+
+function formatScheduleTime(iso: string) {
+  return new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+}
+
+// Keep the assistant's copy of the post in step. Runs in the background:
+// a failure only leaves the assistant's knowledge stale.
+function syncKnowledge(postId: string) {
+  syncPostKnowledge(postId)
+    .then((result) => {
+      if (!result.synced) console.warn("Assistant knowledge sync skipped:", result.message);
+    })
+    .catch((err) => console.error("Assistant knowledge sync failed:", err));
+}
+
+// Record which uploads the post uses, for the media library and asset GC.
+// Runs in the background: the daily GC re-checks references anyway.
+function syncAssets(postId: string) {
+  syncPostAssets(postId)
+    .then((result) => {
+      if (!result.synced) console.warn("Post asset sync skipped:", result.message);
+    })
+    .catch((err) => console.error("Post asset sync failed:", err));
+}
+
+export default function EditPostPage() {
+  const router = useRouter();
+  const params = useParams();
+  const slugParam = params?.slug as string;
+
+  const [postId, setPostId] = React.useState<string | null>(null);
+  const [title, setTitle] = React.useState("");
+  const [slug, setSlug] = React.useState("");
+  const [content, setContent] = React.useState("");
+  const [excerpt, setExcerpt] = React.useState("");
+  const [coverImage, setCoverImage] = React.useState("");
+  const [category, setCategory] = React.useState("");
+  const [tags, setTags] = React.useState<string[]>([]);
+  const [termSuggestions, setTermSuggestions] = React.useState<{ categories: PostTerm[]; tags: PostTerm[] }>({
+    categories: [],
+    tags: [],
+  });
+  const [isPinned, setIsPinned] = React.useState(false);
+  // The live version, and when the draft was last saved, to tell whether
+  // the draft has changes readers don't see yet
+  const [published, setPublished] = React.useState<PublishedVersion | null>(null);
+  const [draftUpdatedAt, setDraftUpdatedAt] = React.useState("");
+  const [schedule, setSchedule] = React.useState<ScheduleInputs>(getScheduleInputs(null));
+  
+  const [loading, setLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isPublishing, setIsPublishing] = React.useState(false);
+  const [lastSaved, setLastSaved] = React.useState<Date | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saveError, setSaveError] = React.useState<PostError | null>(null);
+  const [showPreview, setShowPreview] = React.useState(false);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
+  const [showRevisions, setShowRevisions] = React.useState(false);
+  const [isUploadingImage, setIsUploadingImage] = React.useState(false);
+  
+  const contentTextareaRef = React.useRef<HTMLTextAreaElement>(null);
+  
+  // Undo/Redo history for keyboard shortcuts
+  const historyRef = React.useRef<string[]>([]);
+  const historyIndexRef = React.useRef(-1);
+  const isUndoRedoRef = React.useRef(false);
+  
+
+  // Images removed from the content stay in storage: the asset GC deletes
+  // them once no post has used them for the grace period, so undo works
+  const handleContentChange = (newContent: string) => {
+    setContent(newContent);
+  };
+
+
+  React.useEffect(() => {
+    async function fetchPost() {
+      if (!slugParam) return;
+
+      const result = await loadPostForEditing(slugParam);
+
+      if (!result.ok) {
+        console.error("Error fetching post:", result.error);
+        setError(result.error.code === "not_found" ? "Post not found" : result.error.message);
+        setLoading(false);
+      } else {
+        const data = result.data;
+        setPostId(data.id);
+        setTitle(data.title);
+        setSlug(data.slug);
+        setContent(data.content || "");
+        setExcerpt(data.excerpt || "");
+        setCoverImage(data.cover_image || "");
+        setCategory(data.category?.name || "");
+        setTags(data.tags.map((tag) => tag.name));
+        setIsPinned(data.is_pinned || false);
+        setPublished(data.published);
+        setSchedule(getScheduleInputs(data.published));
+        setDraftUpdatedAt(data.updated_at);
+        setLoading(false);
+      }
+    }
+
+    fetchPost();
+  }, [slugParam]);
+
+  React.useEffect(() => {
+    loadTerms().then((result) => {
+      if (result.ok) setTermSuggestions(result.data);
+    });
+  }, []);
+
+
+  // Save the draft. Resolves to whether it was saved.
+  const saveToDb = React.useCallback(async (silent = true) => {
+    if (!postId || (silent && !title)) return false;
+
+    try {
+      if (!silent) setIsSaving(true);
+
+      const result = await savePost(postId, {
+        title,
+        slug,
+        content,
+        excerpt,
+        coverImage,
+        category,
+        tags,
+        isPinned,
+      }, silent ? "autosave" : "save");
+
+      if (!result.ok) {
+        setSaveError(result.error);
+        if (!silent) {
+          toast.error("Failed to save post", {
+            description: result.error.message,
+          });
+        }
+        return false;
+      }
+
+      setSaveError(null);
+      if (!silent) setSlug(result.data.slug);
+      setDraftUpdatedAt(result.data.updated_at);
+      setLastSaved(new Date());
+      syncAssets(postId);
+      return true;
+    } catch (err: any) {
+      console.error("Auto-save failed:", err);
+      if (!silent) {
+        toast.error("Failed to save post", {
+          description: "Please try again.",
+        });
+      }
+      return false;
+    } finally {
+      if (!silent) setIsSaving(false);
+    }
+  }, [postId, title, slug, content, excerpt, coverImage, category, tags, isPinned]);
+
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      if (postId && !loading) { 
+        saveToDb(true);
+      }
+    }, AUTO_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [title, slug, content, excerpt, coverImage, category, tags, isPinned, saveToDb, postId, loading]);
+
+  // Save the draft, then make it the live version, now or when scheduled
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!postId || !(await saveToDb(false))) return;
+
+    setIsPublishing(true);
+    const publishSchedule = toPublishSchedule(schedule);
+    const result = await publishDraft(postId, publishSchedule);
+    setIsPublishing(false);
+
+    if (!result.ok) {
+      setSaveError(result.error);
+      toast.error("Failed to publish post", { description: result.error.message });
+      return;
+    }
+    syncKnowledge(postId);
+    syncAssets(postId);
+
+    if (publishSchedule.publishAt && isScheduledForLater(schedule)) {
+      toast.success("Post scheduled!", {
+        description: `It goes live on ${formatScheduleTime(publishSchedule.publishAt)}.`,
+      });
+    } else {
+      toast.success(published ? "Changes published!" : "Post published!", {
+        description: "Your post is now live on your blog.",
+      });
+    }
+    router.refresh();
+    router.push("/dashboard");
+  };
+
+  const handleSaveAndExit = async () => {
+    if (!(await saveToDb(false))) return;
+    toast.success("Draft saved!", {
+      description: published
+        ? "Your changes are saved. The live post stays as it is until you publish them."
+        : "Your changes have been saved as a draft.",
+    });
+    router.refresh();
+    router.push("/dashboard");
+  };
+
+  // Take the live version down; the draft stays in the editor
+  const handleUnpublish = async () => {
+    if (!postId) return;
+
+    setIsPublishing(true);
+    const result = await unpublishLive(postId);
+    setIsPublishing(false);
+
+    if (!result.ok) {
+      toast.error("Failed to unpublish post", { description: result.error.message });
+      return;
+    }
+    setPublished(null);
+    setSchedule(getScheduleInputs(null));
+    syncKnowledge(postId);
+    syncAssets(postId);
+    toast.success("Post unpublished", {
+      description: "It's no longer visible on your blog. The draft is kept.",
+    });
+  };
+
+  const isLive = !!published;
+  const isScheduled = isAwaitingPublish(published);
+  const hasChanges = hasUnpublishedChanges(draftUpdatedAt, published);
+
+  const applySuggestedSlug = (suggestion: string) => {
+    setSlug(suggestion);
+    setSaveError(null);
+  };
+
+  // The server already saved the restored version to the draft and synced
+  // its assets; load it into the editor. The live version changes on the next
+  // publish.
+  const handleRevisionRestored = (post: DBPost) => {
+    setTitle(post.title);
+    setContent(post.content || "");
+    setExcerpt(post.excerpt || "");
+    setCoverImage(post.cover_image || "");
+    setDraftUpdatedAt(post.updated_at);
+    setLastSaved(new Date());
+  };
+
+  const handleDelete = async () => {
+    if (!postId) return;
+    
+    setShowDeleteDialog(false);
+
+    try {
+      setIsDeleting(true);
+
+      // The cover and inline images are left to the asset GC, in case
+      // another post uses them
+      const result = await removePost(postId);
+
+      if (!result.ok) throw new Error(result.error.message);
+      syncKnowledge(postId);
+
+      toast.success("Post deleted successfully!", {
+        description: "The post has been permanently removed.",
+      });
+      router.refresh();
+      router.push("/dashboard");
+    } catch (err: any) {
+      console.error("Delete failed:", err);
+      toast.error("Failed to delete post", {
+        description: "Please try again later.",
+      });
+      setShowDeleteDialog(false);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-[50vh] w-full items-center justify-center">
+        <Loader2 className="size-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex pl-6 pt-6 flex-col gap-4">
+        <h1 className="text-2xl font-bold text-destructive">Error</h1>
+        <p>{error}</p>
+        <Button variant="outline" asChild className="w-fit">
+          <Link href="/dashboard">Back to Dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+    <div className="w-full">
+      <div className="flex items-start gap-4 mb-8">
+        <Link
+          href="/dashboard"
+          className="mt-1 p-2 -ml-2 rounded-lg hover:bg-muted transition-colors"
+        >
+          <ArrowLeft className="size-5" />
+        </Link>
+        <div className="flex-1">
+          <div className="flex flex-row items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Edit Post</h1>
+              <p className="text-muted-foreground">Make changes to your blog post</p>
+              <div className="mt-1 h-8 px-3 rounded-md border border-border bg-muted/20 flex items-center w-fit sm:hidden">
+                {isSaving && <span className="text-xs text-muted-foreground animate-pulse">Saving...</span>}
+                {lastSaved && !isSaving && (
+                  <p className="text-xs text-muted-foreground">
+                    Saved {lastSaved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center justify-end">
+              <div className="hidden sm:flex items-center mr-4">
+                {isSaving && <span className="text-xs text-muted-foreground animate-pulse">Saving...</span>}
+                {lastSaved && !isSaving && (
+                  <p className="text-xs text-muted-foreground">
+                    Saved {lastSaved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRevisions(true)}
+                className="gap-1.5 mr-2"
+              >
+                <History className="size-4" />
+                History
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                size="sm"
+                onClick={() => setShowDeleteDialog(true)}
+                disabled={isDeleting}
+                className="gap-1.5"
+              >
+                {isDeleting ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  <Trash2 className="size-4" />
+                )}
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6 pb-6">
+        <div className="rounded-xl border border-border bg-muted/30 overflow-hidden">
+          <div className="flex items-center gap-2 px-6 py-4 border-b border-border">
+            <FileText className="size-4 text-muted-foreground" />
+            <span className="font-medium">Post Details</span>
+          </div>
+          <div className="p-6 space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="title">
+                Title <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+                className="bg-background/50"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="slug">
+                  Slug <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                  onBlur={() => setSlug(normalizeSlug(slug))}
+                  required
+                  aria-invalid={saveError?.field === "slug"}
+                  className="bg-background/50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="excerpt">Excerpt</Label>
+                <Input
+                  id="excerpt"
+                  value={excerpt}
+                  onChange={(e) => setExcerpt(e.target.value)}
+                  className="bg-background/50"
+                />
+              </div>
+              <PostTermsFields
+                category={category}
+                onCategoryChange={setCategory}
+                tags={tags}
+                onTagsChange={setTags}
+                suggestions={termSuggestions}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-border bg-muted/30 overflow-hidden">
+          <div className="flex items-center gap-2 px-6 py-4 border-b border-border">
+            <ImageIcon className="size-4 text-muted-foreground" />
+            <span className="font-medium">Cover Image</span>
+          </div>
+          <div className="p-6">
+            <CoverUpload
+              value={coverImage}
+              onChange={(url) => setCoverImage(url || "")}
+            />
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-border bg-muted/30 overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+            <div className="flex items-center gap-2">
+              <FileText className="size-4 text-muted-foreground" />
+              <span className="font-medium">Content</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="cursor-pointer">
+                <input
+                  type="file"
+                  accept={UPLOAD_ACCEPT}
+                  className="hidden"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    if (!file) return;
+                    
+                    setIsUploadingImage(true);
+                    try {
+                      const { publicUrl } = await uploadFileDirect(file);
+                      
+                      const textarea = contentTextareaRef.current;
+                      const imageMarkdown = `\n![${file.name}](${publicUrl})\n`;
+                      
+                      if (textarea) {
+                        const start = textarea.selectionStart;
+                        const end = textarea.selectionEnd;
+                        const newContent = content.substring(0, start) + imageMarkdown + content.substring(end);
+                        setContent(newContent);
+                        setTimeout(() => {
+                          textarea.focus();
+                          textarea.setSelectionRange(start + imageMarkdown.length, start + imageMarkdown.length);
+                        }, 0);
+                      } else {
+                        setContent(content + imageMarkdown);
+                      }
+                      
+                      toast.success("Image inserted!", {
+                        description: "Image uploaded and added to your content.",
+                      });
+                    } catch (error) {
+                      console.error("Upload error:", error);
+                      toast.error("Failed to upload image", {
+                        description: error instanceof Error ? error.message : "Please try again.",
+                      });
+                    } finally {
+                      setIsUploadingImage(false);
+                      e.target.value = "";
+                    }
+                  }}
+                  disabled={isUploadingImage || showPreview}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isUploadingImage || showPreview}
+                  className="gap-1.5 pointer-events-none"
+                >
+                  {isUploadingImage ? (
+                    <Loader2 className="size-3.5 animate-spin" />
+                  ) : (
+                    <Upload className="size-3.5" />
+                  )}
+                  Insert Image
+                </Button>
+              </label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowPreview(!showPreview)}
+              >
+                {showPreview ? "Edit" : "Preview"}
+              </Button>
+            </div>
+          </div>
+          <div className="p-6 space-y-4">
+            {/* Features Guide */}
+            {!showPreview && (
+              <div className="rounded-lg bg-muted/40 border border-border/40 text-[11px] text-muted-foreground overflow-hidden">
+                {/* Shortcuts Row */}
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2">
+                  <div className="flex items-center gap-1.5 text-muted-foreground/80">
+                    <Keyboard className="size-3.5" />
+                    <span className="font-medium">Shortcuts</span>
+                  </div>
+                  <div className="h-3.5 w-px bg-border/60 hidden sm:block" />
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+B</kbd> Bold</span>
+                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+I</kbd> Italic</span>
+                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+L</kbd> List</span>
+                    <span><kbd className="px-1.5 py-0.5 rounded bg-background/80 border border-border/60 font-mono text-[10px]">Ctrl+⇧+L</kbd> Bullets</span>
+                  </div>
+                </div>
+                {/* Features Row */}
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 border-t border-border/40 bg-muted/20">
+                  <div className="flex items-center gap-1.5 text-muted-foreground/80">
+                    <span className="font-medium">Features</span>
+                  </div>
+                  <div className="h-3.5 w-px bg-border/60 hidden sm:block" />
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-muted-foreground/70">
+                    <span className="flex items-center gap-1.5"><ImageLucide className="size-3" /> Drag & drop images</span>
+                    <span className="flex items-center gap-1.5"><Youtube className="size-3" /> YouTube auto-embed</span>
+                    <span className="flex items-center gap-1.5"><Code2 className="size-3" /> Code auto-detect</span>
+                  </div>
+                </div>
+              </div>
+            )}
+            {showPreview ? (
+              <div className="min-h-[400px] p-6 rounded-lg border border-border bg-background/50">
+                <MarkdownRenderer content={content} />
+              </div>
+            ) : (
+              <textarea
+                ref={contentTextareaRef}
+                id="content"
+                className="w-full min-h-[400px] p-4 rounded-lg border border-border bg-background/50 font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring"
+                value={content}
+                onChange={(e) => handleContentChange(e.target.value)}
+                onKeyDown={(e) => {
+                  const textarea = e.currentTarget;
+                  const start = textarea.selectionStart;
+                  const end = textarea.selectionEnd;
+                  const selectedText = content.substring(start, end);
+                  
+                  // Helper to wrap selected text
+                  const wrapSelection = (prefix: string, suffix: string) => {
+                    e.preventDefault();
+                    // Save current state to history before making changes
+                    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
+                    historyRef.current.push(content);
+                    historyIndexRef.current = historyRef.current.length - 1;
+                    
+                    const newContent = content.substring(0, start) + prefix + selectedText + suffix + content.substring(end);
+                    handleContentChange(newContent);
+                    setTimeout(() => {
+                      textarea.focus();
+                      textarea.setSelectionRange(start + prefix.length, end + prefix.length);
+                    }, 0);
+                  };
+                  
+                  // Helper to prefix lines
+                  const prefixLines = (prefix: string) => {
+                    e.preventDefault();
+                    // Find the start of the first line
+                    let lineStart = start;
+                    while (lineStart > 0 && content[lineStart - 1] !== '\n') lineStart--;
+                    // Find the end of the last line
+                    let lineEnd = end;
+                    while (lineEnd < content.length && content[lineEnd] !== '\n') lineEnd++;
+                    
+                    const lines = content.substring(lineStart, lineEnd).split('\n');
+                    const prefixedLines = lines.map((line, i) => {
+                      if (prefix === '1. ') {
+                        return `${i + 1}. ${line}`;
+                      }
+                      return prefix + line;
+                    }).join('\n');
+                    
+                    // Save current state to history before making changes
+                    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
+                    historyRef.current.push(content);
+                    historyIndexRef.current = historyRef.current.length - 1;
+                    
+                    const newContent = content.substring(0, lineStart) + prefixedLines + content.substring(lineEnd);
+                    handleContentChange(newContent);
+                    setTimeout(() => {
+                      textarea.focus();
+                      textarea.setSelectionRange(lineStart, lineStart + prefixedLines.length);
+                    }, 0);
+                  };
+                  
+                  // Ctrl+Z: Undo
+                  if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'z') {
+                    if (historyIndexRef.current >= 0) {
+                      e.preventDefault();
+                      const previousContent = historyRef.current[historyIndexRef.current];
+                      historyIndexRef.current--;
+                      isUndoRedoRef.current = true;
+                      handleContentChange(previousContent);
+                      isUndoRedoRef.current = false;
+                    }
+                    return;
+                  }
+                  // Ctrl+Y or Ctrl+Shift+Z: Redo
+                  if ((e.ctrlKey && e.key.toLowerCase() === 'y') || (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'z')) {
+                    if (historyIndexRef.current < historyRef.current.length - 1) {
+                      e.preventDefault();
+                      historyIndexRef.current++;
+                      // We need to get the content that was applied after this history point
+                      // Since we save BEFORE the change, redo means reapply what came after
+                      // This is a simplified redo - in practice you'd need to save the "after" state too
+                    }
+                    return;
+                  }
+                  
+                  // Ctrl+B: Bold
+                  if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'b') {
+                    wrapSelection('**', '**');
+                  }
+                  // Ctrl+I: Italic
+                  else if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'i') {
+                    wrapSelection('*', '*');
+                  }
+                  // Ctrl+L: Ordered list
+                  else if (e.ctrlKey && !e.shiftKey && e.key.toLowerCase() === 'l') {
+                    e.preventDefault();
+                    prefixLines('1. ');
+                  }
+                  // Ctrl+Shift+L: Unordered list
+                  else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'l') {
+                    e.preventDefault();
+                    prefixLines('- ');
+                  }
+                  // Ctrl+Shift+.: Blockquote
+                  else if (e.ctrlKey && e.shiftKey && e.key === '.') {
+                    prefixLines('> ');
+                  }
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                }}
+                onDrop={async (e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  
+                  const files = Array.from(e.dataTransfer.files);
+                  const imageFile = files.find(f => f.type.startsWith('image/'));
+                  
+                  if (!imageFile) return;
+                  
+                  setIsUploadingImage(true);
+                  try {
+                    const { publicUrl } = await uploadFileDirect(imageFile);
+                    
+                    const textarea = contentTextareaRef.current;
+                    const imageMarkdown = `\n![${imageFile.name}](${publicUrl})\n`;
+                    
+                    if (textarea) {
+                      const start = textarea.selectionStart;
+                      const end = textarea.selectionEnd;
+                      const newContent = content.substring(0, start) + imageMarkdown + content.substring(end);
+                      setContent(newContent);
+                    } else {
+                      setContent(content + imageMarkdown);
+                    }
+                    
+                    toast.success("Image uploaded!", {
+                      description: "Dropped image added to your content.",
+                    });
+                  } catch (error) {
+                    console.error("Upload error:", error);
+                    toast.error("Failed to upload image", {
+                      description: error instanceof Error ? error.message : "Please try again.",
+                    });
+                  } finally {
+                    setIsUploadingImage(false);
+                  }
+                }}
+                onPaste={async (e) => {
+                  const items = Array.from(e.clipboardData.items);
+                  const imageItem = items.find(item => item.type.startsWith('image/'));
+                  
+                  // Handle image paste
+                  if (imageItem) {
+                    e.preventDefault();
+                    const imageFile = imageItem.getAsFile();
+                    if (!imageFile) return;
+                    
+                    setIsUploadingImage(true);
+                    try {
+                      const { publicUrl } = await uploadFileDirect(imageFile);
+                      
+                      const textarea = contentTextareaRef.current;
+                      const imageMarkdown = `\n![pasted-image](${publicUrl})\n`;
+                      
+                      if (textarea) {
+                        const start = textarea.selectionStart;
+                        const end = textarea.selectionEnd;
+                        const newContent = content.substring(0, start) + imageMarkdown + content.substring(end);
+                        setContent(newContent);
+                      } else {
+                        setContent(content + imageMarkdown);
+                      }
+                      
+                      toast.success("Image uploaded!", {
+                        description: "Pasted image added to your content.",
+                      });
+                    } catch (error) {
+                      console.error("Upload error:", error);
+                      toast.error("Failed to upload image", {
+                        description: error instanceof Error ? error.message : "Please try again.",
+                      });
+                    } finally {
+                      setIsUploadingImage(false);
+                    }
+                    return;
+                  }
+                  
+
+                  const text = e.clipboardData.getData('text/plain');
+                  
+                  // Handle YouTube URL paste - convert to markdown link
+                  const youtubePatterns = [
+                    /^https?:\/\/(www\.)?youtube\.com\/watch\?v=[\w-]+/,
+                    /^https?:\/\/youtu\.be\/[\w-]+/,
+                    /^https?:\/\/(www\.)?youtube\.com\/embed\/[\w-]+/,
+                  ];
+                  
+                  const isYouTubeUrl = youtubePatterns.some(pattern => pattern.test(text.trim()));
+                  
+                  if (isYouTubeUrl) {
+                    e.preventDefault();
+                    const youtubeMarkdown = `[Watch on YouTube](${text.trim()})`;
+                    
+                    const textarea = contentTextareaRef.current;
+                    if (textarea) {
+                      const start = textarea.selectionStart;
+                      const end = textarea.selectionEnd;
+                      const newContent = content.substring(0, start) + youtubeMarkdown + content.substring(end);
+                      handleContentChange(newContent);
+                      
+                      setTimeout(() => {
+                        textarea.focus();
+                        textarea.setSelectionRange(start + youtubeMarkdown.length, start + youtubeMarkdown.length);
+                      }, 0);
+                    } else {
+                      handleContentChange(content + youtubeMarkdown);
+                    }
+                    return;
+                  }
+                  
+                  if (!text || text.length < 10) return; // Too short to be code
+                  
+
+                  const codePatterns = [
+                    /^(import|export|from|const|let|var|function|class|interface|type|async|await|return|if|else|for|while|switch|case|try|catch|throw|new)\s/m,
+                    /^(def |class |import |from |print\(|if __name__|async def)/m,
+                    /^(<\?php|namespace |use |function |class |public |private |protected )/m,
+                    /^(package |import |public class |private |void |int |String )/m,
+                    /^(#include|using namespace|int main|void |std::)/m,
+                    /^(fn |let |pub |use |impl |struct |mod |match )/m,
+                    /^(func |package |import |type |var |const )/m,
+                    /=>/,
+                    /\{[\s\S]*\}/,
+                    /\([\s\S]*\)\s*{/,
+                    /;\s*$/m,
+                    /^\s{2,}(return|if|for|while|const|let|var)/m,
+                  ];
+                  
+                  const looksLikeCode = codePatterns.some(pattern => pattern.test(text));
+                  const hasMultipleLines = text.split('\n').length > 2;
+                  const hasIndentation = /^\s{2,}/m.test(text);
+                  
+                  if (looksLikeCode && (hasMultipleLines || hasIndentation)) {
+                    e.preventDefault();
+                    
+
+                    let language = '';
+                    if (/^(import|export|const|let|var|function|async|await|=\>|interface|type\s)/.test(text)) {
+                      language = text.includes('interface ') || text.includes('type ') ? 'typescript' : 'javascript';
+                    } else if (/^(def |class [A-Z]|import |from |print\(|if __name__)/.test(text)) {
+                      language = 'python';
+                    } else if (/<\?php|namespace /.test(text)) {
+                      language = 'php';
+                    } else if (/^(package |public class |void |int |String )/.test(text)) {
+                      language = 'java';
+                    } else if (/#include|std::/.test(text)) {
+                      language = 'cpp';
+                    } else if (/^(fn |pub |impl |struct )/.test(text)) {
+                      language = 'rust';
+                    } else if (/^(func |package main)/.test(text)) {
+                      language = 'go';
+                    } else if (/<[a-zA-Z][^>]*>/.test(text) && /<\/[a-zA-Z]+>/.test(text)) {
+                      language = text.includes('className') ? 'jsx' : 'html';
+                    } else if (/^\s*\{[\s\S]*"[\w]+":\s/.test(text)) {
+                      language = 'json';
+                    } else if (/^[\w-]+:\s/.test(text)) {
+                      language = 'yaml';
+                    } else if (/^\$|^@|\{.*\}/.test(text) && /;$/.test(text)) {
+                      language = 'css';
+                    } else if (/^SELECT|^INSERT|^UPDATE|^DELETE|^CREATE|^ALTER/i.test(text)) {
+                      language = 'sql';
+                    } else if (/^\s*#|^\s*\[\[/.test(text)) {
+                      language = 'bash';
+                    }
+                    
+                    const textarea = contentTextareaRef.current;
+                    const codeMarkdown = `\n\`\`\`${language}\n${text}\n\`\`\`\n`;
+                    
+                    if (textarea) {
+                      const start = textarea.selectionStart;
+                      const end = textarea.selectionEnd;
+                      const newContent = content.substring(0, start) + codeMarkdown + content.substring(end);
+                      setContent(newContent);
+                      
+                      setTimeout(() => {
+                        textarea.focus();
+                        textarea.setSelectionRange(start + codeMarkdown.length, start + codeMarkdown.length);
+                      }, 0);
+                    } else {
+                      setContent(content + codeMarkdown);
+                    }
+                  }
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        {saveError && <PostSaveError error={saveError} onUseSlug={applySuggestedSlug} />}
+
+        <div className="rounded-xl border border-border bg-muted/30 p-4 space-y-4">
+          <PublishScheduleFields value={schedule} onChange={setSchedule} />
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-4 sm:gap-0">
+            <div className="flex flex-wrap items-center gap-3">
+              <span
+                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  !isLive
+                    ? "bg-yellow-500/15 text-yellow-600 dark:text-yellow-400"
+                    : isScheduled
+                      ? "bg-blue-500/15 text-blue-600 dark:text-blue-400"
+                      : hasChanges
+                        ? "bg-orange-500/15 text-orange-600 dark:text-orange-400"
+                        : "bg-green-500/15 text-green-600 dark:text-green-400"
+                }`}
+              >
+                {!isLive ? "Draft" : isScheduled ? "Scheduled" : hasChanges ? "Unpublished changes" : "Published"}
+              </span>
+              <p className="text-xs text-muted-foreground">
+                {!isLive
+                  ? "Only you can see this post"
+                  : isScheduled && published.publish_at
+                    ? `Goes live ${formatScheduleTime(published.publish_at)}`
+                    : hasChanges
+                      ? "Readers see the last published version"
+                      : `Live at /blog/${published.slug}`}
+                {isLive && published.unpublish_at && ` · Unpublishes ${formatScheduleTime(published.unpublish_at)}`}
+              </p>
+              {isLive && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleUnpublish}
+                  disabled={isPublishing}
+                  className="gap-1.5 text-muted-foreground"
+                >
+                  <EyeOff className="size-4" />
+                  Unpublish
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2 sm:flex sm:items-center sm:gap-3 sm:justify-end w-full sm:w-auto">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => router.push("/dashboard")}
+                className="w-full sm:w-auto"
+              >
+                Cancel
+              </Button>
+               <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleSaveAndExit}
+                className="w-full sm:w-auto"
+              >
+                Save & Exit
+              </Button>
+              <Button
+                type="submit"
+                size="sm"
+                disabled={isSaving || isPublishing}
+                className="w-full sm:w-auto col-span-2 sm:col-span-1 gap-1.5"
+              >
+                {isPublishing ? <Loader2 className="size-4 animate-spin" /> : <Send className="size-4" />}
+                {isScheduledForLater(schedule) ? "Schedule" : isLive ? "Publish Changes" : "Publish"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </form>
+    </div>
+
+
+      {postId && (
+        <RevisionsPanel
+          open={showRevisions}
+          onOpenChange={setShowRevisions}
+          postId={postId}
+          current={{ title, content }}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
+      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <DialogContent showCloseButton={false}>
+          <DialogHeader>
+            <DialogTitle className="text-destructive">Delete Post</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this post? This action cannot be undone. Images no other post uses are removed from the media library later.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => setShowDeleteDialog(false)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="gap-1.5"
+            >
+              {isDeleting ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Trash2 className="size-4" />
+              )}
+              Delete Post
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import * as React from "react";
+import dayjs from "dayjs";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { DBPost } from "@/features/blog/data/supabase-posts";
+import { diffLines, type DiffRow } from "@/lib/line-diff";
+import type { PostRevision, PostRevisionSummary, RevisionReason } from "@/lib/post-policy";
+import { cn } from "@/lib/utils";
+import { loadRevision, loadRevisions, restoreRevision } from "../actions";
+
+const REASON_LABELS: Record<RevisionReason, string> = {
+  autosave: "Autosave",
+  save: "Saved",
+  publish: "Published",
+  restore: "Restored",
+};
+
+// Unchanged lines shown around each change; longer unchanged runs fold up
+const CONTEXT_LINES = 3;
+
+type DiffItem = { kind: "row"; row: DiffRow } | { kind: "folded"; count: number };
+
+function foldUnchanged(rows: DiffRow[]): DiffItem[] {
+  const items: DiffItem[] = [];
+  let index = 0;
+  while (index < rows.length) {
+    if (rows[index].type !== "same") {
+      items.push({ kind: "row", row: rows[index++] });
+      continue;
+    }
+    let end = index;
+    while (end < rows.length && rows[end].type === "same") end++;
+
+    const keepBefore = index === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === rows.length ? 0 : CONTEXT_LINES;
+    if (end - index > keepBefore + keepAfter + 1) {
+      rows.slice(index, index + keepBefore).forEach((row) => items.push({ kind: "row", row }));
+      items.push({ kind: "folded", count: end - index - keepBefore - keepAfter });
+      rows.slice(end - keepAfter, end).forEach((row) => items.push({ kind: "row", row }));
+    } else {
+      rows.slice(index, end).forEach((row) => items.push({ kind: "row", row }));
+    }
+    index = end;
+  }
+  return items;
+}
+
+const CELL_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  changed: { left: "bg-red-500/10", right: "bg-green-500/10" },
+  removed: { left: "bg-red-500/10", right: "bg-muted/30" },
+  added: { left: "bg-muted/30", right: "bg-green-500/10" },
+};
+
+function DiffCell({ line, className }: { line: { number: number; text: string } | null; className: string }) {
+  return (
+    <div className={cn("flex min-w-0", className)}>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground/60">
+        {line?.number ?? ""}
+      </span>
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{line?.text ?? ""}</span>
+    </div>
+  );
+}
+
+interface RevisionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  // What the editor holds right now, compared against the selected revision
+  current: { title: string; content: string };
+  onRestored: (post: DBPost) => void;
+}
+
+export function RevisionsPanel({ open, onOpenChange, postId, current, onRestored }: RevisionsPanelProps) {
+  const [revisions, setRevisions] = React.useState<PostRevisionSummary[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [selected, setSelected] = React.useState<PostRevision | null>(null);
+  const [loadingRevision, setLoadingRevision] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+
+  const fetchRevisions = React.useCallback(async () => {
+    setLoading(true);
+    const result = await loadRevisions(postId);
+    setLoading(false);
+
+    if (!result.ok) {
+      toast.error("Failed to load revisions", { description: result.error.message });
+      return;
+    }
+    setRevisions(result.data);
+    setSelectedId((id) => (id && result.data.some((revision) => revision.id === id) ? id : result.data[0]?.id ?? null));
+  }, [postId]);
+
+  React.useEffect(() => {
+    if (open) fetchRevisions();
+  }, [open, fetchRevisions]);
+
+  React.useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingRevision(true);
+    loadRevision(postId, selectedId).then((result) => {
+      if (cancelled) return;
+      setLoadingRevision(false);
+      if (result.ok) {
+        setSelected(result.data);
+      } else {
+        toast.error("Failed to load revision", { description: result.error.message });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, selectedId]);
+
+  const diffItems = React.useMemo(
+    () => (selected ? foldUnchanged(diffLines(selected.content, current.content)) : []),
+    [selected, current.content]
+  );
+  const isIdentical = !!selected && selected.content === current.content && selected.title === current.title;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    const result = await restoreRevision(postId, selected.id);
+    setIsRestoring(false);
+
+    if (!result.ok) {
+      toast.error("Failed to restore revision", { description: result.error.message });
+      return;
+    }
+    onRestored(result.data);
+    toast.success("Revision restored", {
+      description: "The version you replaced is kept in the history.",
+    });
+    fetchRevisions();
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-6xl p-0 gap-0 flex flex-col">
+        <SheetHeader className="border-b">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="size-4" />
+            Revisions
+          </SheetTitle>
+          <SheetDescription>
+            Saved versions of this post. The left side is the revision, the right side is what&apos;s in the editor now.
+            Revisions don&apos;t include the category or tags, so restoring one keeps the current ones.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+          <div className="md:w-64 shrink-0 border-b md:border-b-0 md:border-r overflow-y-auto max-h-48 md:max-h-none">
+            {loading && revisions.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="size-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">
+                No revisions yet. One is kept each time you save or publish.
+              </p>
+            ) : (
+              <ul className="p-2 space-y-1">
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        "w-full rounded-md px-3 py-2 text-left text-sm transition-colors",
+                        revision.id === selectedId ? "bg-primary/10 text-primary" : "hover:bg-muted"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{dayjs(revision.created_at).format("MMM D, HH:mm")}</span>
+                        <span
+                          className={cn(
+                            "rounded-full px-2 py-0.5 text-[10px] font-medium",
+                            revision.reason === "publish"
+                              ? "bg-green-500/15 text-green-600 dark:text-green-400"
+                              : "bg-muted text-muted-foreground"
+                          )}
+                        >
+                          {REASON_LABELS[revision.reason] ?? revision.reason}
+                        </span>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">{revision.title}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex flex-1 min-w-0 min-h-0 flex-col">
+            {selected && (
+              <div className="flex items-center justify-between gap-4 border-b px-4 py-3">
+                <div className="min-w-0 text-sm">
+                  {selected.title !== current.title ? (
+                    <p className="truncate">
+                      <span className="text-red-600 dark:text-red-400 line-through">{selected.title}</span>
+                      {" → "}
+                      <span className="text-green-600 dark:text-green-400">{current.title}</span>
+                    </p>
+                  ) : (
+                    <p className="truncate font-medium">{selected.title}</p>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={handleRestore}
+                  disabled={isRestoring || isIdentical}
+                  className="gap-1.5 shrink-0"
+                >
+                  {isRestoring ? <Loader2 className="size-4 animate-spin" /> : <RotateCcw className="size-4" />}
+                  Restore this version
+                </Button>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto font-mono text-xs">
+              {loadingRevision ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="size-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : !selected ? null : isIdentical ? (
+                <p className="p-4 font-sans text-sm text-muted-foreground">
+                  This revision matches what&apos;s in the editor.
+                </p>
+              ) : (
+                <div className="divide-y divide-border/40">
+                  {diffItems.map((item, index) =>
+                    item.kind === "folded" ? (
+                      <div key={index} className="bg-muted/40 px-4 py-1 text-center text-muted-foreground">
+                        {item.count} unchanged {item.count === 1 ? "line" : "lines"}
+                      </div>
+                    ) : (
+                      <div key={index} className="grid grid-cols-2 divide-x divide-border/40">
+                        <DiffCell line={item.row.left} className={CELL_STYLES[item.row.type].left} />
+                        <DiffCell line={item.row.right} className={CELL_STYLES[item.row.type].right} />
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
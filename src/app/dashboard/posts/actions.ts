@@ -0,0 +1,188 @@
+"use server";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { syncPostToKnowledgeBase } from "@/app/utils/blog-knowledge";
+import { isVectorStoreConfigured } from "@/app/utils/vector-store";
+import { syncPostAssetReferences } from "@/app/utils/assets";
+import {
+  PostServiceError,
+  createPost,
+  deletePost,
+  getPostBySlug,
+  listPosts,
+  publishPost,
+  restorePostRevision,
+  setPostPinned,
+  unpublishPost,
+  updatePost,
+  type EditablePost,
+  type PostSummary,
+} from "@/app/utils/posts";
+import { getRevision, listRevisions } from "@/app/utils/post-revisions";
+import { listTerms } from "@/app/utils/post-terms";
+import type { DBPost } from "@/features/blog/data/supabase-posts";
+import { authenticateAction } from "@/lib/api-auth";
+import {
+  postError,
+  type PostResult,
+  type PostRevision,
+  type PostTerm,
+  type PostRevisionSummary,
+  type SaveKind,
+} from "@/lib/post-policy";
+import { isSupabaseAdminConfigured } from "@/lib/supabase-admin";
+import { createUserSupabaseClient } from "@/lib/supabase-user";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUuid(id: unknown): id is string {
+  return typeof id === "string" && UUID_PATTERN.test(id);
+}
+
+// Run a posts service call as the signed-in user and turn its outcome into a
+// PostResult. Thrown errors don't reach the browser intact, so none escape.
+async function runPostAction<T>(action: (client: SupabaseClient) => Promise<T>): Promise<PostResult<T>> {
+  const auth = await authenticateAction();
+  if (!auth) return { ok: false, error: postError("unauthenticated") };
+
+  try {
+    return { ok: true, data: await action(createUserSupabaseClient(auth.accessToken)) };
+  } catch (error) {
+    if (error instanceof PostServiceError) return { ok: false, error: error.error };
+    console.error("Post action failed:", error);
+    return { ok: false, error: postError("server_error") };
+  }
+}
+
+export async function loadPosts(): Promise<PostResult<PostSummary[]>> {
+  return runPostAction((client) => listPosts(client));
+}
+
+export async function loadPostForEditing(slug: string): Promise<PostResult<EditablePost>> {
+  if (typeof slug !== "string" || !slug) return { ok: false, error: postError("not_found") };
+  return runPostAction((client) => getPostBySlug(client, slug));
+}
+
+// Existing categories and tags, suggested by the editor
+export async function loadTerms(): Promise<PostResult<{ categories: PostTerm[]; tags: PostTerm[] }>> {
+  return runPostAction((client) => listTerms(client));
+}
+
+// Create the post when there's no id yet, otherwise update its draft. `input`
+// is a PostInput; it's validated on the server whatever the caller sends.
+export async function savePost(
+  postId: string | null,
+  input: unknown,
+  kind: SaveKind = "save"
+): Promise<PostResult<DBPost>> {
+  if (postId !== null && !isUuid(postId)) return { ok: false, error: postError("invalid_input") };
+  if (kind !== "save" && kind !== "autosave") return { ok: false, error: postError("invalid_input") };
+  return runPostAction((client) =>
+    postId ? updatePost(client, postId, input, kind) : createPost(client, input, kind)
+  );
+}
+
+// Make the saved draft the live version. Save first; unsaved edits in the
+// editor aren't part of it. `schedule` is a PublishSchedule, validated on the
+// server; without one the post goes live right away.
+export async function publishDraft(postId: string, schedule: unknown = null): Promise<PostResult<EditablePost>> {
+  if (!isUuid(postId)) return { ok: false, error: postError("invalid_input") };
+  return runPostAction((client) => publishPost(client, postId, schedule));
+}
+
+export async function unpublishLive(postId: string): Promise<PostResult<EditablePost>> {
+  if (!isUuid(postId)) return { ok: false, error: postError("invalid_input") };
+  return runPostAction((client) => unpublishPost(client, postId));
+}
+
+export async function loadRevisions(postId: string): Promise<PostResult<PostRevisionSummary[]>> {
+  if (!isUuid(postId)) return { ok: false, error: postError("invalid_input") };
+  return runPostAction((client) => listRevisions(client, postId));
+}
+
+export async function loadRevision(postId: string, revisionId: string): Promise<PostResult<PostRevision>> {
+  if (!isUuid(postId) || !isUuid(revisionId)) return { ok: false, error: postError("invalid_input") };
+  return runPostAction(async (client) => {
+    const revision = await getRevision(client, postId, revisionId);
+    if (!revision) throw new PostServiceError("revision_not_found");
+    return revision;
+  });
+}
+
+// The restored content can use other images than the draft did, so asset
+// references are synced before returning. A failed sync is caught up on the
+// next save or GC run; the revision's images are kept as references anyway.
+export async function restoreRevision(postId: string, revisionId: string): Promise<PostResult<DBPost>> {
+  if (!isUuid(postId) || !isUuid(revisionId)) return { ok: false, error: postError("invalid_input") };
+  return runPostAction(async (client) => {
+    const post = await restorePostRevision(client, postId, revisionId);
+    if (isSupabaseAdminConfigured()) {
+      await syncPostAssetReferences(postId).catch((error) => {
+        console.error("Post asset sync failed:", { postId, error });
+      });
+    }
+    return post;
+  });
+}
+
+export async function pinPost(postId: string, pinned: boolean): Promise<PostResult<null>> {
+  if (!isUuid(postId) || typeof pinned !== "boolean") return { ok: false, error: postError("invalid_input") };
+  return runPostAction(async (client) => {
+    await setPostPinned(client, postId, pinned);
+    return null;
+  });
+}
+
+export async function removePost(postId: string): Promise<PostResult<null>> {
+  if (!isUuid(postId)) return { ok: false, error: postError("invalid_input") };
+  return runPostAction(async (client) => {
+    await deletePost(client, postId);
+    return null;
+  });
+}
+
+// Update the assistant's copy of a post after it was published, unpublished
+// or deleted. The post is re-read from the database, so callers
+// can't push arbitrary content into the knowledge base.
+export async function syncPostKnowledge(postId: string) {
+  if (!(await authenticateAction())) {
+    return { synced: false, message: "Authentication required" };
+  }
+  if (!isUuid(postId)) {
+    return { synced: false, message: "Invalid post id" };
+  }
+  if (!isVectorStoreConfigured()) {
+    return { synced: false, message: "Vector store not configured" };
+  }
+
+  try {
+    const result = await syncPostToKnowledgeBase(postId);
+    return { synced: true, message: `Post ${result.status}`, ...result };
+  } catch (error: any) {
+    console.error("Post knowledge sync failed:", error);
+    return { synced: false, message: error.message || "Sync failed" };
+  }
+}
+
+// Record which uploaded assets a post uses after it was saved or published,
+// so the media library can show it and the asset GC leaves them alone
+export async function syncPostAssets(postId: string) {
+  if (!(await authenticateAction())) {
+    return { synced: false, message: "Authentication required" };
+  }
+  if (!isUuid(postId)) {
+    return { synced: false, message: "Invalid post id" };
+  }
+  if (!isSupabaseAdminConfigured()) {
+    return { synced: false, message: "SUPABASE_SERVICE_ROLE_KEY not configured" };
+  }
+
+  try {
+    const result = await syncPostAssetReferences(postId);
+    return { synced: true, message: `${result.referenced} assets referenced`, ...result };
+  } catch (error: any) {
+    console.error("Post asset sync failed:", error);
+    return { synced: false, message: error.message || "Sync failed" };
+  }
+}
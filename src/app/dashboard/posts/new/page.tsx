@@ -10,12 +10,41 @@ import { ArrowLeft, FileText, ImageIcon, Send, Keyboard, Image as ImageLucide, Y
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
 import { CoverUpload } from "@/components/cover-upload";
-import { supabase } from "@/lib/supabase";
+import { PostSaveError } from "@/components/post-save-error";
+import { PostTermsFields } from "@/components/post-terms-fields";
+import {
+  PublishScheduleFields,
+  getScheduleInputs,
+  isScheduledForLater,
+  toPublishSchedule,
+  type ScheduleInputs,
+} from "@/components/publish-schedule-fields";
+import { normalizeSlug, type PostError, type PostTerm } from "@/lib/post-policy";
+import { loadTerms, publishDraft, savePost, syncPostAssets, syncPostKnowledge } from "../actions";
 
 const AUTO_SAVE_DELAY = 3000; // 3 seconds debounced
 
+// Keep the assistant's copy of the post in step. Runs in the background:
+// a failure only leaves the assistant's knowledge stale.
+function syncKnowledge(postId: string) {
+  syncPostKnowledge(postId)
+    .then((result) => {
+      if (!result.synced) console.warn("Assistant knowledge sync skipped:", result.message);
+    })
+    .catch((err) => console.error("Assistant knowledge sync failed:", err));
+}
+
+// Record which uploads the post uses, for the media library and asset GC.
+// Runs in the background: the daily GC re-checks references anyway.
+function syncAssets(postId: string) {
+  syncPostAssets(postId)
+    .then((result) => {
+      if (!result.synced) console.warn("Post asset sync skipped:", result.message);
+    })
+    .catch((err) => console.error("Post asset sync failed:", err));
+}
+
 export default function NewPostPage() {
   const router = useRouter();
   const [postId, setPostId] = React.useState<string | null>(null);
@@ -24,9 +53,15 @@ export default function NewPostPage() {
   const [content, setContent] = React.useState("");
   const [excerpt, setExcerpt] = React.useState("");
   const [coverImage, setCoverImage] = React.useState("");
-  const [isPublished, setIsPublished] = React.useState(false);
+  const [category, setCategory] = React.useState("");
+  const [tags, setTags] = React.useState<string[]>([]);
+  const [termSuggestions, setTermSuggestions] = React.useState<{ categories: PostTerm[]; tags: PostTerm[] }>({
+    categories: [],
+    tags: [],
+  });
+  const [schedule, setSchedule] = React.useState<ScheduleInputs>(getScheduleInputs(null));
   const [loading, setLoading] = React.useState(false);
-  const [error, setError] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<PostError | null>(null);
   const [showPreview, setShowPreview] = React.useState(false);
   const [lastSaved, setLastSaved] = React.useState<Date | null>(null);
   const [isSaving, setIsSaving] = React.useState(false);
@@ -41,57 +76,55 @@ export default function NewPostPage() {
 
   React.useEffect(() => {
     if (!isSlugManuallyEdited && title) {
-      const generatedSlug = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, "-")
-        .replace(/^-|-$/g, "");
-      setSlug(generatedSlug);
+      setSlug(normalizeSlug(title));
     }
   }, [title, isSlugManuallyEdited]);
 
+  React.useEffect(() => {
+    loadTerms().then((result) => {
+      if (result.ok) setTermSuggestions(result.data);
+    });
+  }, []);
+
 
-  const saveToDb = React.useCallback(async (silent = true) => {
-    if (!title) return;
+  // Save the draft, creating the post on the first save. Resolves to the
+  // post's id, or null when it wasn't saved.
+  const saveToDb = React.useCallback(async (silent = true): Promise<string | null> => {
+    if (silent && !title) return null;
 
     try {
       if (!silent) setIsSaving(true);
-      
-      const postData = {
+
+      const result = await savePost(postId, {
         title,
-        slug: slug || title.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+        // While the slug follows the title the server picks a free one
+        slug: isSlugManuallyEdited ? slug : undefined,
         content,
         excerpt,
-        cover_image: coverImage,
-
-        is_published: isPublished, 
-        updated_at: new Date().toISOString(),
-      };
-
-      if (postId) {
-        const { error } = await supabase
-          .from("posts")
-          .update(postData)
-          .eq("id", postId);
-        
-        if (error) throw error;
-      } else {
-        const { data, error } = await supabase
-          .from("posts")
-          .insert([postData])
-          .select("id")
-          .single();
-        
-        if (error) throw error;
-        if (data) setPostId(data.id);
+        coverImage,
+        category,
+        tags,
+      }, silent ? "autosave" : "save");
+
+      if (!result.ok) {
+        setError(result.error);
+        return null;
       }
 
+      const saved = result.data;
+      setError(null);
+      setPostId(saved.id);
+      if (!isSlugManuallyEdited || !silent) setSlug(saved.slug);
       setLastSaved(new Date());
+      syncAssets(saved.id);
+      return saved.id;
     } catch (err: any) {
       console.error("Auto-save failed:", err);
+      return null;
     } finally {
       if (!silent) setIsSaving(false);
     }
-  }, [title, slug, content, excerpt, coverImage, isPublished, postId]);
+  }, [title, slug, isSlugManuallyEdited, content, excerpt, coverImage, category, tags, postId]);
 
 
   React.useEffect(() => {
@@ -102,30 +135,43 @@ export default function NewPostPage() {
     }, AUTO_SAVE_DELAY);
 
     return () => clearTimeout(timer);
-  }, [title, slug, content, excerpt, coverImage, isPublished, saveToDb]);
+  }, [title, slug, content, excerpt, coverImage, category, tags, saveToDb]);
 
+  // Save the draft, then make it the live version, now or when scheduled
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
-    setError(null);
 
-    await saveToDb(false);
-    
+    const savedId = await saveToDb(false);
+    const result = savedId ? await publishDraft(savedId, toPublishSchedule(schedule)) : null;
 
-    
     setLoading(false);
+    if (!result) return;
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    syncKnowledge(result.data.id);
+    syncAssets(result.data.id);
     router.refresh();
     router.push("/dashboard");
   };
 
   const handleSaveAndExit = async () => {
     setLoading(true);
-    await saveToDb(false);
+    const savedId = await saveToDb(false);
     setLoading(false);
+    if (!savedId) return;
     router.refresh();
     router.push("/dashboard");
   };
 
+  const applySuggestedSlug = (suggestion: string) => {
+    setSlug(suggestion);
+    setIsSlugManuallyEdited(true);
+    setError(null);
+  };
+
   return (
     <div className="w-full">
       <div className="flex items-start gap-4 mb-8">
@@ -197,7 +243,9 @@ export default function NewPostPage() {
                     setSlug(e.target.value);
                     setIsSlugManuallyEdited(true);
                   }}
+                  onBlur={() => setSlug(normalizeSlug(slug))}
                   required
+                  aria-invalid={error?.field === "slug"}
                   className="bg-background/50"
                 />
               </div>
@@ -211,6 +259,13 @@ export default function NewPostPage() {
                   className="bg-background/50"
                 />
               </div>
+              <PostTermsFields
+                category={category}
+                onCategoryChange={setCategory}
+                tags={tags}
+                onTagsChange={setTags}
+                suggestions={termSuggestions}
+              />
             </div>
           </div>
         </div>
@@ -457,29 +512,16 @@ export default function NewPostPage() {
           </div>
         </div>
 
-        {error && (
-          <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm text-destructive">
-            {error}
-          </div>
-        )}
+        {error && <PostSaveError error={error} onUseSlug={applySuggestedSlug} />}
 
-        <div className="rounded-xl border border-border bg-muted/30 p-4">
+        <div className="rounded-xl border border-border bg-muted/30 p-4 space-y-4">
+          <PublishScheduleFields value={schedule} onChange={setSchedule} />
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-4 sm:gap-0">
-            <div className="flex items-center gap-3">
-              <Switch
-                id="published"
-                checked={isPublished}
-                onCheckedChange={setIsPublished}
-              />
-              <div>
-                <Label htmlFor="published" className="font-medium cursor-pointer">
-                  Publish Post
-                </Label>
-                <p className="text-xs text-muted-foreground">
-                  Make visible on your site
-                </p>
-              </div>
-            </div>
+            <p className="text-xs text-muted-foreground">
+              {isScheduledForLater(schedule)
+                ? "Readers see it from the publish time on"
+                : "Saved as a draft until you publish it"}
+            </p>
             <div className="grid grid-cols-2 gap-2 sm:flex sm:items-center sm:gap-3 sm:justify-end w-full sm:w-auto">
               <Button
                 type="button"
@@ -500,7 +542,9 @@ export default function NewPostPage() {
                 Save & Exit
               </Button>
               <Button type="submit" disabled={loading} size="sm" className="w-full sm:w-auto col-span-2 sm:col-span-1">
-                {loading ? "Posting..." : "Post"}
+                {loading
+                  ? "Publishing..."
+                  : isScheduledForLater(schedule) ? "Schedule" : "Publish"}
               </Button>
             </div>
           </div>
@@ -1,9 +1,13 @@
 import { MetadataRoute } from 'next'
+import { getBlogTermsFromDB } from '@/features/blog/data/supabase-posts'
 import { siteConfig } from '@/lib/site'
 
-export default function sitemap(): MetadataRoute.Sitemap {
+export const revalidate = 3600
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = siteConfig.url
   const now = new Date()
+  const { categories, tags } = await getBlogTermsFromDB()
 
   return [
     {
@@ -18,6 +22,17 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: 'monthly',
       priority: 0.5,
     },
+    ...categories.map((category) => ({
+      url: `${baseUrl}/blog/category/${category.slug}`,
+      lastModified: now,
+      changeFrequency: 'weekly' as const,
+      priority: 0.6,
+    })),
+    ...tags.map((tag) => ({
+      url: `${baseUrl}/blog/tag/${tag.slug}`,
+      lastModified: now,
+      changeFrequency: 'weekly' as const,
+      priority: 0.4,
+    })),
   ]
 }
-
@@ -0,0 +1,327 @@
+import { getSupabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+import { deleteStoredUpload } from '@/lib/upload-storage';
+import { fetchAllRows } from '@/lib/supabase-paging';
+import { extractMarkdownImageUrls } from '@/lib/image-variants';
+
+// Bookkeeping for uploaded files: the `assets` table records every upload
+// and `post_assets` which posts use it. Nothing is deleted when an image
+// leaves a post; the daily GC removes assets that stayed unused for the
+// grace period, so undo, drafts and other posts can still bring them back.
+// Revisions count as uses, so restoring one never brings back broken images.
+
+export type AssetRow = {
+  id: string;
+  key: string;
+  url: string;
+  owner_id: string | null;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  unreferenced_since: string | null;
+  created_at: string;
+};
+
+export type NewAsset = {
+  key: string;
+  url: string;
+  ownerId: string;
+  contentType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+};
+
+export type AssetGcResult = {
+  scanned: number;
+  referenced: number;
+  markedUnused: number;
+  deleted: string[];
+  failed: string[];
+};
+
+export function getAssetGcGraceDays(): number {
+  const days = parseInt(process.env.ASSET_GC_GRACE_DAYS || '', 10);
+  return Number.isFinite(days) && days >= 1 ? days : 7;
+}
+
+// Every image URL a version of a post uses: its cover and the images in its
+// Markdown. A post counts as using the images of its draft, its published
+// version and each of its revisions.
+function getPostImageUrls(post: { content: string | null; cover_image: string | null }): string[] {
+  const urls = extractMarkdownImageUrls(post.content || '');
+  if (post.cover_image) urls.push(post.cover_image);
+  return urls;
+}
+
+// Record a stored upload. Returns false when there is nowhere to record it;
+// the upload itself is fine either way.
+export async function recordAsset(asset: NewAsset): Promise<boolean> {
+  if (!isSupabaseAdminConfigured()) {
+    console.warn('Skipping asset record: SUPABASE_SERVICE_ROLE_KEY is not set');
+    return false;
+  }
+
+  const { error } = await getSupabaseAdmin().from('assets').insert({
+    key: asset.key,
+    url: asset.url,
+    owner_id: asset.ownerId,
+    content_type: asset.contentType,
+    size_bytes: asset.sizeBytes,
+    width: asset.width ?? null,
+    height: asset.height ?? null,
+  });
+  if (error) {
+    console.error('Failed to record asset:', { key: asset.key, message: error.message });
+    return false;
+  }
+  return true;
+}
+
+// Every revision of every post, or of one post, for their image references
+function fetchRevisionImages(postId?: string) {
+  const supabase = getSupabaseAdmin();
+  return fetchAllRows<{ id: string; content: string | null; cover_image: string | null }>((from, to) => {
+    const query = supabase
+      .from('post_revisions')
+      .select('id:post_id, content, cover_image', { count: 'exact' })
+      .order('created_at')
+      .order('id')
+      .range(from, to);
+    return postId ? query.eq('post_id', postId) : query;
+  });
+}
+
+// Point post_assets at the assets a post uses right now, after it was saved,
+// published or restored. The post is re-read from the database rather than
+// trusted from the caller.
+export async function syncPostAssetReferences(postId: string): Promise<{ referenced: number }> {
+  const supabase = getSupabaseAdmin();
+
+  const [draft, live] = await Promise.all([
+    supabase.from('posts').select('content, cover_image').eq('id', postId).maybeSingle(),
+    supabase.from('published_posts').select('content, cover_image').eq('post_id', postId).maybeSingle(),
+  ]);
+  if (draft.error || live.error) throw new Error(`Failed to load post: ${(draft.error || live.error)!.message}`);
+
+  let revisions;
+  try {
+    revisions = await fetchRevisionImages(postId);
+  } catch (error: any) {
+    throw new Error(`Failed to load post revisions: ${error.message}`);
+  }
+
+  const urls = [draft.data, live.data, ...revisions].flatMap((version) => (version ? getPostImageUrls(version) : []));
+  const { data: used, error: assetsError } = urls.length
+    ? await supabase.from('assets').select('id').in('url', urls)
+    : { data: [], error: null };
+  if (assetsError) throw new Error(`Failed to look up assets: ${assetsError.message}`);
+
+  const { data: previous, error: previousError } = await supabase
+    .from('post_assets')
+    .select('asset_id')
+    .eq('post_id', postId);
+  if (previousError) throw new Error(`Failed to load post assets: ${previousError.message}`);
+
+  const usedIds = new Set((used || []).map((row) => row.id as string));
+  const droppedIds = (previous || [])
+    .map((row) => row.asset_id as string)
+    .filter((id) => !usedIds.has(id));
+
+  if (droppedIds.length > 0) {
+    await supabase.from('post_assets').delete().eq('post_id', postId).in('asset_id', droppedIds);
+
+    // Start the grace period for assets no other post uses either
+    const { data: stillUsed } = await supabase.from('post_assets').select('asset_id').in('asset_id', droppedIds);
+    const stillUsedIds = new Set((stillUsed || []).map((row) => row.asset_id as string));
+    const unused = droppedIds.filter((id) => !stillUsedIds.has(id));
+    if (unused.length > 0) {
+      await supabase
+        .from('assets')
+        .update({ unreferenced_since: new Date().toISOString() })
+        .in('id', unused)
+        .is('unreferenced_since', null);
+    }
+  }
+
+  if (usedIds.size > 0) {
+    await supabase
+      .from('post_assets')
+      .upsert([...usedIds].map((assetId) => ({ post_id: postId, asset_id: assetId })), { ignoreDuplicates: true });
+    await supabase.from('assets').update({ unreferenced_since: null }).in('id', [...usedIds]);
+  }
+
+  return { referenced: usedIds.size };
+}
+
+// Posts that use an asset right now, checked against their content rather
+// than post_assets, which only catches up on the next save or GC run
+export async function findPostsUsingAsset(url: string): Promise<Array<{ id: string; title: string; slug: string }>> {
+  const supabase = getSupabaseAdmin();
+  const pattern = `%${url.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+  const [liveByCover, liveByContent, byCover, byContent] = await Promise.all([
+    supabase.from('published_posts').select('id:post_id, title, slug').eq('cover_image', url),
+    supabase.from('published_posts').select('id:post_id, title, slug, content, cover_image').ilike('content', pattern),
+    supabase.from('posts').select('id, title, slug').eq('cover_image', url),
+    supabase.from('posts').select('id, title, slug, content, cover_image').ilike('content', pattern),
+  ]);
+  const failed = [liveByCover, liveByContent, byCover, byContent].find((lookup) => lookup.error);
+  if (failed) throw new Error(`Failed to look up posts: ${failed.error!.message}`);
+
+  // Drafts come last so a post is listed under the title it's edited as
+  const posts = new Map<string, { id: string; title: string; slug: string }>();
+  for (const post of [...(liveByCover.data || []), ...(byCover.data || [])]) {
+    posts.set(post.id, { id: post.id, title: post.title, slug: post.slug });
+  }
+  // A plain mention of the URL in the text isn't a use
+  for (const post of [...(liveByContent.data || []), ...(byContent.data || [])]) {
+    if (getPostImageUrls(post).includes(url)) posts.set(post.id, { id: post.id, title: post.title, slug: post.slug });
+  }
+  return [...posts.values()];
+}
+
+// Delete an asset's object, its variants and its record
+export async function deleteAsset(bucketName: string, asset: Pick<AssetRow, 'id' | 'key'>): Promise<void> {
+  await deleteStoredUpload(bucketName, asset.key);
+
+  const { error } = await getSupabaseAdmin().from('assets').delete().eq('id', asset.id);
+  if (error) throw new Error(`Failed to delete asset record: ${error.message}`);
+}
+
+// Delete an asset the GC found unused, unless a post started using it since:
+// the record is only removed while it is still unused since before `cutoff`,
+// and put back if the object can't be deleted. Returns whether it was deleted.
+async function deleteUnusedAsset(bucketName: string, assetId: string, cutoff: Date): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data: deleted, error } = await supabase
+    .from('assets')
+    .delete()
+    .eq('id', assetId)
+    .lt('unreferenced_since', cutoff.toISOString())
+    .select('*');
+  if (error) throw new Error(`Failed to delete asset record: ${error.message}`);
+  if (!deleted || deleted.length === 0) return false;
+
+  const [asset] = deleted as AssetRow[];
+  try {
+    await deleteStoredUpload(bucketName, asset.key);
+  } catch (error) {
+    const { error: restoreError } = await supabase.from('assets').insert(asset);
+    if (restoreError) console.error('Failed to restore asset record:', { key: asset.key, message: restoreError.message });
+    throw error;
+  }
+  return true;
+}
+
+// Forget the record of an object deleted by other means
+export async function deleteAssetRecord(key: string): Promise<void> {
+  if (!isSupabaseAdminConfigured()) return;
+  const { error } = await getSupabaseAdmin().from('assets').delete().eq('key', key);
+  if (error) console.warn('Failed to delete asset record:', { key, message: error.message });
+}
+
+// The scheduled cleanup. References are rebuilt from the posts themselves,
+// drafts, published versions and revisions alike, so a missed sync can't get
+// a used image deleted. Every table is read in full: a short read aborts the run
+// rather than leaving assets of unread posts looking unused. Assets unused
+// for longer than the grace period are then deleted from the bucket.
+export async function collectUnusedAssets(bucketName: string, graceDays = getAssetGcGraceDays()): Promise<AssetGcResult> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - graceDays * 24 * 60 * 60 * 1000);
+
+  let posts, livePosts, revisions, assets, links;
+  try {
+    [posts, livePosts, revisions, assets, links] = await Promise.all([
+      fetchAllRows((from, to) =>
+        supabase
+          .from('posts')
+          .select('id, content, cover_image', { count: 'exact' })
+          .order('created_at')
+          .order('id')
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from('published_posts')
+          .select('id:post_id, content, cover_image', { count: 'exact' })
+          .order('created_at')
+          .order('post_id')
+          .range(from, to)
+      ),
+      fetchRevisionImages(),
+      fetchAllRows((from, to) =>
+        supabase
+          .from('assets')
+          .select('id, key, url, unreferenced_since', { count: 'exact' })
+          .order('created_at')
+          .order('id')
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from('post_assets')
+          .select('post_id, asset_id', { count: 'exact' })
+          .order('post_id')
+          .order('asset_id')
+          .range(from, to)
+      ),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to load assets: ${error.message}`);
+  }
+
+  const assetIdsByUrl = new Map(assets.map((asset) => [asset.url as string, asset.id as string]));
+  const actual = new Set<string>();
+  for (const post of [...posts, ...livePosts, ...revisions]) {
+    for (const url of getPostImageUrls(post)) {
+      const assetId = assetIdsByUrl.get(url);
+      if (assetId) actual.add(`${post.id}:${assetId}`);
+    }
+  }
+
+  const recorded = new Set(links.map((link) => `${link.post_id}:${link.asset_id}`));
+  const missing = [...actual].filter((pair) => !recorded.has(pair));
+  const stale = [...recorded].filter((pair) => !actual.has(pair));
+
+  if (missing.length > 0) {
+    await supabase.from('post_assets').upsert(
+      missing.map((pair) => {
+        const [postId, assetId] = pair.split(':');
+        return { post_id: postId, asset_id: assetId };
+      }),
+      { ignoreDuplicates: true }
+    );
+  }
+  for (const pair of stale) {
+    const [postId, assetId] = pair.split(':');
+    await supabase.from('post_assets').delete().eq('post_id', postId).eq('asset_id', assetId);
+  }
+
+  const referencedIds = new Set([...actual].map((pair) => pair.split(':')[1]));
+  const result: AssetGcResult = { scanned: 0, referenced: 0, markedUnused: 0, deleted: [], failed: [] };
+
+  for (const asset of assets) {
+    result.scanned++;
+
+    if (referencedIds.has(asset.id)) {
+      result.referenced++;
+      if (asset.unreferenced_since) {
+        await supabase.from('assets').update({ unreferenced_since: null }).eq('id', asset.id);
+      }
+    } else if (!asset.unreferenced_since) {
+      result.markedUnused++;
+      await supabase.from('assets').update({ unreferenced_since: now.toISOString() }).eq('id', asset.id);
+    } else if (new Date(asset.unreferenced_since) < cutoff) {
+      try {
+        if (await deleteUnusedAsset(bucketName, asset.id, cutoff)) result.deleted.push(asset.key);
+      } catch (error: any) {
+        console.error('Failed to delete unused asset:', { key: asset.key, message: error.message || error });
+        result.failed.push(asset.key);
+      }
+    }
+  }
+
+  return result;
+}
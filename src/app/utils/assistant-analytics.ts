@@ -0,0 +1,107 @@
+import { getSupabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+import type { ContextReport, ContextSource } from './context';
+import type { TokenUsage } from './llm';
+
+// One row per /api/chat request in the `assistant_queries` table (see
+// supabase-schema.sql), read by the dashboard's assistant analytics page.
+// Written with the service role key; without it, or with
+// ASSISTANT_ANALYTICS=false, nothing is recorded.
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+// answered: the model replied; no_context: retrieval found nothing and the
+// route returned 400; error: the provider failed and the fallback reply was
+// sent; cancelled: the client closed the stream before the reply finished
+export type AssistantQueryOutcome = 'answered' | 'no_context' | 'error' | 'cancelled';
+
+export type AssistantQueryEvent = {
+  sessionId: string;
+  question: string;
+  outcome: AssistantQueryOutcome;
+  report?: ContextReport;
+  sources: ContextSource[];
+  // Set when the vector store failed, which also ends in no_context
+  retrievalError?: string;
+  retrievalMs: number;
+  latencyMs: number;
+  model: string;
+  usage?: TokenUsage;
+  finishReason?: string | null;
+};
+
+export type AssistantQueryRow = {
+  id: string;
+  session_id: string;
+  question: string;
+  outcome: AssistantQueryOutcome;
+  retrieval_hit: boolean;
+  candidate_chunks: number;
+  passages: number;
+  context_tokens: number;
+  top_score: number | null;
+  sources: string[];
+  retrieval_error: string | null;
+  retrieval_ms: number;
+  latency_ms: number;
+  model: string;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  finish_reason: string | null;
+  created_at: string;
+};
+
+// Days logged questions are kept (ASSISTANT_ANALYTICS_RETENTION_DAYS). They hold
+// what visitors typed, so the purge cron removes them like conversations.
+export function getAnalyticsRetentionDays(): number {
+  const days = Number(process.env.ASSISTANT_ANALYTICS_RETENTION_DAYS || DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Delete questions past the retention window. Returns the number deleted.
+export async function purgeAssistantQueries(): Promise<number> {
+  const cutoff = new Date(Date.now() - getAnalyticsRetentionDays() * 24 * 60 * 60 * 1000);
+  const { count, error } = await getSupabaseAdmin()
+    .from('assistant_queries')
+    .delete({ count: 'exact' })
+    .lt('created_at', cutoff.toISOString());
+
+  if (error) {
+    throw new Error(`Error deleting expired assistant queries: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+export function isAssistantAnalyticsEnabled(): boolean {
+  return process.env.ASSISTANT_ANALYTICS !== 'false' && isSupabaseAdminConfigured();
+}
+
+// Never throws: analytics must not break a chat reply
+export async function logAssistantQuery(event: AssistantQueryEvent): Promise<void> {
+  if (!isAssistantAnalyticsEnabled()) return;
+
+  const row: Omit<AssistantQueryRow, 'id' | 'created_at'> = {
+    session_id: event.sessionId,
+    question: event.question,
+    outcome: event.outcome,
+    retrieval_hit: event.sources.length > 0,
+    candidate_chunks: event.report?.candidateChunks ?? 0,
+    passages: event.report?.passages ?? 0,
+    context_tokens: event.report?.usedTokens ?? 0,
+    top_score: event.sources.length > 0 ? Math.max(...event.sources.map((s) => s.score)) : null,
+    sources: [...new Set(event.sources.map((s) => s.source))],
+    retrieval_error: event.retrievalError ?? null,
+    retrieval_ms: Math.round(event.retrievalMs),
+    latency_ms: Math.round(event.latencyMs),
+    model: event.model,
+    prompt_tokens: event.usage?.promptTokens ?? null,
+    completion_tokens: event.usage?.completionTokens ?? null,
+    finish_reason: event.finishReason ?? null,
+  };
+
+  try {
+    const { error } = await getSupabaseAdmin().from('assistant_queries').insert(row);
+    if (error) throw error;
+  } catch (error: any) {
+    console.error('Failed to log assistant query:', { message: error.message || error });
+  }
+}
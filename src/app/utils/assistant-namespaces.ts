@@ -0,0 +1,21 @@
+// Vector store namespaces the assistant's knowledge lives in. Nothing here
+// touches Supabase or the vector store, so scripts can import it without their
+// configuration.
+
+const DEFAULT_DOCUMENT_NAMESPACE = 'default';
+const DEFAULT_BLOG_NAMESPACE = 'blog';
+
+// Documents loaded by scripts/load-rag-data.ts
+export function getDocumentNamespace(): string {
+  return process.env.PINECONE_NAMESPACE || DEFAULT_DOCUMENT_NAMESPACE;
+}
+
+// Published blog posts, synced by blog-knowledge
+export function getBlogNamespace(): string {
+  return process.env.BLOG_NAMESPACE || DEFAULT_BLOG_NAMESPACE;
+}
+
+// Everything /api/chat retrieves from
+export function getAssistantNamespaces(): string[] {
+  return [getDocumentNamespace(), getBlogNamespace()];
+}
@@ -0,0 +1,194 @@
+import { supabase } from '@/lib/supabase';
+import type { DBPost } from '@/features/blog/data/supabase-posts';
+import { getBlogNamespace } from './assistant-namespaces';
+import { chunkDocument, getChunkingStrategy, getEmbeddingText } from './chunking';
+// Imported directly: the loader registry would pull the PDF and DOCX parsers into the server bundle
+import { markdownToDocument } from './document-loaders/markdown';
+import { hasKeywordIndex, updateKeywordIndex } from './keyword-index';
+import { getEmbeddingProvider } from './llm';
+import { hashContent } from './rag-manifest';
+import { getVectorStore, type Metadata } from './vector-store';
+
+// Keeps the assistant's knowledge of the blog in step with the `published_posts`
+// table. Published versions are chunked into their own namespace; drafts never
+// are, and unpublished or deleted posts are removed.
+
+const POST_ID_PREFIX = 'post_';
+const EMBED_BATCH_SIZE = 100;
+
+type IndexablePost = Pick<DBPost, 'id' | 'title' | 'slug' | 'content' | 'excerpt'>;
+
+type PostChunk = {
+  id: string;
+  text: string;
+  embeddingText: string;
+  metadata: Metadata;
+};
+
+export type PostSyncResult = {
+  postId: string;
+  status: 'indexed' | 'removed';
+  added: number;
+  removed: number;
+  unchanged: number;
+};
+
+function getPostChunkPrefix(postId: string): string {
+  return `${POST_ID_PREFIX}${postId}_chunk_`;
+}
+
+// Chunk ids hash the embedded text and metadata, so a re-sync only embeds
+// chunks that changed and everything else under the post's prefix is stale
+function buildPostChunks(post: IndexablePost): PostChunk[] {
+  const strategy = getChunkingStrategy(process.env.BLOG_CHUNKING_STRATEGY || undefined);
+  const parsed = markdownToDocument(post.content, `blog/${post.slug}`);
+  const document = {
+    ...parsed,
+    title: post.title,
+    sections: [
+      // The excerpt summarizes the post, which makes it a good retrieval target
+      ...(post.excerpt ? [{ text: post.excerpt }] : []),
+      ...parsed.sections,
+    ],
+  };
+
+  const chunks = new Map<string, PostChunk>();
+  for (const chunk of chunkDocument(document, strategy)) {
+    const { text } = chunk;
+    const embeddingText = getEmbeddingText(chunk);
+    const metadata: Metadata = {
+      source: post.title,
+      url: `/blog/${post.slug}`,
+      path: document.sourcePath,
+      title: post.title,
+      post_id: post.id,
+      chunking: strategy.name,
+      ...(chunk.section ? { section: chunk.section } : {}),
+      char_count: text.length,
+      preview: text.substring(0, 100).replace(/\n/g, ' ') + '...',
+      text,
+      content: text,
+      chunk: text,
+    };
+    const id = `${getPostChunkPrefix(post.id)}${hashContent(embeddingText + JSON.stringify(metadata)).substring(0, 16)}`;
+    if (!chunks.has(id)) chunks.set(id, { id, text, embeddingText, metadata });
+  }
+  return [...chunks.values()];
+}
+
+// Kept in step when the keyword index exists. A failed update only costs the
+// post its keyword matches, so it is not an error.
+async function updatePostKeywords(namespace: string, removeIds: string[], chunks: PostChunk[]) {
+  try {
+    if (!(await hasKeywordIndex())) return;
+    await updateKeywordIndex(namespace, {
+      removeIds,
+      documents: chunks.map(({ id, text, metadata }) => ({
+        id,
+        text,
+        metadata: Object.fromEntries(
+          Object.entries(metadata).filter(([key]) => !['text', 'content', 'chunk', 'preview'].includes(key))
+        ),
+      })),
+    });
+  } catch (error: any) {
+    console.warn('Could not update keyword index for blog posts:', error.message || error);
+  }
+}
+
+async function indexPost(post: IndexablePost): Promise<PostSyncResult> {
+  const namespace = getBlogNamespace();
+  const vectorStore = getVectorStore();
+  const embeddingProvider = getEmbeddingProvider();
+
+  const chunks = buildPostChunks(post);
+  const existingIds = new Set(await vectorStore.listIds(namespace, getPostChunkPrefix(post.id)));
+  const newChunks = chunks.filter((chunk) => !existingIds.has(chunk.id));
+  const chunkIds = new Set(chunks.map((chunk) => chunk.id));
+  const staleIds = [...existingIds].filter((id) => !chunkIds.has(id));
+
+  // Upsert before deleting, so the post never disappears from retrieval mid-sync
+  for (let i = 0; i < newChunks.length; i += EMBED_BATCH_SIZE) {
+    const batch = newChunks.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await embeddingProvider.embed(batch.map((chunk) => chunk.embeddingText));
+    await vectorStore.upsert(namespace, batch.map((chunk, index) => ({
+      id: chunk.id,
+      values: embeddings[index],
+      metadata: chunk.metadata,
+    })));
+  }
+  if (staleIds.length > 0) {
+    await vectorStore.deleteByIds(namespace, staleIds);
+  }
+  await updatePostKeywords(namespace, staleIds, newChunks);
+
+  const result: PostSyncResult = {
+    postId: post.id,
+    status: 'indexed',
+    added: newChunks.length,
+    removed: staleIds.length,
+    unchanged: chunks.length - newChunks.length,
+  };
+  console.log('Blog post indexed:', { ...result, slug: post.slug });
+  return result;
+}
+
+async function removePost(postId: string): Promise<PostSyncResult> {
+  const namespace = getBlogNamespace();
+  const vectorStore = getVectorStore();
+  const ids = await vectorStore.listIds(namespace, getPostChunkPrefix(postId));
+  if (ids.length > 0) {
+    await vectorStore.deleteByIds(namespace, ids);
+    await updatePostKeywords(namespace, ids, []);
+  }
+
+  const result: PostSyncResult = { postId, status: 'removed', added: 0, removed: ids.length, unchanged: 0 };
+  console.log('Blog post removed from knowledge base:', result);
+  return result;
+}
+
+// Bring one post's chunks in line with its published version. An unpublished
+// or deleted post has its chunks removed.
+export async function syncPostToKnowledgeBase(postId: string): Promise<PostSyncResult> {
+  const { data: post, error } = await supabase
+    .from('published_posts')
+    .select('id:post_id, title, slug, content, excerpt')
+    .eq('post_id', postId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching post ${postId}: ${error.message}`);
+  }
+
+  return post ? indexPost(post) : removePost(postId);
+}
+
+// Index every published post and remove chunks of posts that are no longer published
+export async function backfillBlogPosts(): Promise<PostSyncResult[]> {
+  const { data: posts, error } = await supabase
+    .from('published_posts')
+    .select('id:post_id, title, slug, content, excerpt')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching posts: ${error.message}`);
+  }
+
+  const results: PostSyncResult[] = [];
+  for (const post of posts || []) {
+    results.push(await indexPost(post));
+  }
+
+  const publishedIds = new Set((posts || []).map((post) => post.id));
+  const indexedIds = await getVectorStore().listIds(getBlogNamespace(), POST_ID_PREFIX);
+  const orphanedPostIds = new Set(
+    indexedIds
+      .map((id) => id.slice(POST_ID_PREFIX.length).split('_chunk_')[0])
+      .filter((postId) => !publishedIds.has(postId))
+  );
+  for (const postId of orphanedPostIds) {
+    results.push(await removePost(postId));
+  }
+
+  return results;
+}
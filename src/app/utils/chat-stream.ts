@@ -0,0 +1,87 @@
+import type { ContextSource } from './context';
+
+// Server-sent event frames exchanged between /api/chat and the assistant widget.
+// Every frame is a single `data:` line holding one JSON-encoded event.
+// A `sources` frame precedes the deltas when citations were requested.
+export type ChatStreamEvent =
+  | { type: 'sources'; sources: ContextSource[] }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; finishReason: string | null }
+  | { type: 'error'; error: string };
+
+export class ChatStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+function parseChatStreamFrame(frame: string): ChatStreamEvent | null {
+  const data = frame
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as ChatStreamEvent;
+  } catch {
+    console.warn('Ignoring malformed chat stream frame:', data.substring(0, 100));
+    return null;
+  }
+}
+
+export type ReadChatStreamOptions = {
+  onSources?: (sources: ContextSource[]) => void;
+};
+
+// Yields the text deltas of a streaming /api/chat response.
+// Throws a ChatStreamError when the server sends an error frame mid-reply.
+export async function* readChatStream(
+  response: Response,
+  options: ReadChatStreamOptions = {}
+): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new ChatStreamError('Response has no body to stream');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseChatStreamFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        if (!event) continue;
+        if (event.type === 'delta') {
+          yield event.text;
+        } else if (event.type === 'sources') {
+          options.onSources?.(event.sources);
+        } else if (event.type === 'error') {
+          throw new ChatStreamError(event.error);
+        } else if (event.type === 'done') {
+          return;
+        }
+      }
+    }
+
+    // The connection closed without a `done` frame, so the reply is incomplete
+    throw new ChatStreamError('Chat stream ended unexpectedly');
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { LoadedDocument } from '../document-loaders/types';
+import { countTokens } from '../tokenizer';
+import {
+  chunkDocument,
+  getChunkingOptions,
+  getChunkingStrategy,
+  getEmbeddingText,
+  type ChunkingOptions,
+} from '.';
+
+const OPTIONS: ChunkingOptions = { maxTokens: 300, overlapTokens: 50, windowSentences: 3, windowOverlap: 1 };
+
+function document(sections: LoadedDocument['sections'], title?: string): LoadedDocument {
+  return { sourcePath: 'docs/guide.md', title, sections };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getChunkingOptions', () => {
+  it('defaults the overlap to a quarter of small chunks', () => {
+    vi.stubEnv('CHUNK_MAX_TOKENS', '40');
+    expect(getChunkingOptions()).toMatchObject({ maxTokens: 40, overlapTokens: 10 });
+  });
+
+  it('rejects a chunk size below one and overlap that is not smaller than it', () => {
+    vi.stubEnv('CHUNK_MAX_TOKENS', '0');
+    expect(() => getChunkingOptions()).toThrow(/CHUNK_MAX_TOKENS/);
+
+    vi.stubEnv('CHUNK_MAX_TOKENS', '100');
+    vi.stubEnv('CHUNK_OVERLAP_TOKENS', '100');
+    expect(() => getChunkingOptions()).toThrow(/must be less than CHUNK_MAX_TOKENS/);
+  });
+
+  it('rejects values that are not whole numbers', () => {
+    vi.stubEnv('CHUNK_WINDOW_SENTENCES', '2.5');
+    expect(() => getChunkingOptions()).toThrow(/CHUNK_WINDOW_SENTENCES/);
+  });
+});
+
+describe('getChunkingStrategy', () => {
+  it('rejects unknown strategies', () => {
+    expect(() => getChunkingStrategy('paragraph', OPTIONS)).toThrow(/must be one of/);
+  });
+
+  it('includes the options that change the output in the signature', () => {
+    expect(getChunkingStrategy('markdown', OPTIONS).signature).toBe('markdown:300');
+    expect(getChunkingStrategy('recursive', OPTIONS).signature).toBe('recursive:300/50');
+    expect(getChunkingStrategy('sentence-window', OPTIONS).signature).toBe('sentence-window:3/1/300');
+  });
+});
+
+describe('markdown strategy', () => {
+  const strategy = getChunkingStrategy('markdown', { ...OPTIONS, maxTokens: 12 });
+
+  it('keeps each section that fits in one chunk, labelled with its heading', () => {
+    const chunks = strategy.chunk([
+      { text: 'Plug in the kit.', section: 'Setup' },
+      { text: 'Press the button.', section: 'Usage', page: 2 },
+    ]);
+    expect(chunks).toEqual([
+      { text: 'Plug in the kit.', section: 'Setup', page: undefined },
+      { text: 'Press the button.', section: 'Usage', page: 2 },
+    ]);
+  });
+
+  it('splits long sections at paragraphs without crossing headings', () => {
+    const chunks = getChunkingStrategy('markdown', { ...OPTIONS, maxTokens: 8 }).chunk([
+      { text: 'The first paragraph is here.\n\nThe second paragraph is here.', section: 'Setup' },
+      { text: 'Short.', section: 'Usage' },
+    ]);
+    expect(chunks.map((c) => [c.section, c.text])).toEqual([
+      ['Setup', 'The first paragraph is here.'],
+      ['Setup', 'The second paragraph is here.'],
+      ['Usage', 'Short.'],
+    ]);
+  });
+});
+
+describe('sentence-window strategy', () => {
+  it('slides a window of sentences, repeating the overlap', () => {
+    const strategy = getChunkingStrategy('sentence-window', OPTIONS);
+    const chunks = strategy.chunk([{ text: 'One. Two. Three. Four. Five.', section: 'Intro' }]);
+    expect(chunks.map((c) => c.text)).toEqual(['One. Two. Three.', 'Three. Four. Five.']);
+    expect(chunks.every((c) => c.section === 'Intro')).toBe(true);
+  });
+
+  it('does not add a window that only repeats the end of the previous one', () => {
+    const strategy = getChunkingStrategy('sentence-window', OPTIONS);
+    const chunks = strategy.chunk([{ text: 'One. Two. Three.' }]);
+    expect(chunks.map((c) => c.text)).toEqual(['One. Two. Three.']);
+  });
+
+  it('splits windows over the token budget', () => {
+    const strategy = getChunkingStrategy('sentence-window', { ...OPTIONS, maxTokens: 5 });
+    const chunks = strategy.chunk([{ text: 'This sentence is far too long for the budget.' }]);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk.text)).toBeLessThanOrEqual(5);
+    }
+  });
+});
+
+describe('recursive strategy', () => {
+  it('chunks across sections and labels each chunk with the section it starts in', () => {
+    const strategy = getChunkingStrategy('recursive', { ...OPTIONS, maxTokens: 8, overlapTokens: 0 });
+    const chunks = strategy.chunk([
+      { text: 'Setup text goes here.', section: 'Setup' },
+      { text: 'Usage text goes here.', section: 'Usage' },
+    ]);
+    expect(chunks.map((c) => [c.section, c.text])).toEqual([
+      ['Setup', 'Setup text goes here.'],
+      ['Usage', 'Usage text goes here.'],
+    ]);
+  });
+
+  it('joins short sections into one chunk', () => {
+    const strategy = getChunkingStrategy('recursive', OPTIONS);
+    const chunks = strategy.chunk([
+      { text: 'Setup.', section: 'Setup' },
+      { text: 'Usage.', section: 'Usage' },
+    ]);
+    expect(chunks).toEqual([{ text: 'Setup.\n\nUsage.', section: 'Setup', page: undefined }]);
+  });
+});
+
+describe('chunkDocument', () => {
+  const strategy = getChunkingStrategy('markdown', OPTIONS);
+
+  it('prefixes the heading trail with the document title', () => {
+    const [chunk] = chunkDocument(document([{ text: 'Plug it in.', section: 'Setup' }], 'Robot Kit'), strategy);
+    expect(chunk.context).toBe('Robot Kit > Setup');
+    expect(getEmbeddingText(chunk)).toBe('Robot Kit > Setup\n\nPlug it in.');
+  });
+
+  it('does not repeat a title the trail already starts with', () => {
+    const [chunk] = chunkDocument(
+      document([{ text: 'Plug it in.', section: 'Robot Kit > Setup' }], 'Robot Kit'),
+      strategy
+    );
+    expect(chunk.context).toBe('Robot Kit > Setup');
+  });
+
+  it('drops empty and heading-only sections and normalizes whitespace', () => {
+    const chunks = chunkDocument(
+      document([
+        { text: '   ', section: 'Empty' },
+        { text: 'Setup', section: 'Guide > Setup' },
+        { text: 'Plug   it\n\n\n\nin.', section: 'Guide > Setup > Power' },
+      ]),
+      strategy
+    );
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('Plug it\n\nin.');
+  });
+
+  it('embeds text without context as is', () => {
+    const [chunk] = chunkDocument(document([{ text: 'Plain text.' }]), strategy);
+    expect(chunk.context).toBeUndefined();
+    expect(getEmbeddingText(chunk)).toBe('Plain text.');
+  });
+});
@@ -0,0 +1,103 @@
+import type { LoadedDocument } from '../document-loaders/types';
+import { createMarkdownStrategy } from './markdown';
+import { createRecursiveStrategy } from './recursive';
+import { createSentenceWindowStrategy } from './sentence-window';
+import type { ChunkingOptions, ChunkingStrategy, ChunkingStrategyName, TextChunk } from './types';
+
+export * from './types';
+
+// Named chunking strategies shared by the RAG loader script and blog post ingestion.
+// CHUNKING_STRATEGY picks the default; the loader can override it per run.
+
+export const CHUNKING_STRATEGY_NAMES: ChunkingStrategyName[] = ['markdown', 'sentence-window', 'recursive'];
+
+const STRATEGIES: Record<ChunkingStrategyName, (options: ChunkingOptions) => ChunkingStrategy> = {
+  markdown: createMarkdownStrategy,
+  'sentence-window': createSentenceWindowStrategy,
+  recursive: createRecursiveStrategy,
+};
+
+export type DocumentChunk = TextChunk & {
+  // Document title and heading trail, e.g. "Robot Kit Manual > Setup"
+  context?: string;
+};
+
+function readNumberEnv(name: string, fallback: number, min = 0): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be an integer of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function getChunkingOptions(): ChunkingOptions {
+  const maxTokens = readNumberEnv('CHUNK_MAX_TOKENS', 300, 1);
+  // The default overlap shrinks with small chunks, to at most a quarter of one
+  const options = {
+    maxTokens,
+    overlapTokens: readNumberEnv('CHUNK_OVERLAP_TOKENS', Math.min(50, Math.floor(maxTokens / 4))),
+    windowSentences: readNumberEnv('CHUNK_WINDOW_SENTENCES', 5, 1),
+    windowOverlap: readNumberEnv('CHUNK_WINDOW_OVERLAP', 2),
+  };
+  // Overlap as large as the chunk would never move the split forward
+  if (options.overlapTokens >= options.maxTokens) {
+    throw new Error(
+      `CHUNK_OVERLAP_TOKENS (${options.overlapTokens}) must be less than CHUNK_MAX_TOKENS (${options.maxTokens})`
+    );
+  }
+  return options;
+}
+
+export function isChunkingStrategyName(name: string): name is ChunkingStrategyName {
+  return (CHUNKING_STRATEGY_NAMES as string[]).includes(name);
+}
+
+export function getChunkingStrategy(
+  name: string = process.env.CHUNKING_STRATEGY || 'markdown',
+  options: ChunkingOptions = getChunkingOptions()
+): ChunkingStrategy {
+  if (!isChunkingStrategyName(name)) {
+    throw new Error(`Chunking strategy must be one of ${CHUNKING_STRATEGY_NAMES.join(', ')}, got "${name}"`);
+  }
+  return STRATEGIES[name](options);
+}
+
+export function preprocessText(text: string): string {
+  // Normalize whitespace
+  text = text.replace(/\n{3,}/g, '\n\n');
+  text = text.replace(/[ \t]+/g, ' ');
+  
+  // Remove control characters
+  text = text.replace(/[\x00-\x08\x0b-\x0c\x0e-\x1f\x7f-\x9f]/g, '');
+  
+  return text.trim();
+}
+
+// A section holding nothing but its own heading (e.g. a heading directly
+// followed by a subheading) has no content worth a chunk
+function isHeadingOnly(text: string, section?: string): boolean {
+  return !!section && !text.includes('\n') && section.endsWith(text);
+}
+
+// Chunk a loaded document and label every chunk with its parent-section context
+export function chunkDocument(document: LoadedDocument, strategy: ChunkingStrategy): DocumentChunk[] {
+  const sections = document.sections
+    .map((section) => ({ ...section, text: preprocessText(section.text) }))
+    .filter((section) => section.text && !isHeadingOnly(section.text, section.section));
+
+  return strategy.chunk(sections).map((chunk) => {
+    const trail = chunk.section && document.title && !chunk.section.startsWith(document.title)
+      ? `${document.title} > ${chunk.section}`
+      : chunk.section || document.title;
+    return trail ? { ...chunk, context: trail } : chunk;
+  });
+}
+
+// Text to embed for a chunk: its context line first, so chunks from deep in a
+// section still match questions about the section's topic
+export function getEmbeddingText(chunk: DocumentChunk): string {
+  return chunk.context ? `${chunk.context}\n\n${chunk.text}` : chunk.text;
+}
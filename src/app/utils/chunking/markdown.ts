@@ -0,0 +1,21 @@
+import { splitRecursive } from './split';
+import type { ChunkingOptions, ChunkingStrategy } from './types';
+
+// Chunks never cross a heading: a section that fits the budget is one chunk,
+// a longer one is split at paragraphs, then lines and sentences. No overlap is
+// needed since every chunk carries its heading trail as context.
+export function createMarkdownStrategy(options: ChunkingOptions): ChunkingStrategy {
+  return {
+    name: 'markdown',
+    signature: `markdown:${options.maxTokens}`,
+    chunk(sections) {
+      return sections.flatMap((section) =>
+        splitRecursive(section.text, options.maxTokens, 0).map((text) => ({
+          text,
+          section: section.section,
+          page: section.page,
+        }))
+      );
+    },
+  };
+}
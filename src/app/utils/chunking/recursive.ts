@@ -0,0 +1,35 @@
+import { splitRecursive } from './split';
+import type { ChunkingOptions, ChunkingStrategy, TextChunk } from './types';
+
+// Classic recursive splitting over the whole document, measured in tokens and
+// with overlap between neighbours. Chunks may span headings; each is labelled
+// with the section it starts in.
+export function createRecursiveStrategy(options: ChunkingOptions): ChunkingStrategy {
+  return {
+    name: 'recursive',
+    signature: `recursive:${options.maxTokens}/${options.overlapTokens}`,
+    chunk(sections) {
+      const starts: Array<{ offset: number; section?: string; page?: number }> = [];
+      let text = '';
+      for (const section of sections) {
+        if (text) text += '\n\n';
+        starts.push({ offset: text.length, section: section.section, page: section.page });
+        text += section.text;
+      }
+
+      const chunks: TextChunk[] = [];
+      let cursor = 0;
+      for (const chunkText of splitRecursive(text, options.maxTokens, options.overlapTokens)) {
+        // Chunks come out in document order, but overlap means the next one
+        // can start before the previous one ended
+        const found = text.indexOf(chunkText.substring(0, 40), cursor);
+        const offset = found === -1 ? cursor : found;
+        cursor = offset + 1;
+
+        const start = starts.filter((s) => s.offset <= offset).pop();
+        chunks.push({ text: chunkText, section: start?.section, page: start?.page });
+      }
+      return chunks;
+    },
+  };
+}
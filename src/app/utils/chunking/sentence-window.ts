@@ -0,0 +1,31 @@
+import { countTokens } from '../tokenizer';
+import { splitRecursive, splitSentences } from './split';
+import type { ChunkingOptions, ChunkingStrategy, TextChunk } from './types';
+
+// Fixed windows of consecutive sentences within a section, each repeating the
+// last `windowOverlap` sentences of the previous window. Windows that run over
+// the token budget (very long sentences) are split further.
+export function createSentenceWindowStrategy(options: ChunkingOptions): ChunkingStrategy {
+  const size = Math.max(1, options.windowSentences);
+  const stride = Math.max(1, size - options.windowOverlap);
+
+  return {
+    name: 'sentence-window',
+    signature: `sentence-window:${size}/${options.windowOverlap}/${options.maxTokens}`,
+    chunk(sections) {
+      const chunks: TextChunk[] = [];
+      for (const section of sections) {
+        const sentences = splitSentences(section.text);
+        for (let start = 0; start < sentences.length; start += stride) {
+          const window = sentences.slice(start, start + size).join(' ');
+          const texts = countTokens(window) > options.maxTokens
+            ? splitRecursive(window, options.maxTokens, 0)
+            : [window];
+          chunks.push(...texts.map((text) => ({ text, section: section.section, page: section.page })));
+          if (start + size >= sentences.length) break;
+        }
+      }
+      return chunks;
+    },
+  };
+}
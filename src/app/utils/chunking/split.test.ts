@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { countTokens } from '../tokenizer';
+import { mergePieces, splitRecursive, splitSentences } from './split';
+
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel'];
+
+describe('splitSentences', () => {
+  it('splits at end punctuation followed by whitespace and at line breaks', () => {
+    expect(splitSentences('One. Two! Three?  Four\nFive\n\nSix.')).toEqual([
+      'One.', 'Two!', 'Three?', 'Four', 'Five', 'Six.',
+    ]);
+  });
+
+  it('keeps decimals and abbreviations without a following space together', () => {
+    expect(splitSentences('Version 2.5 is out.It works.')).toEqual(['Version 2.5 is out.It works.']);
+  });
+});
+
+describe('mergePieces', () => {
+  it('joins everything into one chunk when it fits', () => {
+    expect(mergePieces(['a', 'b', 'c'], ' ', 100, 0)).toEqual(['a b c']);
+  });
+
+  it('keeps every chunk within the token budget', () => {
+    const chunks = mergePieces(WORDS, ' ', 4, 0);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk)).toBeLessThanOrEqual(4);
+    }
+    expect(chunks.join(' ')).toBe(WORDS.join(' '));
+  });
+
+  it('starts each chunk with the tail of the previous one, up to the overlap', () => {
+    // "foxtrot" alone is three tokens, more than the overlap, so "golf hotel"
+    // starts fresh
+    expect(mergePieces(WORDS, ' ', 5, 2)).toEqual([
+      'alpha bravo', 'bravo charlie', 'charlie delta', 'delta echo', 'echo foxtrot', 'golf hotel',
+    ]);
+  });
+
+  it('does not repeat anything without overlap', () => {
+    const chunks = mergePieces(WORDS, ' ', 5, 0);
+    expect(chunks.flatMap((chunk) => chunk.split(' '))).toEqual(WORDS);
+  });
+
+  it('drops overlap that would not leave room for the next piece', () => {
+    const long = 'lorem ipsum dolor sit amet';
+    const chunks = mergePieces(['alpha', 'bravo', long], ' ', countTokens(long), 3);
+    expect(chunks).toEqual(['alpha bravo', long]);
+  });
+
+  it('gives a piece larger than the budget a chunk of its own', () => {
+    const long = 'lorem ipsum dolor sit amet consectetur';
+    expect(mergePieces(['alpha', long, 'bravo'], ' ', 3, 0)).toEqual(['alpha', long, 'bravo']);
+  });
+
+  it('returns nothing for no pieces', () => {
+    expect(mergePieces([], ' ', 10, 2)).toEqual([]);
+  });
+});
+
+describe('splitRecursive', () => {
+  it('returns text that fits as is', () => {
+    expect(splitRecursive('Short text.', 50, 0)).toEqual(['Short text.']);
+  });
+
+  it('prefers paragraph breaks over finer separators', () => {
+    const text = 'First paragraph, with a clause.\n\nSecond paragraph, also with one.';
+    const chunks = splitRecursive(text, countTokens('Second paragraph, also with one.'), 0);
+    expect(chunks).toEqual(['First paragraph, with a clause.', 'Second paragraph, also with one.']);
+  });
+
+  it('falls back to finer separators and token cuts for long pieces', () => {
+    const text = `${WORDS.join(' ')}\n\n${'x'.repeat(200)}`;
+    const chunks = splitRecursive(text, 8, 0);
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk)).toBeLessThanOrEqual(8);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { countTokens, splitByTokens } from '../tokenizer';
+
+// Separators tried in order when a piece of text is too long, coarsest first
+export const RECURSIVE_SEPARATORS = ['\n\n', '\n', '. ', '! ', '? ', '; ', ', ', ' '];
+
+// Sentence boundaries: end punctuation followed by whitespace, or a line break
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+// Greedily join pieces with `separator` into chunks of at most `maxTokens`.
+// Each new chunk starts with the trailing pieces of the previous one, up to
+// `overlapTokens`.
+export function mergePieces(
+  pieces: string[],
+  separator: string,
+  maxTokens: number,
+  overlapTokens: number
+): string[] {
+  const separatorTokens = countTokens(separator);
+  const chunks: string[] = [];
+  let current: Array<{ text: string; tokens: number }> = [];
+  let total = 0;
+
+  const sizeWith = (tokens: number) => total + tokens + (current.length > 0 ? separatorTokens : 0);
+
+  for (const piece of pieces) {
+    const tokens = countTokens(piece);
+
+    if (current.length > 0 && sizeWith(tokens) > maxTokens) {
+      chunks.push(current.map((p) => p.text).join(separator));
+      // Drop leading pieces until what's left fits the overlap and the new piece
+      while (current.length > 0 && (total > overlapTokens || sizeWith(tokens) > maxTokens)) {
+        total -= current[0].tokens + (current.length > 1 ? separatorTokens : 0);
+        current.shift();
+      }
+    }
+
+    total = sizeWith(tokens);
+    current.push({ text: piece, tokens });
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.map((p) => p.text).join(separator));
+  }
+  return chunks;
+}
+
+// Split text into chunks of at most `maxTokens`, breaking at the coarsest
+// separator that works: paragraphs, then lines, sentences, clauses and words.
+// Text without any separator left is cut at token boundaries.
+export function splitRecursive(
+  text: string,
+  maxTokens: number,
+  overlapTokens: number,
+  separators: string[] = RECURSIVE_SEPARATORS
+): string[] {
+  if (countTokens(text) <= maxTokens) return [text];
+
+  const index = separators.findIndex((separator) => text.includes(separator));
+  if (index === -1) return splitByTokens(text, maxTokens);
+
+  const separator = separators[index];
+  const finer = separators.slice(index + 1);
+  const pieces = text
+    .split(separator)
+    .filter((piece) => piece.trim())
+    .flatMap((piece) => (countTokens(piece) > maxTokens ? splitRecursive(piece, maxTokens, 0, finer) : [piece]));
+
+  return mergePieces(pieces, separator, maxTokens, overlapTokens);
+}
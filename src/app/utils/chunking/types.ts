@@ -0,0 +1,27 @@
+import type { DocumentSection } from '../document-loaders/types';
+
+export type ChunkingStrategyName = 'markdown' | 'sentence-window' | 'recursive';
+
+// Sizes are in tokens of the configured tokenizer (see ../tokenizer)
+export type ChunkingOptions = {
+  maxTokens: number;
+  overlapTokens: number;
+  // Sentences per chunk, and how many of them repeat in the next chunk (sentence-window)
+  windowSentences: number;
+  windowOverlap: number;
+};
+
+export type TextChunk = {
+  text: string;
+  // Heading trail of the section the chunk starts in
+  section?: string;
+  page?: number;
+};
+
+export interface ChunkingStrategy {
+  readonly name: ChunkingStrategyName;
+  // Name plus the options that affect the output, recorded so that changing
+  // either re-chunks previously loaded sources
+  readonly signature: string;
+  chunk(sections: DocumentSection[]): TextChunk[];
+}
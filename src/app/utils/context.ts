@@ -1,6 +1,9 @@
-import { getMatchesFromEmbeddings } from './pinecone';
+import { getVectorStore } from './vector-store';
 import { getEmbeddings } from './embeddings';
-import type { Metadata } from './pinecone';
+import type { VectorMatch } from './vector-store';
+import { hasKeywordIndex, searchKeywordIndex } from './keyword-index';
+import { reciprocalRankFusion, rerank } from './hybrid-search';
+import { countTokens, truncateToTokens } from './tokenizer';
 
 // Helper function to calculate similarity between two strings
 function calculateSimilarity(str1: string, str2: string): number {
@@ -18,272 +21,497 @@ function calculateSimilarity(str1: string, str2: string): number {
   return matches / longer.length;
 }
 
-type MatchResult = {
+// A passage of the assembled context. Overlapping chunks from the same file are
+// merged into one passage; `id` is the best-ranked of them.
+export type ContextSource = {
   id: string;
-  score?: number;
-  metadata?: Metadata;
+  chunkIds: string[];
+  // Number the passage is labelled with in numbered context, e.g. [2]
+  marker: number;
+  source: string;
+  // Heading trail and page of the best-ranked chunk, when the loader recorded them
+  section?: string;
+  page?: number;
+  score: number;
+  preview: string;
 };
 
-// The function `getContext` is used to retrieve the context of a given message
-export const getContext = async (
-  message: string,
-  namespace: string = '',
-  maxTokens: number = 6000, // Increased to allow more context
-  minScore: number = 0.0, // Very low threshold to get all relevant results
-  getOnlyText: boolean = true
-): Promise<string | MatchResult[]> => {
-  try {
-    // Enhance the query for better matching, especially for person/name queries
-    // If the query is asking "who is X" or similar, expand it to include variations
-    let enhancedMessage = message;
-    
-    // Detect person/name queries
-    const personQueryPattern = /who\s+(is|are)\s+(\w+)/i;
-    const match = message.match(personQueryPattern);
-    
-    if (match) {
-      const name = match[2];
-      // Expand query to include variations that might appear in documents
-      enhancedMessage = `${message} ${name} ${name} team member sequence3 sq3`;
-      console.log('Enhanced person query:', {
-        original: message,
-        enhanced: enhancedMessage,
-        detectedName: name,
-      });
+export type DroppedChunk = {
+  id: string;
+  source: string;
+  reason: 'no_text' | 'duplicate' | 'over_budget';
+  tokens: number;
+  // For duplicates, the chunk whose passage already holds this text
+  keptAs?: string;
+};
+
+// What the token budget let through, for logging and analytics
+export type ContextReport = {
+  budgetTokens: number;
+  usedTokens: number;
+  candidateChunks: number;
+  passages: number;
+  mergedChunks: number;
+  // Passage cut short to fit the budget, if any
+  truncatedPassage?: string;
+  dropped: DroppedChunk[];
+};
+
+export type ContextResult = {
+  context: string;
+  sources: ContextSource[];
+  report: ContextReport;
+};
+
+// Where retrieval reports each step. /api/chat logs to the console; the offline
+// eval passes a silent logger unless it runs with --verbose.
+export type RetrievalLogger = Pick<Console, 'log' | 'warn'>;
+
+type Passage = {
+  ids: string[];
+  source: string;
+  section?: string;
+  page?: number;
+  score: number;
+  text: string;
+};
+
+// Shortest overlap worth merging on - anything shorter is likely coincidence
+const MIN_MERGE_OVERLAP = 20;
+// Don't bother cutting a passage down to fewer tokens than this
+const MIN_PARTIAL_PASSAGE_TOKENS = 50;
+
+function getSourceName(match: VectorMatch): string {
+  return typeof match.metadata?.source === 'string' ? match.metadata.source : 'unknown';
+}
+
+// Length of the longest suffix of `left` that is also a prefix of `right`
+function findOverlap(left: string, right: string): number {
+  const probe = right.substring(0, MIN_MERGE_OVERLAP);
+  if (probe.length < MIN_MERGE_OVERLAP) return 0;
+
+  // The earliest occurrence that lines up gives the longest overlap
+  let index = left.indexOf(probe, Math.max(0, left.length - right.length));
+  while (index !== -1) {
+    if (right.startsWith(left.substring(index))) {
+      return left.length - index;
     }
-    
-    // Get the embeddings of the enhanced message
-    const embedding = await getEmbeddings(enhancedMessage);
-    console.log('Embeddings generated:', {
-      embeddingLength: embedding.length,
-      originalMessageLength: message.length,
-      enhancedMessageLength: enhancedMessage.length,
-      message: message,
-      enhancedMessage: enhancedMessage,
-    });
+    index = left.indexOf(probe, index + 1);
+  }
+  return 0;
+}
 
-    // Retrieve more matches for better context (increased to get more comprehensive context)
-    // For person queries, get even more matches to ensure we find the person
-    const topK = enhancedMessage !== message ? 20 : 15; // More matches for enhanced queries
-    const matches = await getMatchesFromEmbeddings(embedding, topK, namespace);
-    console.log('Pinecone matches received:', {
-      totalMatches: matches.length,
-      topK: topK,
-      scores: matches.map(m => m.score).filter(Boolean),
-      topScores: matches.slice(0, 5).map(m => m.score).filter(Boolean),
-      hasMatches: matches.length > 0,
-      queryEnhanced: enhancedMessage !== message,
-    });
+// Merge two texts if one contains the other or they overlap at either end
+function mergeOverlapping(a: string, b: string): string | null {
+  if (a.includes(b)) return a;
+  if (b.includes(a)) return b;
+
+  const tail = findOverlap(a, b);
+  if (tail > 0) return a + b.substring(tail);
+
+  const head = findOverlap(b, a);
+  if (head > 0) return b + a.substring(head);
+
+  return null;
+}
+
+// Query every namespace and keep the best `topK` matches overall. Scores are
+// comparable across namespaces since they share one embedding model.
+const queryNamespaces = async (
+  namespaces: string[],
+  search: (namespace: string) => Promise<VectorMatch[]>,
+  topK: number
+): Promise<VectorMatch[]> => {
+  const results = await Promise.all(namespaces.map(search));
+  return results
+    .flat()
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, topK);
+};
 
-    // Filter out the matches that have a score lower than the minimum score
-    // Lower threshold means we get more potentially relevant results
-    const qualifyingDocs = matches.filter((m) => m.score && m.score > minScore);
-    console.log('Qualifying documents after score filter:', {
-      minScore,
-      totalMatches: matches.length,
-      qualifyingCount: qualifyingDocs.length,
-      qualifyingScores: qualifyingDocs.map(m => m.score).filter(Boolean),
+// Embed the message and return the matches scoring above `minScore`, fused with
+// BM25 keyword hits and reranked when a keyword index exists. The token budget
+// is applied later: this is exported with assembleContext for the offline eval
+// (scripts/eval-assistant.ts), which scores the ranking as well as the
+// assembled context.
+export const retrieveMatches = async (
+  message: string,
+  namespace: string | string[],
+  minScore: number,
+  logger: RetrievalLogger = console
+): Promise<VectorMatch[]> => {
+  const namespaces = [...new Set(Array.isArray(namespace) ? namespace : [namespace])];
+
+  // Enhance the query for better matching, especially for person/name queries
+  // If the query is asking "who is X" or similar, expand it to include variations
+  let enhancedMessage = message;
+  
+  // Detect person/name queries
+  const personQueryPattern = /who\s+(is|are)\s+(\w+)/i;
+  const match = message.match(personQueryPattern);
+  
+  if (match) {
+    const name = match[2];
+    // Expand query to include variations that might appear in documents
+    enhancedMessage = `${message} ${name} ${name} team member sequence3 sq3`;
+    logger.log('Enhanced person query:', {
+      original: message,
+      enhanced: enhancedMessage,
+      detectedName: name,
     });
+  }
+  
+  // Get the embeddings of the enhanced message
+  const embedding = await getEmbeddings(enhancedMessage);
+  logger.log('Embeddings generated:', {
+    embeddingLength: embedding.length,
+    originalMessageLength: message.length,
+    enhancedMessageLength: enhancedMessage.length,
+    message: message,
+    enhancedMessage: enhancedMessage,
+  });
+
+  // Retrieve more matches for better context (increased to get more comprehensive context)
+  // For person queries, get even more matches to ensure we find the person
+  const topK = enhancedMessage !== message ? 20 : 15; // More matches for enhanced queries
+  const vectorStore = getVectorStore();
+  const matches = await queryNamespaces(namespaces, (ns) => vectorStore.query(ns, embedding, topK), topK);
+  logger.log(`${vectorStore.name} matches received:`, {
+    namespaces,
+    totalMatches: matches.length,
+    topK: topK,
+    scores: matches.map(m => m.score).filter(Boolean),
+    topScores: matches.slice(0, 5).map(m => m.score).filter(Boolean),
+    hasMatches: matches.length > 0,
+    queryEnhanced: enhancedMessage !== message,
+  });
 
-  if (!getOnlyText) {
-    // Return the full matches
+  // Filter out the matches that have a score lower than the minimum score
+  // Lower threshold means we get more potentially relevant results
+  const qualifyingDocs = matches.filter((m) => m.score && m.score > minScore);
+  logger.log('Qualifying documents after score filter:', {
+    minScore,
+    totalMatches: matches.length,
+    qualifyingCount: qualifyingDocs.length,
+    qualifyingScores: qualifyingDocs.map(m => m.score).filter(Boolean),
+  });
+
+  // Hybrid retrieval - can be switched off with HYBRID_SEARCH=false
+  if (process.env.HYBRID_SEARCH === 'false') {
     return qualifyingDocs;
   }
 
-    // Extract text from metadata (support multiple field names)
-    // First, log what metadata fields we actually have
-    if (qualifyingDocs.length > 0) {
-      console.log('Sample metadata structure:', {
-        firstMatchId: qualifyingDocs[0].id,
-        firstMatchMetadata: qualifyingDocs[0].metadata,
-        firstMatchMetadataKeys: Object.keys(qualifyingDocs[0].metadata || {}),
-        firstMatchMetadataValues: Object.entries(qualifyingDocs[0].metadata || {}).map(([k, v]) => ({
-          key: k,
-          type: typeof v,
-          valueLength: typeof v === 'string' ? v.length : 'not string',
-          valuePreview: typeof v === 'string' ? v.substring(0, 50) : v,
-        })),
-      });
-    }
+  // Keyword search uses the original question: the expansion above is for
+  // embeddings. It only adds to the vector matches, so when it fails those
+  // are returned on their own.
+  let keywordMatches: VectorMatch[];
+  try {
+    if (!(await hasKeywordIndex())) return qualifyingDocs;
+    keywordMatches = await queryNamespaces(namespaces, (ns) => searchKeywordIndex(ns, message, topK), topK);
+  } catch (error) {
+    logger.warn('Keyword search failed, using vector matches only:', error);
+    return qualifyingDocs;
+  }
+  const fused = reciprocalRankFusion([
+    { name: 'vector', matches: qualifyingDocs },
+    { name: 'keyword', matches: keywordMatches },
+  ]);
+  const reranked = rerank(message, fused);
+  logger.log('Hybrid retrieval result:', {
+    vectorMatches: qualifyingDocs.length,
+    keywordMatches: keywordMatches.length,
+    fusedMatches: fused.length,
+    keywordOnly: fused.filter(m => m.vectorRank === undefined).length,
+    topReranked: reranked.slice(0, 5).map(m => ({
+      id: m.id,
+      score: m.score,
+      vectorRank: m.vectorRank,
+      keywordRank: m.keywordRank,
+    })),
+  });
 
-    let docs = qualifyingDocs.map((match, index) => {
-      const metadata = match.metadata || {};
-      
-      // Helper to check if a string looks like actual content (not page numbers, IDs, etc.)
-      const isContentLike = (str: string, minLength: number = 20): boolean => {
-        if (!str || typeof str !== 'string') return false;
-        const trimmed = str.trim();
-        if (trimmed.length < minLength) return false;
-        // Skip patterns that look like page numbers, IDs, or metadata
-        if (/^\d+\/\d+(\n\d+\/\d+)*$/.test(trimmed)) return false; // "6/6\n1/6" pattern
-        if (/^[a-z0-9_-]+$/i.test(trimmed) && trimmed.length < 50) return false; // Short IDs
-        // Must have some actual words (not just numbers/symbols)
-        if (!/[a-zA-Z]{3,}/.test(trimmed)) return false; // Must have at least one 3+ letter word
-        return true;
-      };
-      
-      // Try multiple possible field names in order of likelihood
-      let text = '';
-      let foundField = '';
-      
-      // First, try standard content field names (case-insensitive)
-      const standardFields = ['chunk', 'content', 'text', 'body', 'message', 'description', 'pageContent', 'value', 'data', 'document'];
-      
-      // Try exact matches first
-      for (const field of standardFields) {
-        const value = metadata[field];
-        if (typeof value === 'string' && isContentLike(value)) {
-          text = value;
-          foundField = field;
-          break;
-        }
+  return reranked;
+};
+
+// Join the matches' text into a context string of at most `maxTokens` tokens.
+// With `numbered`, each chunk is prefixed with its marker ([1], [2], ...) so the
+// model can cite it.
+export const assembleContext = (
+  qualifyingDocs: VectorMatch[],
+  maxTokens: number,
+  numbered: boolean,
+  logger: RetrievalLogger = console
+): ContextResult => {
+  // Extract text from metadata (support multiple field names)
+  // First, log what metadata fields we actually have
+  if (qualifyingDocs.length > 0) {
+    logger.log('Sample metadata structure:', {
+      firstMatchId: qualifyingDocs[0].id,
+      firstMatchMetadata: qualifyingDocs[0].metadata,
+      firstMatchMetadataKeys: Object.keys(qualifyingDocs[0].metadata || {}),
+      firstMatchMetadataValues: Object.entries(qualifyingDocs[0].metadata || {}).map(([k, v]) => ({
+        key: k,
+        type: typeof v,
+        valueLength: typeof v === 'string' ? v.length : 'not string',
+        valuePreview: typeof v === 'string' ? v.substring(0, 50) : v,
+      })),
+    });
+  }
+
+  let docs = qualifyingDocs.map((match, index) => {
+    const metadata = match.metadata || {};
+    
+    // Helper to check if a string looks like actual content (not page numbers, IDs, etc.)
+    const isContentLike = (str: string, minLength: number = 20): boolean => {
+      if (!str || typeof str !== 'string') return false;
+      const trimmed = str.trim();
+      if (trimmed.length < minLength) return false;
+      // Skip patterns that look like page numbers, IDs, or metadata
+      if (/^\d+\/\d+(\n\d+\/\d+)*$/.test(trimmed)) return false; // "6/6\n1/6" pattern
+      if (/^[a-z0-9_-]+$/i.test(trimmed) && trimmed.length < 50) return false; // Short IDs
+      // Must have some actual words (not just numbers/symbols)
+      if (!/[a-zA-Z]{3,}/.test(trimmed)) return false; // Must have at least one 3+ letter word
+      return true;
+    };
+    
+    // Try multiple possible field names in order of likelihood
+    let text = '';
+    let foundField = '';
+    
+    // First, try standard content field names (case-insensitive)
+    const standardFields = ['chunk', 'content', 'text', 'body', 'message', 'description', 'pageContent', 'value', 'data', 'document'];
+    
+    // Try exact matches first
+    for (const field of standardFields) {
+      const value = metadata[field];
+      if (typeof value === 'string' && isContentLike(value)) {
+        text = value;
+        foundField = field;
+        break;
       }
-      
-      // If no exact match, try case-insensitive search
-      if (!text) {
-        const metadataKeys = Object.keys(metadata);
-        for (const field of standardFields) {
-          const matchingKey = metadataKeys.find(k => k.toLowerCase() === field.toLowerCase());
-          if (matchingKey) {
-            const value = metadata[matchingKey];
-            if (typeof value === 'string' && isContentLike(value)) {
-              text = value;
-              foundField = matchingKey;
-              break;
-            }
+    }
+    
+    // If no exact match, try case-insensitive search
+    if (!text) {
+      const metadataKeys = Object.keys(metadata);
+      for (const field of standardFields) {
+        const matchingKey = metadataKeys.find(k => k.toLowerCase() === field.toLowerCase());
+        if (matchingKey) {
+          const value = metadata[matchingKey];
+          if (typeof value === 'string' && isContentLike(value)) {
+            text = value;
+            foundField = matchingKey;
+            break;
           }
         }
       }
-      
-      // If still no standard field found, find the longest string that looks like content
-      if (!text) {
-        const allStringFields = Object.entries(metadata)
-          .filter(([k, v]) => {
-            if (typeof v !== 'string') return false;
-            // Skip fields that are clearly metadata (url, hash, id, etc.)
-            const skipFields = ['url', 'hash', 'id', 'source', 'page', 'index', 'type'];
-            if (skipFields.includes(k.toLowerCase())) return false;
-            return isContentLike(v as string, 10); // Lower threshold for fallback
-          })
-          .sort((a, b) => (b[1] as string).length - (a[1] as string).length); // Sort by length, longest first
-        
-        if (allStringFields.length > 0) {
-          text = allStringFields[0][1] as string;
-          foundField = allStringFields[0][0];
-          console.log(`Found text in field "${foundField}" (${text.length} chars)`);
-        }
-      }
-      
-      // Log what we found for debugging
-      if (text && index < 2) {
-        console.log(`Match ${index + 1} - Extracted from "${foundField}":`, {
-          field: foundField,
-          length: text.length,
-          preview: text.substring(0, 100) + '...',
-        });
-      }
-      
-      if (!text && index === 0) {
-        console.warn('No valid content found in first match:', {
-          matchId: match.id,
-          score: match.score,
-          availableFields: Object.keys(metadata),
-          fieldValues: Object.entries(metadata).map(([k, v]) => ({
-            key: k,
-            type: typeof v,
-            value: typeof v === 'string' ? v.substring(0, 150) : JSON.stringify(v).substring(0, 150),
-            length: typeof v === 'string' ? v.length : 0,
-            isContentLike: typeof v === 'string' ? isContentLike(v, 10) : false,
-          })),
-        });
-      }
-      
-      return text;
-    }).filter((text) => text && text.trim().length > 0);
-
-    console.log('Extracted documents:', {
-      qualifyingDocsCount: qualifyingDocs.length,
-      docsWithText: docs.length,
-      totalTextLength: docs.join('\n').length,
-      averageDocLength: docs.length > 0 ? Math.round(docs.join('\n').length / docs.length) : 0,
-      docLengths: docs.map(d => d.length),
-      minDocLength: docs.length > 0 ? Math.min(...docs.map(d => d.length)) : 0,
-      maxDocLength: docs.length > 0 ? Math.max(...docs.map(d => d.length)) : 0,
-      docPreviews: docs.slice(0, 5).map(d => d.substring(0, 100) + '...'), // Show first 5 doc previews
-      finalContextLength: Math.min(docs.join('\n').length, maxTokens),
-    });
-
-    // Deduplicate only EXACT duplicates - be very lenient to preserve all unique content
-    // Only remove documents that are truly identical
-    const uniqueDocs: string[] = [];
-    const seenExactHashes = new Set<string>();
+    }
     
-    for (const doc of docs) {
-      // Create a more comprehensive hash for exact duplicate detection
-      // Use full document content (normalized) as hash for true duplicates
-      const normalizedDoc = doc.toLowerCase().trim();
-      const docHash = `${normalizedDoc.length}_${normalizedDoc}`;
+    // If still no standard field found, find the longest string that looks like content
+    if (!text) {
+      const allStringFields = Object.entries(metadata)
+        .filter(([k, v]) => {
+          if (typeof v !== 'string') return false;
+          // Skip fields that are clearly metadata (url, hash, id, etc.)
+          const skipFields = ['url', 'hash', 'id', 'source', 'page', 'index', 'type'];
+          if (skipFields.includes(k.toLowerCase())) return false;
+          return isContentLike(v as string, 10); // Lower threshold for fallback
+        })
+        .sort((a, b) => (b[1] as string).length - (a[1] as string).length); // Sort by length, longest first
       
-      // Only skip if it's an EXACT duplicate (same normalized content)
-      if (seenExactHashes.has(docHash)) {
-        console.log('Skipping exact duplicate (same content):', doc.substring(0, 50) + '...');
-        continue;
+      if (allStringFields.length > 0) {
+        text = allStringFields[0][1] as string;
+        foundField = allStringFields[0][0];
+        logger.log(`Found text in field "${foundField}" (${text.length} chars)`);
       }
-      
-      // Include all other documents - even if they're similar, they might have unique information
-      uniqueDocs.push(doc);
-      seenExactHashes.add(docHash);
     }
     
-    console.log('Deduplication result:', {
-      originalDocs: docs.length,
-      uniqueDocs: uniqueDocs.length,
-      removed: docs.length - uniqueDocs.length,
-    });
+    // Log what we found for debugging
+    if (text && index < 2) {
+      logger.log(`Match ${index + 1} - Extracted from "${foundField}":`, {
+        field: foundField,
+        length: text.length,
+        preview: text.substring(0, 100) + '...',
+      });
+    }
     
-    // Join all unique chunks of text together
-    const joinedContext = uniqueDocs.join('\n\n'); // Use double newline for better separation
+    if (!text && index === 0) {
+      logger.warn('No valid content found in first match:', {
+        matchId: match.id,
+        score: match.score,
+        availableFields: Object.keys(metadata),
+        fieldValues: Object.entries(metadata).map(([k, v]) => ({
+          key: k,
+          type: typeof v,
+          value: typeof v === 'string' ? v.substring(0, 150) : JSON.stringify(v).substring(0, 150),
+          length: typeof v === 'string' ? v.length : 0,
+          isContentLike: typeof v === 'string' ? isContentLike(v, 10) : false,
+        })),
+      });
+    }
     
-    console.log('Context before truncation:', {
-      uniqueDocsCount: uniqueDocs.length,
-      totalLength: joinedContext.length,
-      maxTokens: maxTokens,
-      averageDocLength: uniqueDocs.length > 0 ? Math.round(joinedContext.length / uniqueDocs.length) : 0,
+    return { text, match };
+  });
+
+  const dropped: DroppedChunk[] = [];
+  for (const doc of docs.filter((d) => !d.text || d.text.trim().length === 0)) {
+    dropped.push({ id: doc.match.id, source: getSourceName(doc.match), reason: 'no_text', tokens: 0 });
+  }
+  docs = docs.filter((doc) => doc.text && doc.text.trim().length > 0);
+
+  const docTexts = docs.map(d => d.text);
+  logger.log('Extracted documents:', {
+    qualifyingDocsCount: qualifyingDocs.length,
+    docsWithText: docs.length,
+    totalTextLength: docTexts.join('\n').length,
+    averageDocLength: docs.length > 0 ? Math.round(docTexts.join('\n').length / docs.length) : 0,
+    docLengths: docTexts.map(d => d.length),
+    minDocLength: docs.length > 0 ? Math.min(...docTexts.map(d => d.length)) : 0,
+    maxDocLength: docs.length > 0 ? Math.max(...docTexts.map(d => d.length)) : 0,
+    docPreviews: docTexts.slice(0, 5).map(d => d.substring(0, 100) + '...'), // Show first 5 doc previews
+  });
+
+  // Fold overlapping chunks from the same source file into single passages.
+  // The loader's splitting strategies produce chunks that repeat each other's
+  // text, so only the first (best-ranked) copy of any text is kept.
+  const passages: Passage[] = [];
+  let mergedChunks = 0;
+
+  for (const doc of docs) {
+    const text = doc.text.trim();
+    const source = getSourceName(doc.match);
+    const normalized = text.toLowerCase();
+
+    const containing = passages.find(p =>
+      p.text.toLowerCase() === normalized || (p.source === source && p.text.includes(text))
+    );
+    if (containing) {
+      dropped.push({ id: doc.match.id, source, reason: 'duplicate', tokens: countTokens(text), keptAs: containing.ids[0] });
+      continue;
+    }
+
+    const neighbour = passages.find(p => p.source === source && mergeOverlapping(p.text, text) !== null);
+    if (neighbour) {
+      neighbour.text = mergeOverlapping(neighbour.text, text)!;
+      neighbour.ids.push(doc.match.id);
+      mergedChunks++;
+      continue;
+    }
+
+    const metadata = doc.match.metadata || {};
+    passages.push({
+      ids: [doc.match.id],
+      source,
+      section: typeof metadata.section === 'string' ? metadata.section : undefined,
+      page: typeof metadata.page === 'number' ? metadata.page : undefined,
+      score: doc.match.score ?? 0,
+      text,
     });
-    
-    // Truncate to maxTokens, but try to preserve complete sentences
-    let result = joinedContext;
-    if (joinedContext.length > maxTokens) {
-      // Try to cut at a sentence boundary near maxTokens
-      const cutPoint = joinedContext.lastIndexOf('.', maxTokens);
-      const cutPoint2 = joinedContext.lastIndexOf('\n\n', maxTokens); // Prefer paragraph breaks
-      const cutPoint3 = joinedContext.lastIndexOf('\n', maxTokens);
-      const finalCutPoint = Math.max(cutPoint, cutPoint2, cutPoint3);
-      
-      if (finalCutPoint > maxTokens * 0.7) {
-        // If we found a good break point (at least 70% of maxTokens), use it
-        result = joinedContext.substring(0, finalCutPoint + 1);
-        console.log(`Truncated at ${finalCutPoint} chars (${Math.round(finalCutPoint/maxTokens*100)}% of max)`);
-      } else {
-        // Otherwise, just cut at maxTokens
-        result = joinedContext.substring(0, maxTokens);
-        console.log(`Truncated at maxTokens: ${maxTokens} chars`);
+  }
+
+  // A merge can make two earlier passages overlap, so repeat until stable
+  for (let changed = true; changed;) {
+    changed = false;
+    for (let i = 0; i < passages.length && !changed; i++) {
+      for (let j = i + 1; j < passages.length && !changed; j++) {
+        if (passages[i].source !== passages[j].source) continue;
+        const merged = mergeOverlapping(passages[i].text, passages[j].text);
+        if (merged === null) continue;
+        passages[i].text = merged;
+        passages[i].ids.push(...passages[j].ids);
+        mergedChunks += passages[j].ids.length;
+        passages.splice(j, 1);
+        changed = true;
       }
-    } else {
-      console.log(`Using full context: ${joinedContext.length} chars (within ${maxTokens} limit)`);
     }
-    
-    console.log('Final context result:', {
-      totalDocs: docs.length,
-      uniqueDocs: uniqueDocs.length,
-      resultLength: result.length,
-      resultWordCount: result.split(/\s+/).length,
-      hasContent: result.length > 0,
-      contextPreview: result.substring(0, 300) + (result.length > 300 ? '...' : ''),
-      fullContextLength: joinedContext.length,
-      wasTruncated: result.length < joinedContext.length,
+  }
+
+  logger.log('Deduplication result:', {
+    originalDocs: docs.length,
+    passages: passages.length,
+    mergedChunks,
+    duplicates: dropped.filter(d => d.reason === 'duplicate').length,
+  });
+
+  // Fill the token budget with passages in rank order. A passage that doesn't
+  // fit is cut down if enough budget is left, otherwise skipped for smaller ones.
+  const separatorTokens = countTokens('\n\n');
+  const sections: string[] = [];
+  const sources: ContextSource[] = [];
+  let usedTokens = 0;
+  let truncatedPassage: string | undefined;
+
+  for (const passage of passages) {
+    const section = numbered ? `[${sections.length + 1}] ${passage.text}` : passage.text;
+    const overhead = sections.length > 0 ? separatorTokens : 0;
+    const tokens = countTokens(section);
+    const remaining = maxTokens - usedTokens - overhead;
+
+    let kept = section;
+    if (tokens > remaining) {
+      if (remaining < MIN_PARTIAL_PASSAGE_TOKENS || truncatedPassage) {
+        for (const id of passage.ids) {
+          dropped.push({ id, source: passage.source, reason: 'over_budget', tokens });
+        }
+        continue;
+      }
+      kept = truncateToTokens(section, remaining);
+      truncatedPassage = passage.ids[0];
+    }
+
+    sections.push(kept);
+    usedTokens += overhead + countTokens(kept);
+    sources.push({
+      id: passage.ids[0],
+      chunkIds: passage.ids,
+      marker: sections.length,
+      source: passage.source,
+      ...(passage.section ? { section: passage.section } : {}),
+      ...(passage.page ? { page: passage.page } : {}),
+      score: passage.score,
+      preview: passage.text.substring(0, 200),
     });
-    return result;
+  }
+
+  const result = sections.join('\n\n'); // Use double newline for better separation
+  const report: ContextReport = {
+    budgetTokens: maxTokens,
+    usedTokens: countTokens(result),
+    candidateChunks: qualifyingDocs.length,
+    passages: sections.length,
+    mergedChunks,
+    truncatedPassage,
+    dropped,
+  };
+
+  logger.log('Final context result:', {
+    totalDocs: docs.length,
+    ...report,
+    dropped: dropped.map(d => `${d.id} (${d.reason})`),
+    resultLength: result.length,
+    hasContent: result.length > 0,
+    contextPreview: result.substring(0, 300) + (result.length > 300 ? '...' : ''),
+  });
+  return { context: result, sources, report };
+};
+
+// The function `getContext` is used to retrieve the context of a given message
+export const getContext = async (
+  message: string,
+  namespace: string | string[] = '',
+  maxTokens: number = 6000, // Increased to allow more context
+  minScore: number = 0.0, // Very low threshold to get all relevant results
+  getOnlyText: boolean = true
+): Promise<string | VectorMatch[]> => {
+  try {
+    const qualifyingDocs = await retrieveMatches(message, namespace, minScore);
+
+    if (!getOnlyText) {
+      // Return the full matches
+      return qualifyingDocs;
+    }
+
+    return assembleContext(qualifyingDocs, maxTokens, false).context;
   } catch (error: any) {
     console.error('Error in getContext:', {
       message: error.message || error,
@@ -293,3 +521,23 @@ export const getContext = async (
   }
 };
 
+// Like `getContext`, but also reports which chunks the context was built from.
+// With `numbered`, chunks are labelled [1], [2], ... matching `sources[].marker`.
+export const getContextWithSources = async (
+  message: string,
+  namespace: string | string[] = '',
+  maxTokens: number = 6000,
+  minScore: number = 0.0,
+  numbered: boolean = true
+): Promise<ContextResult> => {
+  try {
+    const qualifyingDocs = await retrieveMatches(message, namespace, minScore);
+    return assembleContext(qualifyingDocs, maxTokens, numbered);
+  } catch (error: any) {
+    console.error('Error in getContextWithSources:', {
+      message: error.message || error,
+      stack: error.stack,
+    });
+    throw error;
+  }
+};
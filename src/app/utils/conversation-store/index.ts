@@ -0,0 +1,71 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+import { createMemoryConversationStore } from './memory';
+import { createSupabaseConversationStore } from './supabase';
+import type { ConversationStore } from './types';
+
+export * from './types';
+
+type ConversationStoreBackend = 'supabase' | 'memory';
+
+// Anonymous session the widget's conversation is stored under
+export const CONVERSATION_COOKIE = 'sq3_assistant_session';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let conversationStore: { backend: ConversationStoreBackend; store: ConversationStore } | null = null;
+
+function getBackend(): ConversationStoreBackend {
+  const configured = process.env.CONVERSATION_STORE?.trim().toLowerCase();
+  const backend = configured || (isSupabaseAdminConfigured() ? 'supabase' : 'memory');
+  if (backend !== 'supabase' && backend !== 'memory') {
+    throw new Error(`CONVERSATION_STORE must be "supabase" or "memory", got "${backend}"`);
+  }
+  return backend;
+}
+
+// Selected by CONVERSATION_STORE: "supabase" (the default when
+// SUPABASE_SERVICE_ROLE_KEY is set) or "memory"
+export function getConversationStore(): ConversationStore {
+  const backend = getBackend();
+  if (conversationStore?.backend !== backend) {
+    const store = backend === 'supabase' ? createSupabaseConversationStore() : createMemoryConversationStore();
+    conversationStore = { backend, store };
+  }
+  return conversationStore.store;
+}
+
+// Days each message is kept after it was sent (CONVERSATION_RETENTION_DAYS). Older
+// messages drop out of the conversation one by one and are purged by the cron.
+export function getConversationRetentionDays(): number {
+  const days = Number(process.env.CONVERSATION_RETENTION_DAYS || DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Messages created before this are expired
+export function getRetentionCutoff(): Date {
+  return new Date(Date.now() - getConversationRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+export function getSessionId(req: NextRequest): string | null {
+  const sessionId = req.cookies.get(CONVERSATION_COOKIE)?.value;
+  return sessionId && SESSION_ID_PATTERN.test(sessionId) ? sessionId : null;
+}
+
+// Set on every reply, so the cookie expires together with the conversation
+export function setSessionCookie(response: NextResponse, sessionId: string): NextResponse {
+  response.cookies.set(CONVERSATION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: getConversationRetentionDays() * 24 * 60 * 60,
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(CONVERSATION_COOKIE, '', { path: '/', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,34 @@
+import type { ConversationMessage, ConversationStore } from './types';
+
+// Conversations held in the server process. Meant for development: they are
+// lost on restart and not shared between serverless instances.
+export function createMemoryConversationStore(): ConversationStore {
+  const sessions = new Map<string, ConversationMessage[]>();
+
+  return {
+    name: 'memory',
+
+    async getMessages(sessionId, since) {
+      return (sessions.get(sessionId) || []).filter((m) => new Date(m.createdAt) > since);
+    },
+
+    async appendMessages(sessionId, messages) {
+      sessions.set(sessionId, [...(sessions.get(sessionId) || []), ...messages]);
+    },
+
+    async clear(sessionId) {
+      sessions.delete(sessionId);
+    },
+
+    async deleteOlderThan(cutoff) {
+      let deleted = 0;
+      for (const [sessionId, messages] of sessions) {
+        const kept = messages.filter((m) => new Date(m.createdAt) > cutoff);
+        deleted += messages.length - kept.length;
+        if (kept.length > 0) sessions.set(sessionId, kept);
+        else sessions.delete(sessionId);
+      }
+      return deleted;
+    },
+  };
+}
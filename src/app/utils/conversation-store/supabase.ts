@@ -0,0 +1,85 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import type { ConversationMessage, ConversationStore } from './types';
+
+// Row of the `assistant_messages` table (see supabase-schema.sql)
+type MessageRow = {
+  id: string;
+  session_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: ConversationMessage['sources'] | null;
+  created_at: string;
+};
+
+const TABLE = 'assistant_messages';
+
+function toMessage(row: MessageRow): ConversationMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    ...(row.sources ? { sources: row.sources } : {}),
+    createdAt: row.created_at,
+  };
+}
+
+// Conversations in Supabase, through the service role client. Row level
+// security only lets signed-in dashboard users read the table (assistant
+// analytics), so the public can't
+export function createSupabaseConversationStore(): ConversationStore {
+  const supabase = getSupabaseAdmin();
+
+  return {
+    name: 'supabase',
+
+    async getMessages(sessionId, since) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('id, session_id, role, content, sources, created_at')
+        .eq('session_id', sessionId)
+        .gt('created_at', since.toISOString())
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Error fetching conversation: ${error.message}`);
+      }
+      return (data as MessageRow[]).map(toMessage);
+    },
+
+    async appendMessages(sessionId, messages) {
+      if (messages.length === 0) return;
+      const rows: MessageRow[] = messages.map((m) => ({
+        id: m.id,
+        session_id: sessionId,
+        role: m.role,
+        content: m.content,
+        sources: m.sources ?? null,
+        created_at: m.createdAt,
+      }));
+
+      const { error } = await supabase.from(TABLE).insert(rows);
+      if (error) {
+        throw new Error(`Error saving conversation: ${error.message}`);
+      }
+    },
+
+    async clear(sessionId) {
+      const { error } = await supabase.from(TABLE).delete().eq('session_id', sessionId);
+      if (error) {
+        throw new Error(`Error clearing conversation: ${error.message}`);
+      }
+    },
+
+    async deleteOlderThan(cutoff) {
+      const { count, error } = await supabase
+        .from(TABLE)
+        .delete({ count: 'exact' })
+        .lt('created_at', cutoff.toISOString());
+
+      if (error) {
+        throw new Error(`Error deleting expired conversations: ${error.message}`);
+      }
+      return count ?? 0;
+    },
+  };
+}
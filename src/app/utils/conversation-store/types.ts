@@ -0,0 +1,22 @@
+import type { ContextSource } from '../context';
+
+export type ConversationMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Passages a cited reply was grounded in
+  sources?: ContextSource[];
+  createdAt: string;
+};
+
+// Storage backend for assistant conversations. A conversation is addressed by
+// the anonymous session id from the widget's cookie.
+export interface ConversationStore {
+  readonly name: string;
+  // Messages created after `since`, oldest first
+  getMessages(sessionId: string, since: Date): Promise<ConversationMessage[]>;
+  appendMessages(sessionId: string, messages: ConversationMessage[]): Promise<void>;
+  clear(sessionId: string): Promise<void>;
+  // Returns the number of messages deleted
+  deleteOlderThan(cutoff: Date): Promise<number>;
+}
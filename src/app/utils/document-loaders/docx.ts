@@ -0,0 +1,17 @@
+import mammoth from 'mammoth';
+import { htmlToDocument } from './html';
+import type { DocumentLoader } from './types';
+
+// Word documents are converted to HTML so their heading styles become sections.
+// DOCX has no fixed pagination, so sections carry no page numbers.
+export const docxLoader: DocumentLoader = {
+  name: 'docx',
+  extensions: ['.docx'],
+  async load(content, sourcePath) {
+    const { value: html, messages } = await mammoth.convertToHtml({ buffer: content });
+    for (const message of messages.filter((m) => m.type === 'error')) {
+      console.warn(`DOCX conversion issue in ${sourcePath}: ${message.message}`);
+    }
+    return htmlToDocument(html, sourcePath);
+  },
+};
@@ -0,0 +1,114 @@
+import { Parser } from 'htmlparser2';
+import type { DocumentLoader, DocumentSection, LoadedDocument } from './types';
+
+// Elements whose content is never document text
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'nav', 'footer']);
+
+// Elements that start a new line of text
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'form', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul',
+]);
+
+const HEADING_PATTERN = /^h([1-6])$/;
+
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Split HTML into sections at its headings. Each section's text starts with its
+// own heading; `section` is the trail of enclosing headings.
+export function htmlToDocument(html: string, sourcePath: string): LoadedDocument {
+  const sections: DocumentSection[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let title = '';
+  let buffer = '';
+  let skipDepth = 0;
+  let inTitle = false;
+  let heading: { level: number; text: string } | null = null;
+
+  const flush = () => {
+    const text = cleanText(buffer);
+    if (text) {
+      sections.push({
+        text,
+        section: headings.length > 0 ? headings.map((h) => h.text).join(' > ') : undefined,
+      });
+    }
+    buffer = '';
+  };
+
+  const parser = new Parser({
+    onopentag(name) {
+      if (SKIPPED_TAGS.has(name) || skipDepth > 0) {
+        // Void elements inside skipped content are never closed, so only count skippable ones
+        if (SKIPPED_TAGS.has(name)) skipDepth++;
+        return;
+      }
+      if (name === 'title') {
+        inTitle = true;
+        return;
+      }
+      const level = name.match(HEADING_PATTERN)?.[1];
+      if (level) {
+        flush();
+        heading = { level: Number(level), text: '' };
+      } else if (BLOCK_TAGS.has(name)) {
+        buffer += '\n';
+      }
+    },
+    ontext(text) {
+      if (skipDepth > 0) return;
+      if (inTitle) {
+        title += text;
+      } else if (heading) {
+        heading.text += text;
+      } else {
+        buffer += text;
+      }
+    },
+    onclosetag(name) {
+      if (SKIPPED_TAGS.has(name)) {
+        skipDepth = Math.max(0, skipDepth - 1);
+        return;
+      }
+      if (skipDepth > 0) return;
+      if (name === 'title') {
+        inTitle = false;
+        return;
+      }
+      if (heading && HEADING_PATTERN.test(name)) {
+        const current = { level: heading.level, text: cleanText(heading.text).replace(/\n/g, ' ') };
+        heading = null;
+        if (!current.text) return;
+        while (headings.length > 0 && headings[headings.length - 1].level >= current.level) {
+          headings.pop();
+        }
+        headings.push(current);
+        buffer = current.text + '\n';
+      } else if (BLOCK_TAGS.has(name)) {
+        buffer += '\n';
+      }
+    },
+  }, { decodeEntities: true });
+
+  parser.write(html);
+  parser.end();
+  flush();
+
+  // Without a <title>, the first top-level heading names the document
+  const firstHeading = sections[0]?.section?.split(' > ')[0];
+  return { sourcePath, title: cleanText(title) || firstHeading, sections };
+}
+
+export const htmlLoader: DocumentLoader = {
+  name: 'html',
+  extensions: ['.html', '.htm'],
+  async load(content, sourcePath) {
+    return htmlToDocument(content.toString('utf-8'), sourcePath);
+  },
+};
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { docxLoader } from './docx';
+import { htmlLoader } from './html';
+import { markdownLoader } from './markdown';
+import { pdfLoader } from './pdf';
+import { textLoader } from './text';
+import { UnsupportedDocumentError, type DocumentLoader, type LoadedDocument } from './types';
+
+export * from './types';
+export { htmlToDocument } from './html';
+export { markdownToDocument } from './markdown';
+
+const loaders = new Map<string, DocumentLoader>();
+
+// Register a loader for its extensions, replacing any earlier loader for them
+export function registerDocumentLoader(loader: DocumentLoader) {
+  for (const extension of loader.extensions) {
+    loaders.set(extension.toLowerCase(), loader);
+  }
+}
+
+[textLoader, markdownLoader, htmlLoader, pdfLoader, docxLoader].forEach(registerDocumentLoader);
+
+export function getSupportedExtensions(): string[] {
+  return [...loaders.keys()].sort();
+}
+
+export function getDocumentLoader(filePath: string): DocumentLoader {
+  const extension = path.extname(filePath).toLowerCase();
+  const loader = loaders.get(extension);
+  if (!loader) {
+    throw new UnsupportedDocumentError(
+      `Unsupported file type: ${extension || '(none)'}. Supported: ${getSupportedExtensions().join(', ')}`
+    );
+  }
+  return loader;
+}
+
+// Read a file and extract its text and structure with the loader for its extension
+export async function loadDocument(filePath: string, content?: Buffer): Promise<LoadedDocument> {
+  const loader = getDocumentLoader(filePath);
+  const sourcePath = path.relative(process.cwd(), path.resolve(filePath));
+  return loader.load(content ?? (await fs.promises.readFile(filePath)), sourcePath);
+}
@@ -0,0 +1,39 @@
+import { marked } from 'marked';
+import { htmlToDocument } from './html';
+import type { DocumentLoader, LoadedDocument } from './types';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+// MDX module syntax, which would otherwise be read as paragraphs
+const MDX_MODULE_LINE = /^(import|export)\s.*$/gm;
+
+function parseFrontmatterTitle(frontmatter: string): string | undefined {
+  const match = frontmatter.match(/^title:\s*(.+)$/m);
+  return match ? match[1].trim().replace(/^["']|["']$/g, '') : undefined;
+}
+
+// Render Markdown to HTML and split it at the headings like any HTML page.
+// A frontmatter `title` wins over the first heading.
+export function markdownToDocument(markdown: string, sourcePath: string, options: { mdx?: boolean } = {}): LoadedDocument {
+  let body = markdown;
+  let title: string | undefined;
+
+  const frontmatter = body.match(FRONTMATTER_PATTERN);
+  if (frontmatter) {
+    title = parseFrontmatterTitle(frontmatter[1]);
+    body = body.slice(frontmatter[0].length);
+  }
+  if (options.mdx) {
+    body = body.replace(MDX_MODULE_LINE, '');
+  }
+
+  const document = htmlToDocument(marked.parse(body, { async: false }), sourcePath);
+  return { ...document, title: title || document.title };
+}
+
+export const markdownLoader: DocumentLoader = {
+  name: 'markdown',
+  extensions: ['.md', '.markdown', '.mdx'],
+  async load(content, sourcePath) {
+    return markdownToDocument(content.toString('utf-8'), sourcePath, { mdx: sourcePath.toLowerCase().endsWith('.mdx') });
+  },
+};
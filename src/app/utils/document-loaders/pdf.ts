@@ -0,0 +1,73 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { DocumentLoader, DocumentSection } from './types';
+
+type PDFDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+type OutlineNode = Awaited<ReturnType<PDFDocument['getOutline']>>[number];
+
+// Flatten the PDF's bookmarks into (1-based page, heading trail) pairs, in page order
+async function readOutline(pdf: PDFDocument): Promise<Array<{ page: number; section: string }>> {
+  const entries: Array<{ page: number; section: string }> = [];
+
+  const visit = async (nodes: OutlineNode[], trail: string[]) => {
+    for (const node of nodes) {
+      const path = [...trail, node.title.trim()];
+      try {
+        const dest = typeof node.dest === 'string' ? await pdf.getDestination(node.dest) : node.dest;
+        if (dest?.[0]) {
+          entries.push({ page: (await pdf.getPageIndex(dest[0])) + 1, section: path.join(' > ') });
+        }
+      } catch {
+        // Bookmarks with broken destinations are skipped
+      }
+      await visit(node.items || [], path);
+    }
+  };
+
+  await visit((await pdf.getOutline()) || [], []);
+  return entries.sort((a, b) => a.page - b.page);
+}
+
+function cleanPageText(text: string): string {
+  return text
+    .replace(/-\n(?=\p{Ll})/gu, '') // Rejoin words hyphenated across lines
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// One section per page. The page's section is the last bookmark starting on
+// or before it; PDFs without bookmarks have pages only.
+export const pdfLoader: DocumentLoader = {
+  name: 'pdf',
+  extensions: ['.pdf'],
+  async load(content, sourcePath) {
+    const pdf = await getDocumentProxy(new Uint8Array(content));
+    try {
+      const [{ text: pages }, outline, metadata] = await Promise.all([
+        extractText(pdf, { mergePages: false }),
+        readOutline(pdf).catch(() => []),
+        pdf.getMetadata().catch(() => null),
+      ]);
+
+      const sections: DocumentSection[] = [];
+      let outlineIndex = -1;
+      pages.forEach((pageText, index) => {
+        const page = index + 1;
+        while (outlineIndex + 1 < outline.length && outline[outlineIndex + 1].page <= page) {
+          outlineIndex++;
+        }
+        const text = cleanPageText(pageText);
+        if (text) {
+          sections.push({ text, page, section: outline[outlineIndex]?.section });
+        }
+      });
+
+      const info = metadata?.info as { Title?: unknown } | undefined;
+      const title = typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined;
+      return { sourcePath, title, sections };
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
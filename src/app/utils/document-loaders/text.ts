@@ -0,0 +1,10 @@
+import type { DocumentLoader } from './types';
+
+export const textLoader: DocumentLoader = {
+  name: 'text',
+  extensions: ['.txt'],
+  async load(content, sourcePath) {
+    const text = content.toString('utf-8').trim();
+    return { sourcePath, sections: text ? [{ text }] : [] };
+  },
+};
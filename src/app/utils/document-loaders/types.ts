@@ -0,0 +1,30 @@
+// A run of document text under one heading (and, for paginated formats, on one page)
+export type DocumentSection = {
+  text: string;
+  // Heading trail leading to this text, e.g. "Setup > Installing"
+  section?: string;
+  // 1-based page number, for formats that have pages
+  page?: number;
+};
+
+export type LoadedDocument = {
+  // Path the document was loaded from, relative to the working directory
+  sourcePath: string;
+  title?: string;
+  sections: DocumentSection[];
+};
+
+// Extracts clean text and structure from one file format
+export interface DocumentLoader {
+  readonly name: string;
+  // Lowercase file extensions including the dot, e.g. ".md"
+  readonly extensions: string[];
+  load(content: Buffer, sourcePath: string): Promise<LoadedDocument>;
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
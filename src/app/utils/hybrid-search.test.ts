@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+
+import { reciprocalRankFusion, rerank } from './hybrid-search';
+import type { VectorMatch } from './vector-store';
+
+function match(id: string, text?: string): VectorMatch {
+  return { id, score: 1, ...(text ? { metadata: { text } } : {}) };
+}
+
+describe('reciprocalRankFusion', () => {
+  it('sums 1 / (60 + rank) over the lists a match appears in', () => {
+    const fused = reciprocalRankFusion([
+      { name: 'vector', matches: [match('a'), match('b')] },
+      { name: 'keyword', matches: [match('b'), match('c')] },
+    ]);
+
+    expect(fused.map((m) => m.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].fusionScore).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1].fusionScore).toBeCloseTo(1 / 61);
+    expect(fused[2].fusionScore).toBeCloseTo(1 / 62);
+  });
+
+  it('records the rank of each match in each list', () => {
+    const [b, a, c] = reciprocalRankFusion([
+      { name: 'vector', matches: [match('a'), match('b')] },
+      { name: 'keyword', matches: [match('b'), match('c')] },
+    ]);
+
+    expect(b).toMatchObject({ vectorRank: 2, keywordRank: 1 });
+    expect(a).toMatchObject({ vectorRank: 1 });
+    expect(a.keywordRank).toBeUndefined();
+    expect(c).toMatchObject({ keywordRank: 2 });
+    expect(c.vectorRank).toBeUndefined();
+  });
+
+  it('keeps the metadata of the first list that has it', () => {
+    const [fused] = reciprocalRankFusion([
+      { name: 'vector', matches: [match('a')] },
+      { name: 'keyword', matches: [match('a', 'from keyword')] },
+    ]);
+    expect(fused.metadata).toEqual({ text: 'from keyword' });
+
+    const [kept] = reciprocalRankFusion([
+      { name: 'vector', matches: [match('a', 'from vector')] },
+      { name: 'keyword', matches: [match('a', 'from keyword')] },
+    ]);
+    expect(kept.metadata).toEqual({ text: 'from vector' });
+  });
+
+  it('returns nothing for empty lists', () => {
+    expect(reciprocalRankFusion([{ name: 'vector', matches: [] }])).toEqual([]);
+  });
+});
+
+describe('rerank', () => {
+  it('moves chunks that cover more query terms up', () => {
+    const fused = reciprocalRankFusion([
+      { name: 'vector', matches: [match('partial', 'pricing details'), match('full', 'enterprise pricing details')] },
+    ]);
+
+    const reranked = rerank('enterprise pricing', fused);
+    expect(reranked.map((m) => m.id)).toEqual(['full', 'partial']);
+  });
+
+  it('favours chunks that mention names from the question', () => {
+    const fused = reciprocalRankFusion([
+      { name: 'vector', matches: [match('team', 'the design team'), match('person', 'Hasal runs the team')] },
+    ]);
+
+    const reranked = rerank('who leads the team, is it Hasal', fused);
+    expect(reranked[0].id).toBe('person');
+  });
+
+  it('replaces the score with a rerank score between 0 and 1', () => {
+    const reranked = rerank('pricing', reciprocalRankFusion([
+      { name: 'keyword', matches: [match('a', 'pricing'), match('b', 'nothing relevant')] },
+    ]));
+
+    expect(reranked[0].score).toBeCloseTo(0.5 + 0.35);
+    for (const m of reranked) {
+      expect(m.score).toBeGreaterThan(0);
+      expect(m.score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('returns an empty list unchanged', () => {
+    expect(rerank('pricing', [])).toEqual([]);
+  });
+});
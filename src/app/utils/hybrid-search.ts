@@ -0,0 +1,87 @@
+import { tokenize } from './keyword-index';
+import type { VectorMatch } from './vector-store';
+
+// Standard RRF constant - dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+// Weights of the reranking signals; they sum to 1
+const RERANK_WEIGHTS = {
+  fusion: 0.5,
+  termCoverage: 0.35,
+  nameMatch: 0.15,
+};
+
+export type FusedMatch = VectorMatch & {
+  fusionScore: number;
+  vectorRank?: number;
+  keywordRank?: number;
+};
+
+function getMatchText(match: VectorMatch): string {
+  const metadata = match.metadata || {};
+  for (const field of ['text', 'chunk', 'content']) {
+    if (typeof metadata[field] === 'string') return metadata[field];
+  }
+  return '';
+}
+
+// Merge ranked lists by reciprocal-rank fusion: each list contributes
+// 1 / (k + rank) for every match it contains. Metadata from the first list
+// that has the match wins.
+export function reciprocalRankFusion(
+  lists: { name: 'vector' | 'keyword'; matches: VectorMatch[] }[]
+): FusedMatch[] {
+  const fused = new Map<string, FusedMatch>();
+
+  for (const { name, matches } of lists) {
+    matches.forEach((match, index) => {
+      const rank = index + 1;
+      const existing = fused.get(match.id) ?? { ...match, fusionScore: 0 };
+      existing.fusionScore += 1 / (RRF_K + rank);
+      if (name === 'vector') existing.vectorRank = rank;
+      else existing.keywordRank = rank;
+      if (!existing.metadata && match.metadata) existing.metadata = match.metadata;
+      fused.set(match.id, existing);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.fusionScore - a.fusionScore);
+}
+
+// Words the user capitalized mid-sentence ("who is Hasal") are likely names
+function extractNameTerms(query: string): string[] {
+  const words = query.match(/[\p{L}\p{M}]+/gu) || [];
+  return words
+    .filter((word, index) => index > 0 && /^\p{Lu}/u.test(word))
+    .map((word) => word.toLowerCase());
+}
+
+// Reorder fused candidates using signals the retrievers don't see together:
+// how many distinct query terms the chunk contains, and whether it contains
+// the names mentioned in the question. `score` is replaced by the rerank score.
+export function rerank(query: string, candidates: FusedMatch[]): FusedMatch[] {
+  if (candidates.length === 0) return candidates;
+
+  const queryTerms = [...new Set(tokenize(query))];
+  const nameTerms = extractNameTerms(query);
+  const maxFusion = Math.max(...candidates.map((c) => c.fusionScore));
+
+  return candidates
+    .map((candidate) => {
+      const chunkTerms = new Set(tokenize(getMatchText(candidate)));
+      const termCoverage = queryTerms.length > 0
+        ? queryTerms.filter((term) => chunkTerms.has(term)).length / queryTerms.length
+        : 0;
+      const nameMatch = nameTerms.length > 0
+        ? nameTerms.filter((term) => chunkTerms.has(term)).length / nameTerms.length
+        : 0;
+
+      const score =
+        RERANK_WEIGHTS.fusion * (candidate.fusionScore / maxFusion) +
+        RERANK_WEIGHTS.termCoverage * termCoverage +
+        RERANK_WEIGHTS.nameMatch * nameMatch;
+
+      return { ...candidate, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
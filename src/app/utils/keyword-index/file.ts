@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Metadata } from '../vector-store';
+import type { KeywordIndexStore } from './types';
+
+type KeywordIndexFile = {
+  version: 1;
+  namespaces: Record<string, Record<string, { text: string; metadata?: Metadata }>>;
+};
+
+// The index as one JSON file, for local development. A deployment only has the
+// file if it was built into it, and can't write it.
+export function createFileKeywordIndexStore(filePath: string): KeywordIndexStore {
+  let cache: { mtimeMs: number; data: KeywordIndexFile } | null = null;
+
+  async function load(): Promise<KeywordIndexFile | null> {
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (cache?.mtimeMs === stat.mtimeMs) return cache.data;
+
+      const data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as KeywordIndexFile;
+      cache = { mtimeMs: stat.mtimeMs, data };
+      return data;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw new Error(`Error reading keyword index ${filePath}: ${e.message || e}`);
+    }
+  }
+
+  return {
+    name: `file (${filePath})`,
+
+    async exists() {
+      return fs.existsSync(filePath);
+    },
+
+    async getDocuments(namespace) {
+      const data = await load();
+      return Object.entries(data?.namespaces[namespace] || {}).map(([id, doc]) => ({ id, ...doc }));
+    },
+
+    async update(namespace, update) {
+      const data = (await load()) || { version: 1, namespaces: {} };
+      const ns = (data.namespaces[namespace] ??= {});
+
+      for (const id of update.removeIds || []) {
+        delete ns[id];
+      }
+      for (const prefix of update.removePrefixes || []) {
+        for (const id of Object.keys(ns)) {
+          if (id.startsWith(prefix)) delete ns[id];
+        }
+      }
+      for (const doc of update.documents) {
+        ns[doc.id] = { text: doc.text, metadata: doc.metadata };
+      }
+
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, JSON.stringify(data));
+      await fs.promises.rename(tmpPath, filePath);
+      cache = null;
+    },
+  };
+}
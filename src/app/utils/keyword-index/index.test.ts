@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { hasKeywordIndex, searchKeywordIndex, tokenize, updateKeywordIndex } from '.';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyword-index-'));
+  vi.stubEnv('KEYWORD_INDEX', 'file');
+  vi.stubEnv('KEYWORD_INDEX_PATH', path.join(dir, 'index.json'));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('tokenize', () => {
+  it('lowercases words and drops stopwords and punctuation', () => {
+    expect(tokenize('What is the Pricing of SQ3, v2?')).toEqual(['pricing', 'sq3', 'v2']);
+  });
+
+  it('keeps Sinhala vowel signs attached to their consonants', () => {
+    expect(tokenize('සිංහල භාෂාව')).toEqual(['සිංහල', 'භාෂාව']);
+  });
+});
+
+describe('searchKeywordIndex', () => {
+  async function index(documents: Array<{ id: string; text: string }>) {
+    await updateKeywordIndex('docs', { documents });
+  }
+
+  it('reports a missing index once', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await hasKeywordIndex()).toBe(false);
+
+    await index([{ id: 'a', text: 'pricing' }]);
+    expect(await hasKeywordIndex()).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('ranks documents with rarer query terms higher', async () => {
+    await index([
+      { id: 'common', text: 'sequence3 builds software for clients' },
+      { id: 'rare', text: 'sequence3 offers a kubernetes migration service' },
+      { id: 'other', text: 'sequence3 has an office in Colombo' },
+    ]);
+
+    const matches = await searchKeywordIndex('docs', 'sequence3 kubernetes', 10);
+    expect(matches.map((m) => m.id)).toEqual(['rare', 'common', 'other']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score!);
+  });
+
+  it('favours shorter documents for the same term frequency', async () => {
+    await index([
+      { id: 'long', text: `pricing ${'filler words about nothing in particular '.repeat(10)}` },
+      { id: 'short', text: 'pricing plans' },
+    ]);
+
+    const matches = await searchKeywordIndex('docs', 'pricing', 10);
+    expect(matches.map((m) => m.id)).toEqual(['short', 'long']);
+  });
+
+  it('returns the chunk text in metadata and leaves out documents without query terms', async () => {
+    await updateKeywordIndex('docs', {
+      documents: [
+        { id: 'a', text: 'Hasal leads the design team', metadata: { source: 'team.md' } },
+        { id: 'b', text: 'Our office hours' },
+      ],
+    });
+
+    const matches = await searchKeywordIndex('docs', 'who is Hasal', 10);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      id: 'a',
+      metadata: { source: 'team.md', text: 'Hasal leads the design team' },
+    });
+  });
+
+  it('returns at most topK matches', async () => {
+    await index(Array.from({ length: 5 }, (_, i) => ({ id: `doc-${i}`, text: `pricing ${i}` })));
+    expect(await searchKeywordIndex('docs', 'pricing', 2)).toHaveLength(2);
+  });
+
+  it('returns nothing for stopword-only queries and unknown namespaces', async () => {
+    await index([{ id: 'a', text: 'what is the plan' }]);
+    expect(await searchKeywordIndex('docs', 'what is the', 10)).toEqual([]);
+    expect(await searchKeywordIndex('other', 'plan', 10)).toEqual([]);
+  });
+
+  it('applies removals by id and prefix before adding documents', async () => {
+    await index([
+      { id: 'guide_chunk_1', text: 'pricing one' },
+      { id: 'guide_chunk_2', text: 'pricing two' },
+      { id: 'faq_chunk_1', text: 'pricing faq' },
+    ]);
+    await updateKeywordIndex('docs', {
+      removeIds: ['faq_chunk_1'],
+      removePrefixes: ['guide_chunk_'],
+      documents: [{ id: 'guide_chunk_3', text: 'pricing three' }],
+    });
+
+    const matches = await searchKeywordIndex('docs', 'pricing', 10);
+    expect(matches.map((m) => m.id)).toEqual(['guide_chunk_3']);
+  });
+});
@@ -0,0 +1,164 @@
+import * as path from 'path';
+import { isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+import type { Metadata, VectorMatch } from '../vector-store';
+import { createFileKeywordIndexStore } from './file';
+import { createSupabaseKeywordIndexStore } from './supabase';
+import type { KeywordIndexStore, KeywordIndexUpdate } from './types';
+
+export * from './types';
+
+// BM25 keyword index over the same chunks the loader embeds. It catches exact
+// names and product terms (including Sinhala words) that dense similarity misses.
+//
+// Scoring happens in memory: each server instance holds the text and term
+// counts of every chunk in the namespaces it searched, and reads them again
+// every STATS_TTL_MS. That suits a knowledge base of a few thousand chunks
+// (roughly a few MB per thousand); past that, move the statistics into SQL.
+
+type KeywordIndexBackend = 'supabase' | 'file';
+
+const DEFAULT_KEYWORD_INDEX_PATH = '.keyword-index.json';
+
+// How long a namespace's statistics are reused before the documents are read
+// again, so updates from other instances show up
+const STATS_TTL_MS = 60 * 1000;
+
+// BM25 tuning: term-frequency saturation and document-length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for',
+  'from', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+  'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// Per-namespace statistics derived from the stored texts
+type NamespaceStats = {
+  docs: Array<{ id: string; metadata?: Metadata; text: string; termFreqs: Map<string, number>; length: number }>;
+  docFreqs: Map<string, number>;
+  avgLength: number;
+  loadedAt: number;
+};
+
+let keywordIndex: { key: string; store: KeywordIndexStore; stats: Map<string, NamespaceStats> } | null = null;
+let reportedMissing = false;
+
+function getBackend(): KeywordIndexBackend {
+  const configured = process.env.KEYWORD_INDEX?.trim().toLowerCase();
+  const backend = configured || (isSupabaseAdminConfigured() ? 'supabase' : 'file');
+  if (backend !== 'supabase' && backend !== 'file') {
+    throw new Error(`KEYWORD_INDEX must be "supabase" or "file", got "${backend}"`);
+  }
+  return backend;
+}
+
+function getKeywordIndexPath(): string {
+  return path.resolve(process.cwd(), process.env.KEYWORD_INDEX_PATH || DEFAULT_KEYWORD_INDEX_PATH);
+}
+
+// Selected by KEYWORD_INDEX: "supabase" (the default when
+// SUPABASE_SERVICE_ROLE_KEY is set) or "file" (KEYWORD_INDEX_PATH)
+function getKeywordIndex() {
+  const backend = getBackend();
+  const key = backend === 'file' ? `file|${getKeywordIndexPath()}` : 'supabase';
+
+  if (keywordIndex?.key !== key) {
+    const store = backend === 'file'
+      ? createFileKeywordIndexStore(getKeywordIndexPath())
+      : createSupabaseKeywordIndexStore();
+    keywordIndex = { key, store, stats: new Map() };
+  }
+  return keywordIndex;
+}
+
+export function getKeywordIndexName(): string {
+  return getKeywordIndex().store.name;
+}
+
+// Lowercased letter/number runs. Marks (\p{M}) are kept so Sinhala vowel signs
+// stay attached to their consonants.
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || [])
+    .filter((token) => !STOPWORDS.has(token));
+}
+
+async function getNamespaceStats(namespace: string): Promise<NamespaceStats> {
+  const { store, stats: cache } = getKeywordIndex();
+  const cached = cache.get(namespace);
+  if (cached && Date.now() - cached.loadedAt < STATS_TTL_MS) return cached;
+
+  const docs = (await store.getDocuments(namespace)).map((doc) => {
+    const termFreqs = new Map<string, number>();
+    const tokens = tokenize(doc.text);
+    for (const token of tokens) {
+      termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+    }
+    return { id: doc.id, metadata: doc.metadata, text: doc.text, termFreqs, length: tokens.length };
+  });
+
+  const docFreqs = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of doc.termFreqs.keys()) {
+      docFreqs.set(term, (docFreqs.get(term) || 0) + 1);
+    }
+  }
+
+  const avgLength = docs.length > 0 ? docs.reduce((sum, d) => sum + d.length, 0) / docs.length : 0;
+  const stats = { docs, docFreqs, avgLength, loadedAt: Date.now() };
+  cache.set(namespace, stats);
+  return stats;
+}
+
+// Whether a keyword index has been built for this deployment. Without one
+// hybrid search is off, which is reported once.
+export async function hasKeywordIndex(): Promise<boolean> {
+  const { store } = getKeywordIndex();
+  const exists = await store.exists();
+  if (!exists && !reportedMissing) {
+    reportedMissing = true;
+    console.warn(`No keyword index in ${store.name}: hybrid search is off until scripts/load-rag-data.ts builds one`);
+  }
+  return exists;
+}
+
+// BM25 search. Returns matches shaped like vector matches, with the chunk text
+// in `metadata.text`, best first.
+export async function searchKeywordIndex(
+  namespace: string,
+  query: string,
+  topK: number
+): Promise<VectorMatch[]> {
+  const { docs, docFreqs, avgLength } = await getNamespaceStats(namespace);
+  const queryTerms = [...new Set(tokenize(query))];
+  if (docs.length === 0 || queryTerms.length === 0) return [];
+
+  const idf = new Map(queryTerms.map((term) => {
+    const df = docFreqs.get(term) || 0;
+    return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return docs
+    .map((doc) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFreqs.get(term);
+        if (!tf) continue;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / (avgLength || 1)));
+        score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / norm);
+      }
+      return { id: doc.id, score, metadata: { ...doc.metadata, text: doc.text } };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+// Used by the loader and blog post syncs so the keyword index mirrors what was
+// upserted to the vector store
+export async function updateKeywordIndex(namespace: string, update: KeywordIndexUpdate): Promise<void> {
+  const { store, stats } = getKeywordIndex();
+  await store.update(namespace, update);
+  stats.delete(namespace);
+}
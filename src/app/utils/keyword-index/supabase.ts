@@ -0,0 +1,106 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import type { Metadata } from '../vector-store';
+import type { KeywordDocument, KeywordIndexStore } from './types';
+
+// Row of the `keyword_chunks` table (see supabase-schema.sql)
+type ChunkRow = {
+  namespace: string;
+  id: string;
+  text: string;
+  metadata: Metadata | null;
+};
+
+const TABLE = 'keyword_chunks';
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Ids per delete or upsert request, to keep request URLs and bodies small
+const WRITE_BATCH_SIZE = 200;
+// What PostgREST (PGRST205) or Postgres (42P01) return when the table hasn't
+// been created from supabase-schema.sql
+const MISSING_TABLE_CODES = new Set(['PGRST205', '42P01']);
+
+// Match ids starting with `prefix`: `%` and `_` in chunk ids are literal
+function toLikePrefix(prefix: string): string {
+  return `${prefix.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+// The index in Supabase, through the service role client, so the loader script
+// and blog post syncs update the copy the deployment searches. The table has
+// row level security enabled and no policies.
+export function createSupabaseKeywordIndexStore(): KeywordIndexStore {
+  const supabase = getSupabaseAdmin();
+
+  return {
+    name: 'supabase',
+
+    // Built once the table exists and has a chunk in it
+    async exists() {
+      const { data, error } = await supabase.from(TABLE).select('id').limit(1);
+      if (error && MISSING_TABLE_CODES.has(error.code)) return false;
+      if (error) {
+        throw new Error(`Error checking keyword index: ${error.message}`);
+      }
+      return data.length > 0;
+    },
+
+    async getDocuments(namespace) {
+      const documents: KeywordDocument[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from(TABLE)
+          .select('id, text, metadata')
+          .eq('namespace', namespace)
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Error reading keyword index: ${error.message}`);
+        }
+        for (const row of data as Omit<ChunkRow, 'namespace'>[]) {
+          documents.push({ id: row.id, text: row.text, ...(row.metadata ? { metadata: row.metadata } : {}) });
+        }
+        if (data.length < PAGE_SIZE) return documents;
+      }
+    },
+
+    async update(namespace, update) {
+      const removeIds = update.removeIds || [];
+      for (let i = 0; i < removeIds.length; i += WRITE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from(TABLE)
+          .delete()
+          .eq('namespace', namespace)
+          .in('id', removeIds.slice(i, i + WRITE_BATCH_SIZE));
+        if (error) {
+          throw new Error(`Error updating keyword index: ${error.message}`);
+        }
+      }
+      for (const prefix of update.removePrefixes || []) {
+        const { error } = await supabase
+          .from(TABLE)
+          .delete()
+          .eq('namespace', namespace)
+          .like('id', toLikePrefix(prefix));
+        if (error) {
+          throw new Error(`Error updating keyword index: ${error.message}`);
+        }
+      }
+
+      const rows: ChunkRow[] = update.documents.map((doc) => ({
+        namespace,
+        id: doc.id,
+        text: doc.text,
+        metadata: doc.metadata ?? null,
+      }));
+      for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from(TABLE)
+          .upsert(rows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: 'namespace,id' });
+        if (error) {
+          throw new Error(`Error updating keyword index: ${error.message}`);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from '../vector-store';
+
+export type KeywordDocument = {
+  id: string;
+  text: string;
+  metadata?: Metadata;
+};
+
+// Remove the given ids and id prefixes, then add `documents`
+export type KeywordIndexUpdate = {
+  removeIds?: string[];
+  removePrefixes?: string[];
+  documents: KeywordDocument[];
+};
+
+// Storage backend for the BM25 keyword index: the chunk texts of each
+// namespace. Scoring happens in memory over everything in a namespace.
+export interface KeywordIndexStore {
+  readonly name: string;
+  // Whether the index has been built. Without one, hybrid search is off.
+  exists(): Promise<boolean>;
+  getDocuments(namespace: string): Promise<KeywordDocument[]>;
+  update(namespace: string, update: KeywordIndexUpdate): Promise<void>;
+}
@@ -0,0 +1,124 @@
+import { ProviderConfigError } from './types';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'gemini' | 'fake';
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'openai-compatible', 'gemini', 'fake'];
+
+export type ChatModelConfig = {
+  provider: ProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Token limit for the single retry made when a reply is cut off
+  truncatedRetryMaxTokens: number;
+  apiKey: string;
+  baseURL?: string;
+};
+
+export type EmbeddingModelConfig = {
+  provider: ProviderName;
+  model: string;
+  // Requested vector size, for models that support shortening (text-embedding-3-*)
+  dimensions?: number;
+  apiKey: string;
+  baseURL?: string;
+};
+
+const DEFAULT_CHAT_MODELS: Record<ProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  'openai-compatible': 'gpt-4o-mini',
+  gemini: 'gemini-2.0-flash',
+  fake: 'fake-chat',
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<ProviderName, string> = {
+  openai: 'text-embedding-3-small',
+  'openai-compatible': 'text-embedding-3-small',
+  gemini: 'text-embedding-004',
+  fake: 'fake-embedding',
+};
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name];
+  return value && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = readEnv(name);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new ProviderConfigError(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function readProviderEnv(name: string, fallback: ProviderName): ProviderName {
+  const value = (readEnv(name) || fallback).toLowerCase() as ProviderName;
+  if (!PROVIDER_NAMES.includes(value)) {
+    throw new ProviderConfigError(`${name} must be one of ${PROVIDER_NAMES.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+// Resolve the API key for a provider. OpenAI-compatible local servers usually
+// don't check the key, and the fake provider never needs one.
+function resolveApiKey(provider: ProviderName, overrideEnv: string): string {
+  const override = readEnv(overrideEnv);
+  if (override) return override;
+
+  switch (provider) {
+    case 'openai': {
+      const key = readEnv('OPENAI_API_KEY');
+      if (!key) throw new ProviderConfigError('OPENAI_API_KEY is not configured');
+      return key;
+    }
+    case 'gemini': {
+      const key = readEnv('GEMINI_API_KEY') || readEnv('GOOGLE_API_KEY');
+      if (!key) throw new ProviderConfigError('GEMINI_API_KEY is not configured');
+      return key;
+    }
+    case 'openai-compatible':
+      return readEnv('OPENAI_API_KEY') || 'not-needed';
+    case 'fake':
+      return '';
+  }
+}
+
+function resolveBaseURL(provider: ProviderName, env: string): string | undefined {
+  const baseURL = readEnv(env) || readEnv('LLM_BASE_URL');
+  if (provider === 'openai-compatible' && !baseURL) {
+    throw new ProviderConfigError(`${env} or LLM_BASE_URL is required for the openai-compatible provider`);
+  }
+  return provider === 'openai' || provider === 'openai-compatible' ? baseURL : undefined;
+}
+
+export function getChatModelConfig(): ChatModelConfig {
+  const provider = readProviderEnv('LLM_PROVIDER', 'openai');
+
+  return {
+    provider,
+    model: readEnv('LLM_MODEL') || DEFAULT_CHAT_MODELS[provider],
+    temperature: readNumberEnv('LLM_TEMPERATURE', 0.8),
+    maxTokens: readNumberEnv('LLM_MAX_TOKENS', 256), // Short 1-2 sentence responses
+    truncatedRetryMaxTokens: readNumberEnv('LLM_TRUNCATED_RETRY_MAX_TOKENS', 1024),
+    apiKey: resolveApiKey(provider, 'LLM_API_KEY'),
+    baseURL: resolveBaseURL(provider, 'LLM_BASE_URL'),
+  };
+}
+
+export function getEmbeddingModelConfig(): EmbeddingModelConfig {
+  // Configured independently of the chat provider: switching it changes the
+  // vector size, so the index has to be rebuilt with the same model
+  const provider = readProviderEnv('EMBEDDING_PROVIDER', 'openai');
+  const dimensions = readEnv('EMBEDDING_DIMENSIONS');
+
+  return {
+    provider,
+    model: readEnv('EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODELS[provider],
+    dimensions: dimensions ? readNumberEnv('EMBEDDING_DIMENSIONS', 0) : undefined,
+    apiKey: resolveApiKey(provider, 'EMBEDDING_API_KEY'),
+    baseURL: resolveBaseURL(provider, 'EMBEDDING_BASE_URL'),
+  };
+}
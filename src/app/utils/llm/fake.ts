@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import type {
+  ChatCompletionMessage,
+  ChatProvider,
+  CompletionOptions,
+  CompletionResult,
+  CompletionStreamChunk,
+  EmbeddingProvider,
+} from './types';
+
+const FAKE_EMBEDDING_DIMENSIONS = 1536;
+
+// Deterministic reply so tests and local runs can assert on exact output
+function buildFakeReply(messages: ChatCompletionMessage[]): string {
+  const question = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+  return process.env.FAKE_LLM_REPLY || `Sequence3 helps you answer: ${question.trim()}`;
+}
+
+function completeFake(messages: ChatCompletionMessage[], options: CompletionOptions): CompletionResult {
+  const words = buildFakeReply(messages).split(' ');
+  const truncated = words.length > options.maxTokens;
+  return {
+    text: words.slice(0, options.maxTokens).join(' '),
+    finishReason: truncated ? 'length' : 'stop',
+    usage: { promptTokens: 0, completionTokens: Math.min(words.length, options.maxTokens) },
+  };
+}
+
+export function createFakeChatProvider(): ChatProvider {
+  return {
+    name: 'fake',
+
+    async complete(messages: ChatCompletionMessage[], options: CompletionOptions): Promise<CompletionResult> {
+      return completeFake(messages, options);
+    },
+
+    async *stream(messages: ChatCompletionMessage[], options: CompletionOptions): AsyncIterable<CompletionStreamChunk> {
+      const { text, finishReason, usage } = completeFake(messages, options);
+      const words = text.split(' ');
+
+      for (let i = 0; i < words.length; i++) {
+        options.signal?.throwIfAborted();
+        yield { text: i === 0 ? words[i] : ` ${words[i]}` };
+      }
+      yield { finishReason, usage };
+    },
+  };
+}
+
+// Hashes each word into a bucket of a fixed-size vector, so texts sharing
+// words get a positive cosine similarity without calling any API
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  for (const word of words) {
+    const digest = createHash('sha256').update(word).digest();
+    const bucket = digest.readUInt32BE(0) % dimensions;
+    vector[bucket] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+export function createFakeEmbeddingProvider(model: string, dimensions?: number): EmbeddingProvider {
+  return {
+    name: 'fake',
+    model,
+
+    async embed(inputs: string[]): Promise<number[][]> {
+      return inputs.map((input) => embedText(input, dimensions || FAKE_EMBEDDING_DIMENSIONS));
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import { GoogleGenerativeAI, type Content } from '@google/generative-ai';
+import type {
+  ChatCompletionMessage,
+  ChatProvider,
+  CompletionOptions,
+  CompletionResult,
+  CompletionStreamChunk,
+  EmbeddingProvider,
+  TokenUsage,
+} from './types';
+
+// Map Gemini finish reasons onto the OpenAI names the chat route checks for
+function normalizeFinishReason(reason: string | undefined): string | null {
+  switch (reason) {
+    case undefined:
+      return null;
+    case 'STOP':
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    default:
+      return reason.toLowerCase();
+  }
+}
+
+function toUsage(metadata?: { promptTokenCount: number; candidatesTokenCount: number }): TokenUsage | undefined {
+  return metadata
+    ? { promptTokens: metadata.promptTokenCount, completionTokens: metadata.candidatesTokenCount }
+    : undefined;
+}
+
+// Gemini takes the system prompt separately and calls the assistant role "model"
+function toGeminiRequest(messages: ChatCompletionMessage[]) {
+  const systemInstruction = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+
+  const contents: Content[] = messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: m.content }],
+    }));
+
+  return { systemInstruction: systemInstruction || undefined, contents };
+}
+
+export function createGeminiChatProvider(apiKey: string): ChatProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const getModel = (messages: ChatCompletionMessage[], options: CompletionOptions) => {
+    const { systemInstruction, contents } = toGeminiRequest(messages);
+    const model = genAI.getGenerativeModel({
+      model: options.model,
+      systemInstruction,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxTokens,
+      },
+    });
+    return { model, contents };
+  };
+
+  return {
+    name: 'gemini',
+
+    async complete(messages: ChatCompletionMessage[], options: CompletionOptions): Promise<CompletionResult> {
+      const { model, contents } = getModel(messages, options);
+      const result = await model.generateContent({ contents }, { signal: options.signal });
+
+      return {
+        text: result.response.text().trim(),
+        finishReason: normalizeFinishReason(result.response.candidates?.[0]?.finishReason),
+        usage: toUsage(result.response.usageMetadata),
+      };
+    },
+
+    async *stream(messages: ChatCompletionMessage[], options: CompletionOptions): AsyncIterable<CompletionStreamChunk> {
+      const { model, contents } = getModel(messages, options);
+      const result = await model.generateContentStream({ contents }, { signal: options.signal });
+
+      for await (const chunk of result.stream) {
+        yield {
+          text: chunk.text() || undefined,
+          finishReason: normalizeFinishReason(chunk.candidates?.[0]?.finishReason) ?? undefined,
+          usage: toUsage(chunk.usageMetadata),
+        };
+      }
+    },
+  };
+}
+
+export function createGeminiEmbeddingProvider(apiKey: string, model: string): EmbeddingProvider {
+  const embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+
+  return {
+    name: 'gemini',
+    model,
+
+    async embed(inputs: string[]): Promise<number[][]> {
+      const response = await embeddingModel.batchEmbedContents({
+        requests: inputs.map((text) => ({
+          content: { role: 'user', parts: [{ text }] },
+        })),
+      });
+      return response.embeddings.map((embedding) => embedding.values);
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { getChatModelConfig, getEmbeddingModelConfig } from './config';
+import type { ChatModelConfig, EmbeddingModelConfig } from './config';
+import { createOpenAIChatProvider, createOpenAIEmbeddingProvider } from './openai';
+import { createGeminiChatProvider, createGeminiEmbeddingProvider } from './gemini';
+import { createFakeChatProvider, createFakeEmbeddingProvider } from './fake';
+import type { ChatProvider, EmbeddingProvider } from './types';
+
+export * from './types';
+export { getChatModelConfig, getEmbeddingModelConfig };
+export type { ChatModelConfig, EmbeddingModelConfig, ProviderName } from './config';
+
+// Providers are cached per configuration (singleton pattern), and rebuilt if
+// the environment changes, e.g. when a script loads .env after import
+let chatProvider: { key: string; provider: ChatProvider } | null = null;
+let embeddingProvider: { key: string; provider: EmbeddingProvider } | null = null;
+
+function createChatProvider(config: ChatModelConfig): ChatProvider {
+  switch (config.provider) {
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIChatProvider(config.provider, { apiKey: config.apiKey, baseURL: config.baseURL });
+    case 'gemini':
+      return createGeminiChatProvider(config.apiKey);
+    case 'fake':
+      return createFakeChatProvider();
+  }
+}
+
+function createEmbeddingProvider(config: EmbeddingModelConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIEmbeddingProvider(
+        config.provider,
+        config.model,
+        { apiKey: config.apiKey, baseURL: config.baseURL },
+        config.dimensions
+      );
+    case 'gemini':
+      return createGeminiEmbeddingProvider(config.apiKey, config.model);
+    case 'fake':
+      return createFakeEmbeddingProvider(config.model, config.dimensions);
+  }
+}
+
+// Throws ProviderConfigError when the configured provider lacks credentials
+export function getChatProvider(config: ChatModelConfig = getChatModelConfig()): ChatProvider {
+  const key = `${config.provider}|${config.baseURL ?? ''}|${config.apiKey}`;
+  if (chatProvider?.key !== key) {
+    chatProvider = { key, provider: createChatProvider(config) };
+  }
+  return chatProvider.provider;
+}
+
+export function getEmbeddingProvider(config: EmbeddingModelConfig = getEmbeddingModelConfig()): EmbeddingProvider {
+  const key = `${config.provider}|${config.model}|${config.dimensions ?? ''}|${config.baseURL ?? ''}|${config.apiKey}`;
+  if (embeddingProvider?.key !== key) {
+    embeddingProvider = { key, provider: createEmbeddingProvider(config) };
+  }
+  return embeddingProvider.provider;
+}
@@ -0,0 +1,103 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletionMessage,
+  ChatProvider,
+  CompletionOptions,
+  CompletionResult,
+  CompletionStreamChunk,
+  EmbeddingProvider,
+} from './types';
+
+type OpenAIClientOptions = {
+  apiKey: string;
+  baseURL?: string;
+};
+
+// Serves both api.openai.com and OpenAI-compatible servers (Ollama, LM Studio, vLLM)
+export function createOpenAIChatProvider(
+  name: string,
+  clientOptions: OpenAIClientOptions
+): ChatProvider {
+  const client = new OpenAI(clientOptions);
+  // Usage reporting on streams is an OpenAI extension that local servers may reject
+  const includeStreamUsage = name === 'openai';
+
+  return {
+    name,
+
+    async complete(messages: ChatCompletionMessage[], options: CompletionOptions): Promise<CompletionResult> {
+      const completion = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+        },
+        { signal: options.signal }
+      );
+
+      const choice = completion.choices[0];
+      return {
+        text: choice?.message?.content?.trim() || '',
+        finishReason: choice?.finish_reason ?? null,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(messages: ChatCompletionMessage[], options: CompletionOptions): AsyncIterable<CompletionStreamChunk> {
+      const completion = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          stream: true,
+          ...(includeStreamUsage ? { stream_options: { include_usage: true } } : {}),
+        },
+        { signal: options.signal }
+      );
+
+      for await (const chunk of completion) {
+        const choice = chunk.choices[0];
+        yield {
+          text: choice?.delta?.content || undefined,
+          finishReason: choice?.finish_reason ?? undefined,
+          usage: chunk.usage
+            ? {
+                promptTokens: chunk.usage.prompt_tokens,
+                completionTokens: chunk.usage.completion_tokens,
+              }
+            : undefined,
+        };
+      }
+    },
+  };
+}
+
+export function createOpenAIEmbeddingProvider(
+  name: string,
+  model: string,
+  clientOptions: OpenAIClientOptions,
+  dimensions?: number
+): EmbeddingProvider {
+  const client = new OpenAI(clientOptions);
+
+  return {
+    name,
+    model,
+
+    async embed(inputs: string[]): Promise<number[][]> {
+      const response = await client.embeddings.create({
+        model,
+        input: inputs,
+        ...(dimensions ? { dimensions } : {}),
+      });
+      return response.data.map((item) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,51 @@
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export type ChatCompletionMessage = {
+  role: ChatRole;
+  content: string;
+};
+
+export type CompletionOptions = {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// Finish reasons are normalized to OpenAI's vocabulary ('stop', 'length', ...)
+export type CompletionResult = {
+  text: string;
+  finishReason: string | null;
+  usage?: TokenUsage;
+};
+
+export type CompletionStreamChunk = {
+  text?: string;
+  finishReason?: string | null;
+  usage?: TokenUsage;
+};
+
+export interface ChatProvider {
+  readonly name: string;
+  complete(messages: ChatCompletionMessage[], options: CompletionOptions): Promise<CompletionResult>;
+  stream(messages: ChatCompletionMessage[], options: CompletionOptions): AsyncIterable<CompletionStreamChunk>;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+// Thrown when the configured provider is missing credentials or is unknown
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { DBPost } from '@/features/blog/data/supabase-posts';
+import type { PostRevision, PostRevisionSummary, RevisionReason, SaveKind } from '@/lib/post-policy';
+
+// Snapshots in `post_revisions`, taken by the posts service after saves and
+// publishes. The editor autosaves every few seconds, so autosaves only leave
+// a revision every so often, or when they change a lot at once; the state
+// they replace is kept too then, so a bad paste can't wipe a post.
+
+// Autosaves leave at most one revision this often...
+const AUTOSAVE_REVISION_INTERVAL_MS = 10 * 60 * 1000;
+// ...unless they change at least this many characters of the content
+const LARGE_CHANGE_CHARS = 500;
+
+// Revisions listed in the editor, newest first
+const REVISIONS_LISTED = 100;
+
+const SUMMARY_COLUMNS = 'id, post_id, title, is_published, reason, created_by, created_at';
+const REVISION_COLUMNS = `${SUMMARY_COLUMNS}, slug, content, excerpt, cover_image`;
+
+export type PostSnapshot = Pick<DBPost, 'id' | 'title' | 'slug' | 'content' | 'excerpt' | 'cover_image' | 'is_published'>;
+
+type RevisionSnapshot = Pick<PostRevision, 'title' | 'slug' | 'content' | 'excerpt' | 'cover_image' | 'is_published'>;
+
+function isSameSnapshot(revision: RevisionSnapshot, post: RevisionSnapshot): boolean {
+  return (
+    revision.title === post.title &&
+    revision.slug === post.slug &&
+    revision.content === post.content &&
+    (revision.excerpt || null) === (post.excerpt || null) &&
+    (revision.cover_image || null) === (post.cover_image || null) &&
+    revision.is_published === post.is_published
+  );
+}
+
+// Characters between the common prefix and suffix of two texts: a cheap
+// upper bound on how much an edit changed
+function countChangedChars(before: string, after: string): number {
+  const shorter = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < shorter && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return Math.max(before.length, after.length) - prefix - suffix;
+}
+
+async function getLatestRevision(client: SupabaseClient, postId: string): Promise<PostRevision | null> {
+  const { data, error } = await client
+    .from('post_revisions')
+    .select(REVISION_COLUMNS)
+    .eq('post_id', postId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load latest revision: ${error.message}`);
+  return data;
+}
+
+export async function recordRevision(
+  client: SupabaseClient,
+  post: PostSnapshot,
+  reason: RevisionReason
+): Promise<void> {
+  const { error } = await client.from('post_revisions').insert({
+    post_id: post.id,
+    title: post.title,
+    slug: post.slug,
+    content: post.content,
+    excerpt: post.excerpt,
+    cover_image: post.cover_image,
+    is_published: post.is_published,
+    reason,
+  });
+  if (error) throw new Error(`Failed to record revision: ${error.message}`);
+}
+
+// Snapshot a post after it was saved. `previous` is the row as it was before
+// the save, or null for a new post. Nothing is recorded when the latest
+// revision already matches.
+export async function recordSaveRevisions(
+  client: SupabaseClient,
+  previous: PostSnapshot | null,
+  saved: PostSnapshot,
+  kind: SaveKind
+): Promise<void> {
+  const latest = await getLatestRevision(client, saved.id);
+
+  let reason: RevisionReason;
+  if (kind === 'save') {
+    reason = 'save';
+  } else {
+    const isLargeChange = !!previous && countChangedChars(previous.content, saved.content) >= LARGE_CHANGE_CHARS;
+    if (isLargeChange && previous && !(latest && isSameSnapshot(latest, previous))) {
+      await recordRevision(client, previous, 'autosave');
+    }
+
+    const isDue = !latest || Date.now() - new Date(latest.created_at).getTime() >= AUTOSAVE_REVISION_INTERVAL_MS;
+    if (!isDue && !isLargeChange) return;
+    reason = 'autosave';
+  }
+
+  if (latest && isSameSnapshot(latest, saved)) return;
+  await recordRevision(client, saved, reason);
+}
+
+// Keep the current state of a post before it's overwritten by a restore,
+// unless the latest revision already has it
+export async function recordRevisionBeforeRestore(client: SupabaseClient, current: PostSnapshot): Promise<void> {
+  const latest = await getLatestRevision(client, current.id);
+  if (latest && isSameSnapshot(latest, current)) return;
+  await recordRevision(client, current, 'save');
+}
+
+export async function listRevisions(client: SupabaseClient, postId: string): Promise<PostRevisionSummary[]> {
+  const { data, error } = await client
+    .from('post_revisions')
+    .select(SUMMARY_COLUMNS)
+    .eq('post_id', postId)
+    .order('created_at', { ascending: false })
+    .limit(REVISIONS_LISTED);
+
+  if (error) throw new Error(`Failed to list revisions: ${error.message}`);
+  return data || [];
+}
+
+export async function getRevision(
+  client: SupabaseClient,
+  postId: string,
+  revisionId: string
+): Promise<PostRevision | null> {
+  const { data, error } = await client
+    .from('post_revisions')
+    .select(REVISION_COLUMNS)
+    .eq('id', revisionId)
+    .eq('post_id', postId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load revision: ${error.message}`);
+  return data;
+}
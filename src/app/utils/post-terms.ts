@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { PostTerm } from '@/lib/post-policy';
+
+// Categories and tags, used by the posts service. Terms are matched by slug
+// and created the first time a post uses them. A draft's terms are in
+// `posts.category_id` and `post_tags`; publishing copies them to
+// `published_posts.category_id` and `published_post_tags`.
+
+type TermTable = 'categories' | 'tags';
+
+// Ids of the terms by slug, creating the missing ones. An existing term keeps
+// the name it was created with.
+async function ensureTerms(client: SupabaseClient, table: TermTable, terms: PostTerm[]): Promise<Map<string, string>> {
+  if (terms.length === 0) return new Map();
+
+  const { error } = await client.from(table).upsert(terms, { onConflict: 'slug', ignoreDuplicates: true });
+  if (error) throw new Error(`Failed to save ${table}: ${error.message}`);
+
+  const { data, error: loadError } = await client
+    .from(table)
+    .select('id, slug')
+    .in('slug', terms.map((term) => term.slug));
+  if (loadError) throw new Error(`Failed to load ${table}: ${loadError.message}`);
+  return new Map((data || []).map((row) => [row.slug as string, row.id as string]));
+}
+
+export async function resolveCategoryId(client: SupabaseClient, category: PostTerm | null): Promise<string | null> {
+  if (!category) return null;
+  const ids = await ensureTerms(client, 'categories', [category]);
+  return ids.get(category.slug) ?? null;
+}
+
+// Replace a draft's tags
+export async function setDraftTags(client: SupabaseClient, postId: string, tags: PostTerm[]): Promise<void> {
+  const tagIds = [...(await ensureTerms(client, 'tags', tags)).values()];
+
+  let stale = client.from('post_tags').delete().eq('post_id', postId);
+  if (tagIds.length > 0) stale = stale.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  const { error } = await stale;
+  if (error) throw new Error(`Failed to update post tags: ${error.message}`);
+
+  if (tagIds.length > 0) {
+    const { error: insertError } = await client
+      .from('post_tags')
+      .upsert(tagIds.map((tagId) => ({ post_id: postId, tag_id: tagId })), { ignoreDuplicates: true });
+    if (insertError) throw new Error(`Failed to update post tags: ${insertError.message}`);
+  }
+}
+
+// Give a post's live version the tags of its draft. The live row has to
+// exist already.
+export async function publishDraftTags(client: SupabaseClient, postId: string): Promise<void> {
+  const { data: draftTags, error } = await client.from('post_tags').select('tag_id').eq('post_id', postId);
+  if (error) throw new Error(`Failed to load post tags: ${error.message}`);
+
+  const { error: deleteError } = await client.from('published_post_tags').delete().eq('post_id', postId);
+  if (deleteError) throw new Error(`Failed to publish post tags: ${deleteError.message}`);
+
+  if (draftTags && draftTags.length > 0) {
+    const { error: insertError } = await client
+      .from('published_post_tags')
+      .insert(draftTags.map((row) => ({ post_id: postId, tag_id: row.tag_id })));
+    if (insertError) throw new Error(`Failed to publish post tags: ${insertError.message}`);
+  }
+}
+
+// Every category and tag, for the editor's suggestions
+export async function listTerms(client: SupabaseClient): Promise<{ categories: PostTerm[]; tags: PostTerm[] }> {
+  const [categories, tags] = await Promise.all([
+    client.from('categories').select('slug, name').order('name'),
+    client.from('tags').select('slug, name').order('name'),
+  ]);
+  const error = categories.error || tags.error;
+  if (error) throw new Error(`Failed to list categories and tags: ${error.message}`);
+  return { categories: categories.data || [], tags: tags.data || [] };
+}
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { POST_LIMITS } from '@/lib/post-policy';
+import { PostServiceError, validatePostInput, validatePublishSchedule } from './posts';
+
+const VALID = { title: 'Hello', content: 'Body', excerpt: '', coverImage: '' };
+
+function errorOf(run: () => unknown) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PostServiceError);
+    return (error as PostServiceError).error;
+  }
+  throw new Error('Expected a PostServiceError');
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('validatePostInput', () => {
+  it('trims and converts editor input to a row', () => {
+    expect(validatePostInput({
+      title: '  Hello  ',
+      slug: ' Hello World! ',
+      content: '  keeps whitespace  ',
+      excerpt: ' Short ',
+      coverImage: ' https://cdn.example.com/uploads/a.jpg ',
+      isPinned: true,
+    })).toEqual({
+      title: 'Hello',
+      slug: 'hello-world',
+      content: '  keeps whitespace  ',
+      excerpt: 'Short',
+      cover_image: 'https://cdn.example.com/uploads/a.jpg',
+      is_pinned: true,
+    });
+  });
+
+  it('leaves the slug to the service and optional fields out when not given', () => {
+    expect(validatePostInput({ title: 'Hello' })).toEqual({
+      title: 'Hello',
+      slug: null,
+      content: '',
+      excerpt: null,
+      cover_image: null,
+    });
+  });
+
+  it('rejects input that is not an object or has fields of the wrong type', () => {
+    expect(errorOf(() => validatePostInput(null)).code).toBe('invalid_input');
+    expect(errorOf(() => validatePostInput('post')).code).toBe('invalid_input');
+    expect(errorOf(() => validatePostInput({ ...VALID, content: 42 })).code).toBe('invalid_input');
+    expect(errorOf(() => validatePostInput({ ...VALID, isPinned: 'yes' })).code).toBe('invalid_input');
+  });
+
+  it('requires a title within the limit', () => {
+    expect(errorOf(() => validatePostInput({ ...VALID, title: '   ' }))).toMatchObject({
+      code: 'title_required',
+      field: 'title',
+    });
+    expect(errorOf(() => validatePostInput({ ...VALID, title: 'x'.repeat(POST_LIMITS.title + 1) })).code)
+      .toBe('title_too_long');
+  });
+
+  it('rejects a typed slug without letters or digits', () => {
+    expect(errorOf(() => validatePostInput({ ...VALID, slug: '!!!' }))).toMatchObject({
+      code: 'slug_invalid',
+      field: 'slug',
+    });
+  });
+
+  it('enforces the excerpt and content limits', () => {
+    expect(errorOf(() => validatePostInput({ ...VALID, excerpt: 'x'.repeat(POST_LIMITS.excerpt + 1) })).code)
+      .toBe('excerpt_too_long');
+    expect(errorOf(() => validatePostInput({ ...VALID, content: 'x'.repeat(POST_LIMITS.content + 1) })).code)
+      .toBe('content_too_long');
+  });
+
+  it('only accepts http(s) cover images', () => {
+    for (const coverImage of ['javascript:alert(1)', 'data:image/png;base64,AAAA', '/uploads/a.jpg', 'not a url']) {
+      expect(errorOf(() => validatePostInput({ ...VALID, coverImage })).code).toBe('cover_image_invalid');
+    }
+    expect(validatePostInput({ ...VALID, coverImage: 'http://example.com/a.jpg' }).cover_image)
+      .toBe('http://example.com/a.jpg');
+  });
+
+  it('reads the category and tags when given, merging tags with the same slug', () => {
+    expect(validatePostInput({ ...VALID, category: ' Guides ', tags: ['Next.js', 'next js', ' ', 'React'] }))
+      .toMatchObject({
+        category: { slug: 'guides', name: 'Guides' },
+        tags: [{ slug: 'next-js', name: 'Next.js' }, { slug: 'react', name: 'React' }],
+      });
+    expect(validatePostInput({ ...VALID, category: '' }).category).toBeNull();
+  });
+
+  it('rejects invalid categories and too many tags', () => {
+    expect(errorOf(() => validatePostInput({ ...VALID, category: '???' })).code).toBe('category_invalid');
+    expect(errorOf(() => validatePostInput({ ...VALID, tags: 'react' })).code).toBe('invalid_input');
+
+    const tags = Array.from({ length: POST_LIMITS.tags + 1 }, (_, i) => `tag ${i}`);
+    expect(errorOf(() => validatePostInput({ ...VALID, tags })).code).toBe('tags_invalid');
+  });
+});
+
+describe('validatePublishSchedule', () => {
+  it('publishes right away without a schedule', () => {
+    expect(validatePublishSchedule(null)).toEqual({ publish_at: null, unpublish_at: null });
+    expect(validatePublishSchedule({ publishAt: '', unpublishAt: null })).toEqual({
+      publish_at: null,
+      unpublish_at: null,
+    });
+  });
+
+  it('normalizes timestamps to ISO', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(validatePublishSchedule({
+      publishAt: '2026-01-02T09:00:00+02:00',
+      unpublishAt: '2026-02-01T00:00:00Z',
+    })).toEqual({ publish_at: '2026-01-02T07:00:00.000Z', unpublish_at: '2026-02-01T00:00:00.000Z' });
+  });
+
+  it('rejects unreadable timestamps and unpublish times that leave no time up', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(errorOf(() => validatePublishSchedule({ publishAt: 'tomorrow' })).code).toBe('schedule_invalid');
+    expect(errorOf(() => validatePublishSchedule({ unpublishAt: '2025-12-31T00:00:00Z' })).code)
+      .toBe('schedule_invalid');
+    expect(errorOf(() => validatePublishSchedule({
+      publishAt: '2026-01-05T00:00:00Z',
+      unpublishAt: '2026-01-04T00:00:00Z',
+    })).code).toBe('schedule_invalid');
+    expect(errorOf(() => validatePublishSchedule('soon')).code).toBe('invalid_input');
+  });
+});
@@ -0,0 +1,547 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { DBPost } from '@/features/blog/data/supabase-posts';
+import {
+  getRevision,
+  recordRevision,
+  recordRevisionBeforeRestore,
+  recordSaveRevisions,
+  type PostSnapshot,
+} from '@/app/utils/post-revisions';
+import { publishDraftTags, resolveCategoryId, setDraftTags } from '@/app/utils/post-terms';
+import {
+  POST_LIMITS,
+  hasUnpublishedChanges,
+  normalizeSlug,
+  postError,
+  suggestSlugs,
+  toPostTerm,
+  type PostError,
+  type PostErrorCode,
+  type PostField,
+  type PostTerm,
+  type PublishSchedule,
+  type PublishedVersion,
+  type SaveKind,
+} from '@/lib/post-policy';
+
+// Server-side persistence for posts, used by the dashboard's server actions.
+// Every write is validated and normalized here; the client passed in decides
+// whose permissions apply, normally the signed-in user's via RLS.
+//
+// A post is a draft in `posts`, which the editor saves and autosaves into,
+// and, once published, a live copy in `published_posts`, which is all the
+// blog reads. Publishing copies the draft over the live copy. A live copy
+// can be scheduled: readers only see it between publish_at and unpublish_at,
+// and `posts.is_published` says whether they can right now.
+
+export type PostSummary = Pick<
+  DBPost,
+  'id' | 'title' | 'slug' | 'is_published' | 'is_pinned' | 'created_at' | 'cover_image'
+> & {
+  has_unpublished_changes: boolean;
+  publish_at: string | null;
+  unpublish_at: string | null;
+};
+
+// A draft with its category and tags, and its live version if it has one
+export type EditablePost = DBPost & {
+  category: PostTerm | null;
+  tags: PostTerm[];
+  published: PublishedVersion | null;
+};
+
+const POST_COLUMNS =
+  'id, title, slug, content, excerpt, cover_image, category_id, is_published, is_pinned, created_at, updated_at';
+const EDITABLE_COLUMNS = `${POST_COLUMNS}, category:categories(slug, name), tags:post_tags(tag:tags(slug, name)), published:published_posts(slug, published_at, updated_at, publish_at, unpublish_at)`;
+const SUMMARY_COLUMNS =
+  'id, title, slug, is_published, is_pinned, created_at, cover_image, updated_at, published:published_posts(updated_at, publish_at, unpublish_at)';
+
+// Postgres unique_violation, raised when two saves race for the same slug
+const UNIQUE_VIOLATION = '23505';
+
+export class PostServiceError extends Error {
+  readonly error: PostError;
+
+  constructor(code: PostErrorCode, extra: Omit<PostError, 'code' | 'message'> = {}) {
+    const error = postError(code, extra);
+    super(error.message);
+    this.name = 'PostServiceError';
+    this.error = error;
+  }
+}
+
+// A post as written to the table. A null slug is derived from the title.
+// The category and tags are stored apart, and left alone when undefined.
+type ValidatedPost = {
+  title: string;
+  slug: string | null;
+  content: string;
+  excerpt: string | null;
+  cover_image: string | null;
+  is_pinned?: boolean;
+  category?: PostTerm | null;
+  tags?: PostTerm[];
+};
+
+function readText(raw: Record<string, unknown>, name: string): string {
+  const value = raw[name];
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') throw new PostServiceError('invalid_input');
+  return value;
+}
+
+function checkLength(value: string, field: PostField, code: PostErrorCode) {
+  if (value.length > POST_LIMITS[field]) throw new PostServiceError(code, { field });
+}
+
+function readCategory(raw: Record<string, unknown>): PostTerm | null | undefined {
+  if (raw.category === undefined) return undefined;
+  const name = readText(raw, 'category');
+  if (!name.trim()) return null;
+
+  const category = toPostTerm(name);
+  if (!category || category.name.length > POST_LIMITS.category) {
+    throw new PostServiceError('category_invalid', { field: 'category' });
+  }
+  return category;
+}
+
+function readTags(raw: Record<string, unknown>): PostTerm[] | undefined {
+  if (raw.tags === undefined) return undefined;
+  if (!Array.isArray(raw.tags) || raw.tags.some((tag) => typeof tag !== 'string')) {
+    throw new PostServiceError('invalid_input');
+  }
+
+  // Names that make the same slug are one tag
+  const tags = new Map<string, PostTerm>();
+  for (const name of raw.tags as string[]) {
+    if (!name.trim()) continue;
+    const tag = toPostTerm(name);
+    if (!tag || tag.name.length > POST_LIMITS.tag) throw new PostServiceError('tags_invalid', { field: 'tags' });
+    if (!tags.has(tag.slug)) tags.set(tag.slug, tag);
+  }
+  if (tags.size > POST_LIMITS.tags) throw new PostServiceError('tags_invalid', { field: 'tags' });
+  return [...tags.values()];
+}
+
+// Check untrusted editor input (see PostInput) and convert it to a row
+export function validatePostInput(input: unknown): ValidatedPost {
+  if (!input || typeof input !== 'object') throw new PostServiceError('invalid_input');
+  const raw = input as Record<string, unknown>;
+
+  const title = readText(raw, 'title').trim();
+  if (!title) throw new PostServiceError('title_required', { field: 'title' });
+  checkLength(title, 'title', 'title_too_long');
+
+  const requestedSlug = readText(raw, 'slug').trim();
+  const slug = requestedSlug ? normalizeSlug(requestedSlug) : null;
+  if (slug === '') throw new PostServiceError('slug_invalid', { field: 'slug' });
+
+  const excerpt = readText(raw, 'excerpt').trim();
+  checkLength(excerpt, 'excerpt', 'excerpt_too_long');
+
+  const content = readText(raw, 'content');
+  checkLength(content, 'content', 'content_too_long');
+
+  const coverImage = readText(raw, 'coverImage').trim();
+  if (coverImage) {
+    checkLength(coverImage, 'coverImage', 'cover_image_invalid');
+    let protocol = '';
+    try {
+      protocol = new URL(coverImage).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      throw new PostServiceError('cover_image_invalid', { field: 'coverImage' });
+    }
+  }
+
+  const category = readCategory(raw);
+  const tags = readTags(raw);
+
+  if (raw.isPinned !== undefined && typeof raw.isPinned !== 'boolean') throw new PostServiceError('invalid_input');
+
+  return {
+    title,
+    slug,
+    content,
+    excerpt: excerpt || null,
+    cover_image: coverImage || null,
+    ...(raw.isPinned !== undefined && { is_pinned: raw.isPinned }),
+    ...(category !== undefined && { category }),
+    ...(tags !== undefined && { tags }),
+  };
+}
+
+function readTimestamp(raw: Record<string, unknown>, name: string): string | null {
+  const value = raw[name];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) throw new PostServiceError('schedule_invalid');
+  return new Date(value).toISOString();
+}
+
+// Check an untrusted PublishSchedule. A publish time in the past just means
+// now; an unpublish time has to leave the post some time up.
+export function validatePublishSchedule(input: unknown): { publish_at: string | null; unpublish_at: string | null } {
+  if (input === undefined || input === null) return { publish_at: null, unpublish_at: null };
+  if (typeof input !== 'object') throw new PostServiceError('invalid_input');
+  const raw = input as Record<string, unknown>;
+
+  const publishAt = readTimestamp(raw, 'publishAt');
+  const unpublishAt = readTimestamp(raw, 'unpublishAt');
+  if (unpublishAt) {
+    const start = Math.max(Date.now(), publishAt ? Date.parse(publishAt) : 0);
+    if (Date.parse(unpublishAt) <= start) throw new PostServiceError('schedule_invalid');
+  }
+  return { publish_at: publishAt, unpublish_at: unpublishAt };
+}
+
+// Whether readers can see a live version with this schedule at the moment
+function isInPublishingWindow(schedule: { publish_at: string | null; unpublish_at: string | null }): boolean {
+  const now = Date.now();
+  return (
+    (!schedule.publish_at || Date.parse(schedule.publish_at) <= now) &&
+    (!schedule.unpublish_at || Date.parse(schedule.unpublish_at) > now)
+  );
+}
+
+// Slugs of other posts starting with `base`, which covers every suggestion.
+// A live version keeps its slug until the next publish, so those count too.
+async function getTakenSlugs(client: SupabaseClient, base: string, excludeId?: string): Promise<Set<string>> {
+  // Slugs only contain [a-z0-9-], so nothing in `base` needs escaping for LIKE
+  let drafts = client.from('posts').select('slug').like('slug', `${base}%`);
+  let live = client.from('published_posts').select('slug').like('slug', `${base}%`);
+  if (excludeId) {
+    drafts = drafts.neq('id', excludeId);
+    live = live.neq('post_id', excludeId);
+  }
+
+  const [draftSlugs, liveSlugs] = await Promise.all([drafts, live]);
+  const error = draftSlugs.error || liveSlugs.error;
+  if (error) throw new Error(`Failed to look up slugs: ${error.message}`);
+  return new Set([...(draftSlugs.data || []), ...(liveSlugs.data || [])].map((row) => row.slug as string));
+}
+
+// The slug to save. A requested slug is used as is or refused with
+// suggestions; one derived from the title gets the first free suffix.
+async function resolveSlug(
+  client: SupabaseClient,
+  requested: string | null,
+  title: string,
+  excludeId?: string
+): Promise<string> {
+  const base = requested ?? (normalizeSlug(title) || 'post');
+  const taken = await getTakenSlugs(client, base, excludeId);
+  if (!taken.has(base)) return base;
+
+  if (requested) {
+    throw new PostServiceError('slug_taken', { field: 'slug', suggestions: suggestSlugs(base, taken) });
+  }
+  return suggestSlugs(base, taken)[0];
+}
+
+async function slugTakenError(client: SupabaseClient, slug: string, excludeId?: string): Promise<PostServiceError> {
+  const taken = await getTakenSlugs(client, slug, excludeId);
+  return new PostServiceError('slug_taken', { field: 'slug', suggestions: suggestSlugs(slug, taken) });
+}
+
+// Revisions are a safety net: failing to record one doesn't fail the save
+async function snapshotSave(client: SupabaseClient, previous: PostSnapshot | null, saved: DBPost, kind: SaveKind) {
+  try {
+    await recordSaveRevisions(client, previous, saved, kind);
+  } catch (error) {
+    console.error('Failed to record post revision:', { postId: saved.id, error });
+  }
+}
+
+async function getPostById(client: SupabaseClient, postId: string): Promise<DBPost> {
+  const { data, error } = await client.from('posts').select(POST_COLUMNS).eq('id', postId).maybeSingle();
+
+  if (error) throw new Error(`Failed to load post: ${error.message}`);
+  if (!data) throw new PostServiceError('not_found');
+  return data;
+}
+
+// A to-one embed of a draft row, like its live version or category. Older
+// PostgREST versions return those as an array too.
+function getEmbeddedOne<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+async function getEditablePost(client: SupabaseClient, column: 'id' | 'slug', value: string): Promise<EditablePost> {
+  const { data, error } = await client.from('posts').select(EDITABLE_COLUMNS).eq(column, value).maybeSingle();
+
+  if (error) throw new Error(`Failed to load post: ${error.message}`);
+  if (!data) throw new PostServiceError('not_found');
+  return {
+    ...data,
+    category: getEmbeddedOne<PostTerm>(data.category),
+    tags: (data.tags || [])
+      .map((row: { tag: PostTerm | PostTerm[] | null }) => getEmbeddedOne(row.tag))
+      .filter((tag: PostTerm | null): tag is PostTerm => !!tag),
+    published: getEmbeddedOne<PublishedVersion>(data.published),
+  };
+}
+
+// For the dashboard's post list: pinned first, then newest
+export async function listPosts(client: SupabaseClient): Promise<PostSummary[]> {
+  const { data, error } = await client
+    .from('posts')
+    .select(SUMMARY_COLUMNS)
+    .order('is_pinned', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to list posts: ${error.message}`);
+  return (data || []).map(({ updated_at, published, ...post }) => {
+    const live = getEmbeddedOne(published);
+    return {
+      ...post,
+      has_unpublished_changes: hasUnpublishedChanges(updated_at, live),
+      publish_at: live?.publish_at ?? null,
+      unpublish_at: live?.unpublish_at ?? null,
+    };
+  });
+}
+
+export async function getPostBySlug(client: SupabaseClient, slug: string): Promise<EditablePost> {
+  return getEditablePost(client, 'slug', slug);
+}
+
+// The category column to write for a validated post, or nothing to leave it
+async function getCategoryColumn(client: SupabaseClient, category: PostTerm | null | undefined) {
+  return category === undefined ? {} : { category_id: await resolveCategoryId(client, category) };
+}
+
+export async function createPost(client: SupabaseClient, input: unknown, kind: SaveKind = 'save'): Promise<DBPost> {
+  const { category, tags, ...post } = validatePostInput(input);
+  const slug = await resolveSlug(client, post.slug, post.title);
+
+  const { data, error } = await client
+    .from('posts')
+    .insert({ ...post, slug, ...(await getCategoryColumn(client, category)) })
+    .select(POST_COLUMNS)
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) throw await slugTakenError(client, slug);
+  if (error) throw new Error(`Failed to create post: ${error.message}`);
+  if (tags) await setDraftTags(client, data.id, tags);
+
+  await snapshotSave(client, null, data, kind);
+  return data;
+}
+
+export async function updatePost(
+  client: SupabaseClient,
+  postId: string,
+  input: unknown,
+  kind: SaveKind = 'save'
+): Promise<DBPost> {
+  const { category, tags, ...post } = validatePostInput(input);
+  const previous = await getPostById(client, postId);
+  const slug = await resolveSlug(client, post.slug, post.title, postId);
+
+  const { data, error } = await client
+    .from('posts')
+    .update({ ...post, slug, ...(await getCategoryColumn(client, category)), updated_at: new Date().toISOString() })
+    .eq('id', postId)
+    .select(POST_COLUMNS)
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) throw await slugTakenError(client, slug, postId);
+  if (error) throw new Error(`Failed to update post: ${error.message}`);
+  if (!data) throw new PostServiceError('not_found');
+  if (tags) await setDraftTags(client, postId, tags);
+
+  await snapshotSave(client, previous, data, kind);
+  return data;
+}
+
+// Put a revision's title, content, excerpt and cover back into the draft. The
+// slug, category and tags stay as they are (revisions don't record terms), and
+// the live version until the draft is published. The state being replaced is
+// kept as a revision first, so a restore can itself be undone.
+export async function restorePostRevision(client: SupabaseClient, postId: string, revisionId: string): Promise<DBPost> {
+  const revision = await getRevision(client, postId, revisionId);
+  if (!revision) throw new PostServiceError('revision_not_found');
+
+  const current = await getPostById(client, postId);
+  await recordRevisionBeforeRestore(client, current);
+
+  const { data, error } = await client
+    .from('posts')
+    .update({
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt,
+      cover_image: revision.cover_image,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .select(POST_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to restore revision: ${error.message}`);
+  if (!data) throw new PostServiceError('not_found');
+
+  await recordRevision(client, data, 'restore').catch((error) => {
+    console.error('Failed to record post revision:', { postId, error });
+  });
+  return data;
+}
+
+// Copy the draft over the live version, or make one, shown to readers as
+// `schedule` says (`PublishSchedule`, right away when empty). A post that is
+// live can't be scheduled for later. A post keeps the published_at of its
+// first publish.
+export async function publishPost(
+  client: SupabaseClient,
+  postId: string,
+  schedule: unknown = null
+): Promise<EditablePost> {
+  const publishWindow = validatePublishSchedule(schedule);
+  const draft = await getPostById(client, postId);
+
+  // There is one live version per post, so scheduling a live post for later
+  // would take the version readers see down until then
+  if (publishWindow.publish_at && Date.parse(publishWindow.publish_at) > Date.now()) {
+    const { data: live, error: liveError } = await client
+      .from('published_posts')
+      .select('publish_at, unpublish_at')
+      .eq('post_id', postId)
+      .maybeSingle();
+    if (liveError) throw new Error(`Failed to load live version: ${liveError.message}`);
+    if (live && isInPublishingWindow(live)) throw new PostServiceError('schedule_live');
+  }
+
+  // Another post may still be live under this slug after renaming its draft
+  const taken = await getTakenSlugs(client, draft.slug, postId);
+  if (taken.has(draft.slug)) {
+    throw new PostServiceError('slug_taken', { field: 'slug', suggestions: suggestSlugs(draft.slug, taken) });
+  }
+
+  const { error } = await client.from('published_posts').upsert(
+    {
+      post_id: draft.id,
+      slug: draft.slug,
+      title: draft.title,
+      content: draft.content,
+      excerpt: draft.excerpt,
+      cover_image: draft.cover_image,
+      category_id: draft.category_id,
+      is_pinned: draft.is_pinned ?? false,
+      created_at: draft.created_at,
+      updated_at: new Date().toISOString(),
+      ...publishWindow,
+    },
+    { onConflict: 'post_id' }
+  );
+
+  if (error?.code === UNIQUE_VIOLATION) throw await slugTakenError(client, draft.slug, postId);
+  if (error) throw new Error(`Failed to publish post: ${error.message}`);
+  await publishDraftTags(client, postId);
+
+  // A scheduled post goes live when the publish-scheduled cron finds it due
+  const isLive = isInPublishingWindow(publishWindow);
+  if (draft.is_published !== isLive) {
+    const { error: flagError } = await client.from('posts').update({ is_published: isLive }).eq('id', postId);
+    if (flagError) throw new Error(`Failed to publish post: ${flagError.message}`);
+  }
+
+  await recordRevision(client, { ...draft, is_published: isLive }, 'publish').catch((error) => {
+    console.error('Failed to record post revision:', { postId, error });
+  });
+  return getEditablePost(client, 'id', postId);
+}
+
+// Take the live version down. The draft stays, ready to publish again.
+export async function unpublishPost(client: SupabaseClient, postId: string): Promise<EditablePost> {
+  const { error } = await client.from('published_posts').delete().eq('post_id', postId);
+  if (error) throw new Error(`Failed to unpublish post: ${error.message}`);
+
+  const { data, error: flagError } = await client
+    .from('posts')
+    .update({ is_published: false })
+    .eq('id', postId)
+    .select('id');
+
+  if (flagError) throw new Error(`Failed to unpublish post: ${flagError.message}`);
+  if (!data?.length) throw new PostServiceError('not_found');
+  return getEditablePost(client, 'id', postId);
+}
+
+// Bring `posts.is_published` in line with the schedules of live versions:
+// posts whose publish time has come are marked live, and live versions past
+// their unpublish time are taken down. Run by the publish-scheduled cron with
+// the service role; returns the posts that changed, to sync their assets and
+// assistant knowledge.
+export async function applyPublishingSchedules(
+  client: SupabaseClient
+): Promise<{ published: Array<{ id: string; slug: string }>; unpublished: Array<{ id: string; slug: string }> }> {
+  const now = new Date().toISOString();
+
+  const { data: expired, error: expiredError } = await client
+    .from('published_posts')
+    .delete()
+    .lte('unpublish_at', now)
+    .select('id:post_id, slug');
+  if (expiredError) throw new Error(`Failed to unpublish posts: ${expiredError.message}`);
+
+  const unpublished = expired || [];
+  if (unpublished.length > 0) {
+    const { error } = await client
+      .from('posts')
+      .update({ is_published: false })
+      .in('id', unpublished.map((post) => post.id));
+    if (error) throw new Error(`Failed to unpublish posts: ${error.message}`);
+  }
+
+  // Scheduled posts are among those readers can't see yet
+  const { data: hidden, error: hiddenError } = await client.from('posts').select('id').eq('is_published', false);
+  if (hiddenError) throw new Error(`Failed to load scheduled posts: ${hiddenError.message}`);
+
+  let published: Array<{ id: string; slug: string }> = [];
+  if (hidden && hidden.length > 0) {
+    const { data: due, error: dueError } = await client
+      .from('published_posts')
+      .select('id:post_id, slug')
+      .in('post_id', hidden.map((post) => post.id))
+      .or(`publish_at.is.null,publish_at.lte.${now}`);
+    if (dueError) throw new Error(`Failed to load scheduled posts: ${dueError.message}`);
+
+    published = due || [];
+    if (published.length > 0) {
+      const { error } = await client
+        .from('posts')
+        .update({ is_published: true })
+        .in('id', published.map((post) => post.id));
+      if (error) throw new Error(`Failed to publish posts: ${error.message}`);
+    }
+  }
+
+  return { published, unpublished };
+}
+
+// Pinning applies to the draft and the live version at once; it isn't an
+// edit that waits for the next publish
+export async function setPostPinned(client: SupabaseClient, postId: string, pinned: boolean): Promise<void> {
+  const { data, error } = await client
+    .from('posts')
+    .update({ is_pinned: pinned })
+    .eq('id', postId)
+    .select('id');
+
+  if (error) throw new Error(`Failed to update post: ${error.message}`);
+  if (!data?.length) throw new PostServiceError('not_found');
+
+  const { error: liveError } = await client.from('published_posts').update({ is_pinned: pinned }).eq('post_id', postId);
+  if (liveError) throw new Error(`Failed to update post: ${liveError.message}`);
+}
+
+export async function deletePost(client: SupabaseClient, postId: string): Promise<void> {
+  const { data, error } = await client.from('posts').delete().eq('id', postId).select('id');
+
+  if (error) throw new Error(`Failed to delete post: ${error.message}`);
+  if (!data?.length) throw new PostServiceError('not_found');
+}
@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Record of what the loader last ingested into each namespace, so a re-run only
+// embeds chunks that changed and deletes the ones that disappeared.
+
+const DEFAULT_RAG_MANIFEST_PATH = '.rag-manifest.json';
+
+export type ManifestFile = {
+  // Hash of the file's raw content
+  hash: string;
+  // Signature of the chunking strategy the chunks were produced with,
+  // "<strategy>:<settings>"
+  chunking: string;
+  // Chunk id -> hash of the chunk's text and metadata
+  chunks: Record<string, string>;
+};
+
+export type ManifestNamespace = {
+  // Embedding provider and model the vectors were produced with
+  embeddingModel: string;
+  // Keyed by file path relative to the working directory
+  files: Record<string, ManifestFile>;
+};
+
+export type RagManifest = {
+  version: 1;
+  namespaces: Record<string, ManifestNamespace>;
+};
+
+export type ChunkPlan = {
+  add: string[];
+  update: string[];
+  delete: string[];
+  unchanged: string[];
+};
+
+export function getManifestPath(): string {
+  return path.resolve(process.cwd(), process.env.RAG_MANIFEST_PATH || DEFAULT_RAG_MANIFEST_PATH);
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export async function loadManifest(): Promise<RagManifest> {
+  const filePath = getManifestPath();
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as RagManifest;
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return { version: 1, namespaces: {} };
+    throw new Error(`Error reading RAG manifest ${filePath}: ${e.message || e}`);
+  }
+}
+
+export async function saveManifest(manifest: RagManifest): Promise<void> {
+  const filePath = getManifestPath();
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(manifest, null, 2));
+  await fs.promises.rename(tmpPath, filePath);
+}
+
+// Compare a file's freshly produced chunks with what the manifest recorded.
+// Chunk ids are derived from the chunk text, so an unchanged id with a new hash
+// means only the metadata changed.
+export function planChunks(previous: ManifestFile | undefined, chunks: Array<{ id: string; hash: string }>): ChunkPlan {
+  const plan: ChunkPlan = { add: [], update: [], delete: [], unchanged: [] };
+  const previousChunks = previous?.chunks || {};
+  const currentIds = new Set<string>();
+
+  for (const { id, hash } of chunks) {
+    currentIds.add(id);
+    if (!(id in previousChunks)) plan.add.push(id);
+    else if (previousChunks[id] !== hash) plan.update.push(id);
+    else plan.unchanged.push(id);
+  }
+
+  plan.delete = Object.keys(previousChunks).filter((id) => !currentIds.has(id));
+  return plan;
+}
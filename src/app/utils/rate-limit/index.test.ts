@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getClientIp, getRouteRateLimit, rateLimit } from '.';
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest('https://example.com/api/chat', { headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getRouteRateLimit', () => {
+  it('uses the defaults without overrides', () => {
+    expect(getRouteRateLimit('chat')).toEqual({
+      ip: { limit: 30, windowMs: 300_000 },
+      session: { limit: 20, windowMs: 300_000 },
+    });
+    expect(getRouteRateLimit('upload').session).toBeUndefined();
+  });
+
+  it('reads <requests>/<seconds> overrides and "off"', () => {
+    vi.stubEnv('RATE_LIMIT_CHAT_IP', '5/60');
+    vi.stubEnv('RATE_LIMIT_CHAT_SESSION', 'off');
+    vi.stubEnv('RATE_LIMIT_DELETE_IMAGE_IP', '2/1');
+
+    expect(getRouteRateLimit('chat')).toEqual({ ip: { limit: 5, windowMs: 60_000 }, session: undefined });
+    expect(getRouteRateLimit('delete-image').ip).toEqual({ limit: 2, windowMs: 1_000 });
+  });
+
+  it('keeps the default for malformed overrides', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('RATE_LIMIT_UPLOAD_IP', '0/60');
+    expect(getRouteRateLimit('upload').ip).toEqual({ limit: 30, windowMs: 600_000 });
+
+    vi.stubEnv('RATE_LIMIT_UPLOAD_IP', 'lots');
+    expect(getRouteRateLimit('upload').ip).toEqual({ limit: 30, windowMs: 600_000 });
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getClientIp', () => {
+  it('takes the first X-Forwarded-For hop, then X-Real-IP', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.1, 10.0.0.1' }))).toBe('203.0.113.1');
+    expect(getClientIp(request({ 'x-real-ip': '203.0.113.2' }))).toBe('203.0.113.2');
+    expect(getClientIp(request())).toBe('unknown');
+  });
+});
+
+describe('rateLimit', () => {
+  it('answers 429 with Retry-After once the IP limit is used up', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('RATE_LIMIT_UPLOAD_IP', '2/60');
+    const req = request({ 'x-forwarded-for': '198.51.100.1' });
+
+    expect(await rateLimit(req, 'upload')).toBeNull();
+    expect(await rateLimit(req, 'upload')).toBeNull();
+
+    const limited = await rateLimit(req, 'upload');
+    expect(limited?.status).toBe(429);
+    expect(limited?.headers.get('Retry-After')).toBe('60');
+    expect(limited?.headers.get('X-RateLimit-Limit')).toBe('2');
+
+    // Another client is unaffected
+    expect(await rateLimit(request({ 'x-forwarded-for': '198.51.100.2' }), 'upload')).toBeNull();
+  });
+
+  it('limits sessions separately from IPs', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('RATE_LIMIT_CHAT_SESSION', '1/60');
+
+    expect(await rateLimit(request({ 'x-forwarded-for': '198.51.100.3' }), 'chat', 'session-a')).toBeNull();
+    const limited = await rateLimit(request({ 'x-forwarded-for': '198.51.100.4' }), 'chat', 'session-a');
+    expect(limited?.status).toBe(429);
+    expect(await rateLimit(request({ 'x-forwarded-for': '198.51.100.4' }), 'chat', 'session-b')).toBeNull();
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RATE_LIMIT_STORE', 'redis');
+
+    expect(await rateLimit(request(), 'chat')).toBeNull();
+    expect(error).toHaveBeenCalled();
+  });
+});
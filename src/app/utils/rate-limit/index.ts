@@ -0,0 +1,106 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createMemoryRateLimitStore } from './memory';
+import type { RateLimitRule, RateLimitStore } from './types';
+
+export * from './types';
+
+export type RateLimitedRoute = 'chat' | 'chat-conversation' | 'upload' | 'delete-image';
+
+// Per-IP and per-session rules; a missing rule is not enforced
+type RouteRateLimit = {
+  ip?: RateLimitRule;
+  session?: RateLimitRule;
+};
+
+const MINUTE = 60 * 1000;
+
+// Each rule can be overridden with RATE_LIMIT_<ROUTE>_<IP|SESSION>, e.g.
+// RATE_LIMIT_CHAT_IP=30/300 for 30 requests per 300 seconds, or "off"
+const DEFAULT_ROUTE_LIMITS: Record<RateLimitedRoute, RouteRateLimit> = {
+  // Every chat request pays for embeddings, retrieval and a completion
+  chat: { ip: { limit: 30, windowMs: 5 * MINUTE }, session: { limit: 20, windowMs: 5 * MINUTE } },
+  'chat-conversation': { ip: { limit: 60, windowMs: MINUTE } },
+  upload: { ip: { limit: 30, windowMs: 10 * MINUTE } },
+  'delete-image': { ip: { limit: 30, windowMs: 10 * MINUTE } },
+};
+
+let rateLimitStore: RateLimitStore | null = null;
+
+// Selected by RATE_LIMIT_STORE; only "memory" exists so far
+export function getRateLimitStore(): RateLimitStore {
+  const backend = (process.env.RATE_LIMIT_STORE || 'memory').trim().toLowerCase();
+  if (backend !== 'memory') {
+    throw new Error(`RATE_LIMIT_STORE must be "memory", got "${backend}"`);
+  }
+  if (!rateLimitStore) {
+    rateLimitStore = createMemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+function parseRule(name: string, fallback: RateLimitRule | undefined): RateLimitRule | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  if (value === 'off') return undefined;
+
+  const match = value.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    console.warn(`${name} must look like "<requests>/<seconds>" or "off", got "${value}" - using the default`);
+    return fallback;
+  }
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
+
+export function getRouteRateLimit(route: RateLimitedRoute): RouteRateLimit {
+  const prefix = `RATE_LIMIT_${route.toUpperCase().replace(/-/g, '_')}`;
+  const defaults = DEFAULT_ROUTE_LIMITS[route];
+  return {
+    ip: parseRule(`${prefix}_IP`, defaults.ip),
+    session: parseRule(`${prefix}_SESSION`, defaults.session),
+  };
+}
+
+// First hop of X-Forwarded-For, as set by Vercel and most proxies
+export function getClientIp(req: NextRequest): string {
+  const forwardedFor = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwardedFor || req.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+// Count the request against the route's limits. Returns the 429 response to
+// send when a limit is exceeded, or null to carry on. A failing store lets
+// requests through rather than taking the route down.
+export async function rateLimit(
+  req: NextRequest,
+  route: RateLimitedRoute,
+  sessionId?: string | null
+): Promise<NextResponse | null> {
+  const limits = getRouteRateLimit(route);
+  const checks: Array<{ key: string; rule: RateLimitRule }> = [];
+  if (limits.ip) checks.push({ key: `${route}:ip:${getClientIp(req)}`, rule: limits.ip });
+  if (limits.session && sessionId) checks.push({ key: `${route}:session:${sessionId}`, rule: limits.session });
+
+  try {
+    const store = getRateLimitStore();
+    for (const { key, rule } of checks) {
+      const result = await store.hit(key, rule);
+      if (!result.allowed) {
+        const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+        console.warn('Rate limit exceeded:', { key, limit: rule.limit, windowMs: rule.windowMs, retryAfter });
+        return NextResponse.json(
+          { error: 'Too many requests. Please try again later.', retryAfter },
+          {
+            status: 429,
+            headers: {
+              'Retry-After': String(retryAfter),
+              'X-RateLimit-Limit': String(rule.limit),
+              'X-RateLimit-Remaining': '0',
+            },
+          }
+        );
+      }
+    }
+  } catch (error: any) {
+    console.error('Rate limit check failed:', { route, message: error.message || error });
+  }
+  return null;
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createMemoryRateLimitStore } from './memory';
+
+const RULE = { limit: 3, windowMs: 10_000 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMemoryRateLimitStore', () => {
+  it('allows up to the limit and counts down what remains', async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await store.hit('a', RULE)).toEqual({ allowed: true, remaining: 2, retryAfterMs: 0 });
+    expect(await store.hit('a', RULE)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(await store.hit('a', RULE)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect((await store.hit('a', RULE)).allowed).toBe(false);
+  });
+
+  it('reports when the oldest request leaves the window', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit('a', RULE);
+    vi.advanceTimersByTime(4_000);
+    await store.hit('a', RULE);
+    await store.hit('a', RULE);
+
+    expect(await store.hit('a', RULE)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 6_000 });
+  });
+
+  it('slides the window rather than resetting it', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit('a', RULE);
+    vi.advanceTimersByTime(5_000);
+    await store.hit('a', RULE);
+    await store.hit('a', RULE);
+
+    // The first request has left the window, the other two haven't
+    vi.advanceTimersByTime(5_000);
+    expect(await store.hit('a', RULE)).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await store.hit('a', RULE)).allowed).toBe(false);
+  });
+
+  it('does not count rejected requests', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await store.hit('a', RULE);
+    for (let i = 0; i < 10; i++) {
+      vi.advanceTimersByTime(500);
+      expect((await store.hit('a', RULE)).allowed).toBe(false);
+    }
+
+    vi.advanceTimersByTime(5_000);
+    expect((await store.hit('a', RULE)).allowed).toBe(true);
+  });
+
+  it('counts keys separately', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await store.hit('a', RULE);
+    expect((await store.hit('a', RULE)).allowed).toBe(false);
+    expect((await store.hit('b', RULE)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import type { RateLimitStore } from './types';
+
+// Keys are swept at most this often, to bound memory for one-off clients
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Sliding window log kept in the server process. Each instance counts on its
+// own, so behind several serverless instances the effective limit is higher.
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { windowMs: number; hits: number[] }>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, { windowMs, hits }] of windows) {
+      if (hits[hits.length - 1] <= now - windowMs) windows.delete(key);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async hit(key, { limit, windowMs }) {
+      const now = Date.now();
+      sweep(now);
+
+      const hits = (windows.get(key)?.hits || []).filter((time) => time > now - windowMs);
+      if (hits.length >= limit) {
+        windows.set(key, { windowMs, hits });
+        return { allowed: false, remaining: 0, retryAfterMs: hits[0] + windowMs - now };
+      }
+
+      hits.push(now);
+      windows.set(key, { windowMs, hits });
+      return { allowed: true, remaining: limit - hits.length, retryAfterMs: 0 };
+    },
+  };
+}
@@ -0,0 +1,19 @@
+// At most `limit` requests in any `windowMs` span
+export type RateLimitRule = {
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  // Until the oldest counted request leaves the window, when rejected
+  retryAfterMs: number;
+};
+
+// Counts requests per key in a sliding window. Rejected requests are not
+// counted, so a client that keeps retrying is let back in on schedule.
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
@@ -0,0 +1,50 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+
+// BPE token counting for prompt budgeting. o200k_base is the gpt-4o family's
+// encoding; TOKENIZER_ENCODING=cl100k_base matches gpt-4/gpt-3.5 and most
+// OpenAI-compatible servers closely enough. Gemini counts differ slightly.
+const ENCODINGS = { o200k_base, cl100k_base };
+
+let tokenizer: { name: string; encoder: Tiktoken } | null = null;
+
+function getTokenizer(): Tiktoken {
+  const name = process.env.TOKENIZER_ENCODING || 'o200k_base';
+  if (tokenizer?.name !== name) {
+    const ranks = ENCODINGS[name as keyof typeof ENCODINGS];
+    if (!ranks) {
+      throw new Error(`TOKENIZER_ENCODING must be one of ${Object.keys(ENCODINGS).join(', ')}, got "${name}"`);
+    }
+    tokenizer = { name, encoder: new Tiktoken(ranks) };
+  }
+  return tokenizer.encoder;
+}
+
+export function countTokens(text: string): number {
+  return text ? getTokenizer().encode(text).length : 0;
+}
+
+// Cut `text` to at most `maxTokens` tokens, backing off to the last sentence or
+// line break when one falls in the final 30% of the kept text
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const encoder = getTokenizer();
+  const tokens = encoder.encode(text);
+  if (tokens.length <= maxTokens) return text;
+  if (maxTokens <= 0) return '';
+
+  const truncated = encoder.decode(tokens.slice(0, maxTokens));
+  const breakPoint = Math.max(truncated.lastIndexOf('. '), truncated.lastIndexOf('\n'));
+  return breakPoint > truncated.length * 0.7 ? truncated.substring(0, breakPoint + 1) : truncated;
+}
+
+// Split `text` into consecutive pieces of at most `maxTokens` tokens each
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const encoder = getTokenizer();
+  const tokens = encoder.encode(text);
+  const pieces: string[] = [];
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    pieces.push(encoder.decode(tokens.slice(i, i + maxTokens)));
+  }
+  return pieces;
+}
@@ -0,0 +1,45 @@
+import * as path from 'path';
+import { createPineconeVectorStore } from './pinecone';
+import { createLocalVectorStore } from './local';
+import type { VectorStore } from './types';
+
+export * from './types';
+
+type VectorStoreBackend = 'pinecone' | 'local';
+
+const DEFAULT_LOCAL_STORE_PATH = '.vector-store.json';
+
+let vectorStore: { key: string; store: VectorStore } | null = null;
+
+function getBackend(): VectorStoreBackend {
+  const backend = (process.env.VECTOR_STORE || 'pinecone').trim().toLowerCase();
+  if (backend !== 'pinecone' && backend !== 'local') {
+    throw new Error(`VECTOR_STORE must be "pinecone" or "local", got "${backend}"`);
+  }
+  return backend;
+}
+
+function getLocalStorePath(): string {
+  return path.resolve(process.cwd(), process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_LOCAL_STORE_PATH);
+}
+
+// Whether retrieval can run at all - the local store is always available,
+// Pinecone needs an index name
+export function isVectorStoreConfigured(): boolean {
+  return getBackend() === 'local' || !!process.env.PINECONE_INDEX;
+}
+
+// Selected by VECTOR_STORE ("pinecone" by default, or "local" with
+// LOCAL_VECTOR_STORE_PATH pointing at the JSON file)
+export function getVectorStore(): VectorStore {
+  const backend = getBackend();
+  const key = backend === 'local' ? `local|${getLocalStorePath()}` : 'pinecone';
+
+  if (vectorStore?.key !== key) {
+    const store = backend === 'local'
+      ? createLocalVectorStore(getLocalStorePath())
+      : createPineconeVectorStore();
+    vectorStore = { key, store };
+  }
+  return vectorStore.store;
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Metadata, NamespaceSummary, VectorMatch, VectorRecord, VectorStore } from './types';
+
+// On-disk layout of the local store: namespace -> record id -> record
+type LocalStoreFile = {
+  version: 1;
+  namespaces: Record<string, Record<string, { values: number[]; metadata?: Metadata }>>;
+};
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Brute-force cosine search over a JSON file. Meant for development and CI,
+// where a few thousand chunks are searched in milliseconds without a Pinecone account.
+export function createLocalVectorStore(filePath: string): VectorStore {
+  let cache: { mtimeMs: number; data: LocalStoreFile } | null = null;
+  // Serialize writes so concurrent upserts/deletes don't clobber each other
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<LocalStoreFile> => {
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (cache && cache.mtimeMs === stat.mtimeMs) {
+        return cache.data;
+      }
+      const data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as LocalStoreFile;
+      cache = { mtimeMs: stat.mtimeMs, data };
+      return data;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return { version: 1, namespaces: {} };
+      }
+      throw new Error(`Error reading local vector store ${filePath}: ${e.message || e}`);
+    }
+  };
+
+  const save = async (data: LocalStoreFile): Promise<void> => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file and rename, so readers never see a half-written file
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data));
+    await fs.promises.rename(tmpPath, filePath);
+    cache = null;
+  };
+
+  const mutate = <T>(fn: (data: LocalStoreFile) => T): Promise<T> => {
+    const run = writeQueue.then(async () => {
+      const data = await load();
+      const result = fn(data);
+      await save(data);
+      return result;
+    });
+    writeQueue = run.catch(() => {});
+    return run;
+  };
+
+  return {
+    name: 'local',
+
+    async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+      await mutate((data) => {
+        const ns = (data.namespaces[namespace] ??= {});
+        for (const record of records) {
+          ns[record.id] = { values: record.values, metadata: record.metadata };
+        }
+      });
+    },
+
+    async query(namespace: string, vector: number[], topK: number): Promise<VectorMatch[]> {
+      if (!vector || vector.length === 0) {
+        throw new Error('Embeddings array is empty');
+      }
+
+      const data = await load();
+      const ns = data.namespaces[namespace] || {};
+
+      return Object.entries(ns)
+        // Records embedded with a different model can't be compared
+        .filter(([, record]) => record.values.length === vector.length)
+        .map(([id, record]) => ({
+          id,
+          score: cosineSimilarity(vector, record.values),
+          metadata: record.metadata || {},
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+
+    async listIds(namespace: string, prefix: string): Promise<string[]> {
+      const data = await load();
+      return Object.keys(data.namespaces[namespace] || {}).filter((id) => id.startsWith(prefix));
+    },
+
+    async deleteByIds(namespace: string, ids: string[]): Promise<void> {
+      await mutate((data) => {
+        const ns = data.namespaces[namespace] || {};
+        for (const id of ids) {
+          delete ns[id];
+        }
+      });
+    },
+
+    async deleteByPrefix(namespace: string, prefix: string): Promise<number> {
+      return mutate((data) => {
+        const ns = data.namespaces[namespace] || {};
+        const ids = Object.keys(ns).filter((id) => id.startsWith(prefix));
+        for (const id of ids) {
+          delete ns[id];
+        }
+        return ids.length;
+      });
+    },
+
+    async listNamespaces(): Promise<NamespaceSummary[]> {
+      const data = await load();
+      return Object.entries(data.namespaces).map(([name, records]) => ({
+        name,
+        recordCount: Object.keys(records).length,
+      }));
+    },
+  };
+}
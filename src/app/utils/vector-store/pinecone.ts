@@ -0,0 +1,164 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import type { Metadata, NamespaceSummary, VectorMatch, VectorRecord, VectorStore } from './types';
+
+const UPSERT_BATCH_SIZE = 100;
+// Pinecone accepts at most 1000 ids per delete request
+const DELETE_BATCH_SIZE = 1000;
+const QUERY_TIMEOUT_MS = 10000;
+
+// Initialize Pinecone client (singleton pattern)
+let pineconeClient: Pinecone | null = null;
+
+function getPineconeClient(): Pinecone {
+  if (!pineconeClient) {
+    if (!process.env.PINECONE_API_KEY) {
+      throw new Error('PINECONE_API_KEY environment variable not set');
+    }
+    pineconeClient = new Pinecone({
+      apiKey: process.env.PINECONE_API_KEY,
+    });
+  }
+  return pineconeClient;
+}
+
+function getIndexName(): string {
+  let indexName: string = process.env.PINECONE_INDEX || '';
+  if (indexName === '') {
+    throw new Error('PINECONE_INDEX environment variable not set');
+  }
+
+  // Clean index name - remove any URL prefixes or trailing slashes
+  indexName = indexName.trim().replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+  // If it looks like a hostname, extract just the index name (part before first dot)
+  if (indexName.includes('.svc.')) {
+    indexName = indexName.split('.')[0];
+  }
+  return indexName;
+}
+
+function getIndex() {
+  // SDK v6 handles host resolution automatically
+  return getPineconeClient().index(getIndexName());
+}
+
+export function createPineconeVectorStore(): VectorStore {
+  return {
+    name: 'pinecone',
+
+    async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+      const pineconeNamespace = getIndex().namespace(namespace);
+      for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+        await pineconeNamespace.upsert(records.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+    },
+
+    async query(namespace: string, vector: number[], topK: number): Promise<VectorMatch[]> {
+      const indexName = getIndexName();
+
+      // Validate embeddings
+      if (!vector || vector.length === 0) {
+        throw new Error('Embeddings array is empty');
+      }
+
+      // Log dimension for debugging (OpenAI typically uses 1536, but can vary)
+      if (vector.length !== 1536 && vector.length !== 768) {
+        console.warn(`Unexpected embedding dimensions: ${vector.length}. Expected 1536 (OpenAI) or 768 (Gemini). Proceeding anyway.`);
+      }
+
+      const pineconeNamespace = getIndex().namespace(namespace || '');
+
+      try {
+        // Query the index with the defined request
+        // Using includeValues: false to reduce response size, but we need metadata
+        // Add timeout for connection issues
+        const queryResult = await Promise.race([
+          pineconeNamespace.query({
+            vector,
+            topK,
+            includeMetadata: true,
+            includeValues: false, // We don't need the vectors back
+          }),
+          new Promise((_, reject) =>
+            setTimeout(() => reject(new Error(`Pinecone query timeout after ${QUERY_TIMEOUT_MS / 1000} seconds`)), QUERY_TIMEOUT_MS)
+          )
+        ]) as any;
+
+        // Return matches in the expected format
+        // Handle both old API (metadata) and new API (fields) formats
+        const matches = ((queryResult.matches || []) as any[]).map((match: any) => {
+          // New Pinecone API might return data in 'fields' instead of 'metadata'
+          // Its keys are logged by assembleContext ("Sample metadata structure")
+          const metadata = (match.metadata || match.fields || {}) as Metadata;
+
+          return {
+            id: match.id || '',
+            score: match.score,
+            metadata: metadata,
+          };
+        });
+
+        return matches;
+      } catch (e: any) {
+        // Log detailed error information
+        console.error('Error querying embeddings:', {
+          error: e.message || e,
+          indexName,
+          namespace: namespace || '(default)',
+          embeddingLength: vector.length,
+          topK,
+          errorType: e.constructor?.name,
+        });
+        throw new Error(`Error querying embeddings: ${e.message || e}`);
+      }
+    },
+
+    async listIds(namespace: string, prefix: string): Promise<string[]> {
+      const pineconeNamespace = getIndex().namespace(namespace);
+      const ids: string[] = [];
+      let paginationToken: string | undefined;
+
+      do {
+        const page = await pineconeNamespace.listPaginated({ prefix, paginationToken });
+        ids.push(...(page.vectors || []).map((v) => v.id).filter((id): id is string => !!id));
+        paginationToken = page.pagination?.next;
+      } while (paginationToken);
+
+      return ids;
+    },
+
+    async deleteByIds(namespace: string, ids: string[]): Promise<void> {
+      const pineconeNamespace = getIndex().namespace(namespace);
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await pineconeNamespace.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+      }
+    },
+
+    async deleteByPrefix(namespace: string, prefix: string): Promise<number> {
+      const pineconeNamespace = getIndex().namespace(namespace);
+      let deleted = 0;
+      let paginationToken: string | undefined;
+
+      // List-by-prefix is only supported on serverless indexes
+      do {
+        const page = await pineconeNamespace.listPaginated({ prefix, paginationToken });
+        const ids = (page.vectors || []).map((v) => v.id).filter((id): id is string => !!id);
+        if (ids.length > 0) {
+          await pineconeNamespace.deleteMany(ids);
+          deleted += ids.length;
+        }
+        paginationToken = page.pagination?.next;
+      } while (paginationToken);
+
+      return deleted;
+    },
+
+    async listNamespaces(): Promise<NamespaceSummary[]> {
+      const stats = await getIndex().describeIndexStats();
+      return Object.entries(stats.namespaces || {}).map(([name, summary]) => ({
+        name,
+        recordCount: summary.recordCount,
+      }));
+    },
+  };
+}
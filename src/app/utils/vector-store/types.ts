@@ -0,0 +1,38 @@
+export type Metadata = {
+  url?: string;
+  text?: string;
+  chunk?: string;
+  content?: string;
+  hash?: string;
+  [key: string]: any;
+};
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata?: Metadata;
+};
+
+export type VectorMatch = {
+  id: string;
+  score?: number;
+  metadata?: Metadata;
+};
+
+export type NamespaceSummary = {
+  name: string;
+  recordCount: number;
+};
+
+// Storage backend for RAG chunks. Namespaces partition the records; an empty
+// string addresses the default namespace.
+export interface VectorStore {
+  readonly name: string;
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  query(namespace: string, vector: number[], topK: number): Promise<VectorMatch[]>;
+  listIds(namespace: string, prefix: string): Promise<string[]>;
+  deleteByIds(namespace: string, ids: string[]): Promise<void>;
+  // Returns the number of records deleted
+  deleteByPrefix(namespace: string, prefix: string): Promise<number>;
+  listNamespaces(): Promise<NamespaceSummary[]>;
+}
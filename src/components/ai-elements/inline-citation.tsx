@@ -60,6 +60,7 @@ export type InlineCitationCardTriggerProps = ComponentProps<typeof Badge> & {
 export const InlineCitationCardTrigger = ({
   sources,
   className,
+  children,
   ...props
 }: InlineCitationCardTriggerProps) => (
   <HoverCardTrigger asChild>
@@ -68,14 +69,14 @@ export const InlineCitationCardTrigger = ({
       variant="secondary"
       {...props}
     >
-      {sources[0] ? (
+      {children ?? (sources[0] ? (
         <>
           {new URL(sources[0]).hostname}{" "}
           {sources.length > 1 && `+${sources.length - 1}`}
         </>
       ) : (
         "unknown"
-      )}
+      ))}
     </Badge>
   </HoverCardTrigger>
 );
@@ -4,7 +4,7 @@ import * as React from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { FileTextIcon, SettingsIcon, LogOutIcon } from "lucide-react";
+import { FileTextIcon, ImageIcon, MessageSquareIcon, SettingsIcon, LogOutIcon } from "lucide-react";
 
 import {
   Sidebar,
@@ -22,6 +22,8 @@ import { supabase } from "@/lib/supabase";
 
 const navItems = [
   { href: "/dashboard", label: "Posts", icon: FileTextIcon },
+  { href: "/dashboard/media", label: "Media", icon: ImageIcon },
+  { href: "/dashboard/assistant", label: "Assistant", icon: MessageSquareIcon },
   { href: "/dashboard/settings", label: "Settings", icon: SettingsIcon },
 ];
 
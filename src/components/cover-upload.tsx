@@ -5,6 +5,8 @@ import { useFileUpload, type FileWithPreview } from '@/hooks/use-file-upload';
 import { Button } from '@/components/ui/button';
 import { CloudUpload, ImageIcon, Loader2, Upload, XIcon, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { MAX_UPLOAD_BYTES, UPLOAD_ACCEPT } from '@/lib/upload-policy';
+import { uploadFileDirect } from '@/lib/direct-upload';
 
 interface CoverUploadProps {
   maxSize?: number;
@@ -15,8 +17,8 @@ interface CoverUploadProps {
 }
 
 export function CoverUpload({
-  maxSize = 10 * 1024 * 1024, // 10MB default
-  accept = 'image/*',
+  maxSize = MAX_UPLOAD_BYTES,
+  accept = UPLOAD_ACCEPT,
   className,
   value,
   onChange,
@@ -36,21 +38,11 @@ export function CoverUpload({
   }, [value]);
 
   const uploadToR2 = async (file: File): Promise<string> => {
-    // Upload file via FormData to our API (server-side upload to R2)
-    const formData = new FormData();
-    formData.append('file', file);
-
-    const response = await fetch('/api/upload', {
-      method: 'POST',
-      body: formData,
+    // Straight to R2 with a presigned URL. Sending the bytes fills the ring to
+    // 90%; the rest is the server checking and storing the image.
+    const { publicUrl } = await uploadFileDirect(file, {
+      onProgress: (fraction) => setUploadProgress(Math.round(fraction * 90)),
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to upload file');
-    }
-
-    const { publicUrl } = await response.json();
     return publicUrl;
   };
 
@@ -67,20 +59,13 @@ export function CoverUpload({
         const file = files[0];
         setImageLoading(true);
         setIsUploading(true);
-        setUploadProgress(10);
+        setUploadProgress(0);
         setUploadError(null);
         setCoverImage(file);
 
         try {
-          // Simulate progress while uploading
-          const progressInterval = setInterval(() => {
-            setUploadProgress((prev) => Math.min(prev + 10, 90));
-          }, 200);
-
-          // Actually upload to R2
           const url = await uploadToR2(file.file as File);
 
-          clearInterval(progressInterval);
           setUploadProgress(100);
           setImageUrl(url);
           onChange?.(url);
@@ -114,16 +99,11 @@ export function CoverUpload({
     if (coverImage && coverImage.file instanceof File) {
       setUploadError(null);
       setIsUploading(true);
-      setUploadProgress(10);
+      setUploadProgress(0);
 
       try {
-        const progressInterval = setInterval(() => {
-          setUploadProgress((prev) => Math.min(prev + 10, 90));
-        }, 200);
-
         const url = await uploadToR2(coverImage.file);
 
-        clearInterval(progressInterval);
         setUploadProgress(100);
         setImageUrl(url);
         onChange?.(url);
@@ -301,7 +281,7 @@ export function CoverUpload({
           <ul className="space-y-1 text-xs text-muted-foreground">
             <li>• Use high-quality images with good lighting and composition</li>
             <li>• Recommended aspect ratio: 21:9 (ultrawide) for best results</li>
-            <li>• Supported formats: JPG, PNG, WebP</li>
+            <li>• Supported formats: JPG, PNG, WebP, GIF, AVIF</li>
           </ul>
         </div>
       )}
@@ -0,0 +1,32 @@
+"use client";
+
+import type { PostError } from "@/lib/post-policy";
+
+interface PostSaveErrorProps {
+  error: PostError;
+  // Called with a free slug the server suggested instead of a taken one
+  onUseSlug: (slug: string) => void;
+}
+
+export function PostSaveError({ error, onUseSlug }: PostSaveErrorProps) {
+  return (
+    <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm text-destructive">
+      {error.message}
+      {error.suggestions && error.suggestions.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">Available:</span>
+          {error.suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => onUseSlug(suggestion)}
+              className="px-2 py-0.5 rounded-md bg-background/80 border border-border font-mono text-xs text-foreground hover:border-primary/50 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import * as React from "react";
+import { XIcon } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { POST_LIMITS, toPostTerm, type PostTerm } from "@/lib/post-policy";
+
+interface PostTermsFieldsProps {
+  category: string;
+  onCategoryChange: (category: string) => void;
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+  // Existing categories and tags to suggest
+  suggestions: { categories: PostTerm[]; tags: PostTerm[] };
+}
+
+export function PostTermsFields({
+  category,
+  onCategoryChange,
+  tags,
+  onTagsChange,
+  suggestions,
+}: PostTermsFieldsProps) {
+  // Terms are created when a save uses them, so typing only reaches the post
+  // once it's done: on Enter or leaving the field
+  const [categoryInput, setCategoryInput] = React.useState(category);
+  const [tagInput, setTagInput] = React.useState("");
+  const isFull = tags.length >= POST_LIMITS.tags;
+
+  React.useEffect(() => {
+    setCategoryInput(category);
+  }, [category]);
+
+  const handleCategoryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      onCategoryChange(categoryInput);
+    }
+  };
+
+  // Add what's been typed, unless it names a tag the post already has
+  const commitTag = () => {
+    const tag = toPostTerm(tagInput);
+    setTagInput("");
+    if (!tag || isFull || tags.some((name) => toPostTerm(name)?.slug === tag.slug)) return;
+
+    // Prefer the spelling of an existing tag
+    const existing = suggestions.tags.find((suggestion) => suggestion.slug === tag.slug);
+    onTagsChange([...tags, existing?.name ?? tag.name]);
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      commitTag();
+    } else if (e.key === "Backspace" && !tagInput && tags.length > 0) {
+      onTagsChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="category">Category</Label>
+        <Input
+          id="category"
+          list="category-suggestions"
+          placeholder="e.g. Engineering"
+          value={categoryInput}
+          maxLength={POST_LIMITS.category}
+          onChange={(e) => setCategoryInput(e.target.value)}
+          onKeyDown={handleCategoryKeyDown}
+          onBlur={() => onCategoryChange(categoryInput)}
+          className="bg-background/50"
+        />
+        <datalist id="category-suggestions">
+          {suggestions.categories.map((suggestion) => (
+            <option key={suggestion.slug} value={suggestion.name} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tags">
+          Tags{" "}
+          <span className="text-muted-foreground font-normal">
+            ({tags.length}/{POST_LIMITS.tags})
+          </span>
+        </Label>
+        <div className="flex min-h-9 flex-wrap items-center gap-1.5 rounded-md border border-input bg-background/50 px-2 py-1 focus-within:ring-1 focus-within:ring-ring">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-md bg-muted px-2 py-0.5 text-xs font-medium"
+            >
+              {tag}
+              <button
+                type="button"
+                onClick={() => onTagsChange(tags.filter((name) => name !== tag))}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <XIcon className="size-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            id="tags"
+            list="tag-suggestions"
+            value={tagInput}
+            disabled={isFull}
+            maxLength={POST_LIMITS.tag}
+            placeholder={isFull ? "" : tags.length === 0 ? "Type a tag and press Enter" : "Add tag"}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={commitTag}
+            className="min-w-24 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground disabled:cursor-not-allowed"
+          />
+        </div>
+        <datalist id="tag-suggestions">
+          {suggestions.tags
+            .filter((suggestion) => !tags.includes(suggestion.name))
+            .map((suggestion) => (
+              <option key={suggestion.slug} value={suggestion.name} />
+            ))}
+        </datalist>
+      </div>
+    </div>
+  );
+}
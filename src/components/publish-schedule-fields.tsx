@@ -0,0 +1,69 @@
+"use client";
+
+import dayjs from "dayjs";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PublishSchedule, PublishedVersion } from "@/lib/post-policy";
+
+// The schedule as the inputs hold it: local "YYYY-MM-DDTHH:mm" strings, empty
+// when unset
+export type ScheduleInputs = { publishAt: string; unpublishAt: string };
+
+const INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+
+export function getScheduleInputs(published: PublishedVersion | null): ScheduleInputs {
+  return {
+    publishAt: published?.publish_at ? dayjs(published.publish_at).format(INPUT_FORMAT) : "",
+    unpublishAt: published?.unpublish_at ? dayjs(published.unpublish_at).format(INPUT_FORMAT) : "",
+  };
+}
+
+export function toPublishSchedule(inputs: ScheduleInputs): PublishSchedule {
+  return {
+    publishAt: inputs.publishAt ? dayjs(inputs.publishAt).toISOString() : null,
+    unpublishAt: inputs.unpublishAt ? dayjs(inputs.unpublishAt).toISOString() : null,
+  };
+}
+
+// Whether publishing with these inputs only schedules the post
+export function isScheduledForLater(inputs: ScheduleInputs): boolean {
+  return !!inputs.publishAt && dayjs(inputs.publishAt).isAfter(dayjs());
+}
+
+interface PublishScheduleFieldsProps {
+  value: ScheduleInputs;
+  onChange: (value: ScheduleInputs) => void;
+}
+
+export function PublishScheduleFields({ value, onChange }: PublishScheduleFieldsProps) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-1.5">
+        <Label htmlFor="publish-at" className="text-xs">
+          Publish at <span className="text-muted-foreground font-normal">(optional)</span>
+        </Label>
+        <Input
+          id="publish-at"
+          type="datetime-local"
+          value={value.publishAt}
+          onChange={(e) => onChange({ ...value, publishAt: e.target.value })}
+          className="h-9"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="unpublish-at" className="text-xs">
+          Unpublish at <span className="text-muted-foreground font-normal">(optional)</span>
+        </Label>
+        <Input
+          id="unpublish-at"
+          type="datetime-local"
+          value={value.unpublishAt}
+          min={value.publishAt || undefined}
+          onChange={(e) => onChange({ ...value, unpublishAt: e.target.value })}
+          className="h-9"
+        />
+      </div>
+    </div>
+  );
+}
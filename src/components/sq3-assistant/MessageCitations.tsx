@@ -0,0 +1,121 @@
+'use client';
+
+import { Fragment, type ReactNode } from 'react';
+import { BookIcon } from 'lucide-react';
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationCarousel,
+  InlineCitationCarouselContent,
+  InlineCitationCarouselHeader,
+  InlineCitationCarouselIndex,
+  InlineCitationCarouselItem,
+  InlineCitationCarouselNext,
+  InlineCitationCarouselPrev,
+  InlineCitationQuote,
+  InlineCitationSource,
+} from '@/components/ai-elements/inline-citation';
+import {
+  Source,
+  Sources,
+  SourcesContent,
+  SourcesTrigger,
+} from '@/components/ai-elements/sources';
+import type { ContextSource } from '@/app/utils/context';
+
+// Matches the model's citation markers: [2] or [1, 3]
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function formatScore(score: number) {
+  return score.toFixed(3);
+}
+
+// Where in the source document the chunk came from, e.g. "p. 4 · Setup > Installing"
+function formatLocation(source: ContextSource) {
+  return [source.page ? `p. ${source.page}` : null, source.section].filter(Boolean).join(' · ');
+}
+
+function CitationCard({ sources }: { sources: ContextSource[] }) {
+  return (
+    <InlineCitationCard>
+      <InlineCitationCardTrigger sources={sources.map((s) => s.source)}>
+        {sources.map((s) => s.marker).join(', ')}
+      </InlineCitationCardTrigger>
+      <InlineCitationCardBody>
+        <InlineCitationCarousel>
+          <InlineCitationCarouselHeader>
+            <InlineCitationCarouselPrev />
+            <InlineCitationCarouselNext />
+            <InlineCitationCarouselIndex />
+          </InlineCitationCarouselHeader>
+          <InlineCitationCarouselContent>
+            {sources.map((source) => (
+              <InlineCitationCarouselItem key={source.id}>
+                <InlineCitationSource
+                  title={source.source}
+                  url={formatLocation(source) || `${source.id} · score ${formatScore(source.score)}`}
+                />
+                <InlineCitationQuote>{source.preview}</InlineCitationQuote>
+              </InlineCitationCarouselItem>
+            ))}
+          </InlineCitationCarouselContent>
+        </InlineCitationCarousel>
+      </InlineCitationCardBody>
+    </InlineCitationCard>
+  );
+}
+
+// Renders an answer with its [n] markers replaced by hover cards for the cited chunks
+export function CitedText({ text, sources }: { text: string; sources: ContextSource[] }) {
+  const byMarker = new Map(sources.map((source) => [source.marker, source]));
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const cited = match[1]
+      .split(',')
+      .map((n) => byMarker.get(Number(n.trim())))
+      .filter((source): source is ContextSource => !!source);
+
+    // Leave markers that don't point at a known chunk as plain text
+    if (cited.length === 0) continue;
+
+    parts.push(text.slice(lastIndex, match.index));
+    parts.push(<CitationCard key={match.index} sources={cited} />);
+    lastIndex = match.index! + match[0].length;
+  }
+  parts.push(text.slice(lastIndex));
+
+  return (
+    <InlineCitation>
+      {parts.map((part, index) => (
+        <Fragment key={index}>{part}</Fragment>
+      ))}
+    </InlineCitation>
+  );
+}
+
+// Collapsible list of every chunk the answer's context was built from
+export function MessageSources({ sources }: { sources: ContextSource[] }) {
+  return (
+    <Sources className="mt-2 mb-0">
+      <SourcesTrigger count={sources.length} />
+      <SourcesContent>
+        {sources.map((source) => (
+          <Source key={source.id} title={source.source}>
+            <BookIcon className="h-4 w-4 shrink-0" />
+            <span className="block">
+              <span className="font-medium">[{source.marker}] {source.source}</span>{' '}
+              <span className="text-muted-foreground">
+                {formatLocation(source) ? `${formatLocation(source)} · ` : ''}
+                {source.id} · score {formatScore(source.score)}
+              </span>
+            </span>
+          </Source>
+        ))}
+      </SourcesContent>
+    </Sources>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { X } from 'lucide-react';
+import { Trash2, X } from 'lucide-react';
 import { nanoid } from 'nanoid';
 import Image from 'next/image';
 import StickerPeel from '@/components/ui/widget-peel';
@@ -25,6 +25,10 @@ import {
   type PromptInputMessage,
 } from '@/components/ai-elements/prompt-input';
 import { Suggestion, Suggestions } from '@/components/ai-elements/suggestion';
+import { readChatStream } from '@/app/utils/chat-stream';
+import type { ContextSource } from '@/app/utils/context';
+import type { ConversationMessage } from '@/app/utils/conversation-store';
+import { CitedText, MessageSources } from './MessageCitations';
 import './widget.css';
 
 const SUGGESTED_QUESTIONS = [
@@ -34,19 +38,82 @@ const SUGGESTED_QUESTIONS = [
   'How does Sequence3 AI assistant work?',
 ];
 
+const FALLBACK_REPLY = "I'm having trouble processing that right now. Could you please try rephrasing your question?";
+// Matches the default CHAT_MAX_MESSAGE_LENGTH enforced by /api/chat
+const MAX_MESSAGE_LENGTH = 2000;
+const RATE_LIMITED_REPLY = "You're sending messages a little too quickly. Please wait a moment and try again.";
+
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  // Live reply from /api/chat, rendered by ResponseStream while it arrives
+  stream?: AsyncIterable<string>;
+  // Chunks the reply was grounded in (citation mode only)
+  sources?: ContextSource[];
+  // Loaded from the stored conversation, shown without the typewriter effect
+  restored?: boolean;
+}
+
+interface SQ3AssistantWidgetProps {
+  // Ask /api/chat to cite the retrieved chunks, for auditing answers. Only
+  // honoured for signed-in users.
+  showCitations?: boolean;
+}
+
+// Consume a text stream once and let any number of readers replay it from the start.
+// ResponseStream may subscribe twice (strict mode remounts), and a plain async
+// generator would split its chunks between the two subscribers.
+function bufferTextStream(source: AsyncIterable<string>) {
+  const chunks: string[] = [];
+  const waiters: Array<() => void> = [];
+  let finished = false;
+
+  const notify = () => waiters.splice(0).forEach((wake) => wake());
+
+  const completion = (async () => {
+    try {
+      for await (const chunk of source) {
+        chunks.push(chunk);
+        notify();
+      }
+    } finally {
+      finished = true;
+      notify();
+    }
+    return chunks.join('');
+  })();
+
+  const stream: AsyncIterable<string> = {
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      while (true) {
+        if (index < chunks.length) {
+          yield chunks[index++];
+        } else if (finished) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => waiters.push(resolve));
+        }
+      }
+    },
+  };
+
+  return { stream, completion };
 }
 
-export function SQ3AssistantWidget() {
+export function SQ3AssistantWidget({
+  showCitations = process.env.NEXT_PUBLIC_ASSISTANT_CITATIONS === 'true',
+}: SQ3AssistantWidgetProps = {}) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [status, setStatus] = useState<'ready' | 'submitted' | 'streaming' | 'error'>('ready');
   const [isExpandableOpen, setIsExpandableOpen] = useState(false);
   const messagesRef = useRef<ChatMessage[]>([]);
   messagesRef.current = messages;
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The stored thread is fetched once, the first time the panel opens
+  const historyRequestedRef = useRef(false);
 
   const handleSubmit = useCallback(async (message: PromptInputMessage) => {
     const hasText = Boolean(message.text?.trim());
@@ -62,54 +129,136 @@ export function SQ3AssistantWidget() {
     setMessages(allMessages);
     setStatus('submitted');
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        // Earlier turns are stored server-side under the session cookie
         body: JSON.stringify({
-          messages: allMessages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          message: userMessage.content,
+          stream: true,
+          citations: showCitations,
         }),
+        signal: controller.signal,
       });
 
+      if (response.status === 429) {
+        setMessages((prev) => [...prev, { id: nanoid(), role: 'assistant', content: RATE_LIMITED_REPLY }]);
+        setStatus('ready');
+        return;
+      }
+
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to get response');
       }
 
-      setStatus('streaming');
-      const data = await response.json();
+      const assistantId = nanoid();
+      const attachSources = (sources: ContextSource[]) => {
+        setMessages((prev) =>
+          prev.map((m) => (m.id === assistantId ? { ...m, sources } : m))
+        );
+      };
 
-      const assistantMessage: ChatMessage = {
-        id: nanoid(),
-        role: 'assistant',
-        content: data.message,
+      // Keep whatever arrived if the stream fails or is cancelled mid-reply
+      const replyStream = async function* () {
+        let received = false;
+        try {
+          for await (const delta of readChatStream(response, { onSources: attachSources })) {
+            received = true;
+            yield delta;
+          }
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error('Chat stream error:', err);
+          if (!received) yield FALLBACK_REPLY;
+        }
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      const { stream, completion } = bufferTextStream(replyStream());
+
+      setMessages((prev) => [
+        ...prev,
+        { id: assistantId, role: 'assistant', content: '', stream },
+      ]);
+      setStatus('streaming');
+
+      const content = await completion;
+      // Drop the empty bubble left behind by a reply cancelled before its first token.
+      // Cited replies swap the live stream for the rendered citations.
+      setMessages((prev) =>
+        content
+          ? prev.map((m) =>
+              m.id === assistantId
+                ? { ...m, content, stream: m.sources?.length ? undefined : m.stream }
+                : m
+            )
+          : prev.filter((m) => m.id !== assistantId)
+      );
       setStatus('ready');
     } catch (err: any) {
+      setStatus('ready');
+      if (controller.signal.aborted) return;
+
       // Silently handle errors - log to console but don't show to users
       console.error('Chat error:', err);
-      setStatus('ready');
       // Optionally show a friendly assistant message instead
       const errorMessage: ChatMessage = {
         id: nanoid(),
         role: 'assistant',
-        content: "I'm having trouble processing that right now. Could you please try rephrasing your question?",
+        content: FALLBACK_REPLY,
       };
       setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
-  }, []);
+  }, [showCitations]);
 
   const handleSuggestionClick = useCallback((suggestion: string) => {
     handleSubmit({ text: suggestion, files: [] });
   }, [handleSubmit]);
 
+  const handleClear = useCallback(async () => {
+    setMessages([]);
+    try {
+      const response = await fetch('/api/chat/conversation', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Failed to clear conversation (${response.status})`);
+      }
+    } catch (err) {
+      console.error('Clear conversation error:', err);
+    }
+  }, []);
+
+  // Restore the conversation from a previous visit
+  useEffect(() => {
+    if (!isOpen || historyRequestedRef.current) return;
+    historyRequestedRef.current = true;
+
+    (async () => {
+      try {
+        const response = await fetch('/api/chat/conversation');
+        if (!response.ok) return;
+        const { messages: stored } = (await response.json()) as { messages: ConversationMessage[] };
+        if (!stored?.length) return;
+        // A question asked while the thread was loading goes after it
+        setMessages((prev) => [
+          ...stored.map(({ id, role, content, sources }) => ({ id, role, content, sources, restored: true })),
+          ...prev,
+        ]);
+      } catch (err) {
+        console.error('Conversation restore error:', err);
+      }
+    })();
+  }, [isOpen]);
+
   // Detect when expandable screen (Waitlist) is open and hide widget
   useEffect(() => {
     const checkExpandableOpen = () => {
@@ -158,6 +307,17 @@ export function SQ3AssistantWidget() {
     }
   }, [isExpandableOpen, isOpen]);
 
+  // Cancel an in-flight reply when the panel closes or the widget unmounts
+  useEffect(() => {
+    if (!isOpen) {
+      abortControllerRef.current?.abort();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // Close on ESC key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -214,6 +374,20 @@ export function SQ3AssistantWidget() {
             <X className="sq3-widget-icon-sm" />
           </button>
 
+          {/* Clear Conversation Button */}
+          {messages.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="sq3-widget-clear-button"
+              aria-label="Clear conversation"
+              title="Clear conversation"
+              // A reply still arriving would be saved after the clear
+              disabled={status !== 'ready'}
+            >
+              <Trash2 className="sq3-widget-icon-sm" />
+            </button>
+          )}
+
           {/* Title Header with Logo */}
           <div className="sq3-widget-title-header">
             <div className="sq3-widget-title-container">
@@ -248,11 +422,20 @@ export function SQ3AssistantWidget() {
                   <Message key={message.id} from={message.role}>
                     <MessageContent>
                       {message.role === 'assistant' ? (
-                        <ResponseStream
-                          textStream={message.content}
-                          mode="typewriter"
-                          speed={30}
-                        />
+                        message.sources?.length && !message.stream ? (
+                          <>
+                            <CitedText text={message.content} sources={message.sources} />
+                            <MessageSources sources={message.sources} />
+                          </>
+                        ) : message.restored ? (
+                          message.content
+                        ) : (
+                          <ResponseStream
+                            textStream={message.stream ?? message.content}
+                            mode="typewriter"
+                            speed={30}
+                          />
+                        )
                       ) : (
                         message.content
                       )}
@@ -261,7 +444,7 @@ export function SQ3AssistantWidget() {
                 ))
               )}
               
-              {status === 'streaming' && (
+              {status === 'submitted' && (
                 <Message from="assistant">
                   <MessageContent>
                     <ResponseStream
@@ -294,7 +477,7 @@ export function SQ3AssistantWidget() {
             <div className="sq3-widget-prompt-container">
               <PromptInput onSubmit={handleSubmit}>
                 <PromptInputBody>
-                  <PromptInputTextarea placeholder="Ask anything about Sequence3..." />
+                  <PromptInputTextarea placeholder="Ask anything about Sequence3..." maxLength={MAX_MESSAGE_LENGTH} />
                 </PromptInputBody>
                 <PromptInputFooter>
                   <PromptInputSubmit
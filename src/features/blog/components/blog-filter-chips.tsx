@@ -0,0 +1,77 @@
+import Link from "next/link";
+
+import type { BlogTerm } from "@/features/blog/data/supabase-posts";
+import { cn } from "@/lib/utils";
+
+// Tags beyond the most used ones are left to the tag pages themselves
+const MAX_TAG_CHIPS = 12;
+
+type ActiveFilter = { type: "category" | "tag"; slug: string };
+
+function Chip({ href, active, children }: { href: string; active: boolean; children: React.ReactNode }) {
+  return (
+    <Link
+      href={href}
+      aria-current={active ? "page" : undefined}
+      className={cn(
+        "inline-flex items-center rounded-full border px-3 py-1 text-sm font-medium transition-colors",
+        active
+          ? "border-primary bg-primary text-primary-foreground"
+          : "border-border text-muted-foreground hover:border-primary/50 hover:text-foreground"
+      )}
+    >
+      {children}
+    </Link>
+  );
+}
+
+export function BlogFilterChips({
+  categories,
+  tags,
+  active,
+}: {
+  categories: BlogTerm[];
+  tags: BlogTerm[];
+  active?: ActiveFilter;
+}) {
+  if (categories.length === 0 && tags.length === 0) return null;
+
+  const shownTags = tags.slice(0, MAX_TAG_CHIPS);
+  // Keep the tag being viewed visible even when it's rarely used
+  if (active?.type === "tag" && !shownTags.some((tag) => tag.slug === active.slug)) {
+    const activeTag = tags.find((tag) => tag.slug === active.slug);
+    if (activeTag) shownTags.push(activeTag);
+  }
+
+  return (
+    <nav aria-label="Filter posts" className="flex flex-col items-center gap-3 py-6">
+      <div className="flex flex-wrap justify-center gap-2">
+        <Chip href="/blog" active={!active}>
+          All
+        </Chip>
+        {categories.map((category) => (
+          <Chip
+            key={category.slug}
+            href={`/blog/category/${category.slug}`}
+            active={active?.type === "category" && active.slug === category.slug}
+          >
+            {category.name}
+          </Chip>
+        ))}
+      </div>
+      {shownTags.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {shownTags.map((tag) => (
+            <Chip
+              key={tag.slug}
+              href={`/blog/tag/${tag.slug}`}
+              active={active?.type === "tag" && active.slug === tag.slug}
+            >
+              #{tag.name}
+            </Chip>
+          ))}
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -9,6 +9,7 @@ import Link from "next/link";
 
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { VariantPicture } from "@/features/blog/components/variant-picture";
 import type { Post } from "@/features/blog/types/post";
 
 interface BlogPostClientProps {
@@ -18,6 +19,7 @@ interface BlogPostClientProps {
 
 export function BlogPostClient({ post, children }: BlogPostClientProps) {
   const [showButton, setShowButton] = React.useState(false);
+  const coverVariants = post.metadata.image && post.imageVariants?.[post.metadata.image];
 
   React.useEffect(() => {
     const handleScroll = () => {
@@ -40,6 +42,14 @@ export function BlogPostClient({ post, children }: BlogPostClientProps) {
               <time dateTime={dayjs(post.metadata.createdAt).toISOString()}>
                 {dayjs(post.metadata.createdAt).format("MMMM D, YYYY")}
               </time>
+              {post.metadata.category && (
+                <>
+                  {" · "}
+                  <Link href={`/blog/category/${post.metadata.category}`} className="hover:text-foreground transition-colors">
+                    {post.metadata.categoryName ?? post.metadata.category}
+                  </Link>
+                </>
+              )}
             </div>
             
             {/* Title */}
@@ -51,6 +61,21 @@ export function BlogPostClient({ post, children }: BlogPostClientProps) {
             <p className="mt-4 text-lg text-muted-foreground font-medium text-balance">
               {post.metadata.description}
             </p>
+
+            {/* Tags */}
+            {post.metadata.tags && post.metadata.tags.length > 0 && (
+              <div className="mt-6 flex flex-wrap justify-center gap-2">
+                {post.metadata.tags.map((tag) => (
+                  <Link
+                    key={tag.slug}
+                    href={`/blog/tag/${tag.slug}`}
+                    className="rounded-full border border-border px-3 py-1 text-xs font-medium text-muted-foreground hover:border-primary/50 hover:text-foreground transition-colors"
+                  >
+                    #{tag.name}
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
         </header>
 
@@ -68,13 +93,23 @@ export function BlogPostClient({ post, children }: BlogPostClientProps) {
             <div className="border-b">
               <div className="px-6 md:px-10 py-8 md:py-10">
                 <div className="relative aspect-video w-full max-w-4xl mx-auto rounded-xl overflow-hidden">
-                  <Image
-                    src={post.metadata.image}
-                    alt={post.metadata.title}
-                    fill
-                    className="object-cover"
-                    priority
-                  />
+                  {coverVariants ? (
+                    <VariantPicture
+                      set={coverVariants}
+                      alt={post.metadata.title}
+                      sizes="(min-width: 896px) 896px, 100vw"
+                      className="absolute inset-0 h-full w-full object-cover"
+                      priority
+                    />
+                  ) : (
+                    <Image
+                      src={post.metadata.image}
+                      alt={post.metadata.title}
+                      fill
+                      className="object-cover"
+                      priority
+                    />
+                  )}
                   <div className="pointer-events-none absolute inset-0 rounded-xl ring-1 ring-black/10 ring-inset dark:ring-white/10" />
                 </div>
               </div>
@@ -5,8 +5,13 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { codeToHtml } from "shiki";
 
+import { VariantPicture } from "@/features/blog/components/variant-picture";
+import type { ImageVariantMap } from "@/lib/image-variants";
+
 interface MarkdownRendererProps {
   content: string;
+  // Variants of uploaded images, keyed by URL; others render as-is
+  imageVariants?: ImageVariantMap;
 }
 
 function CodeBlock({ code, language }: { code: string; language: string }) {
@@ -68,7 +73,7 @@ function YouTubeEmbed({ videoId, title }: { videoId: string; title?: string }) {
   );
 }
 
-export function MarkdownRenderer({ content }: MarkdownRendererProps) {
+export function MarkdownRenderer({ content, imageVariants }: MarkdownRendererProps) {
   return (
     <div className="prose prose-neutral dark:prose-invert max-w-none prose-headings:tracking-tighter prose-headings:font-medium prose-p:text-muted-foreground prose-p:leading-relaxed prose-a:text-primary prose-a:no-underline hover:prose-a:underline prose-img:rounded-xl">
       <ReactMarkdown
@@ -142,15 +147,28 @@ export function MarkdownRenderer({ content }: MarkdownRendererProps) {
               </a>
             );
           },
-          img: ({ src, alt }) => (
-            // eslint-disable-next-line @next/next/no-img-element
-            <img
-              src={src}
-              alt={alt || ""}
-              className="rounded-xl border border-border shadow-sm w-full my-8"
-              loading="lazy"
-            />
-          ),
+          img: ({ src, alt }) => {
+            const variants = typeof src === "string" ? imageVariants?.[src] : undefined;
+            if (variants) {
+              return (
+                <VariantPicture
+                  set={variants}
+                  alt={alt || ""}
+                  sizes="(min-width: 768px) 768px, 100vw"
+                  className="rounded-xl border border-border shadow-sm w-full h-auto my-8"
+                />
+              );
+            }
+            return (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={src}
+                alt={alt || ""}
+                className="rounded-xl border border-border shadow-sm w-full my-8"
+                loading="lazy"
+              />
+            );
+          },
         }}
       >
         {content}
@@ -0,0 +1,28 @@
+import { PostItem } from "@/features/blog/components/post-item";
+import type { Post } from "@/features/blog/types/post";
+
+export function PostGrid({ posts, emptyMessage }: { posts: Post[]; emptyMessage: string }) {
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
+      {posts.map((post, index) => (
+        <div
+          key={post.slug}
+          className="relative p-3"
+        >
+          <PostItem
+            post={post}
+            shouldPreloadImage={index <= 4}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
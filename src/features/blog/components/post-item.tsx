@@ -4,6 +4,7 @@ import Image from "next/image";
 import Link from "next/link";
 import React from "react";
 
+import { VariantPicture } from "@/features/blog/components/variant-picture";
 import type { Post } from "@/features/blog/types/post";
 import { cn } from "@/lib/utils";
 
@@ -14,6 +15,8 @@ export function PostItem({
   post: Post;
   shouldPreloadImage?: boolean;
 }) {
+  const coverVariants = post.metadata.image && post.imageVariants?.[post.metadata.image];
+
   return (
     <Link
       href={`/blog/${post.slug}`}
@@ -26,15 +29,25 @@ export function PostItem({
     >
       {post.metadata.image && (
         <div className="relative select-none overflow-hidden rounded-xl">
-          <Image
-            src={post.metadata.image}
-            alt={post.metadata.title}
-            width={1200}
-            height={630}
-            quality={85}
-            priority={shouldPreloadImage}
-            className="aspect-[1200/630] object-cover rounded-xl transition-transform duration-300 group-hover/post:scale-[1.02]"
-          />
+          {coverVariants ? (
+            <VariantPicture
+              set={coverVariants}
+              alt={post.metadata.title}
+              sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+              priority={shouldPreloadImage}
+              className="aspect-[1200/630] object-cover rounded-xl transition-transform duration-300 group-hover/post:scale-[1.02]"
+            />
+          ) : (
+            <Image
+              src={post.metadata.image}
+              alt={post.metadata.title}
+              width={1200}
+              height={630}
+              quality={85}
+              priority={shouldPreloadImage}
+              className="aspect-[1200/630] object-cover rounded-xl transition-transform duration-300 group-hover/post:scale-[1.02]"
+            />
+          )}
 
           <div className="pointer-events-none absolute inset-0 rounded-xl ring-1 ring-black/10 ring-inset dark:ring-white/10" />
 
@@ -0,0 +1,48 @@
+import {
+  IMAGE_VARIANT_FORMATS,
+  buildSrcSet,
+  type ImageVariantSet,
+} from "@/lib/image-variants";
+
+interface VariantPictureProps {
+  set: ImageVariantSet;
+  alt: string;
+  // The rendered width at each breakpoint, for the browser to pick a variant
+  sizes: string;
+  className?: string;
+  pictureClassName?: string;
+  priority?: boolean;
+}
+
+// An uploaded image with its AVIF/WebP width variants. Browsers without
+// either format, or without <picture>, load the original.
+export function VariantPicture({
+  set,
+  alt,
+  sizes,
+  className,
+  pictureClassName,
+  priority,
+}: VariantPictureProps) {
+  return (
+    <picture className={pictureClassName}>
+      {IMAGE_VARIANT_FORMATS.map((format) => {
+        const srcSet = buildSrcSet(set, format);
+        return srcSet ? (
+          <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} />
+        ) : null;
+      })}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={set.url}
+        alt={alt}
+        width={set.width}
+        height={set.height}
+        className={className}
+        loading={priority ? "eager" : "lazy"}
+        fetchPriority={priority ? "high" : undefined}
+        decoding="async"
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,26 @@
+import { supabase } from "@/lib/supabase";
+import type { ImageVariantMap, ImageVariantSet } from "@/lib/image-variants";
+
+// Recorded variants for the given image URLs. Images without a record (not
+// uploaded through /api/upload, or uploaded before variants existed) are
+// left out, and callers fall back to the original.
+export async function getImageVariantsFromDB(urls: string[]): Promise<ImageVariantMap> {
+  const unique = [...new Set(urls.filter(Boolean))];
+  if (unique.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("image_variants")
+    .select("url, width, height, variants")
+    .in("url", unique);
+
+  if (error) {
+    console.error("Error fetching image variants:", error);
+    return {};
+  }
+
+  const map: ImageVariantMap = {};
+  for (const row of (data || []) as ImageVariantSet[]) {
+    if (row.variants?.length) map[row.url] = row;
+  }
+  return map;
+}
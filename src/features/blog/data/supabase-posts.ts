@@ -1,5 +1,9 @@
 import { supabase } from "@/lib/supabase";
+import { extractMarkdownImageUrls, type ImageVariantMap } from "@/lib/image-variants";
+import type { PostTerm } from "@/lib/post-policy";
+import { getImageVariantsFromDB } from "./image-variants";
 
+// A row of `posts`: the draft the dashboard edits
 export interface DBPost {
   id: string;
   title: string;
@@ -7,12 +11,31 @@ export interface DBPost {
   content: string;
   excerpt: string | null;
   cover_image: string | null;
+  category_id: string | null;
   is_published: boolean;
   is_pinned: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// A row of `published_posts`: what readers see, copied from the draft on publish
+export interface DBPublishedPost {
+  post_id: string;
+  slug: string;
+  title: string;
+  content: string;
+  excerpt: string | null;
+  cover_image: string | null;
+  category_id: string | null;
+  is_pinned: boolean;
+  created_at: string;
+  published_at: string;
+  updated_at: string;
+  // Readers see the post from publish_at until unpublish_at; either may be unset
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
 export interface Post {
   metadata: {
     title: string;
@@ -22,13 +45,43 @@ export interface Post {
     updatedAt: string;
     pinned?: boolean;
     category?: string;
+    categoryName?: string;
+    tags?: PostTerm[];
   };
   slug: string;
   content: string;
+  // Responsive variants of the cover and inline images, where recorded
+  imageVariants?: ImageVariantMap;
+}
+
+// A category or tag with the number of live posts that use it
+export type BlogTerm = PostTerm & { count: number };
+
+// A live post with its category and tags embedded. To-one embeds come back
+// as an array from older PostgREST versions.
+type DBLivePost = DBPublishedPost & {
+  category?: PostTerm | PostTerm[] | null;
+  tags?: Array<{ tag: PostTerm | PostTerm[] | null }>;
+};
+
+const TERM_COLUMNS = "category:categories(slug, name), tags:published_post_tags(tag:tags(slug, name))";
+
+function firstOf<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
 }
 
+function getTerms(dbPost: Pick<DBLivePost, "category" | "tags">): { category: PostTerm | null; tags: PostTerm[] } {
+  return {
+    category: firstOf(dbPost.category),
+    tags: (dbPost.tags || [])
+      .map((row) => firstOf(row.tag))
+      .filter((tag): tag is PostTerm => !!tag)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
 
-function transformPost(dbPost: DBPost): Post {
+function transformPost(dbPost: DBLivePost): Post {
+  const { category, tags } = getTerms(dbPost);
   return {
     metadata: {
       title: dbPost.title,
@@ -37,17 +90,36 @@ function transformPost(dbPost: DBPost): Post {
       createdAt: dbPost.created_at,
       updatedAt: dbPost.updated_at || dbPost.created_at,
       pinned: dbPost.is_pinned || false,
+      category: category?.slug,
+      categoryName: category?.name,
+      tags,
     },
     slug: dbPost.slug,
     content: dbPost.content,
   };
 }
 
-export async function getAllPostsFromDB(): Promise<Post[]> {
-  const { data: posts, error } = await supabase
-    .from("posts")
-    .select("*")
-    .eq("is_published", true)
+// PostgREST filters for versions inside their publishing window right now.
+// RLS applies the same window to readers; these keep a signed-in session
+// from seeing scheduled posts on the blog.
+function getPublishingWindowFilters(): [string, string] {
+  const now = new Date().toISOString();
+  return [`publish_at.is.null,publish_at.lte.${now}`, `unpublish_at.is.null,unpublish_at.gt.${now}`];
+}
+
+// Live posts as the blog lists them, optionally only those in a category or
+// with the given ids
+async function getLivePostsFromDB(filter: { categoryId?: string; postIds?: string[] } = {}): Promise<Post[]> {
+  const [published, notUnpublished] = getPublishingWindowFilters();
+  let query = supabase
+    .from("published_posts")
+    .select(`*, ${TERM_COLUMNS}`)
+    .or(published)
+    .or(notUnpublished);
+  if (filter.categoryId) query = query.eq("category_id", filter.categoryId);
+  if (filter.postIds) query = query.in("post_id", filter.postIds);
+
+  const { data: posts, error } = await query
     .order("is_pinned", { ascending: false })
     .order("created_at", { ascending: false });
 
@@ -56,15 +128,102 @@ export async function getAllPostsFromDB(): Promise<Post[]> {
     return [];
   }
 
-  return (posts || []).map(transformPost);
+  const allPosts = (posts || []).map(transformPost);
+
+  // Cards only show the cover, so only covers need variants
+  const imageVariants = await getImageVariantsFromDB(
+    allPosts.map((post) => post.metadata.image || "")
+  );
+  return allPosts.map((post) => {
+    const cover = post.metadata.image && imageVariants[post.metadata.image];
+    return cover ? { ...post, imageVariants: { [cover.url]: cover } } : post;
+  });
+}
+
+export async function getAllPostsFromDB(): Promise<Post[]> {
+  return getLivePostsFromDB();
+}
+
+async function getTermBySlugFromDB(
+  table: "categories" | "tags",
+  slug: string
+): Promise<(PostTerm & { id: string }) | null> {
+  const { data, error } = await supabase.from(table).select("id, slug, name").eq("slug", slug).maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching ${table}:`, error);
+    return null;
+  }
+  return data;
+}
+
+// Live posts in a category, or null when there's no such category
+export async function getPostsByCategory(
+  categorySlug: string
+): Promise<{ category: PostTerm; posts: Post[] } | null> {
+  const category = await getTermBySlugFromDB("categories", categorySlug);
+  if (!category) return null;
+
+  const posts = await getLivePostsFromDB({ categoryId: category.id });
+  return { category: { slug: category.slug, name: category.name }, posts };
+}
+
+// Live posts with a tag, or null when there's no such tag
+export async function getPostsByTag(tagSlug: string): Promise<{ tag: PostTerm; posts: Post[] } | null> {
+  const tag = await getTermBySlugFromDB("tags", tagSlug);
+  if (!tag) return null;
+
+  const { data: tagged, error } = await supabase.from("published_post_tags").select("post_id").eq("tag_id", tag.id);
+  if (error) console.error("Error fetching tagged posts:", error);
+
+  const postIds = (tagged || []).map((row) => row.post_id as string);
+  const posts = postIds.length > 0 ? await getLivePostsFromDB({ postIds }) : [];
+  return { tag: { slug: tag.slug, name: tag.name }, posts };
+}
+
+// Categories and tags that live posts use, most used first, for the blog's
+// filter chips and the sitemap
+export async function getBlogTermsFromDB(): Promise<{ categories: BlogTerm[]; tags: BlogTerm[] }> {
+  const [published, notUnpublished] = getPublishingWindowFilters();
+  const { data: posts, error } = await supabase
+    .from("published_posts")
+    .select(TERM_COLUMNS)
+    .or(published)
+    .or(notUnpublished);
+
+  if (error) {
+    console.error("Error fetching categories and tags:", error);
+    return { categories: [], tags: [] };
+  }
+
+  const categories = new Map<string, BlogTerm>();
+  const tags = new Map<string, BlogTerm>();
+  const count = (terms: Map<string, BlogTerm>, term: PostTerm) => {
+    const counted = terms.get(term.slug);
+    if (counted) counted.count++;
+    else terms.set(term.slug, { slug: term.slug, name: term.name, count: 1 });
+  };
+
+  for (const post of (posts || []) as Array<Pick<DBLivePost, "category" | "tags">>) {
+    const terms = getTerms(post);
+    if (terms.category) count(categories, terms.category);
+    terms.tags.forEach((tag) => count(tags, tag));
+  }
+
+  const byUse = (a: BlogTerm, b: BlogTerm) => b.count - a.count || a.name.localeCompare(b.name);
+  return { categories: [...categories.values()].sort(byUse), tags: [...tags.values()].sort(byUse) };
 }
 
+// Only ever the published version, and only while it's scheduled to be live;
+// drafts aren't readable without signing in
 export async function getPostBySlugFromDB(slug: string): Promise<Post | null> {
+  const [published, notUnpublished] = getPublishingWindowFilters();
   const { data: post, error } = await supabase
-    .from("posts")
-    .select("*")
+    .from("published_posts")
+    .select(`*, ${TERM_COLUMNS}`)
     .eq("slug", slug)
-    .eq("is_published", true)
+    .or(published)
+    .or(notUnpublished)
     .single();
 
   if (error || !post) {
@@ -72,5 +231,10 @@ export async function getPostBySlugFromDB(slug: string): Promise<Post | null> {
     return null;
   }
 
-  return transformPost(post);
+  const result = transformPost(post);
+  result.imageVariants = await getImageVariantsFromDB([
+    result.metadata.image || "",
+    ...extractMarkdownImageUrls(result.content),
+  ]);
+  return result;
 }
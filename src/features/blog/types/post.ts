@@ -1,3 +1,6 @@
+import type { ImageVariantMap } from "@/lib/image-variants";
+import type { PostTerm } from "@/lib/post-policy";
+
 export type PostMetadata = {
   title: string;
   description: string;
@@ -10,6 +13,14 @@ export type PostMetadata = {
    * Category identifier/slug used for filtering (see getPostsByCategory).
    */
   category?: string;
+  /**
+   * Display name of the category.
+   */
+  categoryName?: string;
+  /**
+   * Tags as slug and display name, sorted by name (see getPostsByTag).
+   */
+  tags?: PostTerm[];
   /**
    * Custom icon name or a Lucide icon name.
    * Used to visually represent the post in lists or navigation.
@@ -40,4 +51,6 @@ export type Post = {
   slug: string;
   /** MDX content body without frontmatter. */
   content: string;
+  /** Responsive variants of the cover and inline images, keyed by original URL. */
+  imageVariants?: ImageVariantMap;
 };
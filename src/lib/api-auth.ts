@@ -0,0 +1,122 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import type { User } from "@supabase/supabase-js";
+
+import { supabase } from "@/lib/supabase";
+
+// API routes are outside the middleware matcher, so routes that change data
+// check the caller themselves: the same Supabase access token the middleware
+// verifies for /dashboard, from the `sb-access-token` cookie (sent by the
+// dashboard's own requests) or an `Authorization: Bearer <token>` header.
+// Server actions are checked the same way, from the cookie.
+
+const ACCESS_TOKEN_COOKIE = "sb-access-token";
+
+export type ActionAuth = { user: User; accessToken: string };
+
+export type RequestAuth =
+  | { user: User; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+function getAccessToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization");
+  if (header?.toLowerCase().startsWith("bearer ")) {
+    return header.slice(7).trim() || null;
+  }
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null;
+}
+
+function readList(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+async function getUserForToken(accessToken: string): Promise<User | null> {
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+  return error ? null : user;
+}
+
+export async function authenticateRequest(request: NextRequest): Promise<RequestAuth> {
+  const accessToken = getAccessToken(request);
+  if (!accessToken) {
+    return {
+      response: NextResponse.json({ error: "Authentication required" }, { status: 401 }),
+    };
+  }
+
+  const user = await getUserForToken(accessToken);
+  if (!user) {
+    return {
+      response: NextResponse.json({ error: "Session is invalid or expired" }, { status: 401 }),
+    };
+  }
+  return { user };
+}
+
+// Cron routes run as the service role, so they only run for Vercel Cron, which
+// sends CRON_SECRET as a bearer token. Without a secret they don't run at all.
+// Returns the response to send instead, or null when the caller is allowed.
+export function authorizeCron(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not set, refusing cron request:", request.nextUrl.pathname);
+    return NextResponse.json({ success: false, error: "CRON_SECRET must be set" }, { status: 500 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+// The signed-in user making a request, or null. For open routes that only
+// unlock extras for the team.
+export async function getRequestUser(request: NextRequest): Promise<User | null> {
+  const accessToken = getAccessToken(request);
+  return accessToken ? getUserForToken(accessToken) : null;
+}
+
+// The signed-in user calling a server action, or null
+export async function authenticateAction(): Promise<ActionAuth | null> {
+  const accessToken = (await cookies()).get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) return null;
+
+  const user = await getUserForToken(accessToken);
+  return user ? { user, accessToken } : null;
+}
+
+let reportedEmptyAllowlist = false;
+
+// Who may write to or delete from the R2 bucket: users listed in
+// STORAGE_ADMIN_EMAILS or STORAGE_ADMIN_USER_IDS (comma-separated). With
+// neither set, nobody may.
+export function canMutateStorage(user: User): boolean {
+  const emails = readList("STORAGE_ADMIN_EMAILS");
+  const userIds = readList("STORAGE_ADMIN_USER_IDS");
+  if (emails.length === 0 && userIds.length === 0) {
+    if (!reportedEmptyAllowlist) {
+      reportedEmptyAllowlist = true;
+      console.warn("Storage uploads and deletes are disabled: set STORAGE_ADMIN_EMAILS or STORAGE_ADMIN_USER_IDS");
+    }
+    return false;
+  }
+
+  return (
+    (!!user.email && emails.includes(user.email.toLowerCase())) ||
+    userIds.includes(user.id.toLowerCase())
+  );
+}
+
+export async function authorizeStorageMutation(request: NextRequest): Promise<RequestAuth> {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth;
+
+  if (!canMutateStorage(auth.user)) {
+    console.warn("Storage mutation denied:", { userId: auth.user.id, path: request.nextUrl.pathname });
+    return {
+      response: NextResponse.json({ error: "You are not allowed to change stored files" }, { status: 403 }),
+    };
+  }
+  return auth;
+}
@@ -0,0 +1,131 @@
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOAD_ERROR_MESSAGES,
+  getUploadErrorMessage,
+  isAllowedUploadType,
+  type CompletedPart,
+  type PresignedUpload,
+  type UploadResult,
+} from '@/lib/upload-policy';
+
+// Browser side of presigned uploads: the file goes straight to R2 instead of
+// through /api/upload. The bucket's CORS policy has to allow PUT from the
+// site with a Content-Type header, and expose ETag for multipart uploads.
+
+// Times a failed part is retried before the whole upload is given up
+const PART_RETRIES = 2;
+
+export type DirectUploadOptions = {
+  // Fraction of the file's bytes sent so far, from 0 to 1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+};
+
+class DirectUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectUploadError';
+  }
+}
+
+function putWithProgress(
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve(xhr.getResponseHeader('ETag'));
+      else reject(new DirectUploadError(`Storage rejected the upload (HTTP ${xhr.status})`));
+    };
+    // Also what a missing CORS rule on the bucket looks like
+    xhr.onerror = () => reject(new DirectUploadError('Could not reach storage. Please try again.'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(body);
+  });
+}
+
+async function postJson(url: string, body: unknown): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function sendParts(
+  file: File,
+  upload: Extract<PresignedUpload, { mode: 'multipart' }>,
+  report: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<CompletedPart[]> {
+  const completed: CompletedPart[] = [];
+  let sentBefore = 0;
+
+  // One part at a time keeps progress meaningful and memory flat
+  for (const { partNumber, url } of upload.parts) {
+    const start = (partNumber - 1) * upload.partSize;
+    const chunk = file.slice(start, start + upload.partSize);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const etag = await putWithProgress(url, chunk, {}, (loaded) => report(sentBefore + loaded), signal);
+        if (!etag) {
+          throw new DirectUploadError('Storage did not return an ETag. Check the bucket CORS settings.');
+        }
+        completed.push({ partNumber, etag });
+        break;
+      } catch (error) {
+        if (signal?.aborted || attempt >= PART_RETRIES) throw error;
+      }
+    }
+    sentBefore += chunk.size;
+  }
+  return completed;
+}
+
+// Upload an image straight to R2 and register it. Resolves with the same
+// result as POST /api/upload once the server has checked and stored it.
+export async function uploadFileDirect(file: File, options: DirectUploadOptions = {}): Promise<UploadResult> {
+  const { onProgress, signal } = options;
+
+  if (!isAllowedUploadType(file.type)) throw new DirectUploadError(UPLOAD_ERROR_MESSAGES.unsupported_type);
+  if (file.size === 0) throw new DirectUploadError(UPLOAD_ERROR_MESSAGES.empty_file);
+  if (file.size > MAX_UPLOAD_BYTES) throw new DirectUploadError(UPLOAD_ERROR_MESSAGES.file_too_large);
+
+  const presignResponse = await postJson('/api/upload/presign', { contentType: file.type, size: file.size });
+  if (!presignResponse.ok) throw new DirectUploadError(await getUploadErrorMessage(presignResponse));
+  const upload: PresignedUpload = await presignResponse.json();
+
+  const report = (loaded: number) => onProgress?.(Math.min(loaded / file.size, 1));
+  let parts: CompletedPart[] | undefined;
+
+  try {
+    if (upload.mode === 'put') {
+      await putWithProgress(upload.url, file, upload.headers, report, signal);
+    } else {
+      parts = await sendParts(file, upload, report, signal);
+    }
+  } catch (error) {
+    const uploadId = upload.mode === 'multipart' ? upload.uploadId : undefined;
+    postJson('/api/upload/abort', { key: upload.key, uploadId }).catch(() => {});
+    throw error;
+  }
+
+  const completeResponse = await postJson('/api/upload/complete', {
+    key: upload.key,
+    uploadId: upload.mode === 'multipart' ? upload.uploadId : undefined,
+    parts,
+  });
+  if (!completeResponse.ok) throw new DirectUploadError(await getUploadErrorMessage(completeResponse));
+  return completeResponse.json();
+}
@@ -0,0 +1,118 @@
+import sharp from 'sharp';
+import { DeleteObjectsCommand, ListObjectsV2Command, PutObjectCommand } from '@aws-sdk/client-s3';
+
+import { r2 } from '@/lib/r2';
+import { getPublicUrlForKey, isUploadKey } from '@/lib/storage-keys';
+import { getSupabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase-admin';
+import {
+  IMAGE_VARIANT_FORMATS,
+  getVariantPrefix,
+  getVariantWidths,
+  type ImageVariant,
+  type ImageVariantFormat,
+  type ImageVariantSet,
+} from '@/lib/image-variants';
+
+// Server-only: generates, stores and removes the variants described in
+// image-variants.ts
+
+const VARIANTS_TABLE = 'image_variants';
+
+// Variant URLs never change content, so browsers and the CDN may keep them
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const CONTENT_TYPES: Record<ImageVariantFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+export type StoredUpload = {
+  key: string;
+  url: string;
+  buffer: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+};
+
+function encodeVariant(buffer: Buffer, width: number, format: ImageVariantFormat): Promise<Buffer> {
+  const image = sharp(buffer).resize({ width, withoutEnlargement: true });
+  // Lower effort keeps AVIF encoding of the large widths within a request
+  return format === 'avif'
+    ? image.avif({ quality: 55, effort: 2 }).toBuffer()
+    : image.webp({ quality: 75 }).toBuffer();
+}
+
+// Generate the width/format variants of a freshly uploaded image, put them in
+// the bucket and record them. Returns null when the image gets no variants:
+// GIFs (possibly animated) are served as uploaded, and without the service
+// role key there is nowhere to record them.
+export async function storeImageVariants(
+  bucketName: string,
+  upload: StoredUpload
+): Promise<ImageVariantSet | null> {
+  if (upload.contentType === 'image/gif') return null;
+  if (!isSupabaseAdminConfigured()) {
+    console.warn('Skipping image variants: SUPABASE_SERVICE_ROLE_KEY is not set');
+    return null;
+  }
+  const { pages } = await sharp(upload.buffer).metadata();
+  if (pages && pages > 1) return null;
+
+  const prefix = getVariantPrefix(upload.key);
+  const variants: ImageVariant[] = [];
+
+  // One at a time: each encode holds a decoded copy of the image in memory
+  for (const width of getVariantWidths(upload.width)) {
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const key = `${prefix}${width}.${format}`;
+      await r2.send(new PutObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+        Body: await encodeVariant(upload.buffer, width, format),
+        ContentType: CONTENT_TYPES[format],
+        CacheControl: IMMUTABLE_CACHE_CONTROL,
+      }));
+      variants.push({ width, format, url: getPublicUrlForKey(key) });
+    }
+  }
+
+  const set: ImageVariantSet = {
+    url: upload.url,
+    width: upload.width,
+    height: upload.height,
+    variants,
+  };
+
+  const { error } = await getSupabaseAdmin()
+    .from(VARIANTS_TABLE)
+    .upsert({ url: set.url, key: upload.key, width: set.width, height: set.height, variants: set.variants });
+  if (error) throw new Error(`Failed to record image variants: ${error.message}`);
+
+  return set;
+}
+
+// Remove an upload's variants and their record. The original is deleted by
+// the caller. Uploads made before variants existed simply have none.
+export async function deleteImageVariants(bucketName: string, originalKey: string): Promise<number> {
+  // Only uploads have variants, and the check keeps a malformed key from
+  // turning into a prefix that lists other objects
+  if (!isUploadKey(originalKey)) return 0;
+
+  const prefix = getVariantPrefix(originalKey);
+  const listed = await r2.send(new ListObjectsV2Command({ Bucket: bucketName, Prefix: prefix }));
+  const keys = (listed.Contents || []).map((object) => object.Key).filter((key): key is string => !!key);
+
+  if (keys.length > 0) {
+    await r2.send(new DeleteObjectsCommand({
+      Bucket: bucketName,
+      Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true },
+    }));
+  }
+
+  if (isSupabaseAdminConfigured()) {
+    const { error } = await getSupabaseAdmin().from(VARIANTS_TABLE).delete().eq('key', originalKey);
+    if (error) console.warn('Failed to delete image variant record:', { key: originalKey, message: error.message });
+  }
+  return keys.length;
+}
@@ -0,0 +1,60 @@
+// Responsive variants of uploaded images. /api/upload stores the original
+// plus one file per width and format next to it, and records them in the
+// `image_variants` table keyed by the original's public URL.
+
+// Also used as `images.deviceSizes` in next.config.ts
+export const IMAGE_VARIANT_WIDTHS = [640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+
+// Most preferred first, the order <source> elements are emitted in
+export const IMAGE_VARIANT_FORMATS = ['avif', 'webp'] as const;
+
+export type ImageVariantFormat = (typeof IMAGE_VARIANT_FORMATS)[number];
+
+export type ImageVariant = {
+  width: number;
+  format: ImageVariantFormat;
+  url: string;
+};
+
+export type ImageVariantSet = {
+  // Public URL of the original upload
+  url: string;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+};
+
+// Keyed by the original's public URL
+export type ImageVariantMap = Record<string, ImageVariantSet>;
+
+// Widths to generate for an image: every configured width below the
+// original's, plus the original width itself up to the largest configured
+// width. Images are never upscaled.
+export function getVariantWidths(originalWidth: number): number[] {
+  const largest = Math.min(originalWidth, IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1]);
+  const widths = IMAGE_VARIANT_WIDTHS.filter((width) => width < largest);
+  return [...widths, largest];
+}
+
+// The object key prefix holding an upload's variants,
+// e.g. "uploads/abc123.jpg" -> "uploads/abc123/"
+export function getVariantPrefix(originalKey: string): string {
+  return `${originalKey.replace(/\.[^./]+$/, '')}/`;
+}
+
+export function buildSrcSet(set: ImageVariantSet, format: ImageVariantFormat): string {
+  return set.variants
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+// Image URLs referenced by Markdown `![alt](url)` syntax
+export function extractMarkdownImageUrls(content: string): string[] {
+  const urls = new Set<string>();
+  for (const match of content.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+    urls.add(match[1]);
+  }
+  return [...urls];
+}
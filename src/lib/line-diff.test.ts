@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffLines, type DiffRow } from './line-diff';
+
+// Rows as "<type> <left text>|<right text>", for compact expectations
+function summarize(rows: DiffRow[]): string[] {
+  return rows.map((row) => `${row.type} ${row.left?.text ?? ''}|${row.right?.text ?? ''}`);
+}
+
+describe('diffLines', () => {
+  it('pairs identical texts line by line', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', left: { number: 1, text: 'a' }, right: { number: 1, text: 'a' } },
+      { type: 'same', left: { number: 2, text: 'b' }, right: { number: 2, text: 'b' } },
+    ]);
+  });
+
+  it('shows an edited line as changed, facing its new version', () => {
+    expect(summarize(diffLines('a\nb\nc', 'a\nB\nc'))).toEqual(['same a|a', 'changed b|B', 'same c|c']);
+  });
+
+  it('shows inserted and deleted lines against an empty side', () => {
+    expect(summarize(diffLines('a\nc', 'a\nb\nc'))).toEqual(['same a|a', 'added |b', 'same c|c']);
+    expect(summarize(diffLines('a\nb\nc', 'a\nc'))).toEqual(['same a|a', 'removed b|', 'same c|c']);
+  });
+
+  it('numbers lines on each side independently', () => {
+    const rows = diffLines('a\nb', 'new\na\nb');
+    expect(rows[0]).toEqual({ type: 'added', left: null, right: { number: 1, text: 'new' } });
+    expect(rows[2]).toEqual({ type: 'same', left: { number: 2, text: 'b' }, right: { number: 3, text: 'b' } });
+  });
+
+  it('keeps moved-around lines that still match aligned', () => {
+    expect(summarize(diffLines('intro\nx\nkeep\ny\nend', 'intro\nkeep\nz\nend'))).toEqual([
+      'same intro|intro',
+      'removed x|',
+      'same keep|keep',
+      'changed y|z',
+      'same end|end',
+    ]);
+  });
+
+  it('pairs as many removed and added lines as it can, then lists the rest', () => {
+    expect(summarize(diffLines('a\n1\n2\n3\nb', 'a\nX\nb'))).toEqual([
+      'same a|a',
+      'changed 1|X',
+      'removed 2|',
+      'removed 3|',
+      'same b|b',
+    ]);
+  });
+
+  it('handles empty texts', () => {
+    expect(summarize(diffLines('', ''))).toEqual(['same |']);
+    expect(summarize(diffLines('', 'a'))).toEqual(['changed |a']);
+  });
+
+  it('replaces a very large changed middle wholesale instead of diffing it', () => {
+    const before = ['start', ...Array.from({ length: 2100 }, (_, i) => `old ${i}`), 'end'].join('\n');
+    const after = ['start', ...Array.from({ length: 2100 }, (_, i) => (i === 5 ? 'old 5' : `new ${i}`)), 'end'].join('\n');
+    const rows = diffLines(before, after);
+
+    expect(rows).toHaveLength(2102);
+    expect(rows[0].type).toBe('same');
+    expect(rows.slice(1, -1).every((row) => row.type === 'changed')).toBe(true);
+    expect(rows.at(-1)!.type).toBe('same');
+  });
+});
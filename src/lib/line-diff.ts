@@ -0,0 +1,110 @@
+// Line diff for the editor's revisions panel, laid out for a side-by-side
+// view: longest common subsequence over the lines left once the common start
+// and end are trimmed, which is most of a post for a typical edit.
+
+export type DiffLine = { number: number; text: string };
+
+export type DiffRow =
+  | { type: 'same'; left: DiffLine; right: DiffLine }
+  | { type: 'changed'; left: DiffLine; right: DiffLine }
+  | { type: 'removed'; left: DiffLine; right: null }
+  | { type: 'added'; left: null; right: DiffLine };
+
+// Past this many lines × lines the changed middle is shown as replaced
+// wholesale instead of being diffed
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { type: 'same' | 'removed' | 'added'; leftIndex: number; rightIndex: number };
+
+function diffMiddle(left: string[], right: string[], start: number, leftEnd: number, rightEnd: number): Op[] {
+  const rows = leftEnd - start;
+  const cols = rightEnd - start;
+  const ops: Op[] = [];
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    for (let i = start; i < leftEnd; i++) ops.push({ type: 'removed', leftIndex: i, rightIndex: -1 });
+    for (let j = start; j < rightEnd; j++) ops.push({ type: 'added', leftIndex: -1, rightIndex: j });
+    return ops;
+  }
+
+  // lcs[i * (cols + 1) + j]: common lines of left[start + i..] and right[start + j..]
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        left[start + i] === right[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && left[start + i] === right[start + j]) {
+      ops.push({ type: 'same', leftIndex: start + i++, rightIndex: start + j++ });
+    } else if (j < cols && (i === rows || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      ops.push({ type: 'added', leftIndex: -1, rightIndex: start + j++ });
+    } else {
+      ops.push({ type: 'removed', leftIndex: start + i++, rightIndex: -1 });
+    }
+  }
+  return ops;
+}
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split('\n');
+  const right = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'same', leftIndex: i, rightIndex: i });
+  ops.push(...diffMiddle(left, right, prefix, left.length - suffix, right.length - suffix));
+  for (let k = suffix; k > 0; k--) {
+    ops.push({ type: 'same', leftIndex: left.length - k, rightIndex: right.length - k });
+  }
+
+  const line = (lines: string[], index: number): DiffLine => ({ number: index + 1, text: lines[index] });
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  // Removed and added lines between two unchanged ones face each other
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      if (k < removed.length && k < added.length) {
+        rows.push({ type: 'changed', left: line(left, removed[k]), right: line(right, added[k]) });
+      } else if (k < removed.length) {
+        rows.push({ type: 'removed', left: line(left, removed[k]), right: null });
+      } else {
+        rows.push({ type: 'added', left: null, right: line(right, added[k]) });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'removed') {
+      removed.push(op.leftIndex);
+    } else if (op.type === 'added') {
+      added.push(op.rightIndex);
+    } else {
+      flush();
+      rows.push({ type: 'same', left: line(left, op.leftIndex), right: line(right, op.rightIndex) });
+    }
+  }
+  flush();
+  return rows;
+}
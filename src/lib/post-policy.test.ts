@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  POST_LIMITS,
+  hasUnpublishedChanges,
+  isAwaitingPublish,
+  normalizeSlug,
+  suggestSlugs,
+  toPostTerm,
+} from './post-policy';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('normalizeSlug', () => {
+  it('lowercases, folds accents and collapses everything else to single dashes', () => {
+    expect(normalizeSlug('Héllo, World!')).toBe('hello-world');
+    expect(normalizeSlug('  Crème   brûlée -- recipe  ')).toBe('creme-brulee-recipe');
+    expect(normalizeSlug('Next.js 16 & React_19')).toBe('next-js-16-react-19');
+  });
+
+  it('trims leading and trailing dashes', () => {
+    expect(normalizeSlug('--already-a-slug--')).toBe('already-a-slug');
+  });
+
+  it('returns an empty slug when nothing is left', () => {
+    expect(normalizeSlug('')).toBe('');
+    expect(normalizeSlug('!!! ???')).toBe('');
+    expect(normalizeSlug('සිංහල')).toBe('');
+  });
+
+  it('cuts long slugs at a word boundary within the limit', () => {
+    const words = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    const slug = normalizeSlug(words);
+    expect(slug.length).toBeLessThanOrEqual(POST_LIMITS.slug);
+    expect(words.replace(/ /g, '-').startsWith(`${slug}-`)).toBe(true);
+  });
+
+  it('cuts a single long word at the limit', () => {
+    expect(normalizeSlug('a'.repeat(200))).toBe('a'.repeat(POST_LIMITS.slug));
+  });
+});
+
+describe('toPostTerm', () => {
+  it('collapses whitespace in the name and derives the slug', () => {
+    expect(toPostTerm('  Machine   Learning ')).toEqual({ slug: 'machine-learning', name: 'Machine Learning' });
+  });
+
+  it('returns null for names without letters or digits', () => {
+    expect(toPostTerm(' -- ')).toBeNull();
+  });
+});
+
+describe('suggestSlugs', () => {
+  it('numbers from 2, skipping taken slugs', () => {
+    expect(suggestSlugs('my-post', [])).toEqual(['my-post-2', 'my-post-3', 'my-post-4']);
+    expect(suggestSlugs('my-post', ['my-post', 'my-post-2', 'my-post-4'])).toEqual([
+      'my-post-3', 'my-post-5', 'my-post-6',
+    ]);
+  });
+
+  it('keeps suggestions within the slug limit', () => {
+    const base = `${'a'.repeat(POST_LIMITS.slug - 3)}-bb`;
+    for (const suggestion of suggestSlugs(base, [])) {
+      expect(suggestion.length).toBeLessThanOrEqual(POST_LIMITS.slug);
+      expect(suggestion).not.toContain('--');
+    }
+  });
+});
+
+describe('hasUnpublishedChanges', () => {
+  it('is true only when the draft was saved after the live version', () => {
+    const published = { updated_at: '2026-01-01T10:00:00Z' };
+    expect(hasUnpublishedChanges('2026-01-01T10:00:01Z', published)).toBe(true);
+    expect(hasUnpublishedChanges('2026-01-01T10:00:00Z', published)).toBe(false);
+    expect(hasUnpublishedChanges('2026-01-02T00:00:00Z', null)).toBe(false);
+  });
+});
+
+describe('isAwaitingPublish', () => {
+  it('is true while the publish time is in the future', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+
+    expect(isAwaitingPublish({ publish_at: '2026-01-01T12:00:01Z' })).toBe(true);
+    expect(isAwaitingPublish({ publish_at: '2026-01-01T11:59:59Z' })).toBe(false);
+    expect(isAwaitingPublish({ publish_at: null })).toBe(false);
+    expect(isAwaitingPublish(null)).toBe(false);
+  });
+});
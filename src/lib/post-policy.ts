@@ -0,0 +1,184 @@
+// What the posts service accepts, shared by the server actions and the editor
+// so both normalize slugs the same way and the editor can explain a rejected
+// save.
+
+export const POST_LIMITS = {
+  title: 300,
+  slug: 120,
+  excerpt: 1000,
+  content: 1_000_000,
+  coverImage: 2048,
+  // Length of a category or tag name
+  category: 60,
+  tag: 60,
+  // Tags per post
+  tags: 10,
+} as const;
+
+// Alternatives offered when a slug is taken
+const SLUG_SUGGESTIONS = 3;
+
+export type PostField = 'title' | 'slug' | 'excerpt' | 'content' | 'coverImage' | 'category' | 'tags';
+
+// What the editor sends, saved to the post's draft. Without a slug, one is
+// derived from the title and made unique by the service; a slug that was
+// typed in is never changed behind the author's back, so a taken one is an
+// error instead. Publishing is a separate step.
+export type PostInput = {
+  title: string;
+  slug?: string;
+  content: string;
+  excerpt: string;
+  coverImage: string;
+  // Category and tag names; ones that don't exist yet are created
+  category?: string;
+  tags?: string[];
+  isPinned?: boolean;
+};
+
+// A category or tag
+export type PostTerm = {
+  slug: string;
+  name: string;
+};
+
+// An autosave, or a save the author asked for (Save & Exit, or before Publish)
+export type SaveKind = 'autosave' | 'save';
+
+// Why a revision was taken
+export type RevisionReason = 'autosave' | 'save' | 'publish' | 'restore';
+
+// The live version of a post, as the editor shows it next to the draft
+export type PublishedVersion = {
+  slug: string;
+  published_at: string;
+  updated_at: string;
+  publish_at: string | null;
+  unpublish_at: string | null;
+};
+
+// When readers see a published post, as ISO timestamps. Without publishAt it
+// goes live right away; without unpublishAt it stays up.
+export type PublishSchedule = {
+  publishAt: string | null;
+  unpublishAt: string | null;
+};
+
+export type PostRevisionSummary = {
+  id: string;
+  post_id: string;
+  title: string;
+  is_published: boolean;
+  reason: RevisionReason;
+  created_by: string | null;
+  created_at: string;
+};
+
+export type PostRevision = PostRevisionSummary & {
+  slug: string;
+  content: string;
+  excerpt: string | null;
+  cover_image: string | null;
+};
+
+export type PostErrorCode =
+  | 'unauthenticated'
+  | 'invalid_input'
+  | 'title_required'
+  | 'title_too_long'
+  | 'slug_invalid'
+  | 'slug_taken'
+  | 'excerpt_too_long'
+  | 'content_too_long'
+  | 'cover_image_invalid'
+  | 'category_invalid'
+  | 'tags_invalid'
+  | 'not_found'
+  | 'revision_not_found'
+  | 'schedule_invalid'
+  | 'schedule_live'
+  | 'server_error';
+
+export const POST_ERROR_MESSAGES: Record<PostErrorCode, string> = {
+  unauthenticated: 'Your session has expired. Please sign in again.',
+  invalid_input: 'The post could not be read. Please reload the page.',
+  title_required: 'The post needs a title.',
+  title_too_long: `The title is longer than ${POST_LIMITS.title} characters.`,
+  slug_invalid: 'The slug needs at least one letter or number.',
+  slug_taken: 'Another post already uses this slug.',
+  excerpt_too_long: `The excerpt is longer than ${POST_LIMITS.excerpt} characters.`,
+  content_too_long: 'The post is too long to save.',
+  cover_image_invalid: 'The cover image must be an http(s) URL.',
+  category_invalid: `A category name needs a letter or number and at most ${POST_LIMITS.category} characters.`,
+  tags_invalid: `Use at most ${POST_LIMITS.tags} tags, each with a letter or number and at most ${POST_LIMITS.tag} characters.`,
+  not_found: 'The post no longer exists.',
+  revision_not_found: 'That revision no longer exists.',
+  schedule_invalid: 'The unpublish time must be in the future and after the publish time.',
+  schedule_live: 'This post is live. Publish the changes now, or unpublish it before scheduling it for later.',
+  server_error: 'The post could not be saved. Please try again.',
+};
+
+export type PostError = {
+  code: PostErrorCode;
+  message: string;
+  field?: PostField;
+  // Free slugs close to the requested one, for slug_taken
+  suggestions?: string[];
+};
+
+// Returned by every posts server action
+export type PostResult<T> = { ok: true; data: T } | { ok: false; error: PostError };
+
+export function postError(code: PostErrorCode, extra: Omit<PostError, 'code' | 'message'> = {}): PostError {
+  return { code, message: POST_ERROR_MESSAGES[code], ...extra };
+}
+
+// "Héllo, World!" -> "hello-world". Accents are folded to their base letter;
+// anything else that isn't a letter or digit becomes a single dash. Cut at a
+// word boundary when it would be longer than the limit.
+export function normalizeSlug(input: string): string {
+  const slug = input
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= POST_LIMITS.slug) return slug;
+  const cut = slug.slice(0, POST_LIMITS.slug + 1);
+  const lastDash = cut.lastIndexOf('-');
+  return (lastDash > 0 ? cut.slice(0, lastDash) : cut.slice(0, POST_LIMITS.slug)).replace(/-+$/, '');
+}
+
+// A category or tag name as typed, or null when it has nothing to link to.
+// Names that make the same slug are the same term.
+export function toPostTerm(name: string): PostTerm | null {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  const slug = normalizeSlug(trimmed);
+  return slug ? { slug, name: trimmed } : null;
+}
+
+// "my-post" -> ["my-post-2", "my-post-3", ...], skipping slugs in `taken`
+export function suggestSlugs(base: string, taken: Iterable<string>): string[] {
+  const used = new Set(taken);
+  const suggestions: string[] = [];
+  for (let n = 2; suggestions.length < SLUG_SUGGESTIONS; n++) {
+    const suffix = `-${n}`;
+    const candidate = `${base.slice(0, POST_LIMITS.slug - suffix.length).replace(/-+$/, '')}${suffix}`;
+    if (!used.has(candidate)) suggestions.push(candidate);
+  }
+  return suggestions;
+}
+
+// Whether the draft was saved after it was last published
+export function hasUnpublishedChanges(
+  draftUpdatedAt: string,
+  published: Pick<PublishedVersion, 'updated_at'> | null
+): boolean {
+  return !!published && new Date(draftUpdatedAt).getTime() > new Date(published.updated_at).getTime();
+}
+
+// Whether a published post is still waiting for its publish time
+export function isAwaitingPublish(published: Pick<PublishedVersion, 'publish_at'> | null): boolean {
+  return !!published?.publish_at && new Date(published.publish_at).getTime() > Date.now();
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getKeyFromPublicUrl, getPublicUrlForKey, resolveUploadKey } from './storage-keys';
+
+const KEY = 'uploads/V1StGXR8_Z5jdHi6B-myT.jpg';
+const DOMAIN = 'https://cdn.example.com';
+const R2_ENDPOINT = 'https://account.r2.cloudflarestorage.com/bucket';
+
+beforeEach(() => {
+  vi.stubEnv('NEXT_PUBLIC_R2_DOMAIN', DOMAIN);
+  vi.stubEnv('R2_ACCOUNT_ID', 'account');
+  vi.stubEnv('R2_BUCKET_NAME', 'bucket');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getKeyFromPublicUrl', () => {
+  it('maps public URLs on the public domain and the bucket endpoint to keys', () => {
+    expect(getKeyFromPublicUrl(`${DOMAIN}/${KEY}`)).toBe(KEY);
+    expect(getKeyFromPublicUrl(`${R2_ENDPOINT}/${KEY}`)).toBe(KEY);
+  });
+
+  it('ignores query strings and fragments', () => {
+    expect(getKeyFromPublicUrl(`${DOMAIN}/${KEY}?v=2#top`)).toBe(KEY);
+  });
+
+  it('rejects foreign origins that share the path prefix', () => {
+    expect(getKeyFromPublicUrl(`https://evil.example.net/${KEY}`)).toBeNull();
+    expect(getKeyFromPublicUrl(`https://cdn.example.com.evil.example.net/${KEY}`)).toBeNull();
+    expect(getKeyFromPublicUrl(`https://account.r2.cloudflarestorage.com/other-bucket/${KEY}`)).toBeNull();
+  });
+
+  it('rejects the same host with a different scheme or port', () => {
+    expect(getKeyFromPublicUrl(`http://cdn.example.com/${KEY}`)).toBeNull();
+    expect(getKeyFromPublicUrl(`https://cdn.example.com:8443/${KEY}`)).toBeNull();
+  });
+
+  it('accepts a public domain configured with a trailing slash', () => {
+    vi.stubEnv('NEXT_PUBLIC_R2_DOMAIN', `${DOMAIN}/`);
+    expect(getKeyFromPublicUrl(`${DOMAIN}/${KEY}`)).toBe(KEY);
+    expect(getPublicUrlForKey(KEY)).toBe(`${DOMAIN}/${KEY}`);
+  });
+
+  it('only matches whole path segments of a public domain with a path', () => {
+    vi.stubEnv('NEXT_PUBLIC_R2_DOMAIN', `${DOMAIN}/media`);
+    expect(getKeyFromPublicUrl(`${DOMAIN}/media/${KEY}`)).toBe(KEY);
+    expect(getKeyFromPublicUrl(`${DOMAIN}/media-archive/${KEY}`)).toBeNull();
+  });
+
+  it('rejects strings that are not URLs', () => {
+    expect(getKeyFromPublicUrl('')).toBeNull();
+    expect(getKeyFromPublicUrl('not a url')).toBeNull();
+    expect(getKeyFromPublicUrl(KEY)).toBeNull();
+  });
+});
+
+describe('resolveUploadKey', () => {
+  it('accepts upload keys and their public URLs', () => {
+    expect(resolveUploadKey(KEY)).toBe(KEY);
+    expect(resolveUploadKey('uploads/legacy-name.JPG')).toBe('uploads/legacy-name.JPG');
+    expect(resolveUploadKey(`${DOMAIN}/${KEY}`)).toBe(KEY);
+    expect(resolveUploadKey(`${R2_ENDPOINT}/${KEY}`)).toBe(KEY);
+  });
+
+  it('rejects path traversal', () => {
+    expect(resolveUploadKey('uploads/../x')).toBeNull();
+    expect(resolveUploadKey('uploads/../secret.jpg')).toBeNull();
+    expect(resolveUploadKey(`${DOMAIN}/uploads/../${KEY.slice('uploads/'.length)}`)).toBeNull();
+  });
+
+  it('rejects %2e%2e-encoded segments', () => {
+    expect(resolveUploadKey('uploads/%2e%2e/secret.jpg')).toBeNull();
+    expect(resolveUploadKey(`${DOMAIN}/uploads/%2e%2e/secret.jpg`)).toBeNull();
+    expect(resolveUploadKey(`${DOMAIN}/uploads/%2E%2E%2Fsecret.jpg`)).toBeNull();
+    expect(resolveUploadKey(`${DOMAIN}/uploads/..%2fsecret.jpg`)).toBeNull();
+  });
+
+  it('rejects staging files, variants and other prefixes', () => {
+    expect(resolveUploadKey('incoming/0b4f7f3e-3c1e-4c59-9d8e-6a0b8f1d2c3e/V1StGXR8_Z5jdHi6B-myT')).toBeNull();
+    expect(resolveUploadKey('incoming/anything.jpg')).toBeNull();
+    expect(resolveUploadKey('uploads/V1StGXR8_Z5jdHi6B-myT/640.webp')).toBeNull();
+    expect(resolveUploadKey('avatars/V1StGXR8_Z5jdHi6B-myT.jpg')).toBeNull();
+  });
+
+  it('rejects nested and extensionless upload keys', () => {
+    expect(resolveUploadKey('uploads/a/b.jpg')).toBeNull();
+    expect(resolveUploadKey('uploads/x')).toBeNull();
+    expect(resolveUploadKey('uploads/')).toBeNull();
+  });
+
+  it('rejects upload paths on foreign origins', () => {
+    expect(resolveUploadKey(`https://evil.example.net/${KEY}`)).toBeNull();
+    expect(resolveUploadKey(`http://cdn.example.com/${KEY}`)).toBeNull();
+    expect(resolveUploadKey(`https://cdn.example.com:8443/${KEY}`)).toBeNull();
+  });
+
+  it('rejects non-string input', () => {
+    expect(resolveUploadKey(undefined)).toBeNull();
+    expect(resolveUploadKey(null)).toBeNull();
+    expect(resolveUploadKey(42)).toBeNull();
+    expect(resolveUploadKey({ key: KEY })).toBeNull();
+    expect(resolveUploadKey([KEY])).toBeNull();
+    expect(resolveUploadKey('')).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+// The one place that maps object keys to the public URLs they're served from
+// and back, and decides which keys a request may refer to. Routes never
+// derive a key from a URL themselves.
+
+export const UPLOAD_KEY_PREFIX = 'uploads/';
+export const STAGING_KEY_PREFIX = 'incoming/';
+
+// Keys /api/upload creates, e.g. "uploads/V1StGXR8_Z5jdHi6B-myT.jpg". Uploads
+// from before server-side validation kept the extension of the file's name,
+// so it may be upper case. A single path segment, so never a traversal.
+const UPLOAD_KEY_PATTERN = /^uploads\/[A-Za-z0-9_-]+\.[A-Za-z0-9]+$/;
+
+// Staging keys of presigned uploads: incoming/<user id>/<nanoid>
+const STAGING_KEY_PATTERN = /^incoming\/([0-9a-f-]{36})\/[A-Za-z0-9_-]{21}$/;
+
+// A URL with a scheme, as opposed to a bare key
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+export function isUploadKey(key: string): boolean {
+  return UPLOAD_KEY_PATTERN.test(key);
+}
+
+// Whether `key` is a staging key issued to this user
+export function isStagingKeyFor(key: string, userId: string): boolean {
+  return STAGING_KEY_PATTERN.exec(key)?.[1] === userId;
+}
+
+// Base URLs objects are served from, each ending in "/": NEXT_PUBLIC_R2_DOMAIN
+// when set (with or without a trailing slash), then the bucket's own endpoint
+function getPublicBaseUrls(): string[] {
+  const bases: string[] = [];
+  const publicDomain = (process.env.NEXT_PUBLIC_R2_DOMAIN || '').trim().replace(/\/+$/, '');
+  if (publicDomain) bases.push(`${publicDomain}/`);
+  bases.push(`https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${process.env.R2_BUCKET_NAME}/`);
+  return bases;
+}
+
+// Public URL of an object
+export function getPublicUrlForKey(key: string): string {
+  return `${getPublicBaseUrls()[0]}${key}`;
+}
+
+// The key of the object a public URL points at, or null when the URL isn't
+// served from this bucket. Query strings and fragments are ignored. The key
+// isn't validated; see resolveUploadKey.
+export function getKeyFromPublicUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const base of getPublicBaseUrls()) {
+    let baseUrl: URL;
+    try {
+      baseUrl = new URL(base);
+    } catch {
+      continue;
+    }
+    // The URL parser has already resolved "." and ".." segments, so a path
+    // can't climb out of the base and still match it
+    if (parsed.origin !== baseUrl.origin || !parsed.pathname.startsWith(baseUrl.pathname)) continue;
+
+    try {
+      return decodeURIComponent(parsed.pathname.slice(baseUrl.pathname.length));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// The upload a request refers to, given either its public URL or its key.
+// Null for anything else: other domains, other prefixes, staging files,
+// variants, traversal attempts and malformed input.
+export function resolveUploadKey(urlOrKey: unknown): string | null {
+  if (typeof urlOrKey !== 'string' || !urlOrKey) return null;
+
+  const key = ABSOLUTE_URL_PATTERN.test(urlOrKey) ? getKeyFromPublicUrl(urlOrKey) : urlOrKey;
+  return key && isUploadKey(key) ? key : null;
+}
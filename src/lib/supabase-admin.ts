@@ -0,0 +1,27 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Server-only client authenticated with the service role key, which bypasses
+// row level security. Used for tables the public never touches directly.
+// Never import this from client components.
+
+let supabaseAdmin: SupabaseClient | null = null;
+
+export function isSupabaseAdminConfigured(): boolean {
+  return !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!isSupabaseAdminConfigured()) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  }
+  if (!supabaseAdmin) {
+    supabaseAdmin = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+    });
+  }
+  return supabaseAdmin;
+}
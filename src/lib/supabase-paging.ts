@@ -0,0 +1,37 @@
+// PostgREST caps every response (1000 rows unless the project sets otherwise),
+// so reads that need every row page through with `.range()`.
+
+const PAGE_SIZE = 1000;
+
+type PageResult<T> = {
+  data: T[] | null;
+  error: { message: string } | null;
+  count: number | null;
+};
+
+// Every row of a query. `fetchPage` runs the query for rows `from`..`to`
+// (inclusive) with `{ count: "exact" }` and a stable order; rows added while
+// paging should sort last. Throws when fewer rows arrive than the first page
+// counted, rather than returning part of the table.
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> {
+  const rows: T[] = [];
+  let expected: number | null = null;
+
+  // Continue from what arrived, in case the cap is below PAGE_SIZE
+  for (;;) {
+    const from = rows.length;
+    const { data, error, count } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    expected ??= count;
+    rows.push(...(data || []));
+    if (!data || data.length === 0 || expected === null || rows.length >= expected) break;
+  }
+
+  if (expected === null || rows.length < expected) {
+    throw new Error(`Read ${rows.length} of ${expected ?? "an unknown number of"} rows`);
+  }
+  return rows;
+}
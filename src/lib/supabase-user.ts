@@ -0,0 +1,18 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Server-only client that acts as a signed-in user: requests carry their
+// access token, so row level security applies exactly as it does in their
+// browser. One per request; the token is never stored.
+
+export function createUserSupabaseClient(accessToken: string): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL || '', process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '', {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
@@ -0,0 +1,99 @@
+import type { ImageVariant } from '@/lib/image-variants';
+
+// What /api/upload accepts, shared by the route and the editor so both enforce
+// the same limits and the editor can explain a rejected file.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Larger images are rejected before decoding, whatever their file size
+export const MAX_UPLOAD_PIXELS = 50_000_000;
+
+// Presigned uploads larger than this go up in parts of this size (5 MB is
+// the smallest part S3 and R2 accept), so a dropped connection only costs
+// one part
+export const MULTIPART_PART_BYTES = 5 * 1024 * 1024;
+
+// Types are detected from the file's bytes, never from its name or the
+// browser-reported type. SVG is left out on purpose: it can carry scripts.
+export const ALLOWED_UPLOAD_TYPES = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+} as const;
+
+export type AllowedUploadType = keyof typeof ALLOWED_UPLOAD_TYPES;
+
+// For <input accept>
+export const UPLOAD_ACCEPT = Object.keys(ALLOWED_UPLOAD_TYPES).join(',');
+
+export type UploadErrorCode =
+  | 'no_file'
+  | 'empty_file'
+  | 'file_too_large'
+  | 'unsupported_type'
+  | 'invalid_image'
+  | 'image_too_large'
+  | 'upload_not_found';
+
+export const UPLOAD_ERROR_MESSAGES: Record<UploadErrorCode, string> = {
+  no_file: 'No file was sent.',
+  empty_file: 'The file is empty.',
+  file_too_large: `The file is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`,
+  unsupported_type: 'Only JPG, PNG, WebP, GIF and AVIF images can be uploaded.',
+  invalid_image: 'The image is damaged or could not be read.',
+  image_too_large: `The image has more than ${MAX_UPLOAD_PIXELS / 1_000_000} megapixels.`,
+  upload_not_found: 'The upload expired before it finished. Please try again.',
+};
+
+export function isAllowedUploadType(type: string): type is AllowedUploadType {
+  return type in ALLOWED_UPLOAD_TYPES;
+}
+
+// Returned by POST /api/upload and POST /api/upload/complete
+export type UploadResult = {
+  publicUrl: string;
+  key: string;
+  contentType: AllowedUploadType;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+};
+
+// Returned by POST /api/upload/presign. The file goes to a staging key and
+// only becomes an upload once /api/upload/complete has checked it.
+export type PresignedUpload =
+  | {
+      mode: 'put';
+      key: string;
+      url: string;
+      // Signed into the URL; the PUT must send exactly these
+      headers: Record<string, string>;
+      expiresAt: string;
+    }
+  | {
+      mode: 'multipart';
+      key: string;
+      uploadId: string;
+      partSize: number;
+      parts: Array<{ partNumber: number; url: string }>;
+      expiresAt: string;
+    };
+
+export type CompletedPart = { partNumber: number; etag: string };
+
+// The message to show for a failed upload response, preferring the one for
+// its error code
+export async function getUploadErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body?.code && body.code in UPLOAD_ERROR_MESSAGES) {
+      return UPLOAD_ERROR_MESSAGES[body.code as UploadErrorCode];
+    }
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not JSON, e.g. a proxy error page
+  }
+  return 'Upload failed. Please try again.';
+}
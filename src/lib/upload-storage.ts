@@ -0,0 +1,193 @@
+import { nanoid } from 'nanoid';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+import { r2 } from '@/lib/r2';
+import { STAGING_KEY_PREFIX, UPLOAD_KEY_PREFIX, getPublicUrlForKey, isUploadKey } from '@/lib/storage-keys';
+import { deleteImageVariants, storeImageVariants } from '@/lib/image-variants-storage';
+import { UploadValidationError, type ValidatedUpload } from '@/lib/upload-validation';
+import {
+  MAX_UPLOAD_BYTES,
+  MULTIPART_PART_BYTES,
+  type AllowedUploadType,
+  type CompletedPart,
+  type PresignedUpload,
+  type UploadResult,
+} from '@/lib/upload-policy';
+
+// Server-only. Presigned uploads land under incoming/<user id>/ and are
+// never served from there: /api/upload/complete reads them back, runs them
+// through the same validation as /api/upload and stores the cleaned copy
+// under uploads/. Files left behind by abandoned uploads are removed by the
+// asset GC job; parts of abandoned multipart uploads need a lifecycle rule.
+
+const PRESIGNED_URL_TTL_SECONDS = 10 * 60;
+
+// Store a validated upload and its responsive variants
+export async function storeValidatedUpload(bucketName: string, upload: ValidatedUpload): Promise<UploadResult> {
+  const key = `${UPLOAD_KEY_PREFIX}${nanoid()}.${upload.extension}`;
+
+  await r2.send(new PutObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    Body: upload.buffer,
+    ContentType: upload.contentType,
+  }));
+
+  const publicUrl = getPublicUrlForKey(key);
+
+  // The original is usable on its own, so failing variants don't fail the upload
+  let variantSet = null;
+  try {
+    variantSet = await storeImageVariants(bucketName, { ...upload, key, url: publicUrl });
+  } catch (error) {
+    console.error('Error generating image variants:', { key, error });
+  }
+
+  return {
+    publicUrl,
+    key,
+    contentType: upload.contentType,
+    width: upload.width,
+    height: upload.height,
+    variants: variantSet?.variants || [],
+  };
+}
+
+// Issue URLs for uploading one file of the declared type and size straight to
+// the bucket. A single PUT has both signed in, so R2 refuses anything else;
+// multipart parts can't be pinned that way, so completion re-checks the size.
+export async function createPresignedUpload(
+  bucketName: string,
+  userId: string,
+  { contentType, size }: { contentType: AllowedUploadType; size: number }
+): Promise<PresignedUpload> {
+  if (size <= 0) throw new UploadValidationError('empty_file');
+  if (size > MAX_UPLOAD_BYTES) throw new UploadValidationError('file_too_large');
+
+  const key = `${STAGING_KEY_PREFIX}${userId}/${nanoid()}`;
+  const expiresAt = new Date(Date.now() + PRESIGNED_URL_TTL_SECONDS * 1000).toISOString();
+
+  if (size <= MULTIPART_PART_BYTES) {
+    const url = await getSignedUrl(
+      r2,
+      new PutObjectCommand({ Bucket: bucketName, Key: key, ContentType: contentType, ContentLength: size }),
+      {
+        expiresIn: PRESIGNED_URL_TTL_SECONDS,
+        signableHeaders: new Set(['content-type', 'content-length']),
+      }
+    );
+    return { mode: 'put', key, url, headers: { 'Content-Type': contentType }, expiresAt };
+  }
+
+  const { UploadId: uploadId } = await r2.send(new CreateMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: key,
+    ContentType: contentType,
+  }));
+  if (!uploadId) throw new Error('R2 did not return a multipart upload id');
+
+  const partCount = Math.ceil(size / MULTIPART_PART_BYTES);
+  const parts = await Promise.all(
+    Array.from({ length: partCount }, async (_, index) => ({
+      partNumber: index + 1,
+      url: await getSignedUrl(
+        r2,
+        new UploadPartCommand({ Bucket: bucketName, Key: key, UploadId: uploadId, PartNumber: index + 1 }),
+        { expiresIn: PRESIGNED_URL_TTL_SECONDS }
+      ),
+    }))
+  );
+
+  return { mode: 'multipart', key, uploadId, partSize: MULTIPART_PART_BYTES, parts, expiresAt };
+}
+
+export async function completeMultipartStagingUpload(
+  bucketName: string,
+  key: string,
+  uploadId: string,
+  parts: CompletedPart[]
+): Promise<void> {
+  await r2.send(new CompleteMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: key,
+    UploadId: uploadId,
+    MultipartUpload: {
+      Parts: [...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+    },
+  }));
+}
+
+export async function abortMultipartStagingUpload(bucketName: string, key: string, uploadId: string): Promise<void> {
+  await r2.send(new AbortMultipartUploadCommand({ Bucket: bucketName, Key: key, UploadId: uploadId }));
+}
+
+// Delete an upload and its variants. Refuses anything that isn't an upload
+// key, so a key derived from a request can never reach other objects.
+export async function deleteStoredUpload(bucketName: string, key: string): Promise<void> {
+  if (!isUploadKey(key)) throw new Error(`Not an upload key: ${key}`);
+
+  await r2.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+  await deleteImageVariants(bucketName, key);
+}
+
+// Read a staged upload back, checking its size before downloading it
+export async function readStagingUpload(bucketName: string, key: string): Promise<Buffer> {
+  let size: number;
+  try {
+    const head = await r2.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+    size = head.ContentLength ?? 0;
+  } catch (error: any) {
+    if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+      throw new UploadValidationError('upload_not_found');
+    }
+    throw error;
+  }
+  if (size > MAX_UPLOAD_BYTES) throw new UploadValidationError('file_too_large');
+
+  const object = await r2.send(new GetObjectCommand({ Bucket: bucketName, Key: key }));
+  if (!object.Body) throw new UploadValidationError('upload_not_found');
+  return Buffer.from(await object.Body.transformToByteArray());
+}
+
+export async function deleteStagingUpload(bucketName: string, key: string): Promise<void> {
+  await r2.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+}
+
+// Delete staged files of uploads that were never completed or aborted
+export async function deleteStaleStagingUploads(bucketName: string, olderThan: Date): Promise<number> {
+  let deleted = 0;
+  let continuationToken: string | undefined;
+
+  do {
+    const listed = await r2.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: STAGING_KEY_PREFIX,
+      ContinuationToken: continuationToken,
+    }));
+    const stale = (listed.Contents || [])
+      .filter((object) => object.Key && object.LastModified && object.LastModified < olderThan)
+      .map((object) => ({ Key: object.Key! }));
+
+    if (stale.length > 0) {
+      await r2.send(new DeleteObjectsCommand({ Bucket: bucketName, Delete: { Objects: stale, Quiet: true } }));
+      deleted += stale.length;
+    }
+    continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return deleted;
+}
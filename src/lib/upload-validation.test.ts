@@ -0,0 +1,129 @@
+import sharp from 'sharp';
+import { crc32 } from 'zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { MAX_UPLOAD_BYTES } from './upload-policy';
+import { sniffImageType, UploadValidationError, validateUpload, validateUploadBuffer } from './upload-validation';
+
+function image(width = 4, height = 3) {
+  return sharp({ create: { width, height, channels: 3, background: '#336699' } });
+}
+
+// An ISO-BMFF header: box size, "ftyp", then the major brand, minor version
+// and compatible brands
+function ftyp(major: string, compatible: string[]): Buffer {
+  const body = Buffer.concat([
+    Buffer.from(major, 'latin1'),
+    Buffer.alloc(4),
+    ...compatible.map((brand) => Buffer.from(brand, 'latin1')),
+  ]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(8 + body.length);
+  return Buffer.concat([size, Buffer.from('ftyp', 'latin1'), body, Buffer.alloc(16)]);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<UploadValidationError> {
+  const error = await promise.then(() => null, (e) => e);
+  expect(error).toBeInstanceOf(UploadValidationError);
+  return error;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sniffImageType', () => {
+  it('detects the allowed formats from their magic bytes', async () => {
+    expect(sniffImageType(await image().jpeg().toBuffer())).toBe('image/jpeg');
+    expect(sniffImageType(await image().png().toBuffer())).toBe('image/png');
+    expect(sniffImageType(await image().webp().toBuffer())).toBe('image/webp');
+    expect(sniffImageType(await image().gif().toBuffer())).toBe('image/gif');
+    expect(sniffImageType(Buffer.from('GIF87a\x01\x00', 'latin1'))).toBe('image/gif');
+  });
+
+  it('detects AVIF by its major or a compatible brand', () => {
+    expect(sniffImageType(ftyp('avif', ['mif1']))).toBe('image/avif');
+    expect(sniffImageType(ftyp('mif1', ['miaf', 'avis']))).toBe('image/avif');
+  });
+
+  it('rejects other ISO-BMFF files and ignores the minor version', () => {
+    expect(sniffImageType(ftyp('isom', ['mp41']))).toBeNull();
+    expect(sniffImageType(ftyp('heic', ['mif1', 'heic']))).toBeNull();
+
+    const minorVersionOnly = ftyp('mp42', []);
+    minorVersionOnly.write('avif', 12, 'latin1');
+    expect(sniffImageType(minorVersionOnly)).toBeNull();
+  });
+
+  it('rejects SVG, HTML and other files whatever their name', () => {
+    expect(sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull();
+    expect(sniffImageType(Buffer.from('<!DOCTYPE html><script>alert(1)</script>'))).toBeNull();
+    expect(sniffImageType(Buffer.from('%PDF-1.7'))).toBeNull();
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WAVE'))).toBeNull();
+    expect(sniffImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('validateUploadBuffer', () => {
+  it('re-encodes in the same format and reports the dimensions', async () => {
+    const upload = await validateUploadBuffer(await image(4, 3).png().toBuffer());
+    expect(upload).toMatchObject({ contentType: 'image/png', extension: 'png', width: 4, height: 3 });
+    expect(sniffImageType(upload.buffer)).toBe('image/png');
+  });
+
+  it('strips EXIF metadata after applying the orientation', async () => {
+    const original = await image(4, 2)
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: 'Someone' } } })
+      .toBuffer();
+    expect((await sharp(original).metadata()).exif).toBeDefined();
+
+    const upload = await validateUploadBuffer(original);
+    const metadata = await sharp(upload.buffer).metadata();
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    expect([upload.width, upload.height]).toEqual([2, 4]);
+  });
+
+  it('rejects empty, oversized and unsupported files', async () => {
+    expect((await rejection(validateUploadBuffer(Buffer.alloc(0)))).code).toBe('empty_file');
+    expect((await rejection(validateUploadBuffer(Buffer.alloc(MAX_UPLOAD_BYTES + 1)))).status).toBe(413);
+
+    const svg = await rejection(validateUploadBuffer(Buffer.from('<svg></svg>')));
+    expect(svg).toMatchObject({ code: 'unsupported_type', status: 415 });
+  });
+
+  it('rejects files with image magic bytes that do not decode', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const truncated = (await image().png().toBuffer()).subarray(0, 40);
+    expect(await rejection(validateUploadBuffer(truncated))).toMatchObject({ code: 'invalid_image', status: 422 });
+  });
+
+  it('rejects images over the pixel limit before decoding them', async () => {
+    // A PNG whose header claims 10000 x 10000 pixels
+    const png = Buffer.from(await image(1, 1).png().toBuffer());
+    png.writeUInt32BE(10_000, 16);
+    png.writeUInt32BE(10_000, 20);
+    png.writeUInt32BE(crc32(png.subarray(12, 29)), 29);
+
+    expect((await rejection(validateUploadBuffer(png))).code).toBe('image_too_large');
+  });
+});
+
+describe('validateUpload', () => {
+  it('rejects a missing file and checks the size before reading it', async () => {
+    expect((await rejection(validateUpload(null))).code).toBe('no_file');
+
+    const file = new File([new Uint8Array(1)], 'big.jpg', { type: 'image/jpeg' });
+    Object.defineProperty(file, 'size', { value: MAX_UPLOAD_BYTES + 1 });
+    const arrayBuffer = vi.spyOn(file, 'arrayBuffer');
+    expect((await rejection(validateUpload(file))).code).toBe('file_too_large');
+    expect(arrayBuffer).not.toHaveBeenCalled();
+  });
+
+  it('ignores the name and browser-reported type', async () => {
+    const bytes = await image().gif().toBuffer();
+    const file = new File([new Uint8Array(bytes)], 'photo.jpg', { type: 'image/jpeg' });
+    expect((await validateUpload(file)).contentType).toBe('image/gif');
+  });
+});
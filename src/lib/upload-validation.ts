@@ -0,0 +1,141 @@
+import sharp from 'sharp';
+import { NextResponse } from 'next/server';
+
+import {
+  ALLOWED_UPLOAD_TYPES,
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_PIXELS,
+  UPLOAD_ERROR_MESSAGES,
+  type AllowedUploadType,
+  type UploadErrorCode,
+} from '@/lib/upload-policy';
+
+const ERROR_STATUS: Record<UploadErrorCode, number> = {
+  no_file: 400,
+  empty_file: 400,
+  file_too_large: 413,
+  unsupported_type: 415,
+  invalid_image: 422,
+  image_too_large: 413,
+  upload_not_found: 410,
+};
+
+export class UploadValidationError extends Error {
+  readonly code: UploadErrorCode;
+  readonly status: number;
+
+  constructor(code: UploadErrorCode) {
+    super(UPLOAD_ERROR_MESSAGES[code]);
+    this.name = 'UploadValidationError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+// The JSON error the editor shows: the message plus a code it can act on
+export function uploadErrorResponse(error: UploadValidationError): NextResponse {
+  return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+}
+
+export type ValidatedUpload = {
+  buffer: Buffer;
+  contentType: AllowedUploadType;
+  extension: string;
+  width: number;
+  height: number;
+};
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString('latin1');
+}
+
+// Detect the image type from its magic bytes. Returns null for anything
+// outside the allowlist.
+export function sniffImageType(buffer: Buffer): AllowedUploadType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'image/webp';
+
+  // ISO-BMFF: an `ftyp` box whose major or compatible brands include AVIF
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    for (let offset = 8; offset + 4 <= boxSize; offset += 4) {
+      if (offset === 12) continue; // minor version, not a brand
+      const brand = ascii(buffer, offset, offset + 4);
+      if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    }
+  }
+  return null;
+}
+
+// Decode and re-encode in the same format. Orientation is applied to the
+// pixels first, then all metadata (EXIF including GPS, XMP, IPTC) is dropped;
+// only the colour profile is kept. Animated GIF and WebP keep their frames.
+async function normalizeImage(buffer: Buffer, contentType: AllowedUploadType) {
+  const animated = contentType === 'image/gif' || contentType === 'image/webp';
+  const image = sharp(buffer, { animated, limitInputPixels: MAX_UPLOAD_PIXELS })
+    .rotate()
+    .keepIccProfile();
+
+  switch (contentType) {
+    case 'image/jpeg':
+      image.jpeg({ quality: 90, mozjpeg: true });
+      break;
+    case 'image/png':
+      image.png({ compressionLevel: 9 });
+      break;
+    case 'image/webp':
+      image.webp({ quality: 90 });
+      break;
+    case 'image/gif':
+      image.gif();
+      break;
+    case 'image/avif':
+      image.avif({ quality: 70 });
+      break;
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  // Animated output stacks its frames vertically; report one frame's height
+  return { data, width: info.width, height: info.pageHeight || info.height };
+}
+
+// Check an uploaded file against the upload policy and return a cleaned copy
+// to store. Throws UploadValidationError when the file is rejected.
+export async function validateUpload(file: File | null): Promise<ValidatedUpload> {
+  if (!file) throw new UploadValidationError('no_file');
+  if (file.size > MAX_UPLOAD_BYTES) throw new UploadValidationError('file_too_large');
+  return validateUploadBuffer(Buffer.from(await file.arrayBuffer()));
+}
+
+// Same as validateUpload, for bytes already read, e.g. a presigned upload
+// fetched back from the staging area
+export async function validateUploadBuffer(original: Buffer): Promise<ValidatedUpload> {
+  if (original.length === 0) throw new UploadValidationError('empty_file');
+  if (original.length > MAX_UPLOAD_BYTES) throw new UploadValidationError('file_too_large');
+
+  const contentType = sniffImageType(original);
+  if (!contentType) throw new UploadValidationError('unsupported_type');
+
+  try {
+    const { data, width, height } = await normalizeImage(original, contentType);
+    return {
+      buffer: data,
+      contentType,
+      extension: ALLOWED_UPLOAD_TYPES[contentType],
+      width,
+      height,
+    };
+  } catch (error: any) {
+    if (/pixel limit/i.test(error?.message || '')) {
+      throw new UploadValidationError('image_too_large');
+    }
+    console.warn('Upload could not be decoded:', { contentType, message: error?.message || error });
+    throw new UploadValidationError('invalid_image');
+  }
+}
@@ -16,10 +16,7 @@ CREATE TABLE IF NOT EXISTS posts (
 -- Enable Row Level Security
 ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
 
--- Policy: Anyone can read published posts
-CREATE POLICY "Public can view published posts" ON posts
-  FOR SELECT
-  USING (is_published = true);
+-- Rows are drafts; readers get the published_posts table further down
 
 -- Policy: Authenticated users can do everything
 CREATE POLICY "Authenticated users have full access" ON posts
@@ -46,3 +43,324 @@ CREATE TRIGGER update_posts_updated_at
   BEFORE UPDATE ON posts
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
+
+-- Assistant conversations, keyed by the anonymous session cookie set by /api/chat.
+-- Only the server writes them, with the service role key
+-- (SUPABASE_SERVICE_ROLE_KEY): RLS is enabled and only signed-in dashboard users
+-- can read them (assistant analytics).
+CREATE TABLE IF NOT EXISTS assistant_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  sources JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE assistant_messages ENABLE ROW LEVEL SECURITY;
+
+-- Index for loading a session's thread in order
+CREATE INDEX IF NOT EXISTS assistant_messages_session_idx ON assistant_messages(session_id, created_at);
+
+-- Index for purging messages past the retention window
+CREATE INDEX IF NOT EXISTS assistant_messages_created_idx ON assistant_messages(created_at);
+
+-- Policy: Signed-in dashboard users can read transcripts (assistant analytics)
+CREATE POLICY "Authenticated users can read assistant messages" ON assistant_messages
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- One row per assistant question, written by /api/chat with the service role key
+-- and purged by /api/cron/purge-conversations after ASSISTANT_ANALYTICS_RETENTION_DAYS
+CREATE TABLE IF NOT EXISTS assistant_queries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL,
+  question TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('answered', 'no_context', 'error', 'cancelled')),
+  retrieval_hit BOOLEAN NOT NULL DEFAULT false,
+  candidate_chunks INTEGER NOT NULL DEFAULT 0,
+  passages INTEGER NOT NULL DEFAULT 0,
+  context_tokens INTEGER NOT NULL DEFAULT 0,
+  top_score REAL,
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  retrieval_error TEXT,
+  retrieval_ms INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  finish_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE assistant_queries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Signed-in dashboard users can read the query log
+CREATE POLICY "Authenticated users can read assistant queries" ON assistant_queries
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Index for the analytics page's date range
+CREATE INDEX IF NOT EXISTS assistant_queries_created_idx ON assistant_queries(created_at DESC);
+
+-- Responsive AVIF/WebP variants of images uploaded through /api/upload, keyed
+-- by the original's public URL. Written with the service role key; the
+-- variant URLs are public anyway, so anyone can read them.
+CREATE TABLE IF NOT EXISTS image_variants (
+  url TEXT PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  -- [{ "width": 640, "format": "avif", "url": "https://..." }, ...]
+  variants JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE image_variants ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read image variants (blog pages build srcset from them)
+CREATE POLICY "Public can view image variants" ON image_variants
+  FOR SELECT
+  USING (true);
+
+-- Every file uploaded through /api/upload, with who uploaded it. Written with
+-- the service role key. Objects no post references are deleted by the daily
+-- /api/cron/gc-assets job once they have been unused for ASSET_GC_GRACE_DAYS.
+CREATE TABLE IF NOT EXISTS assets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL UNIQUE,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  width INTEGER,
+  height INTEGER,
+  -- Since when no post has used the asset (upload time until one does);
+  -- null while referenced
+  unreferenced_since TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Which posts use which assets, as a cover image or in their Markdown, in
+-- the draft, the published version or a revision
+CREATE TABLE IF NOT EXISTS post_assets (
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  PRIMARY KEY (post_id, asset_id)
+);
+
+ALTER TABLE assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_assets ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Signed-in dashboard users can browse the media library
+CREATE POLICY "Authenticated users can read assets" ON assets
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can read post assets" ON post_assets
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Index for the media library, newest first
+CREATE INDEX IF NOT EXISTS assets_created_idx ON assets(created_at DESC);
+
+-- Index for looking up the posts that use an asset
+CREATE INDEX IF NOT EXISTS post_assets_asset_idx ON post_assets(asset_id);
+
+-- Snapshots of posts, taken by the posts service on explicit saves, on every
+-- publish, before restores and every so often while autosaving, so a bad
+-- edit can be rolled back from the editor's revisions panel
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  slug TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  excerpt TEXT,
+  cover_image TEXT,
+  is_published BOOLEAN NOT NULL DEFAULT false,
+  -- autosave, save, publish or restore
+  reason TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Revisions are written and read by signed-in dashboard users through
+-- the posts service, like the posts themselves; nobody edits history
+CREATE POLICY "Authenticated users can read post revisions" ON post_revisions
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can add post revisions" ON post_revisions
+  FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Index for a post's history, newest first
+CREATE INDEX IF NOT EXISTS post_revisions_post_idx ON post_revisions(post_id, created_at DESC);
+
+-- Older databases may predate pinning
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN DEFAULT false;
+
+-- The live version of each published post. The dashboard edits the draft in
+-- `posts`; publishing copies the draft here. The blog only reads this table,
+-- so autosaves never reach readers. `posts.is_published` says whether a post
+-- has a live version.
+CREATE TABLE IF NOT EXISTS published_posts (
+  post_id UUID PRIMARY KEY REFERENCES posts(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  excerpt TEXT,
+  cover_image TEXT,
+  is_pinned BOOLEAN NOT NULL DEFAULT false,
+  -- When the post was created, which the blog dates and sorts posts by
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- When the post was first published, and last published
+  published_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE published_posts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read live posts
+CREATE POLICY "Public can view live posts" ON published_posts
+  FOR SELECT
+  USING (true);
+
+-- Policy: Authenticated users publish and unpublish through the posts service
+CREATE POLICY "Authenticated users can publish posts" ON published_posts
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Index for the blog index, pinned first then newest
+CREATE INDEX IF NOT EXISTS published_posts_list_idx ON published_posts(is_pinned DESC, created_at DESC);
+
+-- Posts published before drafts were separate go live as they are
+INSERT INTO published_posts (post_id, slug, title, content, excerpt, cover_image, is_pinned, created_at, published_at, updated_at)
+SELECT id, slug, title, content, excerpt, cover_image, COALESCE(is_pinned, false), created_at,
+  COALESCE(updated_at, created_at), COALESCE(updated_at, created_at)
+FROM posts
+WHERE is_published = true
+ON CONFLICT (post_id) DO NOTHING;
+
+-- Drafts are private now; readers get published_posts instead
+DROP POLICY IF EXISTS "Public can view published posts" ON posts;
+
+-- Scheduling: a live version can wait for publish_at before readers see it,
+-- and is taken down at unpublish_at. Either may be empty. Readers only ever
+-- see versions inside their window; the publish-scheduled cron then updates
+-- posts.is_published and the assistant's knowledge to match.
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY IF EXISTS "Public can view live posts" ON published_posts;
+
+-- Policy: Anyone can read live posts inside their publishing window
+CREATE POLICY "Public can view live posts" ON published_posts
+  FOR SELECT
+  USING (
+    (publish_at IS NULL OR publish_at <= NOW())
+    AND (unpublish_at IS NULL OR unpublish_at > NOW())
+  );
+
+-- Categories and tags. A post has at most one category and any number of
+-- tags; like the rest of a post, the draft's are copied to the live version
+-- on publish.
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+ALTER TABLE published_posts ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+-- Tags of drafts
+CREATE TABLE IF NOT EXISTS post_tags (
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (post_id, tag_id)
+);
+
+-- Tags of live versions
+CREATE TABLE IF NOT EXISTS published_post_tags (
+  post_id UUID NOT NULL REFERENCES published_posts(post_id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (post_id, tag_id)
+);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE published_post_tags ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read categories and tags
+CREATE POLICY "Public can view categories" ON categories
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public can view tags" ON tags
+  FOR SELECT
+  USING (true);
+
+-- Policy: Anyone can read the tags of live posts inside their publishing
+-- window, like the posts themselves
+CREATE POLICY "Public can view live post tags" ON published_post_tags
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM published_posts
+      WHERE published_posts.post_id = published_post_tags.post_id
+        AND (published_posts.publish_at IS NULL OR published_posts.publish_at <= NOW())
+        AND (published_posts.unpublish_at IS NULL OR published_posts.unpublish_at > NOW())
+    )
+  );
+
+-- Policy: Authenticated users manage them through the posts service
+CREATE POLICY "Authenticated users can manage categories" ON categories
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage tags" ON tags
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage post tags" ON post_tags
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage live post tags" ON published_post_tags
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Indexes for the category and tag listing pages
+CREATE INDEX IF NOT EXISTS published_posts_category_idx ON published_posts(category_id);
+CREATE INDEX IF NOT EXISTS published_post_tags_tag_idx ON published_post_tags(tag_id);
+
+-- Chunk texts of the assistant's BM25 keyword index, one row per chunk and
+-- namespace. Written by scripts/load-rag-data.ts and blog post syncs with the
+-- service role key; the table has no policies, so the public can't read it.
+CREATE TABLE IF NOT EXISTS keyword_chunks (
+  namespace TEXT NOT NULL,
+  id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  metadata JSONB,
+  PRIMARY KEY (namespace, id)
+);
+
+ALTER TABLE keyword_chunks ENABLE ROW LEVEL SECURITY;